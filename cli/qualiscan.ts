@@ -0,0 +1,223 @@
+#!/usr/bin/env node
+// qualiscan: runs the web app's coverage analysis on feature files from disk, for CI.
+//   qualiscan analyze --source specs/ --qa tests/features/ --format md --min-coverage 80
+// Prints a summary, writes a report file and exits with 1 when a quality gate fails (2 on bad input).
+// Gates come from the profile's "gates" list; --min-coverage adds one more.
+//   qualiscan serve --port 8787
+// Serves the same engine as a local REST API (cli/server.ts).
+import { createHash } from 'node:crypto';
+import { existsSync, mkdirSync, readFileSync, readdirSync, statSync, writeFileSync } from 'node:fs';
+import { dirname, join, relative, resolve } from 'node:path';
+import { parseArgs } from 'node:util';
+import {
+  DEFAULT_MATCHING_PROFILE,
+  analyzeCoverage,
+  analyzeGaps,
+  evaluateGates,
+  findDuplicates,
+  parseGherkin,
+  parseMatchingProfile,
+  qualityGatesPassed,
+  type GherkinScenario,
+  type MatchingProfile,
+  type QualityGateRule
+} from '../lib/qualiscanCore';
+import { MATCHING_PROFILE_FILE_NAME } from '../lib/matchingProfile';
+import { NESTED_FEATURE_FILE_EXTENSIONS, hasExtension, isHiddenPath } from '../lib/featureFiles';
+import { createQualiscanServer } from './server';
+import {
+  REPORT_FILE_EXTENSIONS,
+  REPORT_FORMATS,
+  buildCoverageReport,
+  renderCoverageReport,
+  type ReportFormat,
+  type ReportInput
+} from '../lib/coverageReport';
+
+const DEFAULT_PORT = 8787;
+
+const USAGE = `Usage: qualiscan analyze --source <path>... --qa <path>... [options]
+       qualiscan serve [--port <n>] [--host <address>] [--profile <file>] [--verbose]
+
+Paths are feature files or directories, searched recursively for ${NESTED_FEATURE_FILE_EXTENSIONS.join(' and ')} files.
+
+Options:
+  --source <path>        Use case scenarios (repeatable)
+  --qa <path>            QA test scenarios (repeatable)
+  --format <format>      Report format: ${REPORT_FORMATS.join(', ')} (default: json)
+  --output <file>        Report file (default: qualiscan-report.<format>)
+  --min-coverage <n>     Fail when coverage is below n percent, on top of the profile's gates
+  --mode <mode>          lenient or strict coverage (default: lenient)
+  --step-matching        Count matches with unasserted steps as partially covered
+  --duplicates           Add duplicate detection over the QA scenarios to the report
+  --profile <file>       Matching profile and quality gates (default: ./${MATCHING_PROFILE_FILE_NAME} when present)
+  --language <code>      Gherkin dialect for files without a "# language:" header
+  --verbose              Print the engine's matching log to stderr
+  -h, --help             Show this help
+
+serve starts a local REST API (POST /analyze, /duplicates, /gaps, /documents/extract; GET /openapi.json):
+  --port <n>             Port to listen on (default: ${DEFAULT_PORT})
+  --host <address>       Address to bind (default: 127.0.0.1)
+  --profile <file>       Profile for requests that do not send one (default: ./${MATCHING_PROFILE_FILE_NAME} when present)
+  GEMINI_API_KEY         Environment variable with the key /documents/extract uses by default
+`;
+
+// Bad arguments or unreadable input, as opposed to a failed gate
+class UsageError extends Error {}
+
+const collectFeaturePaths = (path: string): string[] => {
+  if (!existsSync(path)) throw new UsageError(`No such file or directory: ${path}`);
+  if (!statSync(path).isDirectory()) return [path];
+  return readdirSync(path, { recursive: true, encoding: 'utf8' })
+    .map(entry => entry.split('\\').join('/'))
+    .filter(entry => !isHiddenPath(entry) && hasExtension(entry, NESTED_FEATURE_FILE_EXTENSIONS))
+    .sort()
+    .map(entry => join(path, entry))
+    .filter(file => statSync(file).isFile());
+};
+
+// Scenarios of every file, plus each file's hash for the report
+const loadScenarios = (
+  paths: string[],
+  language: string | undefined,
+  role: ReportInput['role']
+): { scenarios: GherkinScenario[]; inputs: ReportInput[] } => {
+  const files = [...new Set(paths.flatMap(collectFeaturePaths))];
+  if (files.length === 0) throw new UsageError(`No feature files found for --${role}`);
+  const inputs: ReportInput[] = [];
+  const scenarios = files.flatMap(file => {
+    const fileName = relative(process.cwd(), file) || file;
+    const data = readFileSync(file);
+    inputs.push({ role, path: fileName, bytes: data.length, sha256: createHash('sha256').update(data).digest('hex') });
+    const parsed = parseGherkin(data.toString('utf8'), { fileName, language });
+    parsed.diagnostics.forEach(diagnostic =>
+      console.error(`${fileName}:${diagnostic.location.line}:${diagnostic.location.column}: ${diagnostic.severity}: ${diagnostic.message}`)
+    );
+    return parsed.scenarios;
+  });
+  return { scenarios, inputs };
+};
+
+const loadProfile = (path: string | undefined): MatchingProfile | undefined => {
+  const file = path ?? (existsSync(MATCHING_PROFILE_FILE_NAME) ? MATCHING_PROFILE_FILE_NAME : undefined);
+  if (!file) return undefined;
+  try {
+    return parseMatchingProfile(readFileSync(file, 'utf8'));
+  } catch (e) {
+    throw new UsageError(`${file}: ${e instanceof Error ? e.message : String(e)}`);
+  }
+};
+
+const parseNumber = (value: string | undefined, name: string): number | undefined => {
+  if (value === undefined) return undefined;
+  const number = Number(value);
+  if (!Number.isFinite(number)) throw new UsageError(`--${name} must be a number, got "${value}"`);
+  return number;
+};
+
+const analyze = (args: string[]): number => {
+  const { values } = parseArgs({
+    args,
+    options: {
+      source: { type: 'string', multiple: true },
+      qa: { type: 'string', multiple: true },
+      format: { type: 'string', default: 'json' },
+      output: { type: 'string' },
+      'min-coverage': { type: 'string' },
+      mode: { type: 'string', default: 'lenient' },
+      'step-matching': { type: 'boolean', default: false },
+      duplicates: { type: 'boolean', default: false },
+      profile: { type: 'string' },
+      language: { type: 'string' },
+      verbose: { type: 'boolean', default: false },
+      help: { type: 'boolean', short: 'h', default: false }
+    }
+  });
+  if (values.help) {
+    console.log(USAGE);
+    return 0;
+  }
+  if (!values.source?.length || !values.qa?.length) throw new UsageError('Both --source and --qa are required');
+  const format = values.format as ReportFormat;
+  if (!REPORT_FORMATS.includes(format)) throw new UsageError(`--format must be one of ${REPORT_FORMATS.join(', ')}`);
+  if (values.mode !== 'lenient' && values.mode !== 'strict') throw new UsageError('--mode must be lenient or strict');
+  const minCoverage = parseNumber(values['min-coverage'], 'min-coverage');
+
+  const profile = loadProfile(values.profile);
+  const source = loadScenarios(values.source, values.language, 'source');
+  const qa = loadScenarios(values.qa, values.language, 'qa');
+  // stdout is kept for the summary
+  const log = values.verbose ? (message: string) => console.error(message) : undefined;
+  const result = analyzeCoverage(source.scenarios, qa.scenarios, { mode: values.mode, stepMatching: values['step-matching'], profile, log });
+  const rules: QualityGateRule[] = [...result.profile.gates, ...(minCoverage === undefined ? [] : [{ type: 'coverage' as const, min: minCoverage }])];
+  const duplicates = values.duplicates ? findDuplicates(result.qaScenarios, { profile: result.profile }) : undefined;
+  const gates = evaluateGates(result, { rules, duplicates });
+  const report = buildCoverageReport(result, { gates, inputs: [...source.inputs, ...qa.inputs], gaps: analyzeGaps(result), duplicates });
+
+  const output = resolve(values.output ?? `qualiscan-report.${REPORT_FILE_EXTENSIONS[format]}`);
+  mkdirSync(dirname(output), { recursive: true });
+  writeFileSync(output, renderCoverageReport(report, format));
+
+  console.log(`QualiScan coverage (${report.mode}${report.stepMatching ? ', step matching' : ''}, profile "${report.profile}")`);
+  console.log(`  Coverage:          ${report.coverage}%`);
+  console.log(`  Use cases:         ${report.totals.source}`);
+  console.log(`  QA scenarios:      ${report.totals.qa}`);
+  console.log(`  Covered:           ${report.totals.covered}`);
+  if (report.stepMatching) console.log(`  Partially covered: ${report.totals.partial}`);
+  console.log(`  Missing:           ${report.totals.missing}`);
+  console.log(`  Unmatched QA:      ${report.totals.unmatchedQA}`);
+  gates.forEach(gate => console.log(`${gate.skipped ? '⏭️' : gate.passed ? '✅' : '❌'} ${gate.name}: ${gate.message}`));
+  console.log(`Report written to ${relative(process.cwd(), output) || output}`);
+
+  return qualityGatesPassed(gates) ? 0 : 1;
+};
+
+// Runs until interrupted; --verbose prints the engine's matching log to stderr
+const serve = (args: string[]): number => {
+  const { values } = parseArgs({
+    args,
+    options: {
+      port: { type: 'string', default: String(DEFAULT_PORT) },
+      host: { type: 'string', default: '127.0.0.1' },
+      profile: { type: 'string' },
+      verbose: { type: 'boolean', default: false }
+    }
+  });
+  const port = parseNumber(values.port, 'port')!;
+  const profile = loadProfile(values.profile);
+  const server = createQualiscanServer({
+    profile,
+    geminiApiKey: process.env.GEMINI_API_KEY,
+    onRequest: (method, path, status, milliseconds) => console.error(`${method} ${path} ${status} ${milliseconds}ms`),
+    log: values.verbose ? message => console.error(message) : undefined
+  });
+  server.on('error', error => {
+    console.error(`qualiscan: ${error.message}`);
+    process.exitCode = 2;
+  });
+  server.listen(port, values.host, () =>
+    console.log(`QualiScan API listening on http://${values.host}:${port} (profile "${(profile ?? DEFAULT_MATCHING_PROFILE).name}")`)
+  );
+  return 0;
+};
+
+const main = (argv: string[]): number => {
+  const [command, ...args] = argv;
+  try {
+    if (command === 'analyze') return analyze(args);
+    if (command === 'serve') return serve(args);
+    if (!command || command === '--help' || command === '-h' || command === 'help') {
+      console.log(USAGE);
+      return command ? 0 : 2;
+    }
+    throw new UsageError(`Unknown command "${command}"`);
+  } catch (e) {
+    // parseArgs reports unknown or malformed options with a TypeError carrying an ERR_PARSE_ARGS code
+    const usage = e instanceof UsageError || String((e as { code?: unknown })?.code).startsWith('ERR_PARSE_ARGS');
+    console.error(`qualiscan: ${e instanceof Error ? e.message : String(e)}`);
+    if (usage) console.error('Run "qualiscan --help" for usage.');
+    return 2;
+  }
+};
+
+process.exitCode = main(process.argv.slice(2));
@@ -0,0 +1,85 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import type { AddressInfo } from 'node:net';
+import type { Server } from 'node:http';
+import { createQualiscanServer } from './server';
+
+const SOURCE = `Feature: Orders
+  Scenario: Create a new order
+    Given a customer
+    When they place an order
+    Then the order is created
+
+  Scenario: Refund a card payment
+    Given a paid order
+    When support refunds it
+    Then the card is credited
+`;
+
+const QA = `Feature: Orders
+  Scenario: Create a new order
+    Given a customer
+    When they place an order
+    Then the order is created
+`;
+
+describe('createQualiscanServer', () => {
+  const requests: Array<[string, string, number]> = [];
+  let server: Server;
+  let baseUrl: string;
+
+  beforeAll(async () => {
+    server = createQualiscanServer({ maxBodyBytes: 4096, onRequest: (method, path, status) => requests.push([method, path, status]) });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(() => new Promise<void>(resolve => server.close(() => resolve())));
+
+  const post = (path: string, body: BodyInit, headers: Record<string, string> = { 'content-type': 'application/json' }) =>
+    fetch(`${baseUrl}${path}`, { method: 'POST', headers, body });
+
+  it('analyzes feature texts sent as JSON', async () => {
+    const response = await post('/analyze', JSON.stringify({ source: SOURCE, qa: [{ fileName: 'qa/orders.feature', content: QA }], mode: 'strict' }));
+    expect(response.status).toBe(200);
+    const analysis = await response.json();
+    expect(analysis.mode).toBe('strict');
+    expect(analysis.coverage).toBe(50);
+    expect(analysis.missing.map((scenario: { title: string }) => scenario.title)).toEqual(['Refund a card payment']);
+    expect(analysis.qaScenarios[0].fileName).toBe('qa/orders.feature');
+  });
+
+  it('analyzes feature files uploaded as multipart', async () => {
+    const form = new FormData();
+    form.append('source', new Blob([SOURCE]), 'orders.feature');
+    form.append('qa', QA);
+    const response = await post('/analyze', form, {});
+    expect(response.status).toBe(200);
+    expect((await response.json()).sourceScenarios[0].fileName).toBe('orders.feature');
+  });
+
+  it('rejects invalid requests with a JSON error', async () => {
+    const cases: Array<[Promise<Response>, number, string]> = [
+      [post('/analyze', '{'), 400, 'Request body is not valid JSON'],
+      [post('/analyze', JSON.stringify({ source: SOURCE })), 400, '"qa" must contain at least one feature file'],
+      [post('/analyze', JSON.stringify({ source: SOURCE, qa: QA, mode: 'loose' })), 400, '"mode" must be lenient or strict'],
+      [post('/analyze', 'x'.repeat(5000)), 413, 'Request body exceeds 4096 bytes'],
+      [post('/analyze', SOURCE, { 'content-type': 'text/plain' }), 415, 'Send application/json or multipart/form-data'],
+      [fetch(`${baseUrl}/analyze`), 405, '/analyze only accepts POST'],
+      [post('/toString', '{}'), 404, 'No endpoint /toString']
+    ];
+    for (const [request, status, error] of cases) {
+      const response = await request;
+      expect(response.status).toBe(status);
+      expect(response.headers.get('content-type')).toBe('application/json; charset=utf-8');
+      expect((await response.json()).error).toContain(error);
+    }
+  });
+
+  it('serves the OpenAPI description and reports every request', async () => {
+    const response = await fetch(`${baseUrl}/openapi.json`);
+    expect(response.status).toBe(200);
+    expect((await response.json()).paths).toHaveProperty('/analyze');
+    expect(requests).toContainEqual(['GET', '/openapi.json', 200]);
+    expect(requests).toContainEqual(['POST', '/toString', 404]);
+  });
+});
@@ -0,0 +1,247 @@
+// Local REST API over qualiscan-core for other tools: POST /analyze, /duplicates, /gaps and
+// /documents/extract take feature text as JSON or multipart uploads and answer with the engine's own
+// result shapes. GET /openapi.json describes the API.
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from 'node:http';
+import { getDocument } from 'pdfjs-dist/legacy/build/pdf.mjs';
+import {
+  analyzeCoverage,
+  analyzeGaps,
+  findDuplicates,
+  parseGherkin,
+  parseMatchingProfile,
+  type CoverageMode,
+  type GherkinScenario,
+  type MatchingProfile
+} from '../lib/qualiscanCore';
+import { collectFeatureFiles, type FeatureFileSource } from '../lib/featureFiles';
+import { buildDocumentAnalysis, extractDocumentScenarios, extractPdfText, isPdfDocument } from '../lib/documentExtraction';
+import openapi from './openapi.json';
+
+export interface ServerOptions {
+  // Used when a request does not send its own profile
+  profile?: MatchingProfile;
+  // For /documents/extract; an X-Gemini-Api-Key request header takes precedence
+  geminiApiKey?: string;
+  maxBodyBytes?: number;
+  // Called once per request, after the response is sent
+  onRequest?: (method: string, path: string, status: number, milliseconds: number) => void;
+  // The engine's matching log for /analyze and /gaps
+  log?: (message: string) => void;
+}
+
+export const DEFAULT_MAX_BODY_BYTES = 50 * 1024 * 1024;
+
+// Rejected request; the message is returned to the client
+class HttpError extends Error {
+  constructor(readonly status: number, message: string) {
+    super(message);
+  }
+}
+
+// A document for /documents/extract, as uploaded
+type UploadedDocument = { name: string; type: string; data: Uint8Array };
+
+// A request body, JSON or multipart, read through the same accessors
+interface RequestBody {
+  features: (field: string) => Promise<FeatureFileSource[]>;
+  documents: (field: string) => Promise<UploadedDocument[]>;
+  // Scalar options; multipart values arrive as text
+  option: (field: string) => unknown;
+}
+
+const readBody = (req: IncomingMessage, maxBytes: number): Promise<Buffer> =>
+  new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    // An oversized body is drained rather than cut off, so the client still gets the 413
+    req.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size <= maxBytes) chunks.push(chunk);
+    });
+    req.on('end', () =>
+      size > maxBytes ? reject(new HttpError(413, `Request body exceeds ${maxBytes} bytes`)) : resolve(Buffer.concat(chunks))
+    );
+    req.on('error', reject);
+  });
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// JSON fields hold a feature text or a list of texts, each a string or { fileName, content }
+const jsonFeatures = (value: unknown, field: string): FeatureFileSource[] => {
+  if (value === undefined) return [];
+  return (Array.isArray(value) ? value : [value]).map((item, index) => {
+    if (typeof item === 'string') return { path: `${field}-${index + 1}.feature`, content: item };
+    if (isRecord(item) && typeof item.content === 'string') {
+      return { path: typeof item.fileName === 'string' && item.fileName ? item.fileName : `${field}-${index + 1}.feature`, content: item.content };
+    }
+    throw new HttpError(400, `"${field}" must hold feature texts or { "fileName", "content" } objects`);
+  });
+};
+
+const parseJsonBody = (buffer: Buffer): RequestBody => {
+  let body: unknown;
+  try {
+    body = buffer.length > 0 ? JSON.parse(buffer.toString('utf8')) : {};
+  } catch (e) {
+    throw new HttpError(400, `Request body is not valid JSON: ${e instanceof Error ? e.message : String(e)}`);
+  }
+  if (!isRecord(body)) throw new HttpError(400, 'Request body must be a JSON object');
+  return {
+    features: async field => jsonFeatures(body[field], field),
+    documents: async field =>
+      jsonFeatures(body[field], field).map(source => ({ name: source.path, type: 'text/plain', data: new TextEncoder().encode(source.content) })),
+    option: field => body[field]
+  };
+};
+
+// Multipart fields hold uploaded files (feature files, folders' contents or .zip archives) or plain text
+const parseMultipartBody = async (buffer: Buffer, contentType: string): Promise<RequestBody> => {
+  let form: FormData;
+  try {
+    form = await new Request('http://localhost/', { method: 'POST', headers: { 'content-type': contentType }, body: new Uint8Array(buffer) }).formData();
+  } catch (e) {
+    throw new HttpError(400, `Malformed multipart body: ${e instanceof Error ? e.message : String(e)}`);
+  }
+  const files = (field: string) => form.getAll(field).filter((value): value is File => typeof value !== 'string');
+  const texts = (field: string) => form.getAll(field).filter((value): value is string => typeof value === 'string');
+  // A corrupt or non-zip archive is the client's error
+  const uploadedFeatures = async (field: string): Promise<FeatureFileSource[]> => {
+    try {
+      return await collectFeatureFiles(files(field));
+    } catch (e) {
+      throw new HttpError(400, e instanceof Error ? e.message : String(e));
+    }
+  };
+  return {
+    features: async field => [
+      ...await uploadedFeatures(field),
+      ...texts(field).map((content, index) => ({ path: `${field}-${index + 1}.feature`, content }))
+    ],
+    documents: async field => [
+      ...await Promise.all(files(field).map(async file => ({ name: file.name, type: file.type, data: new Uint8Array(await file.arrayBuffer()) }))),
+      ...texts(field).map((content, index) => ({ name: `${field}-${index + 1}.txt`, type: 'text/plain', data: new TextEncoder().encode(content) }))
+    ],
+    option: field => form.get(field) ?? undefined
+  };
+};
+
+const readRequestBody = async (req: IncomingMessage, maxBytes: number): Promise<RequestBody> => {
+  const contentType = req.headers['content-type'] || '';
+  const buffer = await readBody(req, maxBytes);
+  if (contentType.startsWith('multipart/form-data')) return parseMultipartBody(buffer, contentType);
+  if (!contentType || contentType.startsWith('application/json')) return parseJsonBody(buffer);
+  throw new HttpError(415, 'Send application/json or multipart/form-data');
+};
+
+const readMode = (body: RequestBody): CoverageMode => {
+  const mode = body.option('mode') ?? 'lenient';
+  if (mode === 'lenient' || mode === 'strict') return mode;
+  throw new HttpError(400, '"mode" must be lenient or strict');
+};
+
+const readBoolean = (body: RequestBody, field: string): boolean => {
+  const value = body.option(field);
+  if (value === undefined || value === false || value === 'false') return false;
+  if (value === true || value === 'true') return true;
+  throw new HttpError(400, `"${field}" must be true or false`);
+};
+
+const readLanguage = (body: RequestBody): string | undefined => {
+  const language = body.option('language');
+  if (language === undefined || language === '') return undefined;
+  if (typeof language !== 'string') throw new HttpError(400, '"language" must be a Gherkin dialect code');
+  return language;
+};
+
+// A profile object in JSON bodies, or the text of a qualiscan.config.json in multipart ones
+const readProfile = (body: RequestBody, fallback: MatchingProfile | undefined): MatchingProfile | undefined => {
+  const profile = body.option('profile');
+  if (profile === undefined) return fallback;
+  try {
+    return parseMatchingProfile(typeof profile === 'string' ? profile : JSON.stringify(profile));
+  } catch (e) {
+    throw new HttpError(400, `"profile": ${e instanceof Error ? e.message : String(e)}`);
+  }
+};
+
+const readScenarios = async (body: RequestBody, field: string, language: string | undefined): Promise<GherkinScenario[]> => {
+  const sources = await body.features(field);
+  if (sources.length === 0) throw new HttpError(400, `"${field}" must contain at least one feature file`);
+  return sources.flatMap(source => parseGherkin(source.content, { fileName: source.path, language }).scenarios);
+};
+
+const runAnalysis = async (body: RequestBody, options: ServerOptions) => {
+  const language = readLanguage(body);
+  const source = await readScenarios(body, 'source', language);
+  const qa = await readScenarios(body, 'qa', language);
+  return analyzeCoverage(source, qa, {
+    mode: readMode(body),
+    stepMatching: readBoolean(body, 'stepMatching'),
+    profile: readProfile(body, options.profile),
+    log: options.log
+  });
+};
+
+const documentText = async (document: UploadedDocument): Promise<string> =>
+  isPdfDocument(document.name, document.type) ? extractPdfText(getDocument, document.data) : new TextDecoder().decode(document.data);
+
+const extractDocuments = async (body: RequestBody, apiKey: string | undefined) => {
+  if (!apiKey) throw new HttpError(400, 'Document extraction needs a Gemini API key: start the server with GEMINI_API_KEY set or send an X-Gemini-Api-Key header');
+  const documents = await body.documents('documents');
+  if (documents.length === 0) throw new HttpError(400, '"documents" must contain at least one document');
+  const scenarios: GherkinScenario[] = [];
+  for (const document of documents) {
+    const extracted = await extractDocumentScenarios(apiKey, document.name, await documentText(document));
+    if (extracted.error) throw new HttpError(502, `${document.name}: ${extracted.error}`);
+    scenarios.push(...extracted.scenarios);
+  }
+  return buildDocumentAnalysis(documents, scenarios);
+};
+
+type Route = (body: RequestBody, req: IncomingMessage, options: ServerOptions) => Promise<unknown>;
+
+// A Map rather than an object literal, so paths like /toString never reach Object.prototype
+const ROUTES = new Map<string, Route>([
+  ['/analyze', (body, _req, options) => runAnalysis(body, options)],
+  ['/duplicates', async (body, _req, options) => {
+    const qa = await readScenarios(body, 'qa', readLanguage(body));
+    return findDuplicates(qa, { profile: readProfile(body, options.profile) });
+  }],
+  ['/gaps', async (body, _req, options) => analyzeGaps(await runAnalysis(body, options))],
+  ['/documents/extract', (body, req, options) => {
+    const header = req.headers['x-gemini-api-key'];
+    return extractDocuments(body, (Array.isArray(header) ? header[0] : header) || options.geminiApiKey);
+  }]
+]);
+
+const sendJson = (res: ServerResponse, status: number, value: unknown) => {
+  res.writeHead(status, { 'content-type': 'application/json; charset=utf-8' });
+  res.end(JSON.stringify(value));
+};
+
+export const createQualiscanServer = (options: ServerOptions = {}): Server =>
+  createServer(async (req, res) => {
+    const started = Date.now();
+    const method = req.method || 'GET';
+    const path = new URL(req.url || '/', 'http://localhost').pathname;
+    let status = 200;
+    try {
+      if (path === '/openapi.json' && method === 'GET') {
+        sendJson(res, 200, openapi);
+      } else if (!ROUTES.has(path)) {
+        throw new HttpError(404, `No endpoint ${path}`);
+      } else if (method !== 'POST') {
+        res.setHeader('allow', 'POST');
+        throw new HttpError(405, `${path} only accepts POST`);
+      } else {
+        const body = await readRequestBody(req, options.maxBodyBytes ?? DEFAULT_MAX_BODY_BYTES);
+        sendJson(res, 200, await ROUTES.get(path)!(body, req, options));
+      }
+    } catch (e) {
+      status = e instanceof HttpError ? e.status : 500;
+      if (!res.headersSent) sendJson(res, status, { error: e instanceof Error ? e.message : String(e) });
+    } finally {
+      options.onRequest?.(method, path, status, Date.now() - started);
+    }
+  });
@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+import { assignOneToOne, type MatchEdge } from './assignment';
+
+const total = (edges: MatchEdge[], assigned: number[]): number =>
+  assigned.reduce((sum, qa, source) => sum + (edges.find(edge => edge.source === source && edge.qa === qa)?.similarity ?? 0), 0);
+
+// Best total similarity over every one-to-one assignment, by exhaustive search
+const bestTotal = (edges: MatchEdge[], sourceCount: number, source = 0, taken = new Set<number>()): number => {
+  if (source === sourceCount) return 0;
+  let best = bestTotal(edges, sourceCount, source + 1, taken);
+  for (const edge of edges.filter(candidate => candidate.source === source && !taken.has(candidate.qa))) {
+    taken.add(edge.qa);
+    best = Math.max(best, edge.similarity + bestTotal(edges, sourceCount, source + 1, taken));
+    taken.delete(edge.qa);
+  }
+  return best;
+};
+
+describe('assignOneToOne', () => {
+  it('gives up a best pair when that covers more use cases in total', () => {
+    const edges = [
+      { source: 0, qa: 0, similarity: 0.9 },
+      { source: 0, qa: 1, similarity: 0.8 },
+      { source: 1, qa: 0, similarity: 0.85 }
+    ];
+    expect(assignOneToOne(edges, 2)).toEqual([1, 0]);
+  });
+
+  it('assigns each QA scenario at most once when use cases outnumber it', () => {
+    const edges = [
+      { source: 0, qa: 0, similarity: 0.9 },
+      { source: 1, qa: 0, similarity: 0.95 },
+      { source: 2, qa: 0, similarity: 0.7 }
+    ];
+    expect(assignOneToOne(edges, 3)).toEqual([-1, 0, -1]);
+  });
+
+  it('leaves use cases without edges unassigned', () => {
+    expect(assignOneToOne([{ source: 1, qa: 4, similarity: 0.8 }, { source: 3, qa: 2, similarity: 0.75 }], 4)).toEqual([-1, 4, -1, 2]);
+    expect(assignOneToOne([], 2)).toEqual([-1, -1]);
+  });
+
+  it('finds the maximum total similarity on small random graphs', () => {
+    let seed = 7;
+    const random = () => {
+      seed = (Math.imul(seed, 1664525) + 1013904223) >>> 0;
+      return seed / 4294967296;
+    };
+    for (let round = 0; round < 30; round++) {
+      const edges: MatchEdge[] = [];
+      for (let source = 0; source < 5; source++) {
+        for (let qa = 0; qa < 4; qa++) {
+          if (random() < 0.5) edges.push({ source, qa, similarity: 0.55 + random() * 0.45 });
+        }
+      }
+      const assigned = assignOneToOne(edges, 5);
+      const qas = assigned.filter(qa => qa >= 0);
+      expect(new Set(qas).size).toBe(qas.length);
+      expect(total(edges, assigned)).toBeCloseTo(bestTotal(edges, 5), 9);
+    }
+  });
+});
@@ -0,0 +1,142 @@
+// One-to-one assignment between source and QA scenarios for strict coverage: a maximum-weight
+// bipartite matching over the pairs that already clear the similarity threshold.
+
+export interface MatchEdge {
+  source: number; // source scenario index
+  qa: number; // QA scenario index
+  similarity: number;
+}
+
+// Hungarian runs in O(rows² × cols) per connected component; larger components are assigned greedily
+const HUNGARIAN_MAX_OPERATIONS = 1e9;
+
+// Minimum-cost assignment (Kuhn–Munkres with potentials) for rows <= cols. `cost` is row-major.
+// Returns the column assigned to each row.
+const hungarian = (cost: Float64Array, rows: number, cols: number): Int32Array => {
+  const u = new Float64Array(rows + 1);
+  const v = new Float64Array(cols + 1);
+  const rowOfCol = new Int32Array(cols + 1);
+  const way = new Int32Array(cols + 1);
+  const minv = new Float64Array(cols + 1);
+  const used = new Uint8Array(cols + 1);
+
+  for (let row = 1; row <= rows; row++) {
+    rowOfCol[0] = row;
+    let col0 = 0;
+    minv.fill(Infinity);
+    used.fill(0);
+    do {
+      used[col0] = 1;
+      const row0 = rowOfCol[col0];
+      let delta = Infinity;
+      let col1 = 0;
+      for (let col = 1; col <= cols; col++) {
+        if (used[col]) continue;
+        const current = cost[(row0 - 1) * cols + (col - 1)] - u[row0] - v[col];
+        if (current < minv[col]) {
+          minv[col] = current;
+          way[col] = col0;
+        }
+        if (minv[col] < delta) {
+          delta = minv[col];
+          col1 = col;
+        }
+      }
+      for (let col = 0; col <= cols; col++) {
+        if (used[col]) {
+          u[rowOfCol[col]] += delta;
+          v[col] -= delta;
+        } else {
+          minv[col] -= delta;
+        }
+      }
+      col0 = col1;
+    } while (rowOfCol[col0] !== 0);
+    do {
+      const col1 = way[col0];
+      rowOfCol[col0] = rowOfCol[col1];
+      col0 = col1;
+    } while (col0 !== 0);
+  }
+
+  const colOfRow = new Int32Array(rows).fill(-1);
+  for (let col = 1; col <= cols; col++) {
+    if (rowOfCol[col] > 0) colOfRow[rowOfCol[col] - 1] = col - 1;
+  }
+  return colOfRow;
+};
+
+const assignGreedily = (edges: MatchEdge[], assigned: Int32Array, qaTaken: Set<number>) => {
+  const sorted = [...edges].sort((a, b) => b.similarity - a.similarity || a.source - b.source || a.qa - b.qa);
+  for (const edge of sorted) {
+    if (assigned[edge.source] !== -1 || qaTaken.has(edge.qa)) continue;
+    assigned[edge.source] = edge.qa;
+    qaTaken.add(edge.qa);
+  }
+};
+
+// Returns the QA index assigned to each source scenario, or -1 when it stays uncovered
+export const assignOneToOne = (edges: MatchEdge[], sourceCount: number): number[] => {
+  const assigned = new Int32Array(sourceCount).fill(-1);
+  const qaTaken = new Set<number>();
+
+  // Split the pair graph into connected components; each one is solved on its own
+  const parent = new Map<string, string>();
+  const find = (node: string): string => {
+    let root = node;
+    while (parent.get(root) !== root) root = parent.get(root)!;
+    while (node !== root) {
+      const next = parent.get(node)!;
+      parent.set(node, root);
+      node = next;
+    }
+    return root;
+  };
+  for (const edge of edges) {
+    const sourceNode = `s${edge.source}`;
+    const qaNode = `q${edge.qa}`;
+    if (!parent.has(sourceNode)) parent.set(sourceNode, sourceNode);
+    if (!parent.has(qaNode)) parent.set(qaNode, qaNode);
+    parent.set(find(sourceNode), find(qaNode));
+  }
+  const components = new Map<string, MatchEdge[]>();
+  for (const edge of edges) {
+    const root = find(`s${edge.source}`);
+    if (!components.has(root)) components.set(root, []);
+    components.get(root)!.push(edge);
+  }
+
+  for (const component of components.values()) {
+    const sources = Array.from(new Set(component.map(edge => edge.source)));
+    const qas = Array.from(new Set(component.map(edge => edge.qa)));
+    // Rows are the smaller side so the solver always sees rows <= cols
+    const transposed = sources.length > qas.length;
+    const rows = transposed ? qas : sources;
+    const cols = transposed ? sources : qas;
+    if (rows.length * rows.length * cols.length > HUNGARIAN_MAX_OPERATIONS) {
+      assignGreedily(component, assigned, qaTaken);
+      continue;
+    }
+
+    const rowIndex = new Map(rows.map((id, index) => [id, index]));
+    const colIndex = new Map(cols.map((id, index) => [id, index]));
+    // Maximising similarity = minimising its negation; non-edges cost 0, i.e. stay unassigned
+    const cost = new Float64Array(rows.length * cols.length);
+    for (const edge of component) {
+      const row = rowIndex.get(transposed ? edge.qa : edge.source)!;
+      const col = colIndex.get(transposed ? edge.source : edge.qa)!;
+      cost[row * cols.length + col] = -edge.similarity;
+    }
+
+    const colOfRow = hungarian(cost, rows.length, cols.length);
+    colOfRow.forEach((col, row) => {
+      if (col < 0 || cost[row * cols.length + col] === 0) return;
+      const source = transposed ? cols[col] : rows[row];
+      const qa = transposed ? rows[row] : cols[col];
+      assigned[source] = qa;
+      qaTaken.add(qa);
+    });
+  }
+
+  return Array.from(assigned);
+};
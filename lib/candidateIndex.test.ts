@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest';
+import type { GherkinScenario } from './scenarioTypes';
+import { createCandidateIndex } from './candidateIndex';
+import { matchScenarios } from './coverageMatcher';
+import { generateBenchmarkSuites } from './matchingBenchmark';
+
+const scenario = (title: string, steps: string[] = []): GherkinScenario => ({ title, steps });
+
+describe('createCandidateIndex', () => {
+  const qa = [
+    scenario('Archive paid invoices'),
+    scenario('Export the monthly report'),
+    scenario('Refund a card payment'),
+    scenario('Audit logins'),
+    scenario('Toggle dark mode feature flag')
+  ];
+  const index = createCandidateIndex(qa);
+
+  it('returns the QA scenarios sharing a title stem, in ascending order', () => {
+    expect(index.candidatesFor(scenario('Archiving invoices'))).toEqual([0]);
+    expect(index.candidatesFor(scenario('Refund payments and export report'))).toEqual([1, 2]);
+    expect(index.candidatesFor(scenario('Login audit'))).toEqual([3]);
+  });
+
+  it('relates feature flag titles whatever their wording', () => {
+    expect(index.candidatesFor(scenario('Enable the beta toggle'))).toEqual([4]);
+  });
+
+  it('returns nothing for titles that share no indexed word', () => {
+    expect(index.candidatesFor(scenario('Ship warehouse pallets'))).toEqual([]);
+  });
+
+  it('keeps the best candidates up to maxCandidates, plus identical titles', () => {
+    const suite = Array.from({ length: 30 }, (_, i) => scenario(`Export report ${i % 2 === 0 ? 'quarterly' : 'weekly'} variant`));
+    suite.push(scenario('Export report quarterly'));
+    const limited = createCandidateIndex(suite, { maxCandidates: 4 });
+    const candidates = limited.candidatesFor(scenario('Export report quarterly'));
+    expect(candidates).toContain(30);
+    expect(candidates.length).toBeLessThanOrEqual(5);
+    expect(candidates.filter(qaIndex => qaIndex !== 30).every(qaIndex => qaIndex % 2 === 0)).toBe(true);
+  });
+
+  it('covers the same use cases as a full scan on a generated suite', () => {
+    const { source, qa: generated } = generateBenchmarkSuites(300);
+    const blocked = matchScenarios(source, generated, { candidateIndex: createCandidateIndex(generated) });
+    const full = matchScenarios(source, generated, { blocking: false });
+    expect(blocked.comparisons).toBeLessThan(full.comparisons / 5);
+    const agreement = blocked.covered.filter((covered, index) => covered === full.covered[index]).length / source.length;
+    expect(agreement).toBeGreaterThan(0.98);
+  });
+});
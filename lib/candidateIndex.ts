@@ -0,0 +1,195 @@
+// Candidate blocking for coverage matching: an inverted index over QA titles and steps, so each
+// source scenario is only scored against QA scenarios that can plausibly match it.
+import type { GherkinScenario } from './scenarioTypes';
+import { normalizedWords } from './textNormalization';
+
+// Below this many QA scenarios every pair is scored, which keeps small suites exact
+export const BLOCKING_MIN_QA = 1000;
+
+export interface CandidateIndexOptions {
+  // Title words shared by more QA scenarios than this are too common to block on
+  maxPostings?: number;
+  // Candidates kept per source scenario, ranked by the rare words they share with it
+  maxCandidates?: number;
+}
+
+export interface CandidateIndex {
+  // QA indices to score for a source scenario, in ascending order so ties resolve as in a full scan
+  candidatesFor: (scenario: GherkinScenario) => number[];
+}
+
+// Default posting limit: 2% of the QA suite, but never below 100 scenarios
+const POSTINGS_SHARE = 0.02;
+const MIN_MAX_POSTINGS = 100;
+const DEFAULT_MAX_CANDIDATES = 16;
+const STEP_WEIGHT = 0.25;
+
+// Same normalized stems as calculateTitleSimilarity; words only related as typos are not indexed
+const titleWords = (scenario: GherkinScenario): string[] => normalizedWords(scenario.title, scenario.language);
+
+const stepWords = (scenario: GherkinScenario): string[] => normalizedWords(scenario.steps.join(' '), scenario.language);
+
+const normalizeTitle = (title: string): string => title.toLowerCase().trim().replace(/\s+/g, ' ');
+
+const isFeatureFlagTitle = (title: string): boolean => {
+  const lower = title.toLowerCase();
+  return lower.includes('feature flag') || lower.includes('toggle');
+};
+
+const trigrams = (word: string): string[] => {
+  const grams: string[] = [];
+  for (let i = 0; i + 3 <= word.length; i++) grams.push(word.slice(i, i + 3));
+  return grams;
+};
+
+export const createCandidateIndex = (qaScenarios: GherkinScenario[], options: CandidateIndexOptions = {}): CandidateIndex => {
+  const qaCount = qaScenarios.length;
+  const maxPostings = options.maxPostings ?? Math.max(MIN_MAX_POSTINGS, Math.ceil(qaCount * POSTINGS_SHARE));
+  const maxCandidates = options.maxCandidates ?? DEFAULT_MAX_CANDIDATES;
+
+  // Title word -> QA indices, and word trigram -> title words, for substring lookups
+  const postings = new Map<string, number[]>();
+  const wordsByTrigram = new Map<string, string[]>();
+  const exactTitles = new Map<string, number[]>();
+  const featureFlagTitles: number[] = [];
+  const qaStepWords: Set<string>[] = [];
+
+  for (let qaIndex = 0; qaIndex < qaCount; qaIndex++) {
+    const scenario = qaScenarios[qaIndex];
+    for (const word of new Set(titleWords(scenario))) {
+      let list = postings.get(word);
+      if (!list) {
+        list = [];
+        postings.set(word, list);
+        for (const gram of new Set(trigrams(word))) {
+          if (!wordsByTrigram.has(gram)) wordsByTrigram.set(gram, []);
+          wordsByTrigram.get(gram)!.push(word);
+        }
+      }
+      list.push(qaIndex);
+    }
+    const key = normalizeTitle(scenario.title);
+    if (!exactTitles.has(key)) exactTitles.set(key, []);
+    exactTitles.get(key)!.push(qaIndex);
+    if (isFeatureFlagTitle(scenario.title)) featureFlagTitles.push(qaIndex);
+    qaStepWords.push(new Set(stepWords(scenario)));
+  }
+
+  // Title similarity also credits words that contain one another ("log" / "login"), so a source word
+  // is related to every indexed word it contains or is contained in. Containment is a weak signal:
+  // when it fans out past the posting limit ("module1" / "module1024") only the word itself is kept.
+  const relatedCache = new Map<string, string[]>();
+  const relatedWords = (word: string): string[] => {
+    const cached = relatedCache.get(word);
+    if (cached) return cached;
+    const related = new Set<string>();
+    for (let start = 0; start < word.length; start++) {
+      for (let end = start + 3; end <= word.length; end++) {
+        const part = word.slice(start, end);
+        if (postings.has(part)) related.add(part);
+      }
+    }
+    let narrowest: string[] | null = null;
+    for (const gram of trigrams(word)) {
+      const words = wordsByTrigram.get(gram);
+      if (!words) {
+        narrowest = [];
+        break;
+      }
+      if (!narrowest || words.length < narrowest.length) narrowest = words;
+    }
+    for (const candidate of narrowest || []) {
+      if (candidate.includes(word)) related.add(candidate);
+    }
+    let result = Array.from(related);
+    const fanOut = result.reduce((sum, related) => (related === word ? sum : sum + postings.get(related)!.length), 0);
+    if (fanOut > maxPostings) result = postings.has(word) ? [word] : [];
+    relatedCache.set(word, result);
+    return result;
+  };
+
+  const scores = new Float64Array(qaCount);
+  const touched: number[] = [];
+  const add = (qaIndex: number, weight: number) => {
+    if (scores[qaIndex] === 0) touched.push(qaIndex);
+    scores[qaIndex] += weight;
+  };
+  const idf = (count: number) => Math.log(1 + qaCount / count);
+
+  // Keeps the `limit` best-scoring indices; ties at the cut-off go to the lowest indices
+  const selectTop = (pool: number[], limit: number): number[] => {
+    if (pool.length <= limit) return pool;
+    const ranked = new Float64Array(pool.length);
+    for (let i = 0; i < pool.length; i++) ranked[i] = scores[pool[i]];
+    const cutoff = ranked.sort()[pool.length - limit];
+    const above: number[] = [];
+    const ties: number[] = [];
+    for (const qaIndex of pool) {
+      if (scores[qaIndex] > cutoff) above.push(qaIndex);
+      else if (scores[qaIndex] === cutoff) ties.push(qaIndex);
+    }
+    ties.sort((a, b) => a - b);
+    return above.concat(ties.slice(0, limit - above.length));
+  };
+
+  const candidatesFor = (scenario: GherkinScenario): number[] => {
+    touched.length = 0;
+    const common: string[] = [];
+
+    for (const word of new Set(titleWords(scenario))) {
+      for (const related of relatedWords(word)) {
+        const list = postings.get(related)!;
+        if (list.length > maxPostings) {
+          common.push(related);
+          continue;
+        }
+        const weight = idf(list.length);
+        for (const qaIndex of list) add(qaIndex, weight);
+      }
+    }
+
+    // Feature flag titles match each other regardless of wording; like words, a large group only
+    // counts when nothing rarer is shared
+    const featureFlag = isFeatureFlagTitle(scenario.title);
+    if (featureFlag && featureFlagTitles.length <= maxPostings) {
+      for (const qaIndex of featureFlagTitles) add(qaIndex, Number.MIN_VALUE);
+    }
+
+    // Only common words in the title: fall back to them rather than reporting no candidates at all
+    if (touched.length === 0) {
+      for (const related of common) {
+        const list = postings.get(related)!;
+        const weight = idf(list.length);
+        for (const qaIndex of list) add(qaIndex, weight);
+      }
+      if (featureFlag && featureFlagTitles.length > maxPostings) {
+        for (const qaIndex of featureFlagTitles) add(qaIndex, Number.MIN_VALUE);
+      }
+    }
+
+    let candidates = touched.slice();
+    if (candidates.length > maxCandidates) {
+      // Shared step words only re-rank the strongest title candidates; they never add candidates
+      candidates = selectTop(candidates, maxCandidates * 2);
+      const sourceSteps = new Set(stepWords(scenario));
+      for (const qaIndex of candidates) {
+        let shared = 0;
+        for (const word of sourceSteps) {
+          if (qaStepWords[qaIndex].has(word)) shared++;
+        }
+        scores[qaIndex] += shared * STEP_WEIGHT;
+      }
+      candidates = selectTop(candidates, maxCandidates);
+    }
+    for (const qaIndex of touched) scores[qaIndex] = 0;
+
+    // Identical titles always score at least 0.95, so they are never ranked away
+    for (const qaIndex of exactTitles.get(normalizeTitle(scenario.title)) || []) {
+      if (!candidates.includes(qaIndex)) candidates.push(qaIndex);
+    }
+
+    return candidates.sort((a, b) => a - b);
+  };
+
+  return { candidatesFor };
+};
@@ -0,0 +1,105 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import type { GherkinScenario } from './scenarioTypes';
+import { BLOCKING_MIN_QA } from './candidateIndex';
+import { calculateTitleSimilarity, matchScenarios, scoreSimilarity } from './coverageMatcher';
+import { DEFAULT_MATCHING_PROFILE, parseMatchingProfile, setMatchingProfile } from './matchingProfile';
+
+const scenario = (title: string, steps: string[], language?: string): GherkinScenario => ({ title, steps, fileName: 'suite.feature', lineNumber: 1, language });
+
+// Unit vector along one axis
+const axis = (index: number): Float32Array => {
+  const vector = new Float32Array(4);
+  vector[index] = 1;
+  return vector;
+};
+
+describe('matchScenarios with embeddings on a blocked suite', () => {
+  it('scores a paraphrase that shares no words with the source', () => {
+    const fillers = Array.from({ length: BLOCKING_MIN_QA + 200 }, (_, index) =>
+      scenario(`Archive invoice number ${index}`, ['Given an invoice exists', 'When the clerk archives it', 'Then it is archived'])
+    );
+    const paraphraseIndex = 700;
+    const qa = [...fillers.slice(0, paraphraseIndex), scenario('Log into the portal', ['Given a registered member', 'When credentials are entered', 'Then the portal opens']), ...fillers.slice(paraphraseIndex)];
+    const source = [scenario('Sign in', ['Given an account', 'When I submit my password', 'Then I see my dashboard'])];
+    const embeddings = {
+      source: [axis(0)],
+      qa: qa.map((_, index) => (index === paraphraseIndex ? axis(0) : axis(1)))
+    };
+
+    const lexical = matchScenarios(source, qa);
+    expect(lexical.covered).toEqual([false]);
+
+    const semantic = matchScenarios(source, qa, { embeddings });
+    expect(semantic.covered).toEqual([true]);
+    expect(semantic.explanations[0].best?.qaIndex).toBe(paraphraseIndex);
+    expect(semantic.explanations[0].best?.branch).toBe('semantic');
+  });
+});
+
+describe('calculateTitleSimilarity', () => {
+  it('scores from 0 to 1', () => {
+    expect(calculateTitleSimilarity('export report as pdf', 'export the pdf report')).toBe(1);
+    expect(calculateTitleSimilarity('cancelar assinatura', 'cancelling orders', 'pt', 'en')).toBe(0.5);
+    expect(calculateTitleSimilarity('archive invoices', 'login with sso')).toBe(0);
+  });
+
+  it('counts each term of the other title once', () => {
+    expect(calculateTitleSimilarity('order order order', 'order refund')).toBeLessThanOrEqual(1);
+    expect(calculateTitleSimilarity('order order order', 'order refund')).toBeCloseTo(1 / 3);
+  });
+
+  it('stems in the scenario language', () => {
+    expect(calculateTitleSimilarity('pedidos cancelados', 'pedido cancelado', 'pt', 'pt')).toBe(1);
+  });
+});
+
+describe('scoreSimilarity', () => {
+  it('leaves a title sharing one of two terms below the coverage threshold', () => {
+    const source = scenario('Cancelar assinatura', ['Dado uma assinatura ativa'], 'pt');
+    const qa = scenario('Cancelling orders', ['Given an open order'], 'en');
+    const { similarity } = scoreSimilarity(source, qa);
+    expect(similarity).toBeGreaterThan(0);
+    expect(similarity).toBeLessThan(0.75);
+    expect(matchScenarios([source], [qa]).covered).toEqual([false]);
+  });
+});
+
+describe('scoreSimilarity with the localized vocabularies', () => {
+  it('covers a Portuguese scenario through Portuguese synonyms', () => {
+    const source = scenario('Cadastrar cliente', ['Dado que estou na tela de clientes'], 'pt');
+    const qa = scenario('Incluir cliente', ['Dado que abro a tela de clientes'], 'pt');
+    expect(calculateTitleSimilarity('cadastrar cliente', 'incluir cliente', 'pt', 'pt')).toBe(1);
+    expect(scoreSimilarity(source, qa)).toEqual({ similarity: 1, branch: 'title' });
+    expect(matchScenarios([source], [qa]).covered).toEqual([true]);
+  });
+
+  it('leaves words outside the vocabularies unrelated', () => {
+    expect(calculateTitleSimilarity('arquivar cliente', 'incluir cliente', 'pt', 'pt')).toBe(0.5);
+  });
+});
+
+describe('scoreSimilarity with a matching profile', () => {
+  afterEach(() => setMatchingProfile(DEFAULT_MATCHING_PROFILE));
+
+  const useProfile = (profile: object) => setMatchingProfile(parseMatchingProfile(JSON.stringify(profile)));
+
+  it('uses the title score only at or above weights.titleMatch', () => {
+    const source = scenario('User logs in with valid password', []);
+    const qa = scenario('User logs in with expired password', []);
+    expect(scoreSimilarity(source, qa)).toEqual({ similarity: 0.75, branch: 'title' });
+    useProfile({ weights: { titleMatch: 0.8 } });
+    expect(scoreSimilarity(source, qa)).toEqual({ similarity: 0.75, branch: 'keyword' });
+  });
+
+  it('treats words of one synonyms.concepts group as the same term', () => {
+    expect(calculateTitleSimilarity('archive invoice', 'shelve invoices')).toBe(0.5);
+    useProfile({ synonyms: { concepts: { archive_operation: ['archive', 'shelve'] } } });
+    expect(calculateTitleSimilarity('archive invoice', 'shelve invoices')).toBe(1);
+  });
+
+  it('treats localized synonyms.values terms as the same term', () => {
+    expect(calculateTitleSimilarity('despachar pedido', 'enviar pedido', 'pt', 'pt')).toBe(0.5);
+    useProfile({ synonyms: { values: { ship_action: { pt: ['despachar', 'enviar'] } } } });
+    expect(calculateTitleSimilarity('despachar pedido', 'enviar pedido', 'pt', 'pt')).toBe(1);
+  });
+});
@@ -0,0 +1,417 @@
+// Source ↔ QA scenario matching: similarity scoring, thresholds and coverage results.
+import type { GherkinScenario, AnalysisResult, OutlineCoverage, CoverageMode, CoverageView, SimilarityBranch, CandidateExplanation, MatchExplanation, StepAlignment } from './scenarioTypes';
+import { createCandidateIndex, BLOCKING_MIN_QA, type CandidateIndex } from './candidateIndex';
+import { assignOneToOne, type MatchEdge } from './assignment';
+import { alignSteps } from './stepAlignment';
+import { getMatchingProfile } from './matchingProfile';
+import { normalizeTerms, sameTerm } from './textNormalization';
+import { cosineSimilarity, createVectorIndex, type ScenarioEmbeddings } from './embeddings';
+
+// Two expanded outline rows conflict when a shared parameter has different values
+const exampleValuesConflict = (scenario1: GherkinScenario, scenario2: GherkinScenario): boolean => {
+  if (!scenario1.exampleValues || !scenario2.exampleValues) return false;
+  const values2 = new Map(Object.entries(scenario2.exampleValues).map(([name, value]) => [name.toLowerCase().trim(), value]));
+  return Object.entries(scenario1.exampleValues).some(([name, value]) => {
+    const other = values2.get(name.toLowerCase().trim());
+    return other !== undefined && other.toLowerCase().trim() !== value.toLowerCase().trim();
+  });
+};
+
+// 🧠 SIMPLIFIED & EFFECTIVE SIMILARITY ANALYSIS
+// Returns the score together with the rule that produced it, for match explanations
+export const scoreSimilarity = (scenario1: GherkinScenario, scenario2: GherkinScenario): { similarity: number; branch: SimilarityBranch } => {
+  // 0. DIFFERENT EXAMPLE ROWS = 0% (USD row never covers the BRL row)
+  if (exampleValuesConflict(scenario1, scenario2)) return { similarity: 0.0, branch: 'example-conflict' };
+  
+  const { weights } = getMatchingProfile();
+  const title1 = scenario1.title.toLowerCase().trim();
+  const title2 = scenario2.title.toLowerCase().trim();
+  
+  // 1. EXACT MATCH = 100% (most reliable)
+  if (title1 === title2) return { similarity: 1.0, branch: 'exact' };
+  
+  // 2. NORMALIZED TITLE MATCH = 95% (handles minor case/whitespace differences)
+  if (title1.replace(/\s+/g, ' ') === title2.replace(/\s+/g, ' ')) return { similarity: weights.normalizedTitle, branch: 'normalized' };
+  
+  // 3. SIMPLE TITLE SIMILARITY = 70-90% (effective and reliable)
+  const titleSimilarity = calculateTitleSimilarity(title1, title2, scenario1.language, scenario2.language);
+  if (titleSimilarity >= weights.titleMatch) return { similarity: titleSimilarity, branch: 'title' }; // Good title match
+  
+  // 4. KEY WORD MATCHING = 60-80% (business logic matching, on normalized terms)
+  const words1 = normalizeTerms(title1, scenario1.language);
+  const words2 = normalizeTerms(title2, scenario2.language);
+  
+  if (words1.length > 0 && words2.length > 0) {
+    const commonWords = words1.filter(word => words2.some(other => sameTerm(word, other)));
+    const wordSimilarity = commonWords.length / Math.max(words1.length, words2.length);
+    
+    if (wordSimilarity >= weights.keywordOverlap) {
+      return { similarity: weights.keywordBase + (wordSimilarity * weights.keywordRange), branch: 'keyword' }; // 60-80% based on word overlap
+    }
+  }
+  
+  // 5. FEATURE FLAG SPECIAL CASE = 70-85% (common business scenario)
+  if ((title1.includes('feature flag') || title1.includes('toggle')) && 
+      (title2.includes('feature flag') || title2.includes('toggle'))) {
+    return { similarity: weights.featureFlag, branch: 'feature-flag' }; // Feature flag scenarios are often similar
+  }
+  
+  // 6. NO MATCH = 0% (no meaningful similarity)
+  return { similarity: 0.0, branch: 'none' };
+};
+
+export const calculateUltimateSimilarity = (scenario1: GherkinScenario, scenario2: GherkinScenario): number =>
+  scoreSimilarity(scenario1, scenario2).similarity;
+
+// Detail for one scored pair; only computed for the few candidates kept per source scenario
+export const explainCandidate = (sourceScenario: GherkinScenario, qaScenario: GherkinScenario, qaIndex: number, similarity: number, branch: SimilarityBranch): CandidateExplanation => {
+  const title1 = sourceScenario.title.toLowerCase().trim();
+  const title2 = qaScenario.title.toLowerCase().trim();
+  const words2 = normalizeTerms(title2, qaScenario.language);
+  const commonWords = Array.from(new Set(normalizeTerms(title1, sourceScenario.language).filter(word => words2.some(other => sameTerm(word, other))).map(word => word.word)));
+  return { qaIndex, similarity, branch, titleSimilarity: calculateTitleSimilarity(title1, title2, sourceScenario.language, qaScenario.language), commonWords };
+};
+
+// 0..1: each term pairs with at most one term of the other title, the same stem or a typo counting
+// fully and stem containment half, over the longer title's term count
+export const calculateTitleSimilarity = (title1: string, title2: string, language1?: string, language2?: string): number => {
+  const words1 = normalizeTerms(title1, language1);
+  const words2 = normalizeTerms(title2, language2);
+  
+  if (words1.length === 0 || words2.length === 0) return 0;
+  
+  const used = new Set<number>();
+  let matches = 0;
+  
+  for (const word1 of words1) {
+    let best = -1;
+    let bestCredit = 0;
+    words2.forEach((word2, index) => {
+      if (used.has(index) || bestCredit === 1) return;
+      const credit = sameTerm(word1, word2) ? 1 : word1.stem.includes(word2.stem) || word2.stem.includes(word1.stem) ? 0.5 : 0;
+      if (credit > bestCredit) {
+        best = index;
+        bestCredit = credit;
+      }
+    });
+    if (best >= 0) {
+      used.add(best);
+      matches += bestCredit;
+    }
+  }
+  
+  return matches / Math.max(words1.length, words2.length);
+};
+
+// ACCURATE & RELIABLE: Threshold based on proven similarity algorithm
+export const calculateDynamicThreshold = (sourceCount: number, qaCount: number, sourceScenario: GherkinScenario, bestMatch: GherkinScenario | null): number => {
+  // Simple, effective threshold calculation
+  const { threshold } = getMatchingProfile();
+  let baseThreshold = threshold.base; // 70% similarity required for good confidence by default
+  
+  // Adjust based on dataset characteristics
+  const ratio = qaCount / sourceCount;
+  if (ratio < threshold.fewQARatio) {
+    // Few QA scenarios relative to source - be more lenient
+    baseThreshold += threshold.fewQAAdjustment;
+  } else if (ratio > threshold.manyQARatio) {
+    // Many QA scenarios relative to source - be slightly more strict
+    baseThreshold += threshold.manyQAAdjustment;
+  }
+  
+  // Feature Flag scenarios - lower threshold to catch variations
+  const isFeatureFlag = sourceScenario.title.toLowerCase().includes('feature flag') || 
+                       sourceScenario.steps.some(step => step.toLowerCase().includes('feature flag'));
+  
+  if (isFeatureFlag) {
+    baseThreshold -= threshold.featureFlagDiscount;
+  }
+  
+  // Ensure threshold stays within reasonable bounds
+  return Math.max(threshold.min, Math.min(threshold.max, baseThreshold));
+};
+
+// SMART: Enhanced analysis with Feature Flag intelligence - SIMPLIFIED & FIXED
+// Matching is split from result building so the worker can stream partial results batch by batch
+export interface MatchBatch {
+  start: number; // index of the first source scenario in this batch
+  covered: boolean[]; // one flag per source scenario in the batch
+  matchedQA: number[]; // QA indices first matched in this batch
+  explanations: MatchExplanation[]; // one per source scenario in the batch
+}
+
+// Flags and explanations for the source scenarios matched so far
+export interface MatchState {
+  covered: boolean[];
+  matchedQA: Set<number>;
+  explanations: MatchExplanation[];
+}
+
+// Best candidate plus this many runners-up are explained per source scenario
+const EXPLAINED_ALTERNATIVES = 3;
+
+// Nearest QA embeddings added to each source scenario's lexical candidates on blocked suites, so
+// paraphrases that share no indexed word are still scored
+const SEMANTIC_NEIGHBOURS = 8;
+
+// Ascending and without repeats, as candidatesFor returns them
+const mergeCandidates = (lexical: number[], semantic: number[]): number[] =>
+  Array.from(new Set([...lexical, ...semantic])).sort((a, b) => a - b);
+
+export interface MatchOptions {
+  onBatch?: (batch: MatchBatch, processed: number, total: number) => void;
+  batchSize?: number;
+  // Receives one line per source scenario and a summary; formatting them dominates runtime on large suites
+  log?: (message: string) => void;
+  // Score only indexed candidates on large QA suites (default true); false scores every pair
+  blocking?: boolean;
+  // Prebuilt index over the same QA scenarios, e.g. when timing the build separately
+  candidateIndex?: CandidateIndex;
+  // Also return every pair above its threshold, for the strict one-to-one assignment
+  collectEdges?: boolean;
+  // Scenario embeddings; a pair whose cosine similarity beats its lexical score is scored semantically.
+  // On blocked suites the nearest QA embeddings are compared on top of the lexical candidates.
+  embeddings?: ScenarioEmbeddings;
+}
+
+export const matchScenarios = (
+  sourceScenarios: GherkinScenario[],
+  qaScenarios: GherkinScenario[],
+  options: MatchOptions = {}
+): MatchState & { comparisons: number; edges: MatchEdge[] } => {
+  const { onBatch, log, blocking = true, collectEdges = false, embeddings } = options;
+  const { semanticMatch } = getMatchingProfile().weights;
+  const batchSize = options.batchSize ?? Math.max(25, Math.ceil(sourceScenarios.length / 100));
+  const covered: boolean[] = [];
+  const matchedQA = new Set<number>();
+  const explanations: MatchExplanation[] = [];
+  let comparisons = 0;
+  const edges: MatchEdge[] = [];
+  
+  // Large suites are blocked through an inverted index instead of scoring every source × QA pair
+  const candidateIndex = !blocking
+    ? null
+    : options.candidateIndex ?? (qaScenarios.length > BLOCKING_MIN_QA ? createCandidateIndex(qaScenarios) : null);
+  // Nearest QA embeddings come from hyperplane buckets, so blocked suites stay below source × QA comparisons
+  const vectorIndex = candidateIndex && embeddings ? createVectorIndex(embeddings.qa) : null;
+  let batch: MatchBatch = { start: 0, covered: [], matchedQA: [], explanations: [] };
+  
+  // SIMPLIFIED: Single pass through source scenarios with smart matching
+  for (let sourceIndex = 0; sourceIndex < sourceScenarios.length; sourceIndex++) {
+    const sourceScenario = sourceScenarios[sourceIndex];
+    let bestMatch: GherkinScenario | null = null;
+    let bestMatchIndex = -1;
+    let bestSimilarity = 0;
+    const scored: MatchEdge[] = [];
+    // Highest-scoring candidates, best first; equal scores keep QA order like bestMatch does
+    const top: Array<{ qaIndex: number; similarity: number; branch: SimilarityBranch }> = [];
+    
+    // Find the best matching QA scenario
+    let candidates = candidateIndex ? candidateIndex.candidatesFor(sourceScenario) : null;
+    if (candidates && vectorIndex) {
+      candidates = mergeCandidates(candidates, vectorIndex.nearest(embeddings.source[sourceIndex], SEMANTIC_NEIGHBOURS, semanticMatch));
+    }
+    const candidateCount = candidates ? candidates.length : qaScenarios.length;
+    comparisons += candidateCount;
+    for (let candidate = 0; candidate < candidateCount; candidate++) {
+      const qaIndex = candidates ? candidates[candidate] : candidate;
+      let { similarity, branch } = scoreSimilarity(sourceScenario, qaScenarios[qaIndex]);
+      if (embeddings && branch !== 'example-conflict') {
+        const semantic = cosineSimilarity(embeddings.source[sourceIndex], embeddings.qa[qaIndex]);
+        if (semantic >= semanticMatch && semantic > similarity) {
+          similarity = semantic;
+          branch = 'semantic';
+        }
+      }
+      if (collectEdges && similarity > 0) scored.push({ source: sourceIndex, qa: qaIndex, similarity });
+      if (similarity > 0 && (top.length <= EXPLAINED_ALTERNATIVES || similarity > top[top.length - 1].similarity)) {
+        let position = top.length;
+        while (position > 0 && top[position - 1].similarity < similarity) position--;
+        top.splice(position, 0, { qaIndex, similarity, branch });
+        if (top.length > EXPLAINED_ALTERNATIVES + 1) top.pop();
+      }
+      
+      if (similarity > bestSimilarity) {
+        bestSimilarity = similarity;
+        bestMatch = qaScenarios[qaIndex];
+        bestMatchIndex = qaIndex;
+      }
+    }
+    
+    // Dynamic thresholding based on scenario characteristics and dataset size
+    const dynamicThreshold = calculateDynamicThreshold(sourceScenarios.length, qaScenarios.length, sourceScenario, bestMatch);
+    const isCovered = !!bestMatch && bestSimilarity > dynamicThreshold;
+    for (const edge of scored) {
+      if (edge.similarity > dynamicThreshold) edges.push(edge);
+    }
+    const [best, ...alternatives] = top.map(candidate =>
+      explainCandidate(sourceScenario, qaScenarios[candidate.qaIndex], candidate.qaIndex, candidate.similarity, candidate.branch)
+    );
+    if (best) best.steps = alignSteps(sourceScenario, qaScenarios[best.qaIndex], best.qaIndex);
+    const explanation: MatchExplanation = { threshold: dynamicThreshold, best: best || null, alternatives };
+    
+    log?.(
+      isCovered
+        ? `matched "${sourceScenario.title}" with "${bestMatch.title}" (similarity ${bestSimilarity.toFixed(3)}, threshold ${dynamicThreshold.toFixed(3)})`
+        : `missing "${sourceScenario.title}" (best similarity ${bestSimilarity.toFixed(3)}, threshold ${dynamicThreshold.toFixed(3)})`
+    );
+    
+    covered.push(isCovered);
+    batch.covered.push(isCovered);
+    explanations.push(explanation);
+    batch.explanations.push(explanation);
+    if (isCovered && !matchedQA.has(bestMatchIndex)) {
+      matchedQA.add(bestMatchIndex);
+      batch.matchedQA.push(bestMatchIndex);
+    }
+    
+    const processed = sourceIndex + 1;
+    if (onBatch && (batch.covered.length >= batchSize || processed === sourceScenarios.length)) {
+      onBatch(batch, processed, sourceScenarios.length);
+      batch = { start: processed, covered: [], matchedQA: [], explanations: [] };
+    }
+  }
+  
+  return { covered, matchedQA, explanations, comparisons, edges };
+};
+
+const buildCoverageView = (processed: GherkinScenario[], qaScenarios: GherkinScenario[], covered: boolean[], matchedQA: Set<number>): CoverageView => {
+  const overlap = processed.filter((_, index) => covered[index]);
+  const missing = processed.filter((_, index) => !covered[index]);
+  
+  // Find unmatched QA scenarios
+  const unmatchedQAScenarios = qaScenarios.filter((_, index) => !matchedQA.has(index));
+  
+  // Calculate coverage based on source scenarios only
+  const coverage = processed.length > 0 ? Math.round((overlap.length / processed.length) * 100) : 0;
+  
+  return {
+    missing: missing,
+    overlap: overlap,
+    partial: [],
+    coverage: coverage,
+    unmatchedQAScenarios: unmatchedQAScenarios,
+    outlineCoverage: summarizeOutlineCoverage(processed, overlap)
+  };
+};
+
+// Builds the result from per-scenario flags. While matching is still running `covered` is shorter
+// than the source list and only the processed scenarios are reported. `strictMatches` holds the
+// one-to-one assigned QA index per source scenario (-1 when none) and is only known at the end.
+export const buildAnalysisResult = (
+  sourceScenarios: GherkinScenario[],
+  qaScenarios: GherkinScenario[],
+  matches: MatchState,
+  strictMatches?: number[]
+): AnalysisResult => {
+  const { covered, matchedQA, explanations } = matches;
+  const processed = sourceScenarios.slice(0, covered.length);
+  const lenient = buildCoverageView(processed, qaScenarios, covered, matchedQA);
+  const strict = strictMatches
+    ? buildCoverageView(processed, qaScenarios, strictMatches.map(qaIndex => qaIndex >= 0), new Set(strictMatches.filter(qaIndex => qaIndex >= 0)))
+    : undefined;
+  
+  // Strict assignments usually are the best match, whose alignment the matcher already computed
+  const lenientAlignments = explanations.slice(0, processed.length).map(explanation => explanation.best?.steps ?? null);
+  const strictAlignments = strictMatches?.map((qaIndex, index) => {
+    if (qaIndex < 0) return null;
+    const best = explanations[index].best;
+    return best?.qaIndex === qaIndex && best.steps ? best.steps : alignSteps(processed[index], qaScenarios[qaIndex], qaIndex);
+  });
+  
+  return {
+    ...lenient,
+    sourceScenarios: processed,
+    qaScenarios: qaScenarios,
+    mode: 'lenient',
+    lenient: lenient,
+    strict: strict,
+    explanations: explanations.slice(0, processed.length),
+    strictMatches: strictMatches,
+    stepMatching: false,
+    stepAlignments: { lenient: lenientAlignments, strict: strictAlignments },
+    profile: getMatchingProfile()
+  };
+};
+
+// Step-level matching: a title match only counts as covered when every source step is asserted, and
+// an unmatched scenario whose best candidate asserts at least this share of its steps is partial
+const PARTIAL_STEP_COVERAGE = 0.5;
+
+const splitBySteps = (view: CoverageView, processed: GherkinScenario[], alignments: Array<StepAlignment | null>): CoverageView => {
+  const titleCovered = new Set(view.overlap);
+  const overlap: GherkinScenario[] = [];
+  const partial: GherkinScenario[] = [];
+  const missing: GherkinScenario[] = [];
+  
+  processed.forEach((scenario, index) => {
+    const alignment = alignments[index];
+    if (titleCovered.has(scenario)) {
+      (alignment && alignment.stepCoverage === 1 ? overlap : partial).push(scenario);
+    } else if (alignment && alignment.stepCoverage >= PARTIAL_STEP_COVERAGE) {
+      partial.push(scenario);
+    } else {
+      missing.push(scenario);
+    }
+  });
+  
+  return {
+    ...view,
+    overlap: overlap,
+    partial: partial,
+    missing: missing,
+    coverage: processed.length > 0 ? Math.round((overlap.length / processed.length) * 100) : 0,
+    outlineCoverage: summarizeOutlineCoverage(processed, overlap)
+  };
+};
+
+// Switches the top-level coverage fields to the chosen view; strict falls back to lenient until it exists
+export const applyCoverageMode = (result: AnalysisResult, mode: CoverageMode, stepMatching = result.stepMatching): AnalysisResult => {
+  const strict = mode === 'strict' && !!result.strict;
+  let view = strict ? result.strict! : result.lenient;
+  if (stepMatching) {
+    const alignments = strict ? result.stepAlignments.strict! : result.stepAlignments.lenient;
+    view = splitBySteps(view, result.sourceScenarios, alignments);
+  }
+  return { ...result, ...view, mode: strict ? 'strict' : 'lenient', stepMatching: stepMatching };
+};
+
+export const performAnalysis = (sourceScenarios: GherkinScenario[], qaScenarios: GherkinScenario[], options: MatchOptions = {}): AnalysisResult => {
+  const matches = matchScenarios(sourceScenarios, qaScenarios, { ...options, collectEdges: true });
+  const result = buildAnalysisResult(sourceScenarios, qaScenarios, matches, assignOneToOne(matches.edges, sourceScenarios.length));
+  options.log?.(
+    `source ${sourceScenarios.length}, QA ${qaScenarios.length}, overlap ${result.overlap.length}, missing ${result.missing.length}, coverage ${result.coverage}% (strict ${result.strict?.coverage}%)`
+  );
+  return result;
+};
+
+// Group expanded source rows back under their outline so coverage can be read per example row
+const summarizeOutlineCoverage = (sourceScenarios: GherkinScenario[], overlap: GherkinScenario[]): OutlineCoverage[] => {
+  const covered = new Set(overlap);
+  const outlines = new Map<string, OutlineCoverage>();
+  
+  for (const scenario of sourceScenarios) {
+    if (!scenario.outlineTitle || !scenario.exampleValues) continue;
+    const key = `${scenario.fileName}::${scenario.outlineLineNumber}::${scenario.outlineTitle}`;
+    if (!outlines.has(key)) {
+      outlines.set(key, {
+        outlineTitle: scenario.outlineTitle,
+        fileName: scenario.fileName,
+        lineNumber: scenario.outlineLineNumber,
+        parameters: Object.keys(scenario.exampleValues),
+        rows: [],
+        coveredRows: 0,
+        coverage: 0
+      });
+    }
+    const outline = outlines.get(key)!;
+    const isCovered = covered.has(scenario);
+    outline.rows.push({ scenario, values: scenario.exampleValues, covered: isCovered });
+    if (isCovered) outline.coveredRows++;
+  }
+  
+  return Array.from(outlines.values()).map(outline => ({
+    ...outline,
+    coverage: Math.round((outline.coveredRows / outline.rows.length) * 100)
+  }));
+};
@@ -0,0 +1,83 @@
+import { describe, expect, it } from 'vitest';
+import type { GherkinScenario } from './scenarioTypes';
+import { performAnalysis } from './coverageMatcher';
+import { buildCoverageReport, hashReportInputs, renderCoverageReport } from './coverageReport';
+
+const scenario = (title: string, workflow: string, lineNumber: number): GherkinScenario =>
+  ({ title, steps: [], workflow, fileName: 'use-cases.feature', lineNumber });
+
+const analysis = performAnalysis(
+  [
+    scenario('Create a new order', 'Orders', 3),
+    scenario('Cancel an open order', 'Orders', 7),
+    scenario('Reset a <forgotten> password', 'Account', 11)
+  ],
+  [{ title: 'Create a new order', steps: [], fileName: 'qa/orders.feature', lineNumber: 2 }, { title: 'Cancel orders', steps: [] }]
+);
+
+const report = buildCoverageReport(analysis, {
+  generatedAt: new Date('2026-01-02T03:04:05Z'),
+  gates: [{ name: 'coverage ≥ 50%', passed: false, message: 'Coverage 33% < required 50%' }]
+});
+
+describe('buildCoverageReport', () => {
+  it('summarizes the analysis with locations and a workflow breakdown', () => {
+    expect(report.generatedAt).toBe('2026-01-02T03:04:05.000Z');
+    expect(report.totals).toEqual({ source: 3, qa: 2, covered: 1, partial: 0, missing: 2, unmatchedQA: 1 });
+    expect(report.covered[0]).toMatchObject({
+      source: { title: 'Create a new order', fileName: 'use-cases.feature', lineNumber: 3 },
+      qa: { title: 'Create a new order', fileName: 'qa/orders.feature', lineNumber: 2 }
+    });
+    expect(report.unmatchedQA).toEqual([{ title: 'Cancel orders' }]);
+    expect(report.workflows).toEqual([
+      { workflow: 'Orders', total: 2, covered: 1, partial: 0, missing: 1, coverage: 50 },
+      { workflow: 'Account', total: 1, covered: 0, partial: 0, missing: 1, coverage: 0 }
+    ]);
+  });
+
+  it('reports the closest QA scenario of a missing use case', () => {
+    const cancel = report.missing.find(entry => entry.source.title === 'Cancel an open order')!;
+    expect(cancel.qa).toEqual({ title: 'Cancel orders' });
+    expect(cancel.similarity).toBeGreaterThan(0);
+    expect(cancel.similarity).toBeLessThan(cancel.threshold);
+  });
+});
+
+describe('renderCoverageReport', () => {
+  it('serializes JSON with sorted keys', () => {
+    const json = renderCoverageReport(report, 'json');
+    expect(JSON.parse(json)).toEqual(JSON.parse(JSON.stringify(report)));
+    const keys = Object.keys(JSON.parse(json));
+    expect(keys).toEqual([...keys].sort());
+    expect(renderCoverageReport(buildCoverageReport(analysis, { generatedAt: new Date('2026-01-02T03:04:05Z'), gates: report.gates }), 'json')).toBe(json);
+  });
+
+  it('renders a self-contained HTML page with escaped titles', () => {
+    const html = renderCoverageReport(report, 'html');
+    expect(html).toMatch(/^<!DOCTYPE html>/);
+    expect(html).toContain('Reset a &lt;forgotten&gt; password');
+    expect(html).not.toContain('<forgotten>');
+    expect(html).toContain('❌ <strong>coverage ≥ 50%</strong>: Coverage 33% &lt; required 50%');
+    expect(html).toContain('<td>Orders</td><td class="num">2</td><td class="num">1</td><td class="num">0</td><td class="num">1</td><td class="num">50%</td>');
+    expect(html).not.toMatch(/<(script|link)\b|src="http/);
+  });
+
+  it('renders Markdown tables for PR comments', () => {
+    const markdown = renderCoverageReport(report, 'md');
+    expect(markdown).toContain('- **Coverage (lenient):** 33%');
+    expect(markdown).toContain('| Reset a \\<forgotten\\> password | use-cases.feature:11 |');
+    expect(markdown).toContain('## QA scenarios without a use case (1)\n\n- Cancel orders\n');
+  });
+});
+
+describe('hashReportInputs', () => {
+  it('hashes text sources as UTF-8 and keeps upload hashes', async () => {
+    expect(await hashReportInputs('qa', [
+      { path: 'a.feature', content: 'abc' },
+      { path: 'b.feature', content: 'ignored', bytes: 3, sha256: 'f'.repeat(64) }
+    ])).toEqual([
+      { role: 'qa', path: 'a.feature', bytes: 3, sha256: 'ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad' },
+      { role: 'qa', path: 'b.feature', bytes: 3, sha256: 'f'.repeat(64) }
+    ]);
+  });
+});
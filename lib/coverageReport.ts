@@ -0,0 +1,540 @@
+// Coverage reports for CI and stakeholders: a JSON-serializable summary of an analysis, its workflow
+// breakdown, gaps, duplicates and quality gates, with hashes of the input files it was produced from.
+// Rendered as canonical JSON, Markdown for PR comments or a self-contained HTML page that prints to PDF.
+import type { AnalysisResult, DuplicateAnalysis, GherkinScenario, MissingGapAnalysis, MissingScenario } from './scenarioTypes';
+import { digestFileData, type FeatureFileSource } from './featureFiles';
+import { SEVERITIES, type QualityGateResult, type Severity } from './qualityGates';
+import { barChartSvg, donutChartSvg, svgImage } from './reportCharts';
+
+export type ReportFormat = 'json' | 'md' | 'html';
+export const REPORT_FORMATS: ReportFormat[] = ['json', 'md', 'html'];
+
+export interface ReportScenario {
+  title: string;
+  fileName?: string;
+  lineNumber?: number;
+}
+
+export interface ReportEntry {
+  source: ReportScenario;
+  // The matched QA scenario; for missing scenarios the closest candidate, if any
+  qa?: ReportScenario;
+  similarity: number;
+  threshold: number;
+  unassertedSteps?: string[];
+}
+
+// An input feature file, identified by content
+export interface ReportInput {
+  role: 'source' | 'qa';
+  path: string;
+  bytes: number;
+  sha256: string;
+}
+
+export interface ReportWorkflow {
+  workflow: string;
+  total: number;
+  covered: number;
+  partial: number;
+  missing: number;
+  coverage: number;
+}
+
+export interface ReportGap {
+  title: string;
+  severity: Severity;
+  businessImpact: string;
+  suggestedSteps: string[];
+}
+
+export interface ReportGaps {
+  totalMissing: number;
+  bySeverity: Record<Severity, number>;
+  functional: ReportGap[];
+  endToEnd: ReportGap[];
+  integration: ReportGap[];
+  performanceSuggestions: string[];
+  loadTestingSuggestions: string[];
+}
+
+export interface ReportDuplicateGroup {
+  group: string;
+  similarity: number;
+  reason: string;
+  scenarios: ReportScenario[];
+  recommendations: string[];
+}
+
+export interface ReportDuplicates {
+  scanned: number;
+  duplicates: number;
+  unique: number;
+  optimizationPotential: number;
+  exactMatches: number;
+  highSimilarity: number;
+  mediumSimilarity: number;
+  groups: ReportDuplicateGroup[];
+}
+
+export interface CoverageReport {
+  generatedAt: string;
+  inputs: ReportInput[];
+  profile: string;
+  mode: AnalysisResult['mode'];
+  stepMatching: boolean;
+  coverage: number;
+  lenientCoverage: number;
+  strictCoverage?: number;
+  totals: {
+    source: number;
+    qa: number;
+    covered: number;
+    partial: number;
+    missing: number;
+    unmatchedQA: number;
+  };
+  covered: ReportEntry[];
+  partial: ReportEntry[];
+  missing: ReportEntry[];
+  unmatchedQA: ReportScenario[];
+  workflows: ReportWorkflow[];
+  // Only when the caller ran gap analysis / duplicate detection
+  gaps?: ReportGaps;
+  duplicates?: ReportDuplicates;
+  gates: QualityGateResult[];
+}
+
+export interface ReportOptions {
+  gates?: QualityGateResult[];
+  inputs?: ReportInput[];
+  gaps?: MissingGapAnalysis;
+  duplicates?: DuplicateAnalysis;
+  generatedAt?: Date;
+}
+
+export const REPORT_FILE_EXTENSIONS: Record<ReportFormat, string> = { json: 'json', md: 'md', html: 'html' };
+
+// Hashes taken of the uploaded bytes (so they match sha256sum and the CLI); sources built from text,
+// such as JSON request bodies, are hashed as UTF-8
+export const hashReportInputs = async (role: ReportInput['role'], files: FeatureFileSource[]): Promise<ReportInput[]> =>
+  Promise.all(
+    files.map(async file => {
+      const { bytes, sha256 } = file.sha256 ? file : await digestFileData(new TextEncoder().encode(file.content));
+      if (!sha256) throw new Error('Input hashes need Web Crypto, which browsers only provide over https or on localhost');
+      return { role, path: file.path, bytes, sha256 };
+    })
+  );
+
+const toReportScenario = (scenario: GherkinScenario): ReportScenario => ({
+  title: scenario.title,
+  ...(scenario.fileName && { fileName: scenario.fileName }),
+  ...(scenario.lineNumber && { lineNumber: scenario.lineNumber })
+});
+
+// Every source workflow with its covered / partial / missing split, largest first
+const workflowBreakdown = (result: AnalysisResult): ReportWorkflow[] => {
+  const workflows = new Map<string, ReportWorkflow>();
+  const count = (scenarios: GherkinScenario[], field: 'covered' | 'partial' | 'missing') =>
+    scenarios.forEach(scenario => {
+      const name = scenario.workflow || 'General Business Processes';
+      if (!workflows.has(name)) workflows.set(name, { workflow: name, total: 0, covered: 0, partial: 0, missing: 0, coverage: 0 });
+      const workflow = workflows.get(name)!;
+      workflow.total++;
+      workflow[field]++;
+    });
+  count(result.overlap, 'covered');
+  count(result.partial, 'partial');
+  count(result.missing, 'missing');
+  return Array.from(workflows.values())
+    .map(workflow => ({ ...workflow, coverage: Math.round((workflow.covered / workflow.total) * 100) }))
+    .sort((a, b) => b.total - a.total || a.workflow.localeCompare(b.workflow));
+};
+
+const toReportGap = (scenario: MissingScenario): ReportGap => ({
+  title: scenario.title,
+  severity: scenario.severity,
+  businessImpact: scenario.businessImpact,
+  suggestedSteps: scenario.suggestedSteps
+});
+
+const toReportGaps = (gaps: MissingGapAnalysis): ReportGaps => ({
+  totalMissing: gaps.totalMissing,
+  bySeverity: { Critical: gaps.criticalCount, High: gaps.highCount, Medium: gaps.mediumCount, Low: gaps.lowCount },
+  functional: gaps.functional.map(toReportGap),
+  endToEnd: gaps.endToEnd.map(toReportGap),
+  integration: gaps.integration.map(toReportGap),
+  performanceSuggestions: gaps.performanceSuggestions,
+  loadTestingSuggestions: gaps.loadTestingSuggestions
+});
+
+const toReportDuplicates = (duplicates: DuplicateAnalysis): ReportDuplicates => ({
+  scanned: duplicates.totalScenariosScanned,
+  duplicates: duplicates.totalDuplicates,
+  unique: duplicates.uniqueScenarios,
+  optimizationPotential: duplicates.optimizationPotential,
+  exactMatches: duplicates.duplicateTypes.exactMatches,
+  highSimilarity: duplicates.duplicateTypes.highSimilarity,
+  mediumSimilarity: duplicates.duplicateTypes.mediumSimilarity,
+  groups: duplicates.duplicates.map(group => ({
+    group: group.group,
+    similarity: group.similarity,
+    reason: group.reason,
+    scenarios: group.scenarios.map(toReportScenario),
+    recommendations: group.recommendations
+  }))
+});
+
+export const buildCoverageReport = (result: AnalysisResult, options: ReportOptions = {}): CoverageReport => {
+  const { gates = [], inputs = [], generatedAt = new Date() } = options;
+  const strict = result.mode === 'strict' && !!result.strictMatches;
+  const alignments = (strict ? result.stepAlignments.strict : result.stepAlignments.lenient) || [];
+  const sourceIndex = new Map(result.sourceScenarios.map((scenario, index) => [scenario, index]));
+
+  const entry = (scenario: GherkinScenario): ReportEntry => {
+    const index = sourceIndex.get(scenario)!;
+    const explanation = result.explanations[index];
+    const qaIndex = strict ? result.strictMatches![index] : explanation?.best?.qaIndex ?? -1;
+    const candidate = qaIndex >= 0 && qaIndex === explanation?.best?.qaIndex ? explanation.best : explanation?.alternatives.find(other => other.qaIndex === qaIndex);
+    const unasserted = alignments[index]?.qaIndex === qaIndex ? alignments[index]!.unassertedSteps : [];
+    return {
+      source: toReportScenario(scenario),
+      ...(qaIndex >= 0 && { qa: toReportScenario(result.qaScenarios[qaIndex]) }),
+      similarity: candidate?.similarity ?? explanation?.best?.similarity ?? 0,
+      threshold: explanation?.threshold ?? 0,
+      ...(unasserted.length > 0 && { unassertedSteps: unasserted.map(step => `${step.keyword} ${step.text}`) })
+    };
+  };
+
+  return {
+    generatedAt: generatedAt.toISOString(),
+    inputs,
+    profile: result.profile.name,
+    mode: result.mode,
+    stepMatching: result.stepMatching,
+    coverage: result.coverage,
+    lenientCoverage: result.lenient.coverage,
+    ...(result.strict && { strictCoverage: result.strict.coverage }),
+    totals: {
+      source: result.sourceScenarios.length,
+      qa: result.qaScenarios.length,
+      covered: result.overlap.length,
+      partial: result.partial.length,
+      missing: result.missing.length,
+      unmatchedQA: result.unmatchedQAScenarios.length
+    },
+    covered: result.overlap.map(entry),
+    partial: result.partial.map(entry),
+    missing: result.missing.map(scenario => {
+      const missing = entry(scenario);
+      // A missing scenario has no match in strict mode either; report its closest candidate
+      const best = result.explanations[sourceIndex.get(scenario)!]?.best;
+      return !missing.qa && best ? { ...missing, qa: toReportScenario(result.qaScenarios[best.qaIndex]), similarity: best.similarity } : missing;
+    }),
+    unmatchedQA: result.unmatchedQAScenarios.map(toReportScenario),
+    workflows: workflowBreakdown(result),
+    ...(options.gaps && { gaps: toReportGaps(options.gaps) }),
+    ...(options.duplicates && { duplicates: toReportDuplicates(options.duplicates) }),
+    gates
+  };
+};
+
+const location = (scenario: ReportScenario): string =>
+  scenario.fileName ? `${scenario.fileName}${scenario.lineNumber ? `:${scenario.lineNumber}` : ''}` : '';
+
+const gapCategories = (gaps: ReportGaps): Array<[string, ReportGap[]]> => [
+  ['Functional', gaps.functional],
+  ['End-to-End', gaps.endToEnd],
+  ['Integration', gaps.integration]
+];
+
+const gateIcon = (gate: QualityGateResult): string => (gate.skipped ? '⏭️' : gate.passed ? '✅' : '❌');
+
+const escapeMarkdown = (text: string): string => text.replace(/([\\|*_`[\]<>])/g, '\\$1');
+
+export const renderMarkdownReport = (report: CoverageReport): string => {
+  const lines = [
+    '# QualiScan coverage report',
+    '',
+    `- **Coverage (${report.mode}):** ${report.coverage}%`,
+    `- **Lenient / strict:** ${report.lenientCoverage}% / ${report.strictCoverage ?? '–'}%`,
+    `- **Use cases:** ${report.totals.source} • **QA scenarios:** ${report.totals.qa}`,
+    `- **Covered:** ${report.totals.covered} • **Partially covered:** ${report.totals.partial} • **Missing:** ${report.totals.missing} • **Unmatched QA:** ${report.totals.unmatchedQA}`,
+    `- **Matching profile:** ${escapeMarkdown(report.profile)}`,
+    `- **Generated:** ${report.generatedAt}`
+  ];
+  if (report.gates.length > 0) {
+    lines.push('', '## Quality gates', '');
+    report.gates.forEach(gate => lines.push(`- ${gateIcon(gate)} **${escapeMarkdown(gate.name)}:** ${escapeMarkdown(gate.message)}`));
+  }
+  const table = (title: string, entries: ReportEntry[], qaHeader: string) => {
+    if (entries.length === 0) return;
+    lines.push('', `## ${title} (${entries.length})`, '', `| Use case | Location | ${qaHeader} | Similarity | Threshold |`, '| --- | --- | --- | ---: | ---: |');
+    entries.forEach(entry =>
+      lines.push(
+        `| ${escapeMarkdown(entry.source.title)} | ${escapeMarkdown(location(entry.source))} | ${entry.qa ? escapeMarkdown(entry.qa.title) : '–'} | ${entry.similarity.toFixed(3)} | ${entry.threshold.toFixed(3)} |`
+      )
+    );
+  };
+  if (report.workflows.length > 0) {
+    lines.push('', '## Workflows', '', '| Workflow | Use cases | Covered | Partial | Missing | Coverage |', '| --- | ---: | ---: | ---: | ---: | ---: |');
+    report.workflows.forEach(workflow =>
+      lines.push(`| ${escapeMarkdown(workflow.workflow)} | ${workflow.total} | ${workflow.covered} | ${workflow.partial} | ${workflow.missing} | ${workflow.coverage}% |`)
+    );
+  }
+  if (report.gaps) {
+    const { gaps } = report;
+    lines.push('', `## Gaps (${gaps.totalMissing})`, '', SEVERITIES.map(severity => `**${severity}:** ${gaps.bySeverity[severity]}`).join(' • '));
+    gapCategories(gaps).forEach(([category, entries]) => {
+      if (entries.length === 0) return;
+      lines.push('', `### ${category} (${entries.length})`, '');
+      entries.forEach(gap => lines.push(`- **${gap.severity}:** ${escapeMarkdown(gap.title)}`));
+    });
+    const suggestions = [...gaps.performanceSuggestions, ...gaps.loadTestingSuggestions];
+    if (suggestions.length > 0) {
+      lines.push('', '### Performance and load testing', '');
+      suggestions.forEach(suggestion => lines.push(`- ${escapeMarkdown(suggestion)}`));
+    }
+  }
+  if (report.duplicates) {
+    const { duplicates } = report;
+    lines.push(
+      '',
+      `## Duplicates (${duplicates.groups.length} groups)`,
+      '',
+      `**Scanned:** ${duplicates.scanned} • **Duplicates:** ${duplicates.duplicates} • **Unique:** ${duplicates.unique} • **Optimization potential:** ${duplicates.optimizationPotential}%`
+    );
+    if (duplicates.groups.length > 0) lines.push('');
+    duplicates.groups.forEach(group =>
+      lines.push(`- **${escapeMarkdown(group.group)}** (${group.similarity}%): ${group.scenarios.map(scenario => escapeMarkdown(scenario.title)).join('; ')}`)
+    );
+  }
+  table('Missing', report.missing, 'Closest QA scenario');
+  table('Partially covered', report.partial, 'QA scenario');
+  table('Covered', report.covered, 'QA scenario');
+  if (report.unmatchedQA.length > 0) {
+    lines.push('', `## QA scenarios without a use case (${report.unmatchedQA.length})`, '');
+    report.unmatchedQA.forEach(scenario => lines.push(`- ${escapeMarkdown(scenario.title)}${location(scenario) ? ` (${escapeMarkdown(location(scenario))})` : ''}`));
+  }
+  if (report.inputs.length > 0) {
+    lines.push('', '## Inputs', '', '| Role | File | Bytes | SHA-256 |', '| --- | --- | ---: | --- |');
+    report.inputs.forEach(input => lines.push(`| ${input.role} | ${escapeMarkdown(input.path)} | ${input.bytes} | \`${input.sha256}\` |`));
+  }
+  return lines.join('\n') + '\n';
+};
+
+const escapeHtml = (text: string): string =>
+  text.replace(/[&<>"']/g, char => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' })[char]!);
+
+const SEVERITY_COLORS: Record<Severity, string> = { Critical: '#dc2626', High: '#ea580c', Medium: '#ca8a04', Low: '#16a34a' };
+
+const coverageColor = (coverage: number): string => (coverage >= 80 ? '#16a34a' : coverage >= 50 ? '#ca8a04' : '#dc2626');
+
+const renderHtmlCharts = (report: CoverageReport): string => {
+  const figures = [
+    `<figure>${svgImage(
+      donutChartSvg(
+        [
+          { label: 'Covered', value: report.totals.covered, color: '#16a34a' },
+          { label: 'Partially covered', value: report.totals.partial, color: '#ca8a04' },
+          { label: 'Missing', value: report.totals.missing, color: '#dc2626' }
+        ],
+        `${report.coverage}%`
+      ),
+      `Coverage ${report.coverage}%`
+    )}<figcaption>Use case coverage</figcaption></figure>`
+  ];
+  if (report.workflows.length > 0) {
+    figures.push(
+      `<figure>${svgImage(
+        barChartSvg(report.workflows.map(workflow => ({ label: workflow.workflow, value: workflow.coverage, color: coverageColor(workflow.coverage) })), { max: 100, unit: '%' }),
+        'Coverage per workflow'
+      )}<figcaption>Coverage per workflow</figcaption></figure>`
+    );
+  }
+  if (report.gaps && report.gaps.totalMissing > 0) {
+    const { bySeverity } = report.gaps;
+    figures.push(
+      `<figure>${svgImage(
+        barChartSvg(SEVERITIES.map(severity => ({ label: severity, value: bySeverity[severity], color: SEVERITY_COLORS[severity] }))),
+        'Missing scenarios by severity'
+      )}<figcaption>Missing scenarios by severity</figcaption></figure>`
+    );
+  }
+  if (report.duplicates && report.duplicates.duplicates > 0) {
+    const { duplicates } = report;
+    figures.push(
+      `<figure>${svgImage(
+        barChartSvg([
+          { label: 'Exact matches', value: duplicates.exactMatches, color: '#dc2626' },
+          { label: 'High similarity', value: duplicates.highSimilarity, color: '#ea580c' },
+          { label: 'Medium similarity', value: duplicates.mediumSimilarity, color: '#ca8a04' }
+        ]),
+        'Duplicate scenarios by similarity'
+      )}<figcaption>Duplicate scenarios by similarity</figcaption></figure>`
+    );
+  }
+  return `<div class="charts">\n${figures.join('\n')}\n</div>`;
+};
+
+const renderHtmlWorkflows = (workflows: ReportWorkflow[]): string =>
+  workflows.length === 0
+    ? ''
+    : `<h2>Workflows</h2>
+<table>
+<thead><tr><th>Workflow</th><th class="num">Use cases</th><th class="num">Covered</th><th class="num">Partial</th><th class="num">Missing</th><th class="num">Coverage</th></tr></thead>
+<tbody>
+${workflows
+  .map(workflow => `<tr><td>${escapeHtml(workflow.workflow)}</td><td class="num">${workflow.total}</td><td class="num">${workflow.covered}</td><td class="num">${workflow.partial}</td><td class="num">${workflow.missing}</td><td class="num">${workflow.coverage}%</td></tr>`)
+  .join('\n')}
+</tbody>
+</table>`;
+
+const renderHtmlGaps = (gaps: ReportGaps | undefined): string => {
+  if (!gaps) return '';
+  const sections = gapCategories(gaps)
+    .filter(([, entries]) => entries.length > 0)
+    .map(([category, entries]) => `<h3>${category} (${entries.length})</h3>
+<table>
+<thead><tr><th>Scenario</th><th>Severity</th><th>Business impact</th></tr></thead>
+<tbody>
+${entries
+  .map(gap => `<tr><td>${escapeHtml(gap.title)}<ul class="suggested">${gap.suggestedSteps.map(step => `<li>${escapeHtml(step)}</li>`).join('')}</ul></td><td class="severity-${gap.severity.toLowerCase()}">${gap.severity}</td><td>${escapeHtml(gap.businessImpact)}</td></tr>`)
+  .join('\n')}
+</tbody>
+</table>`);
+  const suggestions = [...gaps.performanceSuggestions, ...gaps.loadTestingSuggestions];
+  return `<h2>Gaps (${gaps.totalMissing})</h2>
+<p>${SEVERITIES.map(severity => `<span class="severity-${severity.toLowerCase()}">${severity}: <strong>${gaps.bySeverity[severity]}</strong></span>`).join(' • ')}</p>
+${sections.join('\n')}
+${suggestions.length > 0 ? `<h3>Performance and load testing</h3>
+<ul>
+${suggestions.map(suggestion => `<li>${escapeHtml(suggestion)}</li>`).join('\n')}
+</ul>` : ''}`;
+};
+
+const renderHtmlDuplicates = (duplicates: ReportDuplicates | undefined): string =>
+  !duplicates
+    ? ''
+    : `<h2>Duplicates (${duplicates.groups.length} groups)</h2>
+<p>Scanned <strong>${duplicates.scanned}</strong> • duplicates <strong>${duplicates.duplicates}</strong> • unique <strong>${duplicates.unique}</strong> • optimization potential <strong>${duplicates.optimizationPotential}%</strong></p>
+${duplicates.groups.length > 0 ? `<table>
+<thead><tr><th>Group</th><th class="num">Similarity</th><th>Scenarios</th><th>Recommendations</th></tr></thead>
+<tbody>
+${duplicates.groups
+  .map(group => `<tr><td>${escapeHtml(group.group)}<div class="loc">${escapeHtml(group.reason)}</div></td><td class="num">${group.similarity}%</td><td><ul>${group.scenarios.map(scenario => `<li>${escapeHtml(scenario.title)} <span class="loc">${escapeHtml(location(scenario))}</span></li>`).join('')}</ul></td><td><ul>${group.recommendations.map(recommendation => `<li>${escapeHtml(recommendation)}</li>`).join('')}</ul></td></tr>`)
+  .join('\n')}
+</tbody>
+</table>` : ''}`;
+
+const renderHtmlInputs = (inputs: ReportInput[]): string =>
+  inputs.length === 0
+    ? ''
+    : `<h2>Inputs</h2>
+<table class="inputs">
+<thead><tr><th>Role</th><th>File</th><th class="num">Bytes</th><th>SHA-256</th></tr></thead>
+<tbody>
+${inputs.map(input => `<tr><td>${input.role}</td><td class="loc">${escapeHtml(input.path)}</td><td class="num">${input.bytes}</td><td class="hash">${input.sha256}</td></tr>`).join('\n')}
+</tbody>
+</table>`;
+
+export const renderHtmlReport = (report: CoverageReport): string => {
+  const table = (title: string, entries: ReportEntry[], qaHeader: string) =>
+    entries.length === 0
+      ? ''
+      : `<h2>${escapeHtml(title)} (${entries.length})</h2>
+<table>
+<thead><tr><th>Use case</th><th>Location</th><th>${qaHeader}</th><th class="num">Similarity</th><th class="num">Threshold</th></tr></thead>
+<tbody>
+${entries
+  .map(entry => `<tr><td>${escapeHtml(entry.source.title)}${
+    entry.unassertedSteps ? `<ul class="steps">${entry.unassertedSteps.map(step => `<li>${escapeHtml(step)}</li>`).join('')}</ul>` : ''
+  }</td><td class="loc">${escapeHtml(location(entry.source))}</td><td>${entry.qa ? escapeHtml(entry.qa.title) : '–'}</td><td class="num">${entry.similarity.toFixed(3)}</td><td class="num">${entry.threshold.toFixed(3)}</td></tr>`)
+  .join('\n')}
+</tbody>
+</table>`;
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>QualiScan coverage report</title>
+<style>
+body { font-family: system-ui, sans-serif; margin: 2rem; color: #1f2937; }
+h1 { margin-bottom: 0.5rem; }
+.summary { display: flex; gap: 2rem; margin: 1rem 0; }
+.summary div { text-align: center; }
+.summary strong { display: block; font-size: 1.75rem; }
+.covered { color: #16a34a; } .partial { color: #ca8a04; } .missing { color: #dc2626; }
+table { border-collapse: collapse; width: 100%; margin-bottom: 2rem; font-size: 0.875rem; }
+th, td { border: 1px solid #e5e7eb; padding: 0.4rem 0.6rem; text-align: left; vertical-align: top; }
+th { background: #f9fafb; }
+.num { text-align: right; font-variant-numeric: tabular-nums; }
+.loc { color: #6b7280; font-family: monospace; }
+.steps { margin: 0.25rem 0 0; color: #92400e; font-size: 0.75rem; }
+.gates li { list-style: none; }
+.charts { display: flex; flex-wrap: wrap; gap: 1.5rem; margin: 1.5rem 0; }
+.charts figure { margin: 0; }
+.charts figcaption { font-size: 0.8rem; color: #6b7280; text-align: center; }
+.chart { max-width: 100%; }
+.suggested { margin: 0.25rem 0 0; color: #6b7280; font-size: 0.75rem; }
+.severity-critical { color: #dc2626; } .severity-high { color: #ea580c; } .severity-medium { color: #ca8a04; } .severity-low { color: #16a34a; }
+.hash { font-family: monospace; font-size: 0.75rem; word-break: break-all; }
+@page { margin: 1.5cm; }
+@media print {
+  body { margin: 0; font-size: 10pt; -webkit-print-color-adjust: exact; print-color-adjust: exact; }
+  h2, h3 { break-after: avoid; }
+  tr, figure, .summary { break-inside: avoid; }
+  thead { display: table-header-group; }
+}
+</style>
+</head>
+<body>
+<h1>QualiScan coverage report</h1>
+<p>Matching profile <strong>${escapeHtml(report.profile)}</strong> • ${report.mode} coverage${report.stepMatching ? ' with step matching' : ''} • generated ${escapeHtml(report.generatedAt)}</p>
+<div class="summary">
+<div><strong>${report.coverage}%</strong>Coverage</div>
+<div><strong>${report.lenientCoverage}% / ${report.strictCoverage ?? '–'}%</strong>Lenient / strict</div>
+<div><strong class="covered">${report.totals.covered}</strong>Covered</div>
+<div><strong class="partial">${report.totals.partial}</strong>Partially covered</div>
+<div><strong class="missing">${report.totals.missing}</strong>Missing</div>
+<div><strong>${report.totals.source} / ${report.totals.qa}</strong>Use cases / QA scenarios</div>
+</div>
+${report.gates.length > 0 ? `<h2>Quality gates</h2>
+<ul class="gates">
+${report.gates.map(gate => `<li>${gateIcon(gate)} <strong>${escapeHtml(gate.name)}</strong>: ${escapeHtml(gate.message)}</li>`).join('\n')}
+</ul>` : ''}
+${renderHtmlCharts(report)}
+${renderHtmlWorkflows(report.workflows)}
+${renderHtmlGaps(report.gaps)}
+${renderHtmlDuplicates(report.duplicates)}
+${table('Missing', report.missing, 'Closest QA scenario')}
+${table('Partially covered', report.partial, 'QA scenario')}
+${table('Covered', report.covered, 'QA scenario')}
+${report.unmatchedQA.length > 0 ? `<h2>QA scenarios without a use case (${report.unmatchedQA.length})</h2>
+<ul>
+${report.unmatchedQA.map(scenario => `<li>${escapeHtml(scenario.title)} <span class="loc">${escapeHtml(location(scenario))}</span></li>`).join('\n')}
+</ul>` : ''}
+${renderHtmlInputs(report.inputs)}
+</body>
+</html>
+`;
+};
+
+// Keys sorted at every level, so the same analysis always serializes to the same bytes
+const canonicalize = (value: unknown): unknown => {
+  if (Array.isArray(value)) return value.map(canonicalize);
+  if (typeof value !== 'object' || value === null) return value;
+  return Object.fromEntries(
+    Object.keys(value)
+      .sort()
+      .filter(key => value[key as keyof typeof value] !== undefined)
+      .map(key => [key, canonicalize(value[key as keyof typeof value])])
+  );
+};
+
+export const renderCoverageReport = (report: CoverageReport, format: ReportFormat): string => {
+  if (format === 'md') return renderMarkdownReport(report);
+  if (format === 'html') return renderHtmlReport(report);
+  return JSON.stringify(canonicalize(report), null, 2) + '\n';
+};
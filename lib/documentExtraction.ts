@@ -0,0 +1,95 @@
+// Requirement documents to Gherkin scenarios: text extraction (PDF through pdfjs, everything else as
+// text) and the Gemini prompt that turns the text into scenarios. pdfjs differs between the browser
+// and Node builds, so callers pass in the getDocument of the build they loaded.
+import type { DocumentAnalysis, GherkinScenario } from './scenarioTypes';
+import { generateJSON, type GeminiModel } from './gemini';
+
+export const DOCUMENT_EXTRACTION_MODEL: GeminiModel = 'gemini-2.5-flash';
+
+// The subset of pdfjs' getDocument used here
+export type PdfDocumentLoader = (source: { data: Uint8Array }) => {
+  promise: Promise<{
+    numPages: number;
+    getPage: (pageNumber: number) => Promise<{ getTextContent: () => Promise<{ items: unknown[] }> }>;
+  }>;
+};
+
+export const isPdfDocument = (fileName: string, type?: string): boolean =>
+  type === 'application/pdf' || fileName.toLowerCase().endsWith('.pdf');
+
+// Text of every page, one line per page
+export const extractPdfText = async (getDocument: PdfDocumentLoader, data: Uint8Array): Promise<string> => {
+  const pdf = await getDocument({ data }).promise;
+  let fullText = '';
+  for (let pageNum = 1; pageNum <= pdf.numPages; pageNum++) {
+    const page = await pdf.getPage(pageNum);
+    const textContent = await page.getTextContent();
+    const pageText = textContent.items
+      .map((item: any) => ('str' in item ? item.str : item.unicode || ''))
+      .join(' ');
+    fullText += pageText + '\n';
+  }
+  return fullText;
+};
+
+const buildExtractionPrompt = (fileName: string, content: string) => `You are an expert test engineer. Extract executable Gherkin test scenarios from the document text provided.
+Return strict JSON with the following shape:
+{
+  "scenarios": [
+    {
+      "title": string,
+      "steps": string[],
+      "tags": string[],
+      "businessImpact": string | null,
+      "workflow": string | null,
+      "testCategory": "Functional" | "End-to-End" | "Integration",
+      "severity": "Critical" | "High" | "Medium" | "Low",
+      "lineNumber": number | null
+    }
+  ]
+}
+
+Do not include any explanatory text or markdown – return only valid JSON. If you cannot find scenarios, return {"scenarios": []}.
+
+Document name: ${fileName}
+
+Document text:
+"""
+${content}
+"""
+`;
+
+// Scenarios Gemini found in one document; error is set when the response had no scenario list
+export const extractDocumentScenarios = async (
+  apiKey: string,
+  fileName: string,
+  content: string
+): Promise<{ scenarios: GherkinScenario[]; error?: string }> => {
+  const res = await generateJSON<{ scenarios: any[] }>(apiKey, buildExtractionPrompt(fileName, content), DOCUMENT_EXTRACTION_MODEL);
+  if (!res || !res.ok || !res.data || !Array.isArray(res.data.scenarios)) {
+    return { scenarios: [], error: res?.error || 'Gemini did not return scenarios' };
+  }
+  return {
+    scenarios: res.data.scenarios.map((s: any, idx: number) => ({
+      title: String(s.title || `Scenario ${idx+1}`),
+      steps: Array.isArray(s.steps) ? s.steps.map((st:any)=>String(st)) : (s.steps ? [String(s.steps)] : []),
+      tags: Array.isArray(s.tags) ? s.tags.map((t:any)=>String(t)) : [],
+      businessImpact: s.businessImpact ? String(s.businessImpact) : undefined,
+      workflow: s.workflow ? String(s.workflow) : undefined,
+      testCategory: s.testCategory === 'End-to-End' || s.testCategory === 'Integration' ? s.testCategory : 'Functional',
+      severity: (['Critical','High','Medium','Low'].includes(s.severity) ? s.severity : 'Medium') as any,
+      fileName,
+      lineNumber: typeof s.lineNumber === 'number' ? s.lineNumber : undefined
+    }))
+  };
+};
+
+export const buildDocumentAnalysis = (files: Array<{ name: string; type?: string }>, scenarios: GherkinScenario[]): DocumentAnalysis => ({
+  fileName: files.map(f => f.name).join(', '),
+  fileType: files.map(f => f.type || 'unknown').join(', '),
+  totalRequirements: 0,
+  generatedScenarios: scenarios.length,
+  requirements: [],
+  scenarios,
+  timestamp: new Date()
+});
@@ -0,0 +1,35 @@
+// Browser helpers for handing generated files and text to the user
+export const downloadFile = (fileName: string, content: string | Uint8Array, type: string) => {
+  const url = URL.createObjectURL(new Blob([typeof content === 'string' ? content : new Uint8Array(content)], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+// Falls back to a hidden textarea where the async clipboard API is unavailable (plain http, older browsers)
+export const copyToClipboard = async (text: string): Promise<boolean> => {
+  try {
+    await navigator.clipboard.writeText(text);
+    return true;
+  } catch (e) {
+    const textarea = document.createElement('textarea');
+    textarea.value = text;
+    textarea.style.position = 'fixed';
+    textarea.style.opacity = '0';
+    document.body.appendChild(textarea);
+    textarea.select();
+    try {
+      return document.execCommand('copy');
+    } catch (err) {
+      return false;
+    } finally {
+      document.body.removeChild(textarea);
+    }
+  }
+};
+
+// Base name for exports derived from an uploaded file name ("Specs v2.pdf" -> "specs-v2")
+export const exportBaseName = (fileName: string, fallback: string): string =>
+  fileName.replace(/\.[^.]+$/, '').toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || fallback;
@@ -0,0 +1,234 @@
+// Duplicate detection across a single QA suite.
+import type { GherkinScenario, DuplicateAnalysis } from './scenarioTypes';
+import { calculateTitleSimilarity } from './coverageMatcher';
+
+// Rows of the same outline are intentional data variations, not duplicates
+const isSameOutline = (scenario1: GherkinScenario, scenario2: GherkinScenario): boolean =>
+  !!scenario1.outlineTitle &&
+  scenario1.outlineTitle === scenario2.outlineTitle &&
+  scenario1.outlineLineNumber === scenario2.outlineLineNumber &&
+  scenario1.fileName === scenario2.fileName;
+
+// Duplicate detection functions
+// Progress covers the three grouping passes (exact, high, medium similarity)
+export const findDuplicateScenarios = (qaScenarios: GherkinScenario[], onProgress?: (processed: number, total: number) => void): DuplicateAnalysis => {
+  const duplicates: Array<{
+    group: string;
+    scenarios: GherkinScenario[];
+    similarity: number;
+    reason: string;
+    actionableInsights: string[];
+    recommendations: string[];
+  }> = [];
+  
+  const processed = new Set<number>();
+  let exactMatches = 0;
+  let highSimilarity = 0;
+  let mediumSimilarity = 0;
+  
+  const totalSteps = qaScenarios.length * 3;
+  const progressStep = Math.max(1, Math.ceil(totalSteps / 100));
+  const reportProgress = (done: number) => {
+    if (onProgress && (done % progressStep === 0 || done === totalSteps)) onProgress(done, totalSteps);
+  };
+  
+  for (let i = 0; i < qaScenarios.length; i++) {
+    reportProgress(i + 1);
+    if (processed.has(i)) continue;
+    
+    const currentGroup: GherkinScenario[] = [qaScenarios[i]];
+    processed.add(i);
+    
+    for (let j = i + 1; j < qaScenarios.length; j++) {
+      if (processed.has(j)) continue;
+      
+      if (qaScenarios[i].title.toLowerCase().trim() === qaScenarios[j].title.toLowerCase().trim()) {
+        currentGroup.push(qaScenarios[j]);
+        processed.add(j);
+        exactMatches++;
+      }
+    }
+    
+    if (currentGroup.length > 1) {
+      duplicates.push({
+        group: `Exact Match Group ${duplicates.length + 1}`,
+        scenarios: currentGroup,
+        similarity: 100,
+        reason: 'Identical scenario titles',
+        actionableInsights: generateActionableInsights(currentGroup, 100),
+        recommendations: generateRecommendations(currentGroup, 100)
+      });
+    }
+  }
+  
+  for (let i = 0; i < qaScenarios.length; i++) {
+    reportProgress(qaScenarios.length * 1 + i + 1);
+    if (processed.has(i)) continue;
+    
+    const currentGroup: GherkinScenario[] = [qaScenarios[i]];
+    processed.add(i);
+    
+    for (let j = i + 1; j < qaScenarios.length; j++) {
+      if (processed.has(j)) continue;
+      // Rows of the same outline are intentional data variations, not duplicates
+      if (isSameOutline(qaScenarios[i], qaScenarios[j])) continue;
+      
+      const similarity = calculateSimilarity(qaScenarios[i], qaScenarios[j]);
+      if (similarity >= 80) {
+        currentGroup.push(qaScenarios[j]);
+        processed.add(j);
+        highSimilarity++;
+      }
+    }
+    
+    if (currentGroup.length > 1) {
+      const avgSimilarity = currentGroup.reduce((sum, _, index) => {
+        if (index === 0) return 100;
+        return sum + calculateSimilarity(currentGroup[0], currentGroup[index]);
+      }, 0) / currentGroup.length;
+      
+      duplicates.push({
+        group: `High Similarity Group ${duplicates.length + 1}`,
+        scenarios: currentGroup,
+        similarity: Math.round(avgSimilarity),
+        reason: 'Very similar scenarios with minor variations',
+        actionableInsights: generateActionableInsights(currentGroup, avgSimilarity),
+        recommendations: generateRecommendations(currentGroup, avgSimilarity)
+      });
+    }
+  }
+  
+  for (let i = 0; i < qaScenarios.length; i++) {
+    reportProgress(qaScenarios.length * 2 + i + 1);
+    if (processed.has(i)) continue;
+    
+    const currentGroup: GherkinScenario[] = [qaScenarios[i]];
+    processed.add(i);
+    
+    for (let j = i + 1; j < qaScenarios.length; j++) {
+      if (processed.has(j)) continue;
+      // Rows of the same outline are intentional data variations, not duplicates
+      if (isSameOutline(qaScenarios[i], qaScenarios[j])) continue;
+      
+      const similarity = calculateSimilarity(qaScenarios[i], qaScenarios[j]);
+      if (similarity >= 70) {
+        const stepsSimilarity = calculateStepsSimilarity(qaScenarios[i], qaScenarios[j]);
+        if (stepsSimilarity >= 60) {
+          currentGroup.push(qaScenarios[j]);
+          processed.add(j);
+          mediumSimilarity++;
+        }
+      }
+    }
+    
+    if (currentGroup.length > 1) {
+      const avgSimilarity = currentGroup.reduce((sum, _, index) => {
+        if (index === 0) return 100;
+        return sum + calculateSimilarity(currentGroup[0], currentGroup[index]);
+      }, 0) / currentGroup.length;
+      
+      duplicates.push({
+        group: `Medium Similarity Group ${duplicates.length + 1}`,
+        scenarios: currentGroup,
+        similarity: Math.round(avgSimilarity),
+        reason: 'Similar scenarios that could be consolidated',
+        actionableInsights: generateActionableInsights(currentGroup, avgSimilarity),
+        recommendations: generateRecommendations(currentGroup, avgSimilarity)
+      });
+    }
+  }
+  
+  const totalDuplicates = duplicates.reduce((sum, group) => sum + group.scenarios.length - 1, 0);
+  const uniqueScenarios = qaScenarios.length - totalDuplicates;
+  const optimizationPotential = Math.min(50, Math.round((totalDuplicates / qaScenarios.length) * 100));
+  
+  return {
+    duplicates,
+    totalDuplicates,
+    optimizationPotential,
+    totalScenariosScanned: qaScenarios.length,
+    uniqueScenarios,
+    duplicateTypes: {
+      exactMatches,
+      highSimilarity,
+      mediumSimilarity
+    }
+  };
+};
+
+export const generateActionableInsights = (scenarios: GherkinScenario[], similarity: number): string[] => {
+  const insights: string[] = [];
+  
+  if (similarity >= 90) {
+    insights.push('Consider consolidating into a single parameterized test');
+    insights.push('Use scenario outlines with examples for data variations');
+    insights.push('Implement shared step definitions to reduce duplication');
+  } else if (similarity >= 75) {
+    insights.push('Review if scenarios test different business rules');
+    insights.push('Consider using tags to group related test scenarios');
+    insights.push('Evaluate if some scenarios can be removed');
+  } else {
+    insights.push('Assess if scenarios cover different edge cases');
+    insights.push('Consider consolidating similar test flows');
+    insights.push('Review test data requirements for each scenario');
+  }
+  
+  return insights;
+};
+
+export const generateRecommendations = (scenarios: GherkinScenario[], similarity: number): string[] => {
+  const recommendations: string[] = [];
+  
+  if (similarity >= 90) {
+    recommendations.push('Merge scenarios and use data-driven testing');
+    recommendations.push('Create reusable step definitions');
+    recommendations.push('Implement test data factories');
+  } else if (similarity >= 75) {
+    recommendations.push('Review business requirements for each scenario');
+    recommendations.push('Consider using scenario outlines');
+    recommendations.push('Implement shared test utilities');
+  } else {
+    recommendations.push('Document why each scenario is needed');
+    recommendations.push('Review test coverage gaps');
+    recommendations.push('Consider using tags for organization');
+  }
+  
+  return recommendations;
+};
+
+export const calculateSimilarity = (scenario1: GherkinScenario, scenario2: GherkinScenario): number => {
+  const title1 = scenario1.title.toLowerCase().trim();
+  const title2 = scenario2.title.toLowerCase().trim();
+  
+  if (title1 === title2) return 100;
+  
+  const titleSimilarity = calculateTitleSimilarity(title1, title2, scenario1.language, scenario2.language) * 100;
+  const stepsSimilarity = calculateStepsSimilarity(scenario1, scenario2);
+  
+  const overallSimilarity = (titleSimilarity * 0.5) + (stepsSimilarity * 0.5);
+  return Math.round(overallSimilarity);
+};
+
+export const calculateStepsSimilarity = (scenario1: GherkinScenario, scenario2: GherkinScenario): number => {
+  const steps1 = scenario1.steps.map(step => step.toLowerCase().trim());
+  const steps2 = scenario2.steps.map(step => step.toLowerCase().trim());
+  
+  if (steps1.length === 0 || steps2.length === 0) return 0;
+  
+  let totalSimilarity = 0;
+  const maxSteps = Math.max(steps1.length, steps2.length);
+  
+  for (let i = 0; i < Math.min(steps1.length, steps2.length); i++) {
+    const step1 = steps1[i];
+    const step2 = steps2[i];
+    
+    if (step1 === step2) {
+      totalSimilarity += 100;
+    } else {
+      const stepSimilarity = calculateTitleSimilarity(step1, step2, scenario1.language, scenario2.language) * 100;
+      totalSimilarity += stepSimilarity;
+    }
+  }
+  
+  return Math.round(totalSimilarity / maxSteps);
+};
@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+import { cosineSimilarity, createVectorIndex } from './embeddings';
+
+// Deterministic pseudo-random unit vectors
+const random = (() => {
+  let seed = 42;
+  return () => {
+    seed = (Math.imul(seed, 1664525) + 1013904223) >>> 0;
+    return seed / 4294967296 - 0.5;
+  };
+})();
+
+const unit = (vector: Float32Array): Float32Array => {
+  const length = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+  return vector.map(value => value / length);
+};
+
+const randomVector = (dimensions: number) => unit(Float32Array.from({ length: dimensions }, random));
+
+// A vector close to `vector` (cosine around 0.95)
+const perturb = (vector: Float32Array) => unit(vector.map(value => value + random() * 0.1));
+
+describe('createVectorIndex', () => {
+  const vectors = Array.from({ length: 4000 }, () => randomVector(64));
+  const index = createVectorIndex(vectors);
+
+  it('finds the vector a query was derived from', () => {
+    for (const target of [0, 17, 1234, 2500, 3999]) {
+      const query = perturb(vectors[target]);
+      expect(cosineSimilarity(query, vectors[target])).toBeGreaterThan(0.9);
+      expect(index.nearest(query, 3)[0]).toBe(target);
+    }
+  });
+
+  it('returns at most k vectors at or above minSimilarity, most similar first', () => {
+    const query = perturb(vectors[100]);
+    const nearest = index.nearest(query, 2, 0.9);
+    expect(nearest).toEqual([100]);
+    const many = index.nearest(query, 5);
+    expect(many.length).toBeLessThanOrEqual(5);
+    const similarities = many.map(neighbour => cosineSimilarity(query, vectors[neighbour]));
+    expect(similarities).toEqual([...similarities].sort((a, b) => b - a));
+  });
+});
@@ -0,0 +1,254 @@
+// Semantic similarity for coverage matching: scenario embeddings from a pluggable provider, cached
+// in IndexedDB by provider and text hash so re-running an analysis never embeds the same text twice.
+import type { GherkinScenario } from './scenarioTypes';
+import { embedTexts, type GeminiEmbeddingModel } from './gemini';
+
+export interface EmbeddingProvider {
+  // Part of every cache key, so vectors of different providers or models never mix
+  id: string;
+  embed: (texts: string[]) => Promise<number[][]>;
+}
+
+export interface EmbeddingCache {
+  get: (keys: string[]) => Promise<Array<Float32Array | undefined>>;
+  set: (entries: Array<[string, Float32Array]>) => Promise<void>;
+}
+
+// Unit-length vectors per scenario, in the same order as the scenarios they were computed for
+export interface ScenarioEmbeddings {
+  source: Float32Array[];
+  qa: Float32Array[];
+}
+
+// Serializable provider choice, so the analysis worker can build the provider itself
+export type EmbeddingProviderConfig = { kind: 'gemini'; apiKey: string } | { kind: 'fake' };
+
+export const createGeminiEmbeddingProvider = (apiKey: string, model: GeminiEmbeddingModel = 'text-embedding-004'): EmbeddingProvider => ({
+  id: `gemini:${model}`,
+  embed: texts => embedTexts(apiKey, texts, model)
+});
+
+const FAKE_DIMENSIONS = 256;
+
+// FNV-1a, used for the fake provider's feature hashing and as the cache hash fallback
+const fnv1a = (text: string, seed = 0x811c9dc5): number => {
+  let hash = seed;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+// Deterministic offline provider for tests and demos: hashed word and character-trigram features.
+// It only captures spelling overlap, not meaning, but gives stable vectors without any network.
+export const createFakeEmbeddingProvider = (dimensions = FAKE_DIMENSIONS): EmbeddingProvider => ({
+  id: `fake:${dimensions}`,
+  embed: async texts =>
+    texts.map(text => {
+      const vector = new Array<number>(dimensions).fill(0);
+      const words = text.toLowerCase().split(/[^\p{L}\p{N}]+/u).filter(word => word.length > 1);
+      for (const word of words) {
+        vector[fnv1a(word) % dimensions] += 1;
+        const padded = ` ${word} `;
+        for (let i = 0; i + 3 <= padded.length; i++) vector[fnv1a(padded.slice(i, i + 3), 0x01000193) % dimensions] += 0.5;
+      }
+      return vector;
+    })
+});
+
+export const createEmbeddingProvider = (config: EmbeddingProviderConfig): EmbeddingProvider =>
+  config.kind === 'gemini' ? createGeminiEmbeddingProvider(config.apiKey) : createFakeEmbeddingProvider();
+
+const DB_NAME = 'qualiscan-embeddings';
+const STORE_NAME = 'vectors';
+
+const requestResult = <T,>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+// IndexedDB exists on the main thread and in workers; without it the cache only lives for the session
+export const createIndexedDBEmbeddingCache = (): EmbeddingCache => {
+  if (typeof indexedDB === 'undefined') return createMemoryEmbeddingCache();
+
+  let database: Promise<IDBDatabase> | null = null;
+  const open = () => {
+    if (!database) {
+      const request = indexedDB.open(DB_NAME, 1);
+      request.onupgradeneeded = () => request.result.createObjectStore(STORE_NAME);
+      database = requestResult(request);
+    }
+    return database;
+  };
+
+  return {
+    get: async keys => {
+      const store = (await open()).transaction(STORE_NAME, 'readonly').objectStore(STORE_NAME);
+      return Promise.all(keys.map(key => requestResult(store.get(key) as IDBRequest<Float32Array | undefined>)));
+    },
+    set: async entries => {
+      const transaction = (await open()).transaction(STORE_NAME, 'readwrite');
+      const store = transaction.objectStore(STORE_NAME);
+      entries.forEach(([key, vector]) => store.put(vector, key));
+      await new Promise<void>((resolve, reject) => {
+        transaction.oncomplete = () => resolve();
+        transaction.onerror = () => reject(transaction.error);
+      });
+    }
+  };
+};
+
+export const createMemoryEmbeddingCache = (): EmbeddingCache => {
+  const vectors = new Map<string, Float32Array>();
+  return {
+    get: async keys => keys.map(key => vectors.get(key)),
+    set: async entries => entries.forEach(([key, vector]) => vectors.set(key, vector))
+  };
+};
+
+// SHA-256 where Web Crypto is available (secure contexts); two seeded FNV-1a hashes otherwise
+export const hashText = async (text: string): Promise<string> => {
+  if (typeof crypto !== 'undefined' && crypto.subtle) {
+    const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+    return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+  }
+  return `fnv-${fnv1a(text).toString(16)}-${fnv1a(text, 0x01000193).toString(16)}-${text.length}`;
+};
+
+// What gets embedded: the title followed by the steps, one per line
+export const scenarioEmbeddingText = (scenario: GherkinScenario): string => [scenario.title, ...scenario.steps].join('\n');
+
+// Texts sent to the provider per call
+const EMBED_BATCH_SIZE = 100;
+
+const normalize = (values: ArrayLike<number>): Float32Array => {
+  const vector = Float32Array.from(values);
+  let norm = 0;
+  for (let i = 0; i < vector.length; i++) norm += vector[i] * vector[i];
+  norm = Math.sqrt(norm);
+  if (norm > 0) for (let i = 0; i < vector.length; i++) vector[i] /= norm;
+  return vector;
+};
+
+// Embeds every distinct scenario text once, reading and filling the cache. A failing cache (IndexedDB
+// blocked or over quota) only costs re-embedding; provider errors reject.
+export const embedScenarios = async (
+  scenarios: GherkinScenario[],
+  provider: EmbeddingProvider,
+  cache: EmbeddingCache,
+  onProgress?: (processed: number, total: number) => void
+): Promise<Float32Array[]> => {
+  const texts = scenarios.map(scenarioEmbeddingText);
+  const keys = await Promise.all(texts.map(async text => `${provider.id}:${await hashText(text)}`));
+  const distinct = Array.from(new Set(keys));
+  const cached = await cache.get(distinct).catch((): Array<Float32Array | undefined> => []);
+  const vectors = new Map<string, Float32Array>();
+  const missing: string[] = [];
+  distinct.forEach((key, index) => {
+    if (cached[index]) vectors.set(key, cached[index]!);
+    else missing.push(key);
+  });
+
+  const textByKey = new Map(keys.map((key, index) => [key, texts[index]]));
+  onProgress?.(vectors.size, distinct.length);
+  for (let start = 0; start < missing.length; start += EMBED_BATCH_SIZE) {
+    const batch = missing.slice(start, start + EMBED_BATCH_SIZE);
+    const embedded = await provider.embed(batch.map(key => textByKey.get(key)!));
+    const entries = batch.map((key, index): [string, Float32Array] => [key, normalize(embedded[index])]);
+    entries.forEach(([key, vector]) => vectors.set(key, vector));
+    await cache.set(entries).catch(() => {});
+    onProgress?.(vectors.size, distinct.length);
+  }
+
+  return keys.map(key => vectors.get(key)!);
+};
+
+// Vectors are unit length, so the dot product is the cosine similarity
+export const cosineSimilarity = (vector1: Float32Array, vector2: Float32Array): number => {
+  let dot = 0;
+  for (let i = 0; i < vector1.length; i++) dot += vector1[i] * vector2[i];
+  return dot;
+};
+
+// Random-hyperplane (SimHash) buckets over the QA vectors, so the nearest neighbours of a source
+// scenario are looked up in a few buckets instead of scanning the whole suite. Approximate: a
+// neighbour is missed only when it lands in a different bucket in every table.
+export interface VectorIndexOptions {
+  tables?: number;
+  // Most vectors compared per lookup, across all probed buckets
+  maxCandidates?: number;
+}
+
+export interface VectorIndex {
+  // Indices of up to k vectors most similar to `vector` with at least minSimilarity, most similar first
+  nearest: (vector: Float32Array, k: number, minSimilarity?: number) => number[];
+}
+
+const DEFAULT_TABLES = 10;
+const DEFAULT_MAX_VECTOR_CANDIDATES = 512;
+// Bits per table are chosen so a bucket holds about this many vectors
+const TARGET_BUCKET_SIZE = 16;
+const MAX_BITS = 24;
+
+// Mulberry32, so the hyperplanes and therefore the lookups are the same on every run
+const seededRandom = (seed: number) => () => {
+  seed = (seed + 0x6d2b79f5) >>> 0;
+  let t = seed;
+  t = Math.imul(t ^ (t >>> 15), t | 1);
+  t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
+
+export const createVectorIndex = (vectors: Float32Array[], options: VectorIndexOptions = {}): VectorIndex => {
+  const tables = options.tables ?? DEFAULT_TABLES;
+  const maxCandidates = options.maxCandidates ?? DEFAULT_MAX_VECTOR_CANDIDATES;
+  const dimensions = vectors[0]?.length ?? 0;
+  const bits = Math.max(1, Math.min(MAX_BITS, Math.ceil(Math.log2(vectors.length / TARGET_BUCKET_SIZE))));
+  const random = seededRandom(fnv1a(`${dimensions}:${bits}`));
+  const planes = Array.from({ length: tables * bits }, () => Float32Array.from({ length: dimensions }, () => random() * 2 - 1));
+
+  const signatures = (vector: Float32Array): number[] => {
+    const keys: number[] = [];
+    for (let table = 0; table < tables; table++) {
+      let key = 0;
+      for (let bit = 0; bit < bits; bit++) {
+        if (cosineSimilarity(planes[table * bits + bit], vector) >= 0) key |= 1 << bit;
+      }
+      keys.push(key);
+    }
+    return keys;
+  };
+
+  const buckets = Array.from({ length: tables }, () => new Map<number, number[]>());
+  vectors.forEach((vector, index) => {
+    signatures(vector).forEach((key, table) => {
+      const bucket = buckets[table].get(key);
+      if (bucket) bucket.push(index);
+      else buckets[table].set(key, [index]);
+    });
+  });
+
+  return {
+    nearest: (vector, k, minSimilarity = -1) => {
+      const seen = new Set<number>();
+      const nearest: Array<{ index: number; similarity: number }> = [];
+      const keys = signatures(vector);
+      for (let table = 0; table < tables && seen.size < maxCandidates; table++) {
+        for (const index of buckets[table].get(keys[table]) ?? []) {
+          if (seen.size >= maxCandidates) break;
+          if (seen.has(index)) continue;
+          seen.add(index);
+          const similarity = cosineSimilarity(vector, vectors[index]);
+          if (similarity < minSimilarity || (nearest.length === k && similarity <= nearest[k - 1].similarity)) continue;
+          let position = nearest.length;
+          while (position > 0 && nearest[position - 1].similarity < similarity) position--;
+          nearest.splice(position, 0, { index, similarity });
+          if (nearest.length > k) nearest.pop();
+        }
+      }
+      return nearest.map(neighbour => neighbour.index);
+    }
+  };
+};
@@ -0,0 +1,86 @@
+// Collects feature file contents from an upload: loose files, a picked directory
+// (webkitdirectory) or .zip archives, each keeping its relative path as the file name.
+import { unzip } from 'fflate';
+import type { SpreadsheetSource } from './spreadsheetImport';
+
+export interface FeatureFileSource {
+  path: string;
+  content: string;
+  // Gherkin language chosen for this file in the upload UI; wins over its "# language:" header
+  language?: string;
+  // Set for CSV / XLSX test cases (lib/spreadsheetImport); content then holds the rows as CSV
+  spreadsheet?: SpreadsheetSource;
+  // Size and SHA-256 of the file as uploaded, before decoding, for the report's input hashes
+  bytes?: number;
+  sha256?: string;
+}
+
+export const FEATURE_FILE_EXTENSIONS = ['.feature', '.gherkin', '.txt'];
+// Inside folders and archives .txt is usually docs, so only real feature files are read there
+export const NESTED_FEATURE_FILE_EXTENSIONS = ['.feature', '.gherkin'];
+// Only read when picked directly: they need a column mapping, and folders often hold unrelated data files
+export const SPREADSHEET_FILE_EXTENSIONS = ['.csv', '.xlsx'];
+export const FEATURE_UPLOAD_ACCEPT = [...FEATURE_FILE_EXTENSIONS, '.zip', ...SPREADSHEET_FILE_EXTENSIONS].join(',');
+
+export const hasExtension = (path: string, extensions: string[]) =>
+  extensions.some(extension => path.toLowerCase().endsWith(extension));
+
+// Skip macOS resource forks and hidden files/directories
+export const isHiddenPath = (path: string) =>
+  path.split('/').some(segment => segment.startsWith('.') || segment === '__MACOSX');
+
+const toHex = (bytes: Uint8Array): string => Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('');
+
+// Web Crypto is only available in secure contexts (https, localhost); elsewhere the hash is left out
+export const digestFileData = async (data: Uint8Array): Promise<Pick<FeatureFileSource, 'bytes' | 'sha256'>> => ({
+  bytes: data.length,
+  ...(globalThis.crypto?.subtle && { sha256: toHex(new Uint8Array(await crypto.subtle.digest('SHA-256', data as BufferSource))) })
+});
+
+const unzipAsync = (data: Uint8Array) =>
+  new Promise<Record<string, Uint8Array>>((resolve, reject) => {
+    unzip(data, (error, entries) => (error ? reject(error) : resolve(entries)));
+  });
+
+// Rejects with the archive's name when it is corrupt or not a zip
+const readZip = async (file: File, zipPath: string): Promise<FeatureFileSource[]> => {
+  let entries: Record<string, Uint8Array>;
+  try {
+    entries = await unzipAsync(new Uint8Array(await file.arrayBuffer()));
+  } catch (error) {
+    throw new Error(`Could not read ${zipPath}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+  const decoder = new TextDecoder();
+  return Promise.all(
+    Object.entries(entries)
+      .filter(([path]) => !path.endsWith('/') && !isHiddenPath(path) && hasExtension(path, NESTED_FEATURE_FILE_EXTENSIONS))
+      .map(async ([path, data]) => ({ path: `${zipPath}/${path}`, content: decoder.decode(data), ...await digestFileData(data) }))
+  );
+};
+
+export const collectFeatureFiles = async (files: FileList | File[]): Promise<FeatureFileSource[]> => {
+  const sources: FeatureFileSource[] = [];
+  for (const file of Array.from(files)) {
+    // webkitRelativePath is only set for directory uploads
+    const path = file.webkitRelativePath || file.name;
+    const fromDirectory = !!file.webkitRelativePath;
+    if (fromDirectory && isHiddenPath(path)) continue;
+
+    if (hasExtension(path, ['.zip'])) {
+      sources.push(...await readZip(file, path));
+    } else if (hasExtension(path, fromDirectory ? NESTED_FEATURE_FILE_EXTENSIONS : FEATURE_FILE_EXTENSIONS)) {
+      const data = new Uint8Array(await file.arrayBuffer());
+      sources.push({ path, content: new TextDecoder().decode(data), ...await digestFileData(data) });
+    }
+  }
+  return sources.sort((a, b) => a.path.localeCompare(b.path));
+};
+
+// Short label for an upload: a single path, or the common folder plus a file count
+export const describeFeatureFiles = (sources: FeatureFileSource[]): string => {
+  if (sources.length === 0) return 'No feature files';
+  if (sources.length === 1) return sources[0].path;
+  const root = sources[0].path.split('/')[0];
+  const sameRoot = sources.every(source => source.path.split('/')[0] === root && source.path.includes('/'));
+  return sameRoot ? `${root}/ (${sources.length} files)` : `${sources.length} files`;
+};
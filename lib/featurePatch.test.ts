@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest';
+import type { GherkinScenario } from './scenarioTypes';
+import type { FeatureFileSource } from './featureFiles';
+import { buildFeaturePatch } from './featurePatch';
+import { parseGherkinScenarios } from './scenarioParser';
+
+const LOGIN_FEATURE = `Feature: Login
+
+  Scenario: Login with password
+    Given the login page
+    When I submit my password
+    Then I see my dashboard
+`;
+
+const qaSuite = (files: FeatureFileSource[]): GherkinScenario[] =>
+  files.flatMap(file => parseGherkinScenarios(file.content, file.path, undefined, file.language).scenarios);
+
+const newScenario: GherkinScenario = { title: 'Login with expired password', steps: ['Given the login page', 'When I submit an expired password', 'Then I am asked to reset it'], workflow: 'Login' };
+
+describe('buildFeaturePatch', () => {
+  it('appends a new scenario to the best-fitting QA file as a git-applicable hunk', () => {
+    const files: FeatureFileSource[] = [{ path: 'suite.zip/features/login.feature', content: LOGIN_FEATURE }];
+    const { patch, placements } = buildFeaturePatch([newScenario], files, qaSuite(files));
+
+    expect(placements).toMatchObject([{ path: 'features/login.feature', created: false }]);
+    expect(patch).toBe(`diff --git a/features/login.feature b/features/login.feature
+--- a/features/login.feature
++++ b/features/login.feature
+@@ -4,3 +4,8 @@
+     Given the login page
+     When I submit my password
+     Then I see my dashboard
++
++  Scenario: Login with expired password
++    Given the login page
++    When I submit an expired password
++    Then I am asked to reset it
+`);
+  });
+
+  it('puts scenarios that fit no QA file in a new feature file', () => {
+    const files: FeatureFileSource[] = [{ path: 'features/login.feature', content: LOGIN_FEATURE }];
+    const invoice: GherkinScenario = { title: 'Archive paid invoices', steps: ['Given a paid invoice', 'When the month closes', 'Then the invoice is archived'] };
+    const { patch, placements } = buildFeaturePatch([invoice], files, qaSuite(files));
+
+    expect(placements).toHaveLength(1);
+    expect(placements[0].created).toBe(true);
+    expect(placements[0].path.startsWith('features/')).toBe(true);
+    expect(patch).toContain('new file mode 100644');
+    expect(patch).toContain('+  Scenario: Archive paid invoices');
+  });
+
+  it('writes keywords in the file\'s language override rather than its header', () => {
+    const content = `# language: es
+Funcionalidade: Login
+
+  Cenário: Entrar com senha
+    Dado a página de login
+    Quando envio minha senha
+    Então vejo o painel
+`;
+    const files: FeatureFileSource[] = [{ path: 'features/login.feature', content, language: 'pt' }];
+    const scenario: GherkinScenario = { title: 'Entrar com senha expirada', steps: ['Dado a página de login', 'Quando envio uma senha expirada'], workflow: 'Login' };
+    const { patch, placements } = buildFeaturePatch([scenario], files, qaSuite(files));
+
+    expect(placements[0].created).toBe(false);
+    expect(patch).toContain('+  Cenário: Entrar com senha expirada');
+    expect(patch).toContain('+    Dado a página de login');
+    expect(patch).not.toContain('Escenario');
+  });
+});
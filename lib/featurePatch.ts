@@ -0,0 +1,173 @@
+// New scenarios as a patch against the uploaded QA suite. Each scenario is appended to the QA feature
+// file whose Feature name, workflows and wording fit it best; scenarios that fit no file go into new
+// feature files, one per workflow. The result is a unified diff that `git apply` accepts.
+import type { GherkinScenario } from './scenarioTypes';
+import type { FeatureFileSource } from './featureFiles';
+import { detectGherkinLanguage, ENGLISH_DIALECT, GHERKIN_DIALECTS, resolveGherkinLanguage } from './gherkin';
+import { categorizeWorkflow } from './scenarioParser';
+import { foldText, normalizedWords } from './textNormalization';
+import { featureFileName, groupByWorkflow, toFeatureFile, toScenarioLines } from './scenarioExport';
+
+// Below this score a scenario gets a new feature file instead of joining an existing one
+export const MIN_PLACEMENT_SCORE = 0.25;
+
+// Unchanged lines shown before each insertion
+const CONTEXT_LINES = 3;
+
+export interface ScenarioPlacement {
+  scenario: GherkinScenario;
+  // Path in the patch, relative to the repository the QA suite was uploaded from
+  path: string;
+  created: boolean;
+  score: number;
+}
+
+export interface FeaturePatch {
+  patch: string;
+  placements: ScenarioPlacement[];
+}
+
+interface QaFileProfile {
+  source: FeatureFileSource;
+  path: string;
+  features: Set<string>;
+  workflows: Map<string, number>;
+  scenarioCount: number;
+  vocabulary: Set<string>;
+}
+
+// Paths inside an uploaded .zip are relative to the archive root, which is usually the repository
+const patchPath = (path: string): string => path.replace(/^.*?\.zip\//i, '');
+
+const directoryOf = (path: string): string => (path.includes('/') ? path.slice(0, path.lastIndexOf('/') + 1) : '');
+
+// Spreadsheet test cases have no feature file to extend
+const profileQaFiles = (qaFiles: FeatureFileSource[], qaScenarios: GherkinScenario[]): QaFileProfile[] =>
+  qaFiles.filter(source => !source.spreadsheet).map(source => {
+    const scenarios = qaScenarios.filter(scenario => scenario.fileName === source.path);
+    const features = new Set(scenarios.map(scenario => scenario.feature).filter(Boolean).map(foldText));
+    const workflows = new Map<string, number>();
+    scenarios.forEach(scenario => {
+      if (scenario.workflow) workflows.set(scenario.workflow, (workflows.get(scenario.workflow) || 0) + 1);
+    });
+    const text = [...features, ...scenarios.map(scenario => `${scenario.title} ${scenario.description || ''}`)].join(' ');
+    return {
+      source,
+      path: patchPath(source.path),
+      features,
+      workflows,
+      scenarioCount: scenarios.length,
+      vocabulary: new Set(normalizedWords(text))
+    };
+  });
+
+// 0..1: a Feature named after the scenario's workflow wins outright; otherwise the share of the file's
+// scenarios in the same workflow and the share of the scenario's title words the file already uses
+const placementScore = (scenario: GherkinScenario, workflow: string, words: string[], file: QaFileProfile): number => {
+  if (scenario.workflow && file.features.has(foldText(scenario.workflow.trim()))) return 1;
+  const workflowShare = file.scenarioCount > 0 ? (file.workflows.get(workflow) || 0) / file.scenarioCount : 0;
+  const wordShare = words.length > 0 ? words.filter(word => file.vocabulary.has(word)).length / words.length : 0;
+  return 0.4 * workflowShare + 0.6 * wordShare;
+};
+
+// Best-fitting QA file per scenario; scenarios without one get a new file next to the QA suite
+export const placeNewScenarios = (
+  scenarios: GherkinScenario[],
+  qaFiles: FeatureFileSource[],
+  qaScenarios: GherkinScenario[]
+): ScenarioPlacement[] => {
+  const files = profileQaFiles(qaFiles, qaScenarios);
+  const existingPaths = new Set(files.map(file => file.path));
+  const newFileDirectory = files.length > 0 ? directoryOf(files[0].path) : '';
+  const newFilePaths = new Map<string, string>();
+
+  const newFilePath = (group: string): string => {
+    if (!newFilePaths.has(group)) {
+      let path = `${newFileDirectory}${featureFileName(group)}`;
+      for (let n = 2; existingPaths.has(path); n++) path = `${newFileDirectory}${featureFileName(`${group} ${n}`)}`;
+      existingPaths.add(path);
+      newFilePaths.set(group, path);
+    }
+    return newFilePaths.get(group)!;
+  };
+
+  return scenarios.map(scenario => {
+    const workflow = categorizeWorkflow(scenario);
+    const words = normalizedWords(`${scenario.title} ${scenario.workflow || ''}`);
+    let best: QaFileProfile | null = null;
+    let bestScore = 0;
+    for (const file of files) {
+      const score = placementScore(scenario, workflow, words, file);
+      if (score > bestScore) {
+        best = file;
+        bestScore = score;
+      }
+    }
+    if (best && bestScore >= MIN_PLACEMENT_SCORE) return { scenario, path: best.path, created: false, score: bestScore };
+    return { scenario, path: newFilePath(groupByWorkflow([scenario])[0].name), created: true, score: bestScore };
+  });
+};
+
+const range = (start: number, count: number): string => (count === 1 ? `${start}` : `${start},${count}`);
+
+// Appends blocks to the end of a file, keeping its line endings and dialect
+const appendHunk = (content: string, added: string[]): string[] => {
+  const eol = content.includes('\r\n') ? '\r' : '';
+  const hasFinalNewline = content.endsWith('\n');
+  const body = hasFinalNewline ? content.slice(0, -1) : content;
+  const lines = body === '' ? [] : body.split('\n');
+  const addedLines = added.map(line => `+${line}${eol}`);
+  const contextStart = Math.max(0, lines.length - CONTEXT_LINES);
+  const context = lines.slice(contextStart);
+
+  if (context.length === 0) return [`@@ -0,0 +${range(1, addedLines.length)} @@`, ...addedLines];
+  const oldStart = contextStart + 1;
+  if (hasFinalNewline) {
+    return [
+      `@@ -${range(oldStart, context.length)} +${range(oldStart, context.length + addedLines.length)} @@`,
+      ...context.map(line => ` ${line}`),
+      ...addedLines
+    ];
+  }
+  // The last line gains the newline it was missing, so it is replaced rather than kept as context
+  const last = context[context.length - 1];
+  return [
+    `@@ -${range(oldStart, context.length)} +${range(oldStart, context.length + addedLines.length)} @@`,
+    ...context.slice(0, -1).map(line => ` ${line}`),
+    `-${last}`,
+    '\\ No newline at end of file',
+    `+${last}${last.endsWith('\r') ? '' : eol}`,
+    ...addedLines
+  ];
+};
+
+// Unified diff adding every new scenario to the QA suite, plus where each one went
+export const buildFeaturePatch = (
+  scenarios: GherkinScenario[],
+  qaFiles: FeatureFileSource[],
+  qaScenarios: GherkinScenario[]
+): FeaturePatch => {
+  const placements = placeNewScenarios(scenarios, qaFiles, qaScenarios);
+  const byPath = new Map<string, ScenarioPlacement[]>();
+  placements.forEach(placement => {
+    if (!byPath.has(placement.path)) byPath.set(placement.path, []);
+    byPath.get(placement.path)!.push(placement);
+  });
+
+  const diff: string[] = [];
+  Array.from(byPath.keys()).sort().forEach(path => {
+    const placed = byPath.get(path)!;
+    if (placed[0].created) {
+      const lines = toFeatureFile(groupByWorkflow(placed.map(placement => placement.scenario))[0]).slice(0, -1).split('\n');
+      diff.push(`diff --git a/${path} b/${path}`, 'new file mode 100644', '--- /dev/null', `+++ b/${path}`);
+      diff.push(`@@ -0,0 +${range(1, lines.length)} @@`, ...lines.map(line => `+${line}`));
+      return;
+    }
+    const source = qaFiles.find(file => patchPath(file.path) === path)!;
+    // The file's language override wins over its header, as it does when the file is parsed
+    const dialect = GHERKIN_DIALECTS[resolveGherkinLanguage(source.language) ?? detectGherkinLanguage(source.content)] || ENGLISH_DIALECT;
+    const added = placed.flatMap(placement => ['', ...toScenarioLines(placement.scenario, dialect)]);
+    diff.push(`diff --git a/${path} b/${path}`, `--- a/${path}`, `+++ b/${path}`, ...appendHunk(source.content, added));
+  });
+  return { patch: diff.length > 0 ? diff.join('\n') + '\n' : '', placements };
+};
@@ -1,7 +1,7 @@
 // Lightweight Gemini client wrapper for browser usage
 // Note: The API key is expected to be provided by the user and stored locally (e.g., localStorage).
 // This is client-side and the key will be present in the browser context.
-import { GoogleGenerativeAI } from "@google/generative-ai";
+import { GoogleGenerativeAI, TaskType } from "@google/generative-ai";
 
 export type GeminiModel =
   | "gemini-2.5-flash"
@@ -33,6 +33,33 @@ export async function generateText(
   return out.trim();
 }
 
+export type GeminiEmbeddingModel = "text-embedding-004";
+
+// The embedding API accepts at most this many texts per batch request
+const EMBEDDING_BATCH_SIZE = 100;
+
+// Embeds texts for semantic similarity; vectors come back in input order.
+export async function embedTexts(
+  apiKey: string,
+  texts: string[],
+  model: GeminiEmbeddingModel = "text-embedding-004"
+): Promise<number[][]> {
+  const genAI = getGeminiClient(apiKey);
+  const m = genAI.getGenerativeModel({ model });
+  const vectors: number[][] = [];
+  for (let start = 0; start < texts.length; start += EMBEDDING_BATCH_SIZE) {
+    const batch = texts.slice(start, start + EMBEDDING_BATCH_SIZE);
+    const res = await m.batchEmbedContents({
+      requests: batch.map(text => ({
+        content: { role: "user", parts: [{ text }] },
+        taskType: TaskType.SEMANTIC_SIMILARITY
+      }))
+    });
+    vectors.push(...res.embeddings.map(embedding => embedding.values));
+  }
+  return vectors;
+}
+
 // Ask Gemini to return strict JSON. We'll try to extract a JSON substring if the model adds formatting.
 export async function generateJSON<T = unknown>(
   apiKey: string,
@@ -0,0 +1,31 @@
+import { describe, expect, it } from 'vitest';
+import { parseGherkinDocument } from './gherkin';
+
+const codes = (content: string) => parseGherkinDocument(content).diagnostics.map(diagnostic => diagnostic.code);
+
+describe('parseGherkinDocument diagnostics', () => {
+  it('reports Examples outside any scenario as orphan examples', () => {
+    const content = `Feature: Search
+
+  Background:
+    Given the catalogue is loaded
+
+    Examples:
+      | term  |
+      | shoes |
+`;
+    const diagnostics = parseGherkinDocument(content).diagnostics;
+    expect(diagnostics[0]).toMatchObject({ code: 'orphan-examples', location: { line: 6 } });
+    expect(codes(content)).not.toContain('orphan-step');
+  });
+
+  it('keeps orphan-step for steps without a preceding Given/When/Then', () => {
+    const content = `Feature: Search
+
+  Scenario: Find a product
+    And the catalogue is loaded
+    Then I see results
+`;
+    expect(codes(content)).toEqual(['orphan-step']);
+  });
+});
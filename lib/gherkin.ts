@@ -0,0 +1,788 @@
+// Gherkin document model + tolerant line-based parser.
+// Produces Feature → Rule → Background → Scenario/Outline → Step trees (with DocString and
+// DataTable arguments), each node carrying its source location. The parser never throws:
+// anything it cannot place is skipped so partially valid files still yield scenarios.
+
+import gherkinLanguages from './gherkin-languages.json';
+
+export interface GherkinLocation {
+  line: number;
+  column: number;
+}
+
+export interface GherkinTag {
+  location: GherkinLocation;
+  name: string;
+}
+
+export interface GherkinComment {
+  location: GherkinLocation;
+  text: string;
+}
+
+export interface GherkinTableCell {
+  location: GherkinLocation;
+  value: string;
+}
+
+export interface GherkinTableRow {
+  location: GherkinLocation;
+  cells: GherkinTableCell[];
+}
+
+export interface GherkinDataTable {
+  location: GherkinLocation;
+  rows: GherkinTableRow[];
+}
+
+export interface GherkinDocString {
+  location: GherkinLocation;
+  delimiter: string;
+  mediaType?: string;
+  content: string;
+}
+
+export type GherkinStepKeywordType = 'Context' | 'Action' | 'Outcome' | 'Conjunction' | 'Unknown';
+
+export interface GherkinStep {
+  location: GherkinLocation;
+  keyword: string;
+  keywordType: GherkinStepKeywordType;
+  text: string;
+  docString?: GherkinDocString;
+  dataTable?: GherkinDataTable;
+}
+
+export interface GherkinExamples {
+  location: GherkinLocation;
+  tags: GherkinTag[];
+  keyword: string;
+  name: string;
+  description: string;
+  tableHeader?: GherkinTableRow;
+  tableBody: GherkinTableRow[];
+}
+
+export interface GherkinBackground {
+  type: 'Background';
+  location: GherkinLocation;
+  keyword: string;
+  name: string;
+  description: string;
+  steps: GherkinStep[];
+}
+
+export interface GherkinScenarioNode {
+  type: 'Scenario';
+  location: GherkinLocation;
+  tags: GherkinTag[];
+  keyword: string;
+  name: string;
+  description: string;
+  steps: GherkinStep[];
+  examples: GherkinExamples[];
+  isOutline: boolean;
+  // Set when the title was guessed from a non-Gherkin line (numbered list, ticket ID, Title Case)
+  heuristic?: 'numbered' | 'id' | 'title';
+}
+
+export interface GherkinRule {
+  type: 'Rule';
+  location: GherkinLocation;
+  tags: GherkinTag[];
+  keyword: string;
+  name: string;
+  description: string;
+  children: Array<GherkinBackground | GherkinScenarioNode>;
+}
+
+export interface GherkinFeature {
+  type: 'Feature';
+  location: GherkinLocation;
+  tags: GherkinTag[];
+  language: string;
+  keyword: string;
+  name: string;
+  description: string;
+  children: Array<GherkinBackground | GherkinScenarioNode | GherkinRule>;
+}
+
+export type GherkinDiagnosticSeverity = 'error' | 'warning';
+
+export type GherkinDiagnosticCode =
+  | 'unknown-keyword'
+  | 'unknown-language'
+  | 'step-outside-scenario'
+  | 'orphan-step'
+  | 'orphan-examples'
+  | 'orphan-argument'
+  | 'empty-scenario'
+  | 'outline-without-examples'
+  | 'heuristic-title'
+  | 'unterminated-doc-string';
+
+// Anything the parser skipped, guessed or could not place, with the line it happened on
+export interface GherkinDiagnostic {
+  severity: GherkinDiagnosticSeverity;
+  code: GherkinDiagnosticCode;
+  message: string;
+  location: GherkinLocation;
+  uri?: string;
+}
+
+// Strict Gherkin allows one Feature per file; concatenated suites are common in uploads, so keep them all
+export interface GherkinDocument {
+  uri?: string;
+  language: string;
+  features: GherkinFeature[];
+  comments: GherkinComment[];
+  diagnostics: GherkinDiagnostic[];
+}
+
+// Keyword table in the same shape as the official gherkin-languages.json entries.
+// Step keywords keep their trailing space ("Given "), exactly like the upstream table.
+export interface GherkinDialect {
+  name: string;
+  native: string;
+  feature: string[];
+  rule: string[];
+  background: string[];
+  scenario: string[];
+  scenarioOutline: string[];
+  examples: string[];
+  given: string[];
+  when: string[];
+  then: string[];
+  and: string[];
+  but: string[];
+}
+
+// Official Gherkin i18n keyword table (cucumber/gherkin gherkin-languages.json, MIT)
+export const GHERKIN_DIALECTS: Record<string, GherkinDialect> = gherkinLanguages;
+
+export const DEFAULT_GHERKIN_LANGUAGE = 'en';
+export const ENGLISH_DIALECT: GherkinDialect = GHERKIN_DIALECTS[DEFAULT_GHERKIN_LANGUAGE];
+
+// Map user-facing codes onto table keys: exact, case-insensitive, "pt_BR" → "pt-BR", then the base language ("pt-BR" → "pt")
+export const resolveGherkinLanguage = (language?: string): string | undefined => {
+  if (!language) return undefined;
+  const normalized = language.trim().replace(/_/g, '-');
+  if (GHERKIN_DIALECTS[normalized]) return normalized;
+  const keys = Object.keys(GHERKIN_DIALECTS);
+  const caseInsensitive = keys.find(key => key.toLowerCase() === normalized.toLowerCase());
+  if (caseInsensitive) return caseInsensitive;
+  const base = normalized.split('-')[0].toLowerCase();
+  return keys.find(key => key.toLowerCase() === base);
+};
+
+const LANGUAGE_HEADER_PATTERN = /^\s*#\s*language\s*:\s*([a-zA-Z][\w-]*)\s*$/;
+
+// "# language: pt" is only honoured before the first non-comment line, as in Cucumber
+export const readLanguageHeader = (content: string): string | undefined => {
+  for (const line of content.split(/\r?\n/)) {
+    const trimmed = line.trim();
+    if (!trimmed) continue;
+    if (!trimmed.startsWith('#')) return undefined;
+    const match = trimmed.match(LANGUAGE_HEADER_PATTERN);
+    if (match) return match[1];
+  }
+  return undefined;
+};
+
+// Languages checked first when sniffing keywords; shared keywords resolve to the earliest entry
+const PREFERRED_LANGUAGES = ['en', 'pt', 'es', 'fr', 'de'];
+let headerKeywordLanguages: Map<string, string> | null = null;
+
+const getHeaderKeywordLanguages = (): Map<string, string> => {
+  if (headerKeywordLanguages) return headerKeywordLanguages;
+  headerKeywordLanguages = new Map();
+  const languages = [...PREFERRED_LANGUAGES, ...Object.keys(GHERKIN_DIALECTS).filter(key => !PREFERRED_LANGUAGES.includes(key))];
+  for (const language of languages) {
+    const dialect = GHERKIN_DIALECTS[language];
+    for (const keyword of [...dialect.feature, ...dialect.rule, ...dialect.background, ...dialect.scenario, ...dialect.scenarioOutline, ...dialect.examples]) {
+      const key = keyword.toLowerCase();
+      if (!headerKeywordLanguages.has(key)) headerKeywordLanguages.set(key, language);
+    }
+  }
+  return headerKeywordLanguages;
+};
+
+// Files without a language header: guess from the first "Keyword:" line that belongs to a known dialect
+export const sniffGherkinLanguage = (content: string, maxLines = 200): string | undefined => {
+  const keywordLanguages = getHeaderKeywordLanguages();
+  const lines = content.split(/\r?\n/, maxLines);
+  for (const line of lines) {
+    const trimmed = line.trim();
+    const colon = trimmed.indexOf(':');
+    if (colon <= 0 || trimmed.startsWith('#') || trimmed.startsWith('@') || trimmed.startsWith('|')) continue;
+    const language = keywordLanguages.get(trimmed.slice(0, colon).trim().toLowerCase());
+    if (language) return language;
+  }
+  return undefined;
+};
+
+// Precedence: "# language:" header → caller's language (upload UI, --language) → keyword sniffing → English
+export const detectGherkinLanguage = (content: string, fallback?: string): string =>
+  resolveGherkinLanguage(readLanguageHeader(content)) ??
+  resolveGherkinLanguage(fallback) ??
+  sniffGherkinLanguage(content) ??
+  DEFAULT_GHERKIN_LANGUAGE;
+
+// Non-standard scenario headers QA teams use in hand-written suites; accepted in every dialect
+const EXTENDED_SCENARIO_KEYWORDS = ['Test Case', 'Test Scenario', 'TestCase', 'TestScenario', 'TC', 'TS', 'Test'];
+const EXTENDED_OUTLINE_KEYWORDS = ['Example Outline', 'Test Outline'];
+
+export interface GherkinParseOptions {
+  uri?: string;
+  // Language code from the official table ("pt", "pt-BR", "es"...) for files without a "# language:" header
+  language?: string;
+  // Language code that wins over the header, for a file the user has set a language on
+  override?: string;
+  dialect?: GherkinDialect;
+  // Turn numbered lists, "EP-001 - Title" IDs and Title Case lines into scenarios (legacy behaviour)
+  detectHeuristicTitles?: boolean;
+}
+
+type HeaderKind = 'feature' | 'rule' | 'background' | 'scenario' | 'outline' | 'examples';
+
+interface KeywordMatcher {
+  headers: Array<{ keyword: string; kind: HeaderKind }>;
+  steps: Array<{ keyword: string; type: GherkinStepKeywordType }>;
+}
+
+const byLengthDesc = (a: { keyword: string }, b: { keyword: string }) => b.keyword.length - a.keyword.length;
+
+const buildKeywordMatcher = (dialect: GherkinDialect): KeywordMatcher => {
+  const headers: KeywordMatcher['headers'] = [
+    ...dialect.feature.map(keyword => ({ keyword, kind: 'feature' as const })),
+    ...dialect.rule.map(keyword => ({ keyword, kind: 'rule' as const })),
+    ...dialect.background.map(keyword => ({ keyword, kind: 'background' as const })),
+    ...dialect.scenarioOutline.map(keyword => ({ keyword, kind: 'outline' as const })),
+    ...EXTENDED_OUTLINE_KEYWORDS.map(keyword => ({ keyword, kind: 'outline' as const })),
+    ...dialect.scenario.map(keyword => ({ keyword, kind: 'scenario' as const })),
+    ...EXTENDED_SCENARIO_KEYWORDS.map(keyword => ({ keyword, kind: 'scenario' as const })),
+    ...dialect.examples.map(keyword => ({ keyword, kind: 'examples' as const }))
+  ].sort(byLengthDesc);
+
+  const stepTypes: Array<[keyof GherkinDialect, GherkinStepKeywordType]> = [
+    ['given', 'Context'], ['when', 'Action'], ['then', 'Outcome'], ['and', 'Conjunction'], ['but', 'Conjunction']
+  ];
+  const seen = new Set<string>();
+  const steps: KeywordMatcher['steps'] = [];
+  for (const [field, type] of stepTypes) {
+    for (const keyword of dialect[field] as string[]) {
+      if (seen.has(keyword)) continue;
+      seen.add(keyword);
+      steps.push({ keyword, type: keyword.trim() === '*' ? 'Unknown' : type });
+    }
+  }
+  steps.sort(byLengthDesc);
+
+  return { headers, steps };
+};
+
+const matcherCache = new WeakMap<GherkinDialect, KeywordMatcher>();
+const getKeywordMatcher = (dialect: GherkinDialect): KeywordMatcher => {
+  let matcher = matcherCache.get(dialect);
+  if (!matcher) {
+    matcher = buildKeywordMatcher(dialect);
+    matcherCache.set(dialect, matcher);
+  }
+  return matcher;
+};
+
+const startsWithKeyword = (line: string, keyword: string): boolean =>
+  line.length >= keyword.length && line.slice(0, keyword.length).toLowerCase() === keyword.toLowerCase();
+
+export const matchHeaderLine = (
+  trimmedLine: string,
+  dialect: GherkinDialect = ENGLISH_DIALECT
+): { kind: HeaderKind; keyword: string; name: string } | null => {
+  for (const { keyword, kind } of getKeywordMatcher(dialect).headers) {
+    if (startsWithKeyword(trimmedLine, keyword) && trimmedLine.charAt(keyword.length) === ':') {
+      return { kind, keyword: trimmedLine.slice(0, keyword.length), name: trimmedLine.slice(keyword.length + 1).trim() };
+    }
+  }
+  return null;
+};
+
+export const matchStepLine = (
+  trimmedLine: string,
+  dialect: GherkinDialect = ENGLISH_DIALECT
+): { keyword: string; keywordType: GherkinStepKeywordType; text: string } | null => {
+  for (const { keyword, type } of getKeywordMatcher(dialect).steps) {
+    // Some dialects (e.g. zh-CN) have keywords without a trailing space
+    const needsSpace = keyword.endsWith(' ');
+    const bare = needsSpace ? keyword.trimEnd() : keyword;
+    if (!startsWithKeyword(trimmedLine, bare)) continue;
+    const rest = trimmedLine.slice(bare.length);
+    if (needsSpace && rest.length > 0 && !/^\s/.test(rest)) continue;
+    const text = rest.trim();
+    if (!text) continue;
+    return { keyword: trimmedLine.slice(0, bare.length) + (needsSpace ? ' ' : ''), keywordType: type, text };
+  }
+  return null;
+};
+
+// Legacy non-Gherkin title patterns kept from the original line parser
+export const matchHeuristicTitle = (trimmedLine: string): { title: string; heuristic: 'numbered' | 'id' | 'title' } | null => {
+  const numbered = trimmedLine.match(/^(\d+)\.\s*(.+)$/);
+  if (numbered) return { title: numbered[2].trim(), heuristic: 'numbered' };
+
+  const id = trimmedLine.match(/^([A-Z]{2,3}-\d+)\s*[-:]\s*(.+)$/);
+  if (id) return { title: id[2].trim(), heuristic: 'id' };
+
+  if (/^([A-Z][a-z]+(?:\s+[A-Z][a-z]+)*)\s*[-:]\s*(.+)/.test(trimmedLine)) {
+    return { title: trimmedLine, heuristic: 'title' };
+  }
+
+  const words = trimmedLine.split(/\s+/);
+  const isTitleLike = words.length >= 2 &&
+    words.every(word => /^[A-Z][a-z]*$/.test(word) || /^[A-Z]{2,3}-\d+$/.test(word));
+  if (isTitleLike) return { title: trimmedLine, heuristic: 'title' };
+
+  return null;
+};
+
+const parseTableRow = (line: string, lineNumber: number): GherkinTableRow => {
+  const indent = line.length - line.trimStart().length;
+  const trimmed = line.trim();
+  const cells: GherkinTableCell[] = [];
+  // Split on unescaped pipes; "\|" stays inside the cell, "\\" and "\n" follow the Gherkin spec
+  let value = '';
+  let cellStart = indent + 2;
+  for (let i = 1; i < trimmed.length; i++) {
+    const ch = trimmed[i];
+    if (ch === '\\' && i + 1 < trimmed.length) {
+      const next = trimmed[i + 1];
+      value += next === 'n' ? '\n' : next === '|' || next === '\\' ? next : ch + next;
+      i++;
+    } else if (ch === '|') {
+      const leading = value.length - value.trimStart().length;
+      cells.push({ location: { line: lineNumber, column: cellStart + leading }, value: value.trim() });
+      value = '';
+      cellStart = indent + i + 2;
+    } else {
+      value += ch;
+    }
+  }
+  return { location: { line: lineNumber, column: indent + 1 }, cells };
+};
+
+const parseTags = (line: string, lineNumber: number): GherkinTag[] => {
+  const indent = line.length - line.trimStart().length;
+  const withoutComment = line.replace(/\s#.*$/, '');
+  const tags: GherkinTag[] = [];
+  const tagPattern = /@[^\s@]+/g;
+  let match: RegExpExecArray | null;
+  while ((match = tagPattern.exec(withoutComment.trimStart())) !== null) {
+    tags.push({ location: { line: lineNumber, column: indent + match.index + 1 }, name: match[0] });
+  }
+  return tags;
+};
+
+// Levenshtein distance, only used to spot misspelled keywords
+const editDistance = (a: string, b: string): number => {
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    previous = current;
+  }
+  return previous[b.length];
+};
+
+export const parseGherkinDocument = (content: string, options: GherkinParseOptions = {}): GherkinDocument => {
+  const language = options.dialect
+    ? (resolveGherkinLanguage(options.language) ?? DEFAULT_GHERKIN_LANGUAGE)
+    : (resolveGherkinLanguage(options.override) ?? detectGherkinLanguage(content, options.language));
+  const dialect = options.dialect ?? GHERKIN_DIALECTS[language];
+  const detectHeuristicTitles = options.detectHeuristicTitles ?? true;
+  const lines = content.split(/\r?\n/);
+  const document: GherkinDocument = { uri: options.uri, language, features: [], comments: [], diagnostics: [] };
+  const headerKeywords = getKeywordMatcher(dialect).headers.map(({ keyword }) => keyword.toLowerCase());
+
+  let feature: GherkinFeature | null = null;
+  let rule: GherkinRule | null = null;
+  let background: GherkinBackground | null = null;
+  let scenario: GherkinScenarioNode | null = null;
+  let examples: GherkinExamples | null = null;
+  let lastStep: GherkinStep | null = null;
+  let pendingTags: GherkinTag[] = [];
+  // Node whose free-text description is still being collected (only until its first step/table)
+  let describing: { description: string } | null = null;
+  let docString: { step: GherkinStep; delimiter: string; indent: number; lines: string[]; location: GherkinLocation; mediaType?: string } | null = null;
+
+  // Scenarios found before any "Feature:" line live in an implicit feature so they are not lost
+  const ensureFeature = (lineNumber: number): GherkinFeature => {
+    if (!feature) {
+      feature = {
+        type: 'Feature',
+        location: { line: lineNumber, column: 1 },
+        tags: [],
+        language,
+        keyword: '',
+        name: '',
+        description: '',
+        children: []
+      };
+      document.features.push(feature);
+    }
+    return feature;
+  };
+
+  const report = (severity: GherkinDiagnosticSeverity, code: GherkinDiagnosticCode, location: GherkinLocation, message: string) => {
+    document.diagnostics.push({ severity, code, message, location, uri: options.uri });
+  };
+
+  const addChild = (child: GherkinBackground | GherkinScenarioNode, lineNumber: number) => {
+    if (rule) rule.children.push(child);
+    else ensureFeature(lineNumber).children.push(child);
+  };
+
+  const startScenario = (lineNumber: number, column: number, keyword: string, name: string, isOutline: boolean, heuristic?: GherkinScenarioNode['heuristic']) => {
+    scenario = {
+      type: 'Scenario',
+      location: { line: lineNumber, column },
+      tags: pendingTags,
+      keyword,
+      name,
+      description: '',
+      steps: [],
+      examples: [],
+      isOutline,
+      heuristic
+    };
+    pendingTags = [];
+    background = null;
+    examples = null;
+    lastStep = null;
+    describing = scenario;
+    addChild(scenario, lineNumber);
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+    const lineNumber = i + 1;
+    const trimmed = line.trim();
+    const column = line.length - line.trimStart().length + 1;
+
+    // Inside a doc string everything is content until the matching delimiter
+    if (docString) {
+      if (trimmed === docString.delimiter) {
+        docString.step.docString = {
+          location: docString.location,
+          delimiter: docString.delimiter,
+          mediaType: docString.mediaType,
+          content: docString.lines.join('\n')
+        };
+        docString = null;
+      } else {
+        const indent = docString.indent;
+        const leading = line.length - line.trimStart().length;
+        docString.lines.push(line.slice(Math.min(indent, leading)).replace(/\\"\\"\\"/g, '"""'));
+      }
+      continue;
+    }
+
+    if (!trimmed) {
+      if (describing && describing.description) describing.description += '\n';
+      continue;
+    }
+
+    if (trimmed.startsWith('#')) {
+      document.comments.push({ location: { line: lineNumber, column }, text: trimmed });
+      const languageHeader = trimmed.match(LANGUAGE_HEADER_PATTERN);
+      if (languageHeader && !resolveGherkinLanguage(languageHeader[1])) {
+        report('warning', 'unknown-language', { line: lineNumber, column }, `Unknown Gherkin language "${languageHeader[1]}"; parsed as ${dialect.name}`);
+      }
+      continue;
+    }
+
+    if (trimmed.startsWith('@')) {
+      pendingTags.push(...parseTags(line, lineNumber));
+      continue;
+    }
+
+    if (trimmed.startsWith('"""') || trimmed.startsWith('```')) {
+      const delimiter = trimmed.slice(0, 3);
+      if (lastStep) {
+        docString = {
+          step: lastStep,
+          delimiter,
+          indent: column - 1,
+          lines: [],
+          location: { line: lineNumber, column },
+          mediaType: trimmed.slice(3).trim() || undefined
+        };
+      } else {
+        // Orphan doc string: skip to its closing delimiter
+        report('warning', 'orphan-argument', { line: lineNumber, column }, 'Doc string does not follow a step and was ignored');
+        while (i + 1 < lines.length && lines[i + 1].trim() !== delimiter) i++;
+        i++;
+      }
+      continue;
+    }
+
+    if (trimmed.startsWith('|')) {
+      const row = parseTableRow(line, lineNumber);
+      describing = null;
+      if (examples) {
+        if (!examples.tableHeader) examples.tableHeader = row;
+        else examples.tableBody.push(row);
+      } else if (lastStep) {
+        if (!lastStep.dataTable) lastStep.dataTable = { location: row.location, rows: [] };
+        lastStep.dataTable.rows.push(row);
+      } else {
+        report('warning', 'orphan-argument', row.location, 'Table row does not follow a step or Examples header and was ignored');
+      }
+      continue;
+    }
+
+    const header = matchHeaderLine(trimmed, dialect);
+    if (header) {
+      switch (header.kind) {
+        case 'feature':
+          feature = {
+            type: 'Feature',
+            location: { line: lineNumber, column },
+            tags: pendingTags,
+            language,
+            keyword: header.keyword,
+            name: header.name,
+            description: '',
+            children: []
+          };
+          document.features.push(feature);
+          pendingTags = [];
+          rule = background = scenario = examples = lastStep = null;
+          describing = feature;
+          break;
+        case 'rule':
+          rule = {
+            type: 'Rule',
+            location: { line: lineNumber, column },
+            tags: pendingTags,
+            keyword: header.keyword,
+            name: header.name,
+            description: '',
+            children: []
+          };
+          pendingTags = [];
+          ensureFeature(lineNumber).children.push(rule);
+          background = scenario = examples = lastStep = null;
+          describing = rule;
+          break;
+        case 'background':
+          background = {
+            type: 'Background',
+            location: { line: lineNumber, column },
+            keyword: header.keyword,
+            name: header.name,
+            description: '',
+            steps: []
+          };
+          pendingTags = [];
+          addChild(background, lineNumber);
+          scenario = examples = lastStep = null;
+          describing = background;
+          break;
+        case 'scenario':
+        case 'outline':
+          startScenario(lineNumber, column, header.keyword, header.name, header.kind === 'outline');
+          break;
+        case 'examples':
+          if (!scenario) {
+            report('warning', 'orphan-examples', { line: lineNumber, column }, `"${header.keyword}:" outside a Scenario Outline was ignored`);
+          } else {
+            examples = {
+              location: { line: lineNumber, column },
+              tags: pendingTags,
+              keyword: header.keyword,
+              name: header.name,
+              description: '',
+              tableBody: []
+            };
+            scenario.examples.push(examples);
+            scenario.isOutline = true;
+            describing = examples;
+          }
+          pendingTags = [];
+          lastStep = null;
+          break;
+      }
+      continue;
+    }
+
+    const step = matchStepLine(trimmed, dialect);
+    if (step) {
+      const container = scenario ?? background;
+      if (examples) {
+        report('warning', 'orphan-step', { line: lineNumber, column }, `Step "${trimmed}" after an Examples table was ignored`);
+        continue;
+      }
+      if (!container) {
+        report('error', 'step-outside-scenario', { line: lineNumber, column }, `Step "${trimmed}" is not inside a Scenario or Background and was ignored`);
+        continue;
+      }
+      if (step.keywordType === 'Conjunction' && container.steps.length === 0) {
+        report('warning', 'orphan-step', { line: lineNumber, column }, `"${step.keyword.trim()}" step has no preceding Given/When/Then step`);
+      }
+      lastStep = { location: { line: lineNumber, column }, ...step };
+      container.steps.push(lastStep);
+      describing = null;
+      continue;
+    }
+
+    // "Scenaro: Login" - a keyword-like prefix that is not part of the dialect
+    const keywordLike = trimmed.match(/^([^\s:|@#"`][^:]{0,39}):/);
+    const candidate = keywordLike?.[1].trim().toLowerCase();
+    const looksLikeKeyword = !!candidate && candidate.split(/\s+/).length <= 3 &&
+      (!describing || headerKeywords.some(keyword => keyword.length >= 4 && editDistance(candidate, keyword) <= 2));
+    if (looksLikeKeyword) {
+      report('warning', 'unknown-keyword', { line: lineNumber, column }, `Unknown keyword "${keywordLike[1].trim()}:" (${dialect.name} dialect)`);
+    }
+
+    if (detectHeuristicTitles) {
+      const heuristic = matchHeuristicTitle(trimmed);
+      if (heuristic) {
+        report('warning', 'heuristic-title', { line: lineNumber, column }, `No Gherkin keyword; "${heuristic.title}" was guessed as a scenario title (${heuristic.heuristic} pattern)`);
+        startScenario(lineNumber, column, '', heuristic.title, false, heuristic.heuristic);
+        continue;
+      }
+    }
+
+    if (describing) {
+      describing.description = describing.description ? `${describing.description}\n${trimmed}` : trimmed;
+    } else if (!looksLikeKeyword) {
+      report('warning', 'unknown-keyword', { line: lineNumber, column }, `Line does not start with a Gherkin keyword (${dialect.name} dialect) and was ignored`);
+    }
+  }
+
+  if (docString) {
+    report('error', 'unterminated-doc-string', docString.location, `Doc string opened with ${docString.delimiter} is never closed`);
+  }
+
+  const trimDescription = (node: { description: string }) => { node.description = node.description.trim(); };
+  for (const parsedFeature of document.features) {
+    trimDescription(parsedFeature);
+    for (const child of parsedFeature.children) {
+      trimDescription(child);
+      if (child.type === 'Rule') child.children.forEach(trimDescription);
+      if (child.type === 'Scenario') child.examples.forEach(trimDescription);
+    }
+  }
+
+  for (const { scenario: parsed } of flattenGherkinDocument(document)) {
+    const label = parsed.name || parsed.keyword;
+    if (parsed.steps.length === 0) {
+      report('warning', 'empty-scenario', parsed.location, `Scenario "${label}" has no steps`);
+    }
+    if (parsed.isOutline && !parsed.examples.some(examples => examples.tableBody.length > 0)) {
+      report('warning', 'outline-without-examples', parsed.location, `Scenario Outline "${label}" has no Examples rows`);
+    }
+  }
+  document.diagnostics.sort((a, b) => a.location.line - b.location.line || a.location.column - b.location.column);
+
+  return document;
+};
+
+// A scenario together with everything that applies to it from its enclosing Feature and Rule
+export interface FlattenedGherkinScenario {
+  feature: GherkinFeature;
+  rule?: GherkinRule;
+  backgroundSteps: GherkinStep[];
+  scenario: GherkinScenarioNode;
+  tags: GherkinTag[];
+}
+
+export const flattenGherkinDocument = (document: GherkinDocument): FlattenedGherkinScenario[] => {
+  const result: FlattenedGherkinScenario[] = [];
+  for (const feature of document.features) {
+    let featureBackground: GherkinStep[] = [];
+    for (const child of feature.children) {
+      if (child.type === 'Background') {
+        featureBackground = child.steps;
+      } else if (child.type === 'Scenario') {
+        result.push({
+          feature,
+          backgroundSteps: featureBackground,
+          scenario: child,
+          tags: [...feature.tags, ...child.tags]
+        });
+      } else {
+        let ruleBackground: GherkinStep[] = [];
+        for (const ruleChild of child.children) {
+          if (ruleChild.type === 'Background') {
+            ruleBackground = ruleChild.steps;
+          } else {
+            result.push({
+              feature,
+              rule: child,
+              backgroundSteps: [...featureBackground, ...ruleBackground],
+              scenario: ruleChild,
+              tags: [...feature.tags, ...child.tags, ...ruleChild.tags]
+            });
+          }
+        }
+      }
+    }
+  }
+  return result;
+};
+
+export const formatGherkinStep = (step: GherkinStep): string => `${step.keyword}${step.text}`;
+
+// One concrete scenario produced from a Scenario Outline and a single Examples row
+export interface GherkinOutlineExample {
+  examples: GherkinExamples;
+  row: GherkinTableRow;
+  values: Record<string, string>;
+  name: string;
+  steps: GherkinStep[];
+  tags: GherkinTag[];
+}
+
+const PLACEHOLDER_PATTERN = /<([^<>\n]+)>/g;
+
+export const substitutePlaceholders = (text: string, values: Record<string, string>): string =>
+  text.replace(PLACEHOLDER_PATTERN, (placeholder, name: string) =>
+    Object.prototype.hasOwnProperty.call(values, name) ? values[name] : placeholder);
+
+const substituteStep = (step: GherkinStep, values: Record<string, string>): GherkinStep => ({
+  ...step,
+  text: substitutePlaceholders(step.text, values),
+  docString: step.docString && {
+    ...step.docString,
+    content: substitutePlaceholders(step.docString.content, values)
+  },
+  dataTable: step.dataTable && {
+    ...step.dataTable,
+    rows: step.dataTable.rows.map(row => ({
+      ...row,
+      cells: row.cells.map(cell => ({ ...cell, value: substitutePlaceholders(cell.value, values) }))
+    }))
+  }
+});
+
+export const expandScenarioOutline = (scenario: GherkinScenarioNode): GherkinOutlineExample[] => {
+  const expanded: GherkinOutlineExample[] = [];
+  for (const examples of scenario.examples) {
+    const header = examples.tableHeader?.cells.map(cell => cell.value) ?? [];
+    for (const row of examples.tableBody) {
+      const values: Record<string, string> = {};
+      header.forEach((name, index) => { values[name] = row.cells[index]?.value ?? ''; });
+      expanded.push({
+        examples,
+        row,
+        values,
+        name: substitutePlaceholders(scenario.name, values),
+        steps: scenario.steps.map(step => substituteStep(step, values)),
+        tags: examples.tags
+      });
+    }
+  }
+  return expanded;
+};
@@ -0,0 +1,95 @@
+// AI adjudication of borderline matches: best candidates scoring inside the profile's borderline band
+// are sent to Gemini in batches. Verdicts only change coverage once a reviewer accepts them, which
+// records them as manual overrides.
+import type { AnalysisResult, GherkinScenario } from './scenarioTypes';
+import { generateJSON } from './gemini';
+import { getMatchingProfile, type MatchingProfile } from './matchingProfile';
+
+export interface BorderlinePair {
+  sourceIndex: number; // index into AnalysisResult.sourceScenarios
+  qaIndex: number; // index into AnalysisResult.qaScenarios
+  similarity: number;
+  threshold: number;
+}
+
+export interface AdjudicationVerdict extends BorderlinePair {
+  match: boolean;
+  reason: string;
+}
+
+export interface AdjudicationOutcome {
+  verdicts: AdjudicationVerdict[];
+  // One message per batch that failed or returned no usable verdicts
+  errors: string[];
+}
+
+type AdjudicationResponse = {
+  verdicts?: Array<{ id?: number; match?: boolean; reason?: string }>;
+};
+
+// Each source scenario's best candidate when its score lies within the band; pinned matches are
+// already decided by a reviewer and are left out
+export const findBorderlinePairs = (
+  result: AnalysisResult,
+  band: MatchingProfile['adjudication'] = getMatchingProfile().adjudication
+): BorderlinePair[] =>
+  result.explanations.flatMap((explanation, sourceIndex) => {
+    const best = explanation.best;
+    if (!best || explanation.pinned || best.similarity < band.bandMin || best.similarity > band.bandMax) return [];
+    return [{ sourceIndex, qaIndex: best.qaIndex, similarity: best.similarity, threshold: explanation.threshold }];
+  });
+
+const describeScenario = (scenario: GherkinScenario): string =>
+  [`Title: ${scenario.title}`, ...scenario.steps.map(step => `  ${step}`)].join('\n');
+
+const buildPrompt = (result: AnalysisResult, pairs: BorderlinePair[]): string => `You review an automated test coverage matcher.
+Each pair below links a use case scenario to the QA test scenario the matcher found closest to it.
+Decide for every pair whether the QA scenario tests the same behaviour as the use case (match: true) or not (match: false),
+and give a one-sentence reason. Judge behaviour, not wording: different phrasing or language can still be a match.
+
+${pairs.map((pair, index) => `Pair ${index + 1}
+Use case:
+${describeScenario(result.sourceScenarios[pair.sourceIndex])}
+QA scenario:
+${describeScenario(result.qaScenarios[pair.qaIndex])}`).join('\n\n')}
+
+Respond with JSON: { "verdicts": [ { "id": <pair number>, "match": true | false, "reason": "..." } ] }`;
+
+// Sends the pairs batch by batch; isCancelled is checked before each request
+export const adjudicatePairs = async (
+  apiKey: string,
+  result: AnalysisResult,
+  pairs: BorderlinePair[],
+  options: {
+    batchSize?: number;
+    onProgress?: (processed: number, total: number) => void;
+    isCancelled?: () => boolean;
+  } = {}
+): Promise<AdjudicationOutcome> => {
+  const batchSize = Math.max(1, Math.floor(options.batchSize ?? getMatchingProfile().adjudication.batchSize));
+  const verdicts: AdjudicationVerdict[] = [];
+  const errors: string[] = [];
+  options.onProgress?.(0, pairs.length);
+
+  for (let start = 0; start < pairs.length; start += batchSize) {
+    if (options.isCancelled?.()) break;
+    const batch = pairs.slice(start, start + batchSize);
+    const label = `Pairs ${start + 1}–${start + batch.length}`;
+    const response = await generateJSON<AdjudicationResponse>(apiKey, buildPrompt(result, batch));
+    if (!response.ok || !Array.isArray(response.data?.verdicts)) {
+      errors.push(`${label}: ${response.error || 'no verdict list in the response'}`);
+    } else {
+      const answered = new Set<BorderlinePair>();
+      for (const verdict of response.data!.verdicts) {
+        const pair = typeof verdict?.id === 'number' ? batch[verdict.id - 1] : undefined;
+        if (!pair || answered.has(pair) || typeof verdict.match !== 'boolean') continue;
+        verdicts.push({ ...pair, match: verdict.match, reason: typeof verdict.reason === 'string' ? verdict.reason.trim() : '' });
+        answered.add(pair);
+      }
+      if (answered.size < batch.length) errors.push(`${label}: ${batch.length - answered.size} pair(s) without a usable verdict`);
+    }
+    options.onProgress?.(start + batch.length, pairs.length);
+  }
+
+  return { verdicts, errors };
+};
@@ -0,0 +1,37 @@
+import { describe, expect, it } from 'vitest';
+import type { GherkinScenario, MatchOverride } from './scenarioTypes';
+import { performAnalysis } from './coverageMatcher';
+import { applyMatchOverrides, scenarioRef } from './matchOverrides';
+
+const scenario = (title: string, fileName: string): GherkinScenario => ({ title, steps: ['Given the login page'], fileName });
+
+const pin = (source: GherkinScenario, qa: GherkinScenario): MatchOverride => ({
+  kind: 'pin',
+  source: scenarioRef(source),
+  qa: scenarioRef(qa),
+  createdAt: '2026-01-01T00:00:00.000Z'
+});
+
+describe('applyMatchOverrides', () => {
+  const sources = [scenario('Login with password', 'source.feature'), scenario('Login with single sign-on', 'source.feature')];
+  const qas = [scenario('Login with password', 'qa.feature'), scenario('Login with SSO', 'qa.feature')];
+  const analysis = performAnalysis(sources, qas);
+
+  it('keeps strict coverage one-to-one when two use cases are pinned to the same QA scenario', () => {
+    const first = pin(sources[0], qas[1]);
+    const second = pin(sources[1], qas[1]);
+    const { result, conflicts } = applyMatchOverrides(analysis, [first, second]);
+
+    expect(result.strictMatches).toEqual([1, -1]);
+    expect(conflicts).toEqual([second]);
+    // Lenient coverage is many-to-one and keeps both pins
+    expect(result.explanations.map(explanation => explanation.best?.qaIndex)).toEqual([1, 1]);
+    expect(result.lenient.overlap).toEqual(sources);
+  });
+
+  it('reports no conflicts for pins to different QA scenarios', () => {
+    const { result, conflicts } = applyMatchOverrides(analysis, [pin(sources[0], qas[1]), pin(sources[1], qas[0])]);
+    expect(result.strictMatches).toEqual([1, 0]);
+    expect(conflicts).toEqual([]);
+  });
+});
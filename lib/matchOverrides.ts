@@ -0,0 +1,180 @@
+// Manual match overrides: reviewer decisions that are stored per project and re-applied on top of
+// every fresh analysis, so a pinned or rejected pair survives re-uploading the feature files.
+import type { AnalysisResult, CandidateExplanation, GherkinScenario, MatchOverride, ScenarioRef } from './scenarioTypes';
+import { applyCoverageMode, buildAnalysisResult, explainCandidate, scoreSimilarity } from './coverageMatcher';
+import { alignSteps } from './stepAlignment';
+
+const STORAGE_PREFIX = 'qualiscan.overrides.';
+const PROJECT_STORAGE_KEY = 'qualiscan.project';
+
+export const DEFAULT_PROJECT = 'default';
+
+// The project whose overrides are applied; remembered between sessions
+export const loadActiveProject = (): string => {
+  try {
+    return localStorage.getItem(PROJECT_STORAGE_KEY) || DEFAULT_PROJECT;
+  } catch (e) {
+    return DEFAULT_PROJECT;
+  }
+};
+
+export const saveActiveProject = (project: string) => {
+  try {
+    localStorage.setItem(PROJECT_STORAGE_KEY, project);
+  } catch (e) {}
+};
+
+export const scenarioRef = (scenario: GherkinScenario): ScenarioRef => ({
+  fileName: scenario.fileName || '',
+  title: scenario.title
+});
+
+const refKey = (ref: ScenarioRef): string => `${ref.fileName}\u0000${ref.title}`;
+
+export const sameRef = (ref1: ScenarioRef, ref2: ScenarioRef): boolean => refKey(ref1) === refKey(ref2);
+
+export const loadMatchOverrides = (project: string): MatchOverride[] => {
+  try {
+    const stored = localStorage.getItem(STORAGE_PREFIX + project);
+    const parsed = stored ? JSON.parse(stored) : [];
+    return Array.isArray(parsed) ? parsed : [];
+  } catch (e) {
+    return [];
+  }
+};
+
+export const saveMatchOverrides = (project: string, overrides: MatchOverride[]) => {
+  try {
+    if (overrides.length > 0) {
+      localStorage.setItem(STORAGE_PREFIX + project, JSON.stringify(overrides));
+    } else {
+      localStorage.removeItem(STORAGE_PREFIX + project);
+    }
+  } catch (e) {}
+};
+
+// Adds an override, replacing whatever it contradicts: a pin replaces any earlier pin of the same
+// source scenario and a rejection of the same pair; a rejection replaces a pin of the same pair
+export const upsertMatchOverride = (overrides: MatchOverride[], override: MatchOverride): MatchOverride[] => {
+  const kept = overrides.filter(existing => {
+    if (!sameRef(existing.source, override.source)) return true;
+    if (override.kind === 'pin' && existing.kind === 'pin') return false;
+    return !sameRef(existing.qa, override.qa);
+  });
+  return [...kept, override];
+};
+
+export const removeMatchOverrides = (overrides: MatchOverride[], removed: MatchOverride[]): MatchOverride[] =>
+  overrides.filter(override => !removed.includes(override));
+
+export interface OverrideOutcome {
+  result: AnalysisResult;
+  applied: MatchOverride[];
+  // Overrides whose source or QA scenario no longer exists in the uploaded files
+  stale: MatchOverride[];
+  // Pins to a QA scenario an earlier pin already took; strict coverage leaves their use case unassigned
+  conflicts: MatchOverride[];
+}
+
+const indexByRef = (scenarios: GherkinScenario[]): Map<string, number[]> => {
+  const index = new Map<string, number[]>();
+  scenarios.forEach((scenario, position) => {
+    const key = refKey(scenarioRef(scenario));
+    if (!index.has(key)) index.set(key, []);
+    index.get(key)!.push(position);
+  });
+  return index;
+};
+
+// Re-derives coverage from the match explanations after applying the overrides. A rejected best match
+// falls back to the next explained candidate, which is covered only if it clears the threshold on its
+// own; a pinned pair is covered whatever it scores. Strict assignments are edited rather than re-solved:
+// a pin takes its QA scenario away from any use case that is not pinned to it, and a rejection leaves
+// the use case unassigned. Strict coverage stays one-to-one, so of several pins to the same QA scenario
+// only the first is assigned there and the others are reported as conflicts.
+export const applyMatchOverrides = (result: AnalysisResult, overrides: MatchOverride[]): OverrideOutcome => {
+  if (overrides.length === 0) return { result, applied: [], stale: [], conflicts: [] };
+
+  const sourceByRef = indexByRef(result.sourceScenarios);
+  const qaByRef = indexByRef(result.qaScenarios);
+  const pins = new Map<number, number>();
+  const pinOverrides = new Map<number, MatchOverride>();
+  const rejections = new Map<number, Set<number>>();
+  const applied: MatchOverride[] = [];
+  const stale: MatchOverride[] = [];
+
+  for (const override of overrides) {
+    const sources = sourceByRef.get(refKey(override.source));
+    const qas = qaByRef.get(refKey(override.qa));
+    if (!sources || !qas) {
+      stale.push(override);
+      continue;
+    }
+    applied.push(override);
+    for (const sourceIndex of sources) {
+      if (override.kind === 'pin') {
+        pins.set(sourceIndex, qas[0]);
+        pinOverrides.set(sourceIndex, override);
+      } else {
+        if (!rejections.has(sourceIndex)) rejections.set(sourceIndex, new Set());
+        qas.forEach(qaIndex => rejections.get(sourceIndex)!.add(qaIndex));
+      }
+    }
+  }
+  if (applied.length === 0) return { result, applied, stale, conflicts: [] };
+
+  // First pin per QA scenario, in override order, for the strict assignment
+  const strictPins = new Map<number, number>();
+  const pinnedQAs = new Set<number>();
+  const conflicts = new Set<MatchOverride>();
+  for (const [sourceIndex, qaIndex] of pins) {
+    if (pinnedQAs.has(qaIndex)) {
+      conflicts.add(pinOverrides.get(sourceIndex)!);
+    } else {
+      pinnedQAs.add(qaIndex);
+      strictPins.set(sourceIndex, qaIndex);
+    }
+  }
+
+  const explanations = result.explanations.map((explanation, sourceIndex) => {
+    const pinnedQA = pins.get(sourceIndex);
+    const rejected = rejections.get(sourceIndex);
+    if (pinnedQA === undefined && !rejected) return explanation;
+
+    const sourceScenario = result.sourceScenarios[sourceIndex];
+    let candidates = [explanation.best, ...explanation.alternatives].filter(
+      (candidate): candidate is CandidateExplanation => !!candidate && !rejected?.has(candidate.qaIndex)
+    );
+    if (pinnedQA !== undefined) {
+      const { similarity, branch } = scoreSimilarity(sourceScenario, result.qaScenarios[pinnedQA]);
+      const pinned = candidates.find(candidate => candidate.qaIndex === pinnedQA)
+        ?? explainCandidate(sourceScenario, result.qaScenarios[pinnedQA], pinnedQA, similarity, branch);
+      candidates = [pinned, ...candidates.filter(candidate => candidate !== pinned)];
+    }
+    let [best = null, ...alternatives] = candidates;
+    if (best && !best.steps) best = { ...best, steps: alignSteps(sourceScenario, result.qaScenarios[best.qaIndex], best.qaIndex) };
+
+    return {
+      ...explanation,
+      best: best,
+      alternatives: alternatives,
+      pinned: pinnedQA !== undefined,
+      rejected: rejected ? Array.from(rejected) : undefined
+    };
+  });
+
+  const covered = explanations.map(explanation => !!explanation.best && (!!explanation.pinned || explanation.best.similarity > explanation.threshold));
+  const matchedQA = new Set(explanations.filter((_, index) => covered[index]).map(explanation => explanation.best!.qaIndex));
+
+  let strictMatches = result.strictMatches;
+  if (strictMatches) {
+    strictMatches = strictMatches.map((qaIndex, sourceIndex) => {
+      if (strictPins.has(sourceIndex)) return strictPins.get(sourceIndex)!;
+      if (pins.has(sourceIndex)) return -1;
+      return pinnedQAs.has(qaIndex) || rejections.get(sourceIndex)?.has(qaIndex) ? -1 : qaIndex;
+    });
+  }
+
+  const rebuilt = buildAnalysisResult(result.sourceScenarios, result.qaScenarios, { covered, matchedQA, explanations }, strictMatches);
+  return { result: applyCoverageMode(rebuilt, result.mode, result.stepMatching), applied, stale, conflicts: Array.from(conflicts) };
+};
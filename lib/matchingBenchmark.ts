@@ -0,0 +1,106 @@
+// Synthetic suites and timings for the coverage matcher, used by the benchmark page.
+import type { GherkinScenario } from './scenarioTypes';
+import { createCandidateIndex } from './candidateIndex';
+import { matchScenarios } from './coverageMatcher';
+
+export interface MatchingBenchmarkResult {
+  sourceCount: number;
+  qaCount: number;
+  generateMs: number;
+  indexMs: number;
+  matchMs: number;
+  comparisons: number;
+  fullComparisons: number; // pairs a full scan would score
+  coverage: number;
+  // Blocked vs full-scan agreement on the first `sampleSize` source scenarios
+  sampleSize: number;
+  sampleAgreement: number;
+  sampleBlockedMs: number;
+  sampleFullMs: number;
+}
+
+const ACTORS = ['user', 'admin', 'guest', 'customer', 'manager', 'auditor', 'operator', 'reviewer', 'partner', 'support agent'];
+const ACTIONS = ['creates', 'updates', 'deletes', 'views', 'exports', 'imports', 'approves', 'rejects', 'archives', 'restores', 'shares', 'searches'];
+const OBJECTS = ['invoice', 'order', 'report', 'account', 'payment', 'shipment', 'profile', 'contract', 'ticket', 'product', 'subscription', 'refund', 'coupon', 'warehouse', 'supplier', 'budget'];
+const QUALIFIERS = ['with valid data', 'with missing fields', 'without permission', 'after session timeout', 'in bulk', 'from mobile', 'with attachments', 'using keyboard shortcuts', 'with feature flag enabled', 'in offline mode'];
+const SYNONYMS: Record<string, string> = { creates: 'adds', deletes: 'removes', views: 'opens', searches: 'looks up', invoice: 'bill', account: 'profile' };
+
+// Small deterministic PRNG so runs are comparable between sizes and sessions
+const createRandom = (seed: number) => () => {
+  seed = (seed + 0x6d2b79f5) | 0;
+  let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+  t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
+
+const pick = <T,>(random: () => number, items: T[]): T => items[Math.floor(random() * items.length)];
+
+const buildScenario = (title: string, index: number, fileName: string): GherkinScenario => ({
+  title,
+  steps: [
+    `Given the ${title.split(' ')[0]} is signed in`,
+    `When they ${title.split(' ').slice(1).join(' ')}`,
+    'Then the change is saved'
+  ],
+  fileName,
+  lineNumber: index * 6 + 2
+});
+
+// Source titles use a numbered module so suites have many rare words, as real ones do. About 70%
+// of QA scenarios reword a source scenario; the rest are unrelated.
+export const generateBenchmarkSuites = (count: number, seed = 42): { source: GherkinScenario[]; qa: GherkinScenario[] } => {
+  const random = createRandom(seed);
+  const modules = Math.max(1, Math.round(count / 20));
+  const source: GherkinScenario[] = [];
+  const qa: GherkinScenario[] = [];
+
+  for (let i = 0; i < count; i++) {
+    const module = `module${Math.floor(random() * modules)}`;
+    const words = [pick(random, ACTORS), pick(random, ACTIONS), 'the', module, pick(random, OBJECTS), pick(random, QUALIFIERS)];
+    source.push(buildScenario(words.join(' '), i, `source/${module}.feature`));
+
+    if (random() < 0.7) {
+      const reworded = words.map(word => (random() < 0.3 && SYNONYMS[word]) || word);
+      qa.push(buildScenario(reworded.join(' '), i, `qa/${module}.feature`));
+    } else {
+      const otherModule = `module${Math.floor(random() * modules)}`;
+      const other = [pick(random, ACTORS), pick(random, ACTIONS), otherModule, pick(random, OBJECTS), pick(random, QUALIFIERS)];
+      qa.push(buildScenario(other.join(' '), i, `qa/${otherModule}.feature`));
+    }
+  }
+
+  return { source, qa };
+};
+
+const timed = <T,>(run: () => T): [T, number] => {
+  const start = performance.now();
+  const result = run();
+  return [result, performance.now() - start];
+};
+
+export const runMatchingBenchmark = (count: number, sampleSize = 200): MatchingBenchmarkResult => {
+  const [{ source, qa }, generateMs] = timed(() => generateBenchmarkSuites(count));
+  const [candidateIndex, indexMs] = timed(() => createCandidateIndex(qa));
+  const [match, matchMs] = timed(() => matchScenarios(source, qa, { candidateIndex }));
+
+  const sample = source.slice(0, sampleSize);
+  const [blocked, sampleBlockedMs] = timed(() => matchScenarios(sample, qa, { candidateIndex }));
+  const [full, sampleFullMs] = timed(() => matchScenarios(sample, qa, { blocking: false }));
+  const agreeing = blocked.covered.filter((covered, index) => covered === full.covered[index]).length;
+  const coveredCount = match.covered.filter(Boolean).length;
+
+  return {
+    sourceCount: source.length,
+    qaCount: qa.length,
+    generateMs,
+    indexMs,
+    matchMs,
+    comparisons: match.comparisons,
+    fullComparisons: source.length * qa.length,
+    coverage: source.length > 0 ? Math.round((coveredCount / source.length) * 100) : 0,
+    sampleSize: sample.length,
+    sampleAgreement: sample.length > 0 ? Math.round((agreeing / sample.length) * 1000) / 10 : 100,
+    sampleBlockedMs,
+    sampleFullMs
+  };
+};
@@ -0,0 +1,31 @@
+import { describe, expect, it } from 'vitest';
+import { evaluateMatching, parseLabeledPairs } from './matchingEvaluation';
+
+// One pair per outcome at the default threshold: exact-term match, near-duplicate title, paraphrase
+// sharing no words and a partial title overlap
+const LABELED_SET = JSON.stringify([
+  { source: 'Export report as PDF', qa: 'Export the PDF report', isMatch: true },
+  { source: 'User exports monthly sales report', qa: 'User exports monthly sales report draft', isMatch: false },
+  { source: 'Sign in', qa: 'Log into the portal', isMatch: true },
+  { source: { title: 'Cancelar assinatura', language: 'pt' }, qa: { title: 'Cancelling orders', language: 'en' }, isMatch: false }
+]);
+
+describe('evaluateMatching', () => {
+  const result = evaluateMatching(parseLabeledPairs(LABELED_SET));
+
+  it('counts pairwise outcomes and scores', () => {
+    const { truePositives, falsePositives, falseNegatives, precision, recall, f1 } = result.methods.pairwise;
+    expect({ truePositives, falsePositives, falseNegatives }).toEqual({ truePositives: 1, falsePositives: 1, falseNegatives: 1 });
+    expect(precision).toBe(0.5);
+    expect(recall).toBe(0.5);
+    expect(f1).toBe(0.5);
+    expect(result.methods.pairwise.mistakes.falsePositives.map(mistake => mistake.qa)).toEqual(['User exports monthly sales report draft']);
+    expect(result.methods.pairwise.mistakes.falseNegatives.map(mistake => mistake.qa)).toEqual(['Log into the portal']);
+  });
+
+  it('sweeps thresholds on the same 0..1 scale as the scores', () => {
+    const at = (threshold: number) => result.sweep.find(point => Math.abs(point.threshold - threshold) < 1e-9)!;
+    expect(at(0.65)).toMatchObject({ truePositives: 1, falsePositives: 2, falseNegatives: 1, precision: 1 / 3, recall: 0.5 });
+    expect(at(1)).toMatchObject({ truePositives: 0, falsePositives: 0, falseNegatives: 2 });
+  });
+});
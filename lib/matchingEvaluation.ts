@@ -0,0 +1,201 @@
+// Gold-standard evaluation of the similarity engine: scores a labeled set of (source, QA, isMatch)
+// pairs pair by pair and through performAnalysis, so matcher and profile changes can be measured.
+import type { GherkinScenario } from './scenarioTypes';
+import { calculateDynamicThreshold, performAnalysis, scoreSimilarity } from './coverageMatcher';
+import { getMatchingProfile } from './matchingProfile';
+
+export interface LabeledPair {
+  source: GherkinScenario;
+  qa: GherkinScenario;
+  isMatch: boolean;
+}
+
+export interface EvaluationScores {
+  truePositives: number;
+  falsePositives: number;
+  falseNegatives: number;
+  precision: number;
+  recall: number;
+  f1: number;
+}
+
+export interface ThresholdPoint extends EvaluationScores {
+  threshold: number;
+}
+
+export interface EvaluationMistake {
+  source: string;
+  qa: string;
+  similarity: number;
+  threshold: number;
+  // false for a predicted match between scenarios the set never labeled (counted as a false positive)
+  labeled: boolean;
+}
+
+export interface MethodEvaluation extends EvaluationScores {
+  mistakes: {
+    falsePositives: EvaluationMistake[];
+    falseNegatives: EvaluationMistake[];
+  };
+}
+
+export type EvaluationMethod = 'pairwise' | 'lenient' | 'strict';
+
+export interface MatchingEvaluationResult {
+  pairCount: number;
+  positiveCount: number;
+  sourceCount: number;
+  qaCount: number;
+  profileName: string;
+  // pairwise: each pair against its own dynamic threshold; lenient / strict: performAnalysis over the
+  // distinct source and QA scenarios of the set, where a use case matches only its covering QA scenario
+  methods: Record<EvaluationMethod, MethodEvaluation>;
+  // Pairwise precision / recall when a pair counts as a match above a fixed threshold
+  sweep: ThresholdPoint[];
+}
+
+// Every similarity branch scores from 0 to 1, so the sweep covers the full range in 0.05 steps
+const SWEEP_STEPS = 20;
+
+const scoreCounts = (truePositives: number, falsePositives: number, falseNegatives: number): EvaluationScores => {
+  const precision = truePositives + falsePositives > 0 ? truePositives / (truePositives + falsePositives) : 0;
+  const recall = truePositives + falseNegatives > 0 ? truePositives / (truePositives + falseNegatives) : 0;
+  const f1 = precision + recall > 0 ? (2 * precision * recall) / (precision + recall) : 0;
+  return { truePositives, falsePositives, falseNegatives, precision, recall, f1 };
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const scenarioKey = (scenario: GherkinScenario): string => `${scenario.fileName || ''}\u0000${scenario.title}`;
+
+const toScenario = (value: unknown, field: string, index: number): GherkinScenario => {
+  if (typeof value === 'string' && value.trim()) return { title: value.trim(), steps: [] };
+  const scenario = value as Partial<GherkinScenario> | null;
+  if (!scenario || typeof scenario.title !== 'string' || !scenario.title.trim()) {
+    throw new Error(`Pair ${index + 1}: "${field}" must be a title or an object with a title`);
+  }
+  if (scenario.steps !== undefined && (!Array.isArray(scenario.steps) || scenario.steps.some(step => typeof step !== 'string'))) {
+    throw new Error(`Pair ${index + 1}: "${field}.steps" must be a list of step strings`);
+  }
+  return { ...scenario, title: scenario.title.trim(), steps: scenario.steps || [] } as GherkinScenario;
+};
+
+// Reads a labeled set: an array of pairs, or { "pairs": [...] }. Each side is a title or a scenario
+// object ({ title, steps?, fileName? }); scenarios with the same file name and title are the same one.
+export const parseLabeledPairs = (json: string): LabeledPair[] => {
+  let value: unknown;
+  try {
+    value = JSON.parse(json);
+  } catch (e) {
+    throw new Error(`Labeled set is not valid JSON: ${e instanceof Error ? e.message : String(e)}`);
+  }
+  const pairs: unknown = Array.isArray(value) ? value : isRecord(value) ? value.pairs : undefined;
+  if (!Array.isArray(pairs) || pairs.length === 0) throw new Error('Labeled set must be a non-empty list of pairs');
+  const fileName = (side: unknown, fallback: string): string => (isRecord(side) && typeof side.fileName === 'string' ? side.fileName : fallback);
+
+  const known = new Map<string, GherkinScenario>();
+  const shared = (scenario: GherkinScenario) => {
+    const key = scenarioKey(scenario);
+    if (!known.has(key)) known.set(key, scenario);
+    return known.get(key)!;
+  };
+  return pairs.map((pair: unknown, index) => {
+    if (!isRecord(pair) || typeof pair.isMatch !== 'boolean') throw new Error(`Pair ${index + 1}: "isMatch" must be true or false`);
+    // Source and QA scenarios are kept apart even when they share a title
+    return {
+      source: shared({ ...toScenario(pair.source, 'source', index), fileName: fileName(pair.source, 'source') }),
+      qa: shared({ ...toScenario(pair.qa, 'qa', index), fileName: fileName(pair.qa, 'qa') }),
+      isMatch: pair.isMatch
+    };
+  });
+};
+
+const mistake = (source: GherkinScenario, qa: GherkinScenario, similarity: number, threshold: number, labeled = true): EvaluationMistake => ({
+  source: source.title,
+  qa: qa.title,
+  similarity,
+  threshold,
+  labeled
+});
+
+export const evaluateMatching = (pairs: LabeledPair[]): MatchingEvaluationResult => {
+  const sources = Array.from(new Set(pairs.map(pair => pair.source)));
+  const qas = Array.from(new Set(pairs.map(pair => pair.qa)));
+  const sourceIndex = new Map(sources.map((scenario, index) => [scenario, index]));
+  const qaIndex = new Map(qas.map((scenario, index) => [scenario, index]));
+  const pairKey = (pair: LabeledPair) => `${sourceIndex.get(pair.source)}:${qaIndex.get(pair.qa)}`;
+  const scores = pairs.map(pair => scoreSimilarity(pair.source, pair.qa).similarity);
+
+  // Pair by pair, each against the threshold performAnalysis would use for it
+  const pairwiseFP: EvaluationMistake[] = [];
+  const pairwiseFN: EvaluationMistake[] = [];
+  let pairwiseTP = 0;
+  pairs.forEach((pair, index) => {
+    const threshold = calculateDynamicThreshold(sources.length, qas.length, pair.source, pair.qa);
+    const predicted = scores[index] > threshold;
+    if (predicted && pair.isMatch) pairwiseTP++;
+    else if (predicted) pairwiseFP.push(mistake(pair.source, pair.qa, scores[index], threshold));
+    else if (pair.isMatch) pairwiseFN.push(mistake(pair.source, pair.qa, scores[index], threshold));
+  });
+
+  // Whole-suite matching; pairs the set does not label are treated as non-matches
+  const analysis = performAnalysis(sources, qas);
+  const labels = new Map(pairs.map(pair => [pairKey(pair), pair.isMatch]));
+  const evaluateAssignment = (assigned: number[]): MethodEvaluation => {
+    const falsePositives: EvaluationMistake[] = [];
+    const falseNegatives: EvaluationMistake[] = [];
+    let truePositives = 0;
+    const predicted = new Set<string>();
+    assigned.forEach((assignedQA, assignedSource) => {
+      if (assignedQA < 0) return;
+      const key = `${assignedSource}:${assignedQA}`;
+      predicted.add(key);
+      const label = labels.get(key);
+      if (label) {
+        truePositives++;
+      } else {
+        const source = sources[assignedSource];
+        const qa = qas[assignedQA];
+        falsePositives.push(mistake(source, qa, scoreSimilarity(source, qa).similarity, analysis.explanations[assignedSource].threshold, label !== undefined));
+      }
+    });
+    pairs.forEach((pair, index) => {
+      if (pair.isMatch && !predicted.has(pairKey(pair))) {
+        falseNegatives.push(mistake(pair.source, pair.qa, scores[index], analysis.explanations[sourceIndex.get(pair.source)!].threshold));
+      }
+    });
+    return { ...scoreCounts(truePositives, falsePositives.length, falseNegatives.length), mistakes: { falsePositives, falseNegatives } };
+  };
+  const covered = new Set(analysis.lenient.overlap);
+  const lenientAssigned = analysis.explanations.map((explanation, index) => (covered.has(sources[index]) ? explanation.best!.qaIndex : -1));
+
+  const sweep: ThresholdPoint[] = [];
+  for (let step = 0; step <= SWEEP_STEPS; step++) {
+    const threshold = step / SWEEP_STEPS;
+    let truePositives = 0;
+    let falsePositives = 0;
+    let falseNegatives = 0;
+    pairs.forEach((pair, index) => {
+      const predicted = scores[index] > threshold;
+      if (predicted && pair.isMatch) truePositives++;
+      else if (predicted) falsePositives++;
+      else if (pair.isMatch) falseNegatives++;
+    });
+    sweep.push({ threshold, ...scoreCounts(truePositives, falsePositives, falseNegatives) });
+  }
+
+  return {
+    pairCount: pairs.length,
+    positiveCount: pairs.filter(pair => pair.isMatch).length,
+    sourceCount: sources.length,
+    qaCount: qas.length,
+    profileName: getMatchingProfile().name,
+    methods: {
+      pairwise: { ...scoreCounts(pairwiseTP, pairwiseFP.length, pairwiseFN.length), mistakes: { falsePositives: pairwiseFP, falseNegatives: pairwiseFN } },
+      lenient: evaluateAssignment(lenientAssigned),
+      strict: evaluateAssignment(analysis.strictMatches || [])
+    },
+    sweep
+  };
+};
@@ -0,0 +1,224 @@
+// Matching profile: the thresholds, score weights, text normalization, synonym groups and stopwords
+// used by coverage matching, plus the quality gates results are judged by. Profiles are exchanged as
+// qualiscan.config.json files so teams can version them; the defaults are the built-in behaviour.
+import { VALUE_SYNONYMS, type LocalizedTerms } from './vocabulary';
+import { parseQualityGateRules, type QualityGateRule } from './qualityGates';
+
+export const MATCHING_PROFILE_VERSION = 1;
+export const MATCHING_PROFILE_FILE_NAME = 'qualiscan.config.json';
+
+export interface MatchingProfile {
+  version: number;
+  name: string;
+  // calculateDynamicThreshold: base, adjusted by the QA / source ratio and for feature flags, then clamped
+  threshold: {
+    base: number;
+    min: number;
+    max: number;
+    fewQARatio: number; // below this QA / source ratio...
+    fewQAAdjustment: number; // ...this is added to the base
+    manyQARatio: number; // above this ratio...
+    manyQAAdjustment: number; // ...this is added instead
+    featureFlagDiscount: number; // subtracted for feature flag scenarios
+  };
+  // scoreSimilarity: score per rule
+  weights: {
+    normalizedTitle: number; // titles equal after whitespace normalization
+    titleMatch: number; // title similarity (0..1) at or above this is used as the score
+    keywordOverlap: number; // minimum share of common title words for the keyword rule
+    keywordBase: number; // keyword score = base + overlap × range
+    keywordRange: number;
+    featureFlag: number; // both titles are feature flag / toggle scenarios
+    semanticMatch: number; // embedding cosine similarity at or above this is used as the score
+  };
+  // Title and step normalization shared by the similarity helpers (lib/textNormalization)
+  normalization: {
+    stemming: boolean; // English / Portuguese suffix stripping, by Gherkin dialect or detected language
+    languageStopwords: boolean; // also drop built-in English / Portuguese function words
+    numbers: boolean; // numbers and IDs compare as placeholders
+    typoSimilarity: number; // character-bigram similarity at or above which two words are a typo of each other; 1 disables
+  };
+  // AI adjudication: best matches scoring within [bandMin, bandMax] are sent to Gemini for a verdict
+  adjudication: {
+    bandMin: number;
+    bandMax: number;
+    batchSize: number; // pairs per request
+  };
+  synonyms: {
+    values: Record<string, LocalizedTerms>; // title terms that count as the same, per language, keyed by concept id
+    concepts: Record<string, string[]>; // title terms that count as the same, in any language
+    actions: Record<string, string[]>; // actionsAreSimilar
+  };
+  // Words ignored by similarity scoring, on top of words of one or two letters
+  stopwords: string[];
+  // Pass/fail policy evaluated after every analysis (lib/qualityGates)
+  gates: QualityGateRule[];
+}
+
+export const DEFAULT_MATCHING_PROFILE: MatchingProfile = {
+  version: MATCHING_PROFILE_VERSION,
+  name: 'QualiScan defaults',
+  threshold: {
+    base: 0.70,
+    min: 0.55,
+    max: 0.80,
+    fewQARatio: 0.3,
+    fewQAAdjustment: -0.10,
+    manyQARatio: 0.8,
+    manyQAAdjustment: 0.05,
+    featureFlagDiscount: 0.10
+  },
+  weights: {
+    normalizedTitle: 0.95,
+    titleMatch: 0.6,
+    keywordOverlap: 0.4,
+    keywordBase: 0.6,
+    keywordRange: 0.2,
+    featureFlag: 0.75,
+    semanticMatch: 0.8
+  },
+  normalization: {
+    stemming: true,
+    languageStopwords: true,
+    numbers: true,
+    typoSimilarity: 0.7
+  },
+  adjudication: {
+    bandMin: 0.5,
+    bandMax: 0.8,
+    batchSize: 20
+  },
+  synonyms: {
+    values: VALUE_SYNONYMS,
+    concepts: {
+      'create_operation': ['create', 'add', 'insert', 'new'],
+      'update_operation': ['update', 'modify', 'edit', 'change'],
+      'delete_operation': ['delete', 'remove', 'drop'],
+      'search_operation': ['search', 'find', 'query', 'lookup'],
+      'authentication': ['login', 'logout', 'authenticate', 'signin', 'signout'],
+      'toggle_state': ['on', 'off', 'enabled', 'disabled', 'active', 'inactive']
+    },
+    actions: {
+      'user_interaction': ['click', 'select', 'choose', 'press'],
+      'data_input': ['enter', 'type', 'input', 'fill'],
+      'navigation': ['navigate', 'browse', 'go to', 'visit'],
+      'data_submission': ['submit', 'save', 'confirm', 'send']
+    }
+  },
+  stopwords: [],
+  gates: []
+};
+
+// The profile in effect for this thread; the analysis worker receives it with every request
+let activeProfile = DEFAULT_MATCHING_PROFILE;
+
+export const getMatchingProfile = (): MatchingProfile => activeProfile;
+
+export const setMatchingProfile = (profile: MatchingProfile) => {
+  activeProfile = profile;
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const readNumbers = <T extends Record<string, number>>(section: string, defaults: T, value: unknown): T => {
+  if (value === undefined) return defaults;
+  if (!isRecord(value)) throw new Error(`"${section}" must be an object`);
+  const result = { ...defaults };
+  for (const key of Object.keys(defaults) as Array<keyof T & string>) {
+    if (value[key] === undefined) continue;
+    if (typeof value[key] !== 'number' || !Number.isFinite(value[key])) throw new Error(`"${section}.${key}" must be a number`);
+    (result as Record<string, number>)[key] = value[key] as number;
+  }
+  return result;
+};
+
+const readFlags = <T extends Record<string, boolean | number>>(section: string, defaults: T, value: unknown): T => {
+  if (value === undefined) return defaults;
+  if (!isRecord(value)) throw new Error(`"${section}" must be an object`);
+  const result = { ...defaults };
+  for (const key of Object.keys(defaults) as Array<keyof T & string>) {
+    if (value[key] === undefined) continue;
+    const expected = typeof defaults[key];
+    if (typeof value[key] !== expected || (expected === 'number' && !Number.isFinite(value[key]))) {
+      throw new Error(`"${section}.${key}" must be ${expected === 'boolean' ? 'true or false' : 'a number'}`);
+    }
+    (result as Record<string, unknown>)[key] = value[key];
+  }
+  return result;
+};
+
+const readGroups = (section: string, defaults: Record<string, string[]>, value: unknown): Record<string, string[]> => {
+  if (value === undefined) return defaults;
+  if (!isRecord(value)) throw new Error(`"${section}" must map group names to word lists`);
+  for (const [group, words] of Object.entries(value)) {
+    if (!Array.isArray(words) || words.some(word => typeof word !== 'string')) throw new Error(`"${section}.${group}" must be a list of words`);
+  }
+  return value as Record<string, string[]>;
+};
+
+const readValueSynonyms = (value: unknown): Record<string, LocalizedTerms> => {
+  if (value === undefined) return DEFAULT_MATCHING_PROFILE.synonyms.values;
+  if (!isRecord(value)) throw new Error('"synonyms.values" must map concept ids to terms per language');
+  for (const [concept, terms] of Object.entries(value)) {
+    readGroups(`synonyms.values.${concept}`, {}, terms);
+  }
+  return value as Record<string, LocalizedTerms>;
+};
+
+// Reads a qualiscan.config.json profile. Missing sections and fields fall back to the defaults, so a
+// profile only needs to list what it changes; malformed fields are rejected with their path.
+export const parseMatchingProfile = (json: string): MatchingProfile => {
+  let value: unknown;
+  try {
+    value = JSON.parse(json);
+  } catch (e) {
+    throw new Error(`${MATCHING_PROFILE_FILE_NAME} is not valid JSON: ${e instanceof Error ? e.message : String(e)}`);
+  }
+  if (!isRecord(value)) throw new Error('A matching profile must be a JSON object');
+  if (value.version !== undefined && value.version !== MATCHING_PROFILE_VERSION) {
+    throw new Error(`Unsupported profile version ${value.version}; expected ${MATCHING_PROFILE_VERSION}`);
+  }
+  if (value.stopwords !== undefined && (!Array.isArray(value.stopwords) || value.stopwords.some(word => typeof word !== 'string'))) {
+    throw new Error('"stopwords" must be a list of words');
+  }
+  const synonyms = value.synonyms === undefined ? {} : value.synonyms;
+  if (!isRecord(synonyms)) throw new Error('"synonyms" must be an object');
+
+  const defaults = DEFAULT_MATCHING_PROFILE;
+  return {
+    version: MATCHING_PROFILE_VERSION,
+    name: typeof value.name === 'string' && value.name.trim() ? value.name.trim() : 'Custom profile',
+    threshold: readNumbers('threshold', defaults.threshold, value.threshold),
+    weights: readNumbers('weights', defaults.weights, value.weights),
+    normalization: readFlags('normalization', defaults.normalization, value.normalization),
+    adjudication: readNumbers('adjudication', defaults.adjudication, value.adjudication),
+    synonyms: {
+      values: readValueSynonyms(synonyms.values),
+      concepts: readGroups('synonyms.concepts', defaults.synonyms.concepts, synonyms.concepts),
+      actions: readGroups('synonyms.actions', defaults.synonyms.actions, synonyms.actions)
+    },
+    stopwords: (value.stopwords as string[] | undefined) ?? defaults.stopwords,
+    gates: value.gates === undefined ? defaults.gates : parseQualityGateRules(value.gates)
+  };
+};
+
+export const serializeMatchingProfile = (profile: MatchingProfile): string => JSON.stringify(profile, null, 2);
+
+const STORAGE_KEY = 'qualiscan.profile';
+
+// The last saved profile, or the defaults when none was saved or it no longer parses
+export const loadStoredMatchingProfile = (): MatchingProfile => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? parseMatchingProfile(stored) : DEFAULT_MATCHING_PROFILE;
+  } catch (e) {
+    return DEFAULT_MATCHING_PROFILE;
+  }
+};
+
+export const saveStoredMatchingProfile = (profile: MatchingProfile) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, serializeMatchingProfile(profile));
+  } catch (e) {}
+};
@@ -0,0 +1,98 @@
+// qualiscan-core: the headless analysis engine behind the UI. Every entry point is framework-free and
+// takes its inputs explicitly, so CI scripts and other tools get exactly what the app computes.
+import type {
+  AnalysisResult,
+  CoverageMode,
+  DuplicateAnalysis,
+  GherkinScenario,
+  MissingGapAnalysis,
+  ParsedFeatureFile,
+  ScenarioCategorization,
+  WorkflowAnalysis
+} from './scenarioTypes';
+import { parseGherkinScenarios } from './scenarioParser';
+import { applyCoverageMode, performAnalysis } from './coverageMatcher';
+import { findDuplicateScenarios } from './duplicateDetector';
+import { analyzeMissingGaps, analyzeWorkflows } from './gapAnalysis';
+import { categorizeScenario } from './scenarioCategorization';
+import { getMatchingProfile, setMatchingProfile, type MatchingProfile } from './matchingProfile';
+import type { ScenarioEmbeddings } from './embeddings';
+import { evaluateQualityGates, needsDuplicateAnalysis, type QualityGateResult, type QualityGateRule } from './qualityGates';
+
+export type * from './scenarioTypes';
+export type { MatchingProfile } from './matchingProfile';
+export { DEFAULT_MATCHING_PROFILE, parseMatchingProfile } from './matchingProfile';
+export { applyMatchOverrides } from './matchOverrides';
+export type { QualityGateResult, QualityGateRule, Severity } from './qualityGates';
+export { describeQualityGateRule, parseQualityGateRules, qualityGatesPassed } from './qualityGates';
+
+export interface ParseOptions {
+  fileName?: string;
+  // Gherkin dialect; a "# language:" header in the content takes precedence
+  language?: string;
+}
+
+export interface CoverageOptions {
+  mode?: CoverageMode;
+  // Adds the partially covered bucket for matches with unasserted steps
+  stepMatching?: boolean;
+  // Defaults to the profile currently in effect
+  profile?: MatchingProfile;
+  // Precomputed with embedScenarios, for semantic matching
+  embeddings?: ScenarioEmbeddings;
+  // Matching log: one line per source scenario, then a summary
+  log?: (message: string) => void;
+}
+
+export interface GateOptions {
+  // Defaults to the gates of the profile the analysis ran with
+  rules?: QualityGateRule[];
+  // Duplicate rules run findDuplicates on the QA scenarios when this is not given
+  duplicates?: DuplicateAnalysis;
+}
+
+export interface GapAnalysis extends MissingGapAnalysis {
+  workflows: WorkflowAnalysis[];
+}
+
+// Runs with the given profile in effect and restores the previous one afterwards
+const withProfile = <T,>(profile: MatchingProfile | undefined, run: () => T): T => {
+  if (!profile) return run();
+  const previous = getMatchingProfile();
+  setMatchingProfile(profile);
+  try {
+    return run();
+  } finally {
+    setMatchingProfile(previous);
+  }
+};
+
+export const parseGherkin = (content: string, options: ParseOptions = {}): ParsedFeatureFile =>
+  parseGherkinScenarios(content, options.fileName, options.language);
+
+export const analyzeCoverage = (
+  sourceScenarios: GherkinScenario[],
+  qaScenarios: GherkinScenario[],
+  options: CoverageOptions = {}
+): AnalysisResult =>
+  withProfile(options.profile, () => {
+    const result = performAnalysis(sourceScenarios, qaScenarios, { embeddings: options.embeddings, log: options.log });
+    return applyCoverageMode(result, options.mode ?? 'lenient', options.stepMatching ?? false);
+  });
+
+export const findDuplicates = (qaScenarios: GherkinScenario[], options: { profile?: MatchingProfile } = {}): DuplicateAnalysis =>
+  withProfile(options.profile, () => findDuplicateScenarios(qaScenarios));
+
+// Missing scenarios by category with suggested steps, plus coverage per workflow
+export const analyzeGaps = (analysis: AnalysisResult): GapAnalysis => ({
+  ...analyzeMissingGaps(analysis),
+  workflows: analyzeWorkflows(analysis)
+});
+
+export const categorize = (scenario: GherkinScenario): ScenarioCategorization => categorizeScenario(scenario);
+
+export const evaluateGates = (analysis: AnalysisResult, options: GateOptions = {}): QualityGateResult[] => {
+  const rules = options.rules ?? analysis.profile.gates;
+  const duplicates = options.duplicates ?? (needsDuplicateAnalysis(rules) ? findDuplicates(analysis.qaScenarios, { profile: analysis.profile }) : undefined);
+  return evaluateQualityGates(rules, { analysis, duplicates });
+};
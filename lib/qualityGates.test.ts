@@ -0,0 +1,99 @@
+import { describe, expect, it } from 'vitest';
+import type { DuplicateAnalysis, GherkinScenario } from './scenarioTypes';
+import { performAnalysis } from './coverageMatcher';
+import { evaluateQualityGates, parseQualityGateRules, qualityGatesPassed } from './qualityGates';
+
+const scenario = (title: string, workflow?: string): GherkinScenario => ({ title, steps: [], ...(workflow && { workflow }) });
+
+// Two of four use cases are covered: the Critical card deletion and one account scenario are missing
+const analysis = performAnalysis(
+  [
+    scenario('Delete a saved card', 'Checkout'),
+    scenario('Create a new order', 'Checkout'),
+    scenario('Show the order history', 'Account'),
+    scenario('Change the notification settings', 'Account')
+  ],
+  [scenario('Create a new order'), scenario('Show the order history')]
+);
+
+const duplicates = (optimizationPotential: number): DuplicateAnalysis => ({
+  duplicates: [],
+  totalDuplicates: 2,
+  optimizationPotential,
+  totalScenariosScanned: 10,
+  uniqueScenarios: 8,
+  duplicateTypes: { exactMatches: 2, highSimilarity: 0, mediumSimilarity: 0 }
+});
+
+describe('parseQualityGateRules', () => {
+  it('accepts every rule type and trims names', () => {
+    expect(parseQualityGateRules([
+      { type: 'coverage', min: 80, mode: 'strict', name: ' Release gate ' },
+      { type: 'missing-severity', severity: 'Critical' },
+      { type: 'workflow-coverage', workflow: 'Checkout', min: 100 },
+      { type: 'duplicates', maxOptimizationPotential: 10 }
+    ])).toEqual([
+      { type: 'coverage', name: 'Release gate', min: 80, mode: 'strict' },
+      { type: 'missing-severity', severity: 'Critical' },
+      { type: 'workflow-coverage', workflow: 'Checkout', min: 100 },
+      { type: 'duplicates', maxOptimizationPotential: 10 }
+    ]);
+    expect(parseQualityGateRules(undefined)).toEqual([]);
+  });
+
+  it('reports the offending rule', () => {
+    expect(() => parseQualityGateRules({})).toThrow('"gates" must be a list of rules');
+    expect(() => parseQualityGateRules([{ type: 'coverage', min: '80' }])).toThrow('gates[0]: "min" must be a number');
+    expect(() => parseQualityGateRules([{ type: 'coverage', min: 80, mode: 'loose' }])).toThrow('gates[0]: "mode" must be lenient or strict');
+    expect(() => parseQualityGateRules([{ type: 'missing-severity', severity: 'Blocker' }])).toThrow('gates[0]: "severity" must be one of');
+    expect(() => parseQualityGateRules([{ type: 'duplicates', maxOptimizationPotential: 5 }, { type: 'speed' }]))
+      .toThrow('gates[1]: unknown rule type "speed"');
+  });
+});
+
+describe('evaluateQualityGates', () => {
+  it('checks coverage against the analysis mode or the requested one', () => {
+    expect(analysis.coverage).toBe(50);
+    const [lenient, strict] = evaluateQualityGates(
+      parseQualityGateRules([{ type: 'coverage', min: 50 }, { type: 'coverage', min: 60, mode: 'strict' }]),
+      { analysis }
+    );
+    expect(lenient).toEqual({ name: 'coverage ≥ 50%', passed: true, message: 'Coverage 50% ≥ required 50%' });
+    expect(strict).toEqual({ name: 'strict coverage ≥ 60%', passed: false, message: 'Coverage 50% < required 60%' });
+  });
+
+  it('lists the missing scenarios of a severity', () => {
+    const [critical, allowed] = evaluateQualityGates(
+      parseQualityGateRules([{ type: 'missing-severity', severity: 'Critical' }, { type: 'missing-severity', severity: 'Critical', max: 1 }]),
+      { analysis }
+    );
+    expect(critical.passed).toBe(false);
+    expect(critical.message).toBe('1 missing Critical scenario (allowed 0): "Delete a saved card"');
+    expect(allowed.passed).toBe(true);
+  });
+
+  it('scores one workflow and fails workflows without use cases', () => {
+    const [checkout, account, unknown] = evaluateQualityGates(
+      parseQualityGateRules([
+        { type: 'workflow-coverage', workflow: 'Checkout', min: 50 },
+        { type: 'workflow-coverage', workflow: 'Account', min: 100 },
+        { type: 'workflow-coverage', workflow: 'Returns', min: 0 }
+      ]),
+      { analysis }
+    );
+    expect(checkout).toMatchObject({ passed: true, message: 'Workflow "Checkout" coverage 50% ≥ required 50%' });
+    expect(account).toMatchObject({
+      passed: false,
+      message: 'Workflow "Account" coverage 50% < required 100%; missing "Change the notification settings"'
+    });
+    expect(unknown).toMatchObject({ passed: false, message: 'No use case scenarios belong to workflow "Returns"' });
+  });
+
+  it('skips the duplicate rule until duplicate detection has run', () => {
+    const rules = parseQualityGateRules([{ type: 'duplicates', maxOptimizationPotential: 10 }]);
+    const [skipped] = evaluateQualityGates(rules, { analysis });
+    expect(skipped).toMatchObject({ passed: true, skipped: true });
+    expect(qualityGatesPassed(evaluateQualityGates(rules, { analysis, duplicates: duplicates(10) }))).toBe(true);
+    expect(qualityGatesPassed(evaluateQualityGates(rules, { analysis, duplicates: duplicates(20) }))).toBe(false);
+  });
+});
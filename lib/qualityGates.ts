@@ -0,0 +1,161 @@
+// Quality gates: declarative pass/fail rules over an analysis, kept in the "gates" list of
+// qualiscan.config.json so the app and the CLI judge a suite by the same policy.
+import type { AnalysisResult, CoverageMode, DuplicateAnalysis, ScenarioCategorization } from './scenarioTypes';
+import { analyzeWorkflows } from './gapAnalysis';
+import { determineScenarioSeverity } from './scenarioCategorization';
+
+export type Severity = ScenarioCategorization['severity'];
+export const SEVERITIES: Severity[] = ['Critical', 'High', 'Medium', 'Low'];
+
+// Every rule may carry a name, reported instead of the generated description
+export type QualityGateRule =
+  // Coverage percentage of the analysis' mode, or of the given one
+  | { type: 'coverage'; name?: string; min: number; mode?: CoverageMode }
+  // Missing scenarios of a severity (determineScenarioSeverity); max defaults to 0
+  | { type: 'missing-severity'; name?: string; severity: Severity; max?: number }
+  // Coverage of one workflow (analyzeWorkflows)
+  | { type: 'workflow-coverage'; name?: string; workflow: string; min: number }
+  // DuplicateAnalysis.optimizationPotential, in percent
+  | { type: 'duplicates'; name?: string; maxOptimizationPotential: number };
+
+export interface QualityGateResult {
+  name: string;
+  passed: boolean;
+  // The rule could not be evaluated, e.g. duplicate detection has not run; never fails the policy
+  skipped?: boolean;
+  message: string;
+}
+
+export interface QualityGateInputs {
+  analysis: AnalysisResult;
+  duplicates?: DuplicateAnalysis | null;
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const readNumber = (rule: Record<string, unknown>, key: string, label: string): number => {
+  const value = rule[key];
+  if (typeof value !== 'number' || !Number.isFinite(value)) throw new Error(`${label}: "${key}" must be a number`);
+  return value;
+};
+
+// Validates the "gates" list of a config file
+export const parseQualityGateRules = (value: unknown): QualityGateRule[] => {
+  if (value === undefined) return [];
+  if (!Array.isArray(value)) throw new Error('"gates" must be a list of rules');
+  return value.map((rule, index): QualityGateRule => {
+    const label = `gates[${index}]`;
+    if (!isRecord(rule)) throw new Error(`${label} must be an object`);
+    if (rule.name !== undefined && typeof rule.name !== 'string') throw new Error(`${label}: "name" must be a string`);
+    const name = typeof rule.name === 'string' && rule.name.trim() ? { name: rule.name.trim() } : {};
+    switch (rule.type) {
+      case 'coverage':
+        if (rule.mode !== undefined && rule.mode !== 'lenient' && rule.mode !== 'strict') {
+          throw new Error(`${label}: "mode" must be lenient or strict`);
+        }
+        return { type: 'coverage', ...name, min: readNumber(rule, 'min', label), ...(rule.mode && { mode: rule.mode as CoverageMode }) };
+      case 'missing-severity':
+        if (!SEVERITIES.includes(rule.severity as Severity)) throw new Error(`${label}: "severity" must be one of ${SEVERITIES.join(', ')}`);
+        return {
+          type: 'missing-severity',
+          ...name,
+          severity: rule.severity as Severity,
+          ...(rule.max !== undefined && { max: readNumber(rule, 'max', label) })
+        };
+      case 'workflow-coverage':
+        if (typeof rule.workflow !== 'string' || !rule.workflow.trim()) throw new Error(`${label}: "workflow" must be a workflow name`);
+        return { type: 'workflow-coverage', ...name, workflow: rule.workflow.trim(), min: readNumber(rule, 'min', label) };
+      case 'duplicates':
+        return { type: 'duplicates', ...name, maxOptimizationPotential: readNumber(rule, 'maxOptimizationPotential', label) };
+      default:
+        throw new Error(`${label}: unknown rule type ${JSON.stringify(rule.type)}; expected coverage, missing-severity, workflow-coverage or duplicates`);
+    }
+  });
+};
+
+export const describeQualityGateRule = (rule: QualityGateRule): string => {
+  if (rule.name) return rule.name;
+  switch (rule.type) {
+    case 'coverage':
+      return `${rule.mode ? `${rule.mode} ` : ''}coverage ≥ ${rule.min}%`;
+    case 'missing-severity':
+      return rule.max ? `at most ${rule.max} missing ${rule.severity} scenarios` : `no missing ${rule.severity} scenarios`;
+    case 'workflow-coverage':
+      return `workflow "${rule.workflow}" ≥ ${rule.min}%`;
+    case 'duplicates':
+      return `duplicate optimization potential ≤ ${rule.maxOptimizationPotential}%`;
+  }
+};
+
+// Titles listed in a failure message before the rest are summarized as a count
+const LISTED_TITLES = 5;
+
+const listTitles = (titles: string[]): string =>
+  titles.slice(0, LISTED_TITLES).map(title => `"${title}"`).join(', ') +
+  (titles.length > LISTED_TITLES ? ` and ${titles.length - LISTED_TITLES} more` : '');
+
+export const needsDuplicateAnalysis = (rules: QualityGateRule[]): boolean => rules.some(rule => rule.type === 'duplicates');
+
+export const evaluateQualityGates = (rules: QualityGateRule[], { analysis, duplicates }: QualityGateInputs): QualityGateResult[] => {
+  // Severity and workflows are derived once, and only when a rule asks for them
+  let severities: Map<Severity, string[]> | null = null;
+  const missingBySeverity = () => {
+    if (!severities) {
+      severities = new Map(SEVERITIES.map(severity => [severity, [] as string[]]));
+      analysis.missing.forEach(scenario => severities!.get(determineScenarioSeverity(scenario))!.push(scenario.title));
+    }
+    return severities;
+  };
+  let workflows: ReturnType<typeof analyzeWorkflows> | null = null;
+
+  return rules.map(rule => {
+    const name = describeQualityGateRule(rule);
+    switch (rule.type) {
+      case 'coverage': {
+        const view = rule.mode ? analysis[rule.mode] : analysis;
+        if (!view) return { name, passed: true, skipped: true, message: `No ${rule.mode} coverage yet: matching has not finished` };
+        const passed = view.coverage >= rule.min;
+        return { name, passed, message: `Coverage ${view.coverage}% ${passed ? '≥' : '<'} required ${rule.min}%` };
+      }
+      case 'missing-severity': {
+        const titles = missingBySeverity().get(rule.severity)!;
+        const max = rule.max ?? 0;
+        const passed = titles.length <= max;
+        return {
+          name,
+          passed,
+          message: passed
+            ? `${titles.length} missing ${rule.severity} scenario${titles.length === 1 ? '' : 's'} (allowed ${max})`
+            : `${titles.length} missing ${rule.severity} scenario${titles.length === 1 ? '' : 's'} (allowed ${max}): ${listTitles(titles)}`
+        };
+      }
+      case 'workflow-coverage': {
+        const total = analysis.sourceScenarios.filter(scenario => scenario.workflow === rule.workflow).length;
+        if (total === 0) return { name, passed: false, message: `No use case scenarios belong to workflow "${rule.workflow}"` };
+        workflows ??= analyzeWorkflows(analysis);
+        // analyzeWorkflows only lists workflows with missing scenarios
+        const workflow = workflows.find(candidate => candidate.workflow === rule.workflow);
+        const coverage = workflow ? workflow.coverage : 100;
+        const passed = coverage >= rule.min;
+        return {
+          name,
+          passed,
+          message: `Workflow "${rule.workflow}" coverage ${coverage}% ${passed ? '≥' : '<'} required ${rule.min}%` +
+            (workflow && !passed ? `; missing ${listTitles(workflow.missingScenariosList.map(scenario => scenario.title))}` : '')
+        };
+      }
+      case 'duplicates': {
+        if (!duplicates) return { name, passed: true, skipped: true, message: 'Duplicate detection has not run' };
+        const passed = duplicates.optimizationPotential <= rule.maxOptimizationPotential;
+        return {
+          name,
+          passed,
+          message: `Optimization potential ${duplicates.optimizationPotential}% ${passed ? '≤' : '>'} allowed ${rule.maxOptimizationPotential}% (${duplicates.totalDuplicates} duplicates in ${duplicates.totalScenariosScanned} scenarios)`
+        };
+      }
+    }
+  });
+};
+
+export const qualityGatesPassed = (results: QualityGateResult[]): boolean => results.every(result => result.passed);
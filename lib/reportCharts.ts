@@ -0,0 +1,64 @@
+// Charts for the HTML report as standalone SVG, embedded as data: URI images so the report stays a
+// single file that prints the same way it renders.
+
+export interface ChartSegment {
+  label: string;
+  value: number;
+  color: string;
+}
+
+const FONT = 'font-family="system-ui, sans-serif"';
+
+const escapeXml = (text: string): string =>
+  text.replace(/[&<>"']/g, char => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&apos;' })[char]!);
+
+const truncate = (text: string, length: number): string => (text.length > length ? `${text.slice(0, length - 1)}…` : text);
+
+// Ring with one arc per segment, the total share of the first segment in the middle and a legend
+export const donutChartSvg = (segments: ChartSegment[], centerLabel: string): string => {
+  const radius = 60;
+  const circumference = 2 * Math.PI * radius;
+  const total = segments.reduce((sum, segment) => sum + segment.value, 0);
+  let offset = 0;
+  const arcs = segments
+    .filter(segment => segment.value > 0)
+    .map(segment => {
+      const length = (segment.value / total) * circumference;
+      const arc = `<circle cx="80" cy="80" r="${radius}" fill="none" stroke="${segment.color}" stroke-width="24" stroke-dasharray="${length.toFixed(2)} ${(circumference - length).toFixed(2)}" stroke-dashoffset="${(-offset).toFixed(2)}" transform="rotate(-90 80 80)"/>`;
+      offset += length;
+      return arc;
+    });
+  const legend = segments.map(
+    (segment, index) =>
+      `<rect x="180" y="${40 + index * 26}" width="14" height="14" rx="3" fill="${segment.color}"/><text x="202" y="${52 + index * 26}" font-size="13" ${FONT} fill="#374151">${escapeXml(segment.label)}: ${segment.value}</text>`
+  );
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="380" height="160" viewBox="0 0 380 160">
+<circle cx="80" cy="80" r="${radius}" fill="none" stroke="#e5e7eb" stroke-width="24"/>
+${arcs.join('\n')}
+<text x="80" y="86" text-anchor="middle" font-size="20" font-weight="bold" ${FONT} fill="#111827">${escapeXml(centerLabel)}</text>
+${legend.join('\n')}
+</svg>`;
+};
+
+// One horizontal bar per segment, scaled to max (the largest value when omitted)
+export const barChartSvg = (segments: ChartSegment[], options: { max?: number; unit?: string } = {}): string => {
+  const max = options.max ?? Math.max(1, ...segments.map(segment => segment.value));
+  const unit = options.unit ?? '';
+  const barWidth = 320;
+  const height = segments.length * 28 + 8;
+  const bars = segments.map((segment, index) => {
+    const y = 4 + index * 28;
+    const width = max > 0 ? Math.max(0, Math.min(1, segment.value / max)) * barWidth : 0;
+    return `<text x="0" y="${y + 15}" font-size="12" ${FONT} fill="#374151">${escapeXml(truncate(segment.label, 30))}</text>
+<rect x="220" y="${y}" width="${barWidth}" height="20" rx="3" fill="#f3f4f6"/>
+<rect x="220" y="${y}" width="${width.toFixed(1)}" height="20" rx="3" fill="${segment.color}"/>
+<text x="${220 + barWidth + 8}" y="${y + 15}" font-size="12" ${FONT} fill="#111827">${segment.value}${unit}</text>`;
+  });
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="600" height="${height}" viewBox="0 0 600 ${height}">
+${bars.join('\n')}
+</svg>`;
+};
+
+// <img> with the SVG inlined; URI-encoded rather than base64 so non-Latin labels survive
+export const svgImage = (svg: string, alt: string): string =>
+  `<img class="chart" alt="${escapeXml(alt)}" src="data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}">`;
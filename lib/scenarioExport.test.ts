@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest';
+import { strFromU8, unzipSync } from 'fflate';
+import type { GherkinScenario } from './scenarioTypes';
+import { exportScenarios, featureFileName, toGherkin, toScenarioCsv, toScenarioMarkdown } from './scenarioExport';
+import { parseGherkinScenarios } from './scenarioParser';
+
+const scenarios: GherkinScenario[] = [
+  {
+    title: 'Pay with a saved card',
+    steps: ['Given a customer with a saved card', 'When they pay the order', 'the receipt is e-mailed'],
+    tags: ['smoke test', '@payments'],
+    workflow: 'Checkout',
+    severity: 'Critical'
+  },
+  { title: 'Apply a "10%" coupon, once', steps: ['Given a cart', 'When the coupon is applied'], workflow: 'Checkout' },
+  { title: 'Entrar com senha', steps: ['Dado um usuário', 'Quando ele entra'], workflow: 'Login', language: 'pt' }
+];
+
+describe('toGherkin', () => {
+  it('writes one parseable Feature per workflow in its language', () => {
+    const text = toGherkin(scenarios);
+    expect(text).toContain('  @smoke-test @payments\n  Scenario: Pay with a saved card\n');
+    expect(text).toContain('    * the receipt is e-mailed\n');
+    expect(text).toContain('# language: pt\nFuncionalidade: Login\n\n  Cenário: Entrar com senha\n');
+
+    const [checkout, login] = text.split(/\n(?=# language:)/);
+    const parsedCheckout = parseGherkinScenarios(checkout, 'checkout.feature');
+    expect(parsedCheckout.diagnostics).toEqual([]);
+    expect(parsedCheckout.scenarios.map(scenario => scenario.title)).toEqual(['Pay with a saved card', 'Apply a "10%" coupon, once']);
+    expect(parsedCheckout.scenarios[0].steps).toHaveLength(3);
+    const parsedLogin = parseGherkinScenarios(login, 'login.feature');
+    expect(parsedLogin.language).toBe('pt');
+    expect(parsedLogin.scenarios[0].steps).toHaveLength(2);
+  });
+});
+
+describe('toScenarioCsv', () => {
+  it('quotes fields with commas, quotes and line breaks', () => {
+    const rows = toScenarioCsv(scenarios.slice(0, 2)).split('\r\n');
+    expect(rows[0]).toBe('Feature,Title,Steps,Tags,Severity,Test Category,Business Impact,Source File,Line');
+    expect(rows[1]).toBe('Checkout,Pay with a saved card,"Given a customer with a saved card\nWhen they pay the order\nthe receipt is e-mailed",@smoke-test @payments,Critical,,,,');
+    expect(rows[2]).toBe('Checkout,"Apply a ""10%"" coupon, once","Given a cart\nWhen the coupon is applied",,,,,,');
+    expect(rows[3]).toBe('');
+  });
+});
+
+describe('toScenarioMarkdown', () => {
+  it('groups scenarios by workflow and escapes Markdown in titles', () => {
+    const markdown = toScenarioMarkdown([{ title: 'Use *bold* [links]', steps: ['Given a page'], workflow: 'Docs' }]);
+    expect(markdown).toBe('# Generated scenarios\n\n## Docs (1)\n\n### Use \\*bold\\* \\[links\\]\n\n```gherkin\nGiven a page\n```\n');
+  });
+});
+
+describe('exportScenarios', () => {
+  it('zips one feature file per workflow', () => {
+    const exported = exportScenarios(scenarios, 'feature', 'generated');
+    expect(exported.fileName).toBe('generated.zip');
+    const files = unzipSync(exported.content as Uint8Array);
+    expect(Object.keys(files)).toEqual(['checkout.feature', 'login.feature']);
+    expect(strFromU8(files['login.feature'])).toMatch(/^# language: pt\n/);
+  });
+
+  it('writes a single feature file when there is one workflow', () => {
+    const exported = exportScenarios(scenarios.slice(0, 2), 'feature', 'generated');
+    expect(exported).toMatchObject({ fileName: 'generated.feature', type: 'text/plain' });
+    expect(exported.content).toBe(toGherkin(scenarios.slice(0, 2)));
+  });
+
+  it('derives feature file names from workflow names', () => {
+    expect(featureFileName('Order Management / Returns')).toBe('order_management_returns.feature');
+    expect(featureFileName('***')).toBe('scenarios.feature');
+  });
+});
@@ -0,0 +1,156 @@
+// Scenario lists as files: Gherkin (one Feature per workflow), CSV, JSON and Markdown. Used for
+// scenarios generated from documents, which have no feature file of their own.
+import { zipSync, strToU8 } from 'fflate';
+import type { GherkinScenario } from './scenarioTypes';
+import { DEFAULT_GHERKIN_LANGUAGE, ENGLISH_DIALECT, GHERKIN_DIALECTS, matchStepLine, type GherkinDialect } from './gherkin';
+
+export type ScenarioExportFormat = 'feature' | 'csv' | 'json' | 'md';
+
+export const SCENARIO_EXPORT_FORMATS: Array<[ScenarioExportFormat, string]> = [
+  ['feature', 'Gherkin (.feature)'],
+  ['csv', 'CSV'],
+  ['json', 'JSON'],
+  ['md', 'Markdown']
+];
+
+// Feature name for scenarios without a workflow
+const UNGROUPED_FEATURE = 'Generated Scenarios';
+
+export interface FeatureGroup {
+  name: string;
+  scenarios: GherkinScenario[];
+}
+
+// Scenarios grouped by workflow, in order of first appearance
+export const groupByWorkflow = (scenarios: GherkinScenario[]): FeatureGroup[] => {
+  const groups = new Map<string, GherkinScenario[]>();
+  scenarios.forEach(scenario => {
+    const name = scenario.workflow?.trim() || UNGROUPED_FEATURE;
+    if (!groups.has(name)) groups.set(name, []);
+    groups.get(name)!.push(scenario);
+  });
+  return Array.from(groups, ([name, grouped]) => ({ name, scenarios: grouped }));
+};
+
+const singleLine = (text: string): string => text.replace(/\s+/g, ' ').trim();
+
+// Gherkin tags cannot contain whitespace
+const formatTag = (tag: string): string => {
+  const name = singleLine(tag).replace(/^@+/, '').replace(/\s+/g, '-');
+  return name ? `@${name}` : '';
+};
+
+const formatTags = (tags: string[] | undefined): string => (tags || []).map(formatTag).filter(Boolean).join(' ');
+
+// Dialect shared by every scenario of a group; mixed or unknown languages fall back to English
+const groupLanguage = (scenarios: GherkinScenario[]): string => {
+  const language = scenarios[0]?.language;
+  return language && GHERKIN_DIALECTS[language] && scenarios.every(scenario => scenario.language === language) ? language : DEFAULT_GHERKIN_LANGUAGE;
+};
+
+// One scenario, indented for a Feature body. Steps without a Gherkin keyword get the "*" keyword so the
+// file still parses.
+export const toScenarioLines = (scenario: GherkinScenario, dialect: GherkinDialect): string[] => {
+  // Dialects list "Example" first and "Scenario" second
+  const scenarioKeyword = dialect.scenario[1] ?? dialect.scenario[0];
+  const lines: string[] = [];
+  const tags = formatTags(scenario.tags);
+  if (tags) lines.push(`  ${tags}`);
+  lines.push(`  ${scenarioKeyword}: ${singleLine(scenario.title)}`);
+  scenario.steps.map(singleLine).filter(Boolean).forEach(step => {
+    lines.push(`    ${matchStepLine(step, dialect) ? step : `* ${step}`}`);
+  });
+  return lines;
+};
+
+// One Feature per group
+export const toFeatureFile = (group: FeatureGroup): string => {
+  const language = groupLanguage(group.scenarios);
+  const dialect = GHERKIN_DIALECTS[language] || ENGLISH_DIALECT;
+  const lines: string[] = [];
+  if (language !== DEFAULT_GHERKIN_LANGUAGE) lines.push(`# language: ${language}`);
+  lines.push(`${dialect.feature[0]}: ${singleLine(group.name)}`);
+  group.scenarios.forEach(scenario => lines.push('', ...toScenarioLines(scenario, dialect)));
+  return lines.join('\n') + '\n';
+};
+
+// Every Feature in one text, as copied to the clipboard
+export const toGherkin = (scenarios: GherkinScenario[]): string => groupByWorkflow(scenarios).map(toFeatureFile).join('\n');
+
+// File name for one Feature of a multi-file export
+export const featureFileName = (name: string): string =>
+  `${name.toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_+|_+$/g, '') || 'scenarios'}.feature`;
+
+const escapeCsv = (value: string): string => (/[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value);
+
+// RFC 4180 rows, CRLF-separated
+export const formatCsv = (rows: Array<Array<string | number | undefined>>): string =>
+  rows.map(row => row.map(value => escapeCsv(value === undefined ? '' : String(value))).join(',')).join('\r\n') + '\r\n';
+
+export const toScenarioCsv = (scenarios: GherkinScenario[]): string =>
+  formatCsv([
+    ['Feature', 'Title', 'Steps', 'Tags', 'Severity', 'Test Category', 'Business Impact', 'Source File', 'Line'],
+    ...scenarios.map(scenario => [
+      scenario.workflow?.trim() || UNGROUPED_FEATURE,
+      singleLine(scenario.title),
+      scenario.steps.map(singleLine).join('\n'),
+      formatTags(scenario.tags),
+      scenario.severity,
+      scenario.testCategory,
+      scenario.businessImpact,
+      scenario.fileName,
+      scenario.lineNumber
+    ])
+  ]);
+
+export const toScenarioJson = (scenarios: GherkinScenario[]): string => JSON.stringify(scenarios, null, 2) + '\n';
+
+const escapeMarkdown = (text: string): string => text.replace(/([\\|*_`[\]<>#])/g, '\\$1');
+
+export const toScenarioMarkdown = (scenarios: GherkinScenario[], title = 'Generated scenarios'): string => {
+  const lines = [`# ${escapeMarkdown(title)}`];
+  groupByWorkflow(scenarios).forEach(group => {
+    lines.push('', `## ${escapeMarkdown(group.name)} (${group.scenarios.length})`);
+    group.scenarios.forEach(scenario => {
+      lines.push('', `### ${escapeMarkdown(singleLine(scenario.title))}`, '');
+      const details = [
+        scenario.severity && `**Severity:** ${scenario.severity}`,
+        scenario.testCategory && `**Category:** ${scenario.testCategory}`,
+        scenario.tags?.length && `**Tags:** ${formatTags(scenario.tags).split(' ').map(tag => `\`${tag}\``).join(' ')}`
+      ].filter(Boolean);
+      if (details.length > 0) lines.push(details.join(' • '), '');
+      if (scenario.businessImpact) lines.push(escapeMarkdown(singleLine(scenario.businessImpact)), '');
+      lines.push('```gherkin', ...scenario.steps.map(singleLine).filter(Boolean), '```');
+    });
+  });
+  return lines.join('\n') + '\n';
+};
+
+export interface ExportedFile {
+  fileName: string;
+  content: string | Uint8Array;
+  type: string;
+}
+
+// The file to download for a format; Gherkin with several workflows becomes a .zip of .feature files
+export const exportScenarios = (scenarios: GherkinScenario[], format: ScenarioExportFormat, baseName: string): ExportedFile => {
+  switch (format) {
+    case 'csv':
+      return { fileName: `${baseName}.csv`, content: toScenarioCsv(scenarios), type: 'text/csv' };
+    case 'json':
+      return { fileName: `${baseName}.json`, content: toScenarioJson(scenarios), type: 'application/json' };
+    case 'md':
+      return { fileName: `${baseName}.md`, content: toScenarioMarkdown(scenarios), type: 'text/markdown' };
+    case 'feature': {
+      const groups = groupByWorkflow(scenarios);
+      if (groups.length <= 1) return { fileName: `${baseName}.feature`, content: toGherkin(scenarios), type: 'text/plain' };
+      const files: Record<string, Uint8Array> = {};
+      groups.forEach(group => {
+        let name = featureFileName(group.name);
+        for (let n = 2; files[name]; n++) name = featureFileName(`${group.name} ${n}`);
+        files[name] = strToU8(toFeatureFile(group));
+      });
+      return { fileName: `${baseName}.zip`, content: zipSync(files), type: 'application/zip' };
+    }
+  }
+};
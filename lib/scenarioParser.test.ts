@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest';
+import { parseGherkinScenarios } from './scenarioParser';
+
+const PORTUGUESE_FEATURE = `# language: pt
+Funcionalidade: Login
+
+  Cenário: Entrar com credenciais válidas
+    Dado que estou na página de login
+    Quando informo usuário e senha
+    Então vejo o painel
+`;
+
+describe('parseGherkinScenarios language', () => {
+  it('keeps the "# language:" header over the caller\'s language', () => {
+    const parsed = parseGherkinScenarios(PORTUGUESE_FEATURE, 'login.feature', 'en');
+    expect(parsed.language).toBe('pt');
+    expect(parsed.diagnostics).toEqual([]);
+    expect(parsed.scenarios.map(scenario => scenario.title)).toEqual(['Entrar com credenciais válidas']);
+    expect(parsed.scenarios[0].steps).toHaveLength(3);
+  });
+
+  it('lets a per-file override win over the header', () => {
+    const parsed = parseGherkinScenarios(PORTUGUESE_FEATURE.replace('# language: pt', '# language: en'), 'login.feature', 'en', 'pt');
+    expect(parsed.language).toBe('pt');
+    expect(parsed.scenarios).toHaveLength(1);
+  });
+
+  it('uses the caller\'s language for files without a header', () => {
+    const parsed = parseGherkinScenarios(PORTUGUESE_FEATURE.replace('# language: pt\n', ''), 'login.feature', 'pt');
+    expect(parsed.language).toBe('pt');
+    expect(parsed.scenarios).toHaveLength(1);
+  });
+});
+
+describe('parseGherkinScenarios outlines', () => {
+  const outline = (name: string) => `  Scenario Outline: ${name}
+    When I pay in <currency>
+    Then the total is shown
+
+    Examples:
+      | currency |
+      | USD      |
+      | BRL      |
+`;
+
+  it('suffixes the row values on outlines whose name has no placeholders, duplicates included', () => {
+    const parsed = parseGherkinScenarios(`Feature: Checkout\n\n${outline('Pay an order')}\n${outline('Pay an order')}`, 'checkout.feature');
+    expect(parsed.scenarios.map(scenario => scenario.title)).toEqual([
+      'Pay an order (currency: USD)',
+      'Pay an order (currency: BRL)',
+      'Pay an order (1) (currency: USD)',
+      'Pay an order (1) (currency: BRL)'
+    ]);
+    expect(parsed.scenarios.map(scenario => scenario.outlineTitle)).toEqual(['Pay an order', 'Pay an order', 'Pay an order (1)', 'Pay an order (1)']);
+  });
+
+  it('keeps substituted names as they are', () => {
+    const parsed = parseGherkinScenarios(`Feature: Checkout\n\n${outline('Pay in <currency>')}`, 'checkout.feature');
+    expect(parsed.scenarios.map(scenario => scenario.title)).toEqual(['Pay in USD', 'Pay in BRL']);
+  });
+});
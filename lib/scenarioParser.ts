@@ -0,0 +1,273 @@
+// Turns feature file text into the flat GherkinScenario list the matcher works on.
+import {
+  parseGherkinDocument,
+  flattenGherkinDocument,
+  formatGherkinStep,
+  expandScenarioOutline,
+  type GherkinStep,
+  type GherkinOutlineExample
+} from './gherkin';
+import type { GherkinScenario, ParsedFeatureFile } from './scenarioTypes';
+
+// ENHANCED: Business impact with Feature Flag detection
+export const generateBusinessImpact = (scenario: GherkinScenario): string => {
+  const title = scenario.title.toLowerCase();
+  const steps = scenario.steps.join(' ').toLowerCase();
+  
+  // NEW: Feature Flag detection
+  if (title.includes('feature flag') || title.includes('feature flag on') || title.includes('feature flag off') ||
+      steps.includes('feature flag') || steps.includes('feature flag on') || steps.includes('feature flag off') ||
+      title.includes('toggle') || title.includes('enabled') || title.includes('disabled') ||
+      steps.includes('toggle') || steps.includes('enabled') || steps.includes('disabled')) {
+    return 'Ensures Feature Flag functionality and business logic variations are properly tested';
+  }
+  
+  if (steps.includes('logs in') || steps.includes('login') || steps.includes('sign in')) {
+    return 'Ensures secure user access and authentication compliance';
+  } else if (steps.includes('creates') || steps.includes('adds') || steps.includes('submits')) {
+    return 'Validates data entry and creation workflows for business processes';
+  } else if (steps.includes('updates') || steps.includes('modifies') || steps.includes('edits')) {
+    return 'Maintains data accuracy and modification tracking for audit purposes';
+  } else if (steps.includes('deletes') || steps.includes('removes')) {
+    return 'Ensures safe data removal and compliance with retention policies';
+  } else if (steps.includes('searches') || steps.includes('filters') || steps.includes('queries')) {
+    return 'Optimizes user experience for data discovery and retrieval';
+  } else if (steps.includes('reports') || steps.includes('analytics') || steps.includes('dashboard')) {
+    return 'Provides business intelligence and decision-making insights';
+  } else if (steps.includes('payment') || steps.includes('billing') || steps.includes('checkout')) {
+    return 'Secures financial transactions and billing accuracy';
+  } else if (title.includes('admin') || title.includes('management') || title.includes('permissions') || 
+             steps.includes('admin') || steps.includes('management') || steps.includes('permissions')) {
+    return 'Maintains system security and administrative control';
+  } else if (title.includes('performance') || title.includes('load') || title.includes('stress') || 
+             steps.includes('performance') || steps.includes('load') || steps.includes('stress')) {
+    return 'Ensures system reliability under business load conditions';
+  } else if (title.includes('accessibility') || title.includes('wcag') || title.includes('screen reader') || 
+             title.includes('keyboard') || title.includes('aria') || steps.includes('accessibility') || 
+             steps.includes('screen reader') || steps.includes('keyboard navigation')) {
+    return 'Guarantees compliance with accessibility standards and regulations';
+  } else if (title.includes('api') || title.includes('endpoint') || title.includes('response') || 
+             title.includes('request') || title.includes('integration') || steps.includes('api') || 
+             steps.includes('endpoint') || steps.includes('http')) {
+    return 'Validates system integration and API reliability for business operations';
+  } else if (title.includes('security') || title.includes('encryption') || title.includes('vulnerability') || 
+             title.includes('penetration') || steps.includes('security') || steps.includes('encryption') || 
+             steps.includes('authentication')) {
+    return 'Protects sensitive business data and prevents security breaches';
+  } else if (title.includes('database') || title.includes('crud') || title.includes('data integrity') || 
+             title.includes('sql') || title.includes('query') || steps.includes('database') || 
+             steps.includes('crud') || steps.includes('data integrity')) {
+    return 'Maintains data quality and business process integrity';
+  } else if (title.includes('mobile') || title.includes('responsive') || title.includes('cross-browser') || 
+             title.includes('tablet') || title.includes('device') || steps.includes('mobile') || 
+             steps.includes('responsive') || steps.includes('cross-browser')) {
+    return 'Ensures consistent user experience across all business touchpoints';
+  } else if (title.includes('integration') || title.includes('workflow') || title.includes('data flow') || 
+             steps.includes('integration') || steps.includes('workflow') || steps.includes('data flow')) {
+    return 'Validates end-to-end business process workflows';
+  } else if (title.includes('validation') || title.includes('error') || title.includes('exception') || 
+             steps.includes('validation') || steps.includes('error') || steps.includes('exception')) {
+    return 'Prevents business errors and ensures data quality standards';
+  } else if (title.includes('notification') || title.includes('alert') || title.includes('message') || 
+             steps.includes('notification') || steps.includes('alert') || steps.includes('message')) {
+    return 'Maintains user communication and business process awareness';
+  } else if (title.includes('export') || title.includes('import') || title.includes('download') || 
+             steps.includes('export') || title.includes('import') || steps.includes('download')) {
+    return 'Facilitates data portability and business process integration';
+  } else if (title.includes('audit') || title.includes('logging') || title.includes('tracking') || 
+             steps.includes('audit') || steps.includes('logging') || steps.includes('tracking')) {
+    return 'Ensures regulatory compliance and business process transparency';
+  } else {
+    return 'Validates critical business workflow execution and user experience';
+  }
+};
+
+// ENHANCED: Workflow categorization with Feature Flag detection
+export const categorizeWorkflow = (scenario: GherkinScenario): string => {
+  const title = scenario.title.toLowerCase();
+  const steps = scenario.steps.join(' ').toLowerCase();
+  
+  // NEW: Feature Flag workflow detection
+  if (title.includes('feature flag') || title.includes('feature flag on') || title.includes('feature flag off') ||
+      steps.includes('feature flag') || steps.includes('feature flag on') || steps.includes('feature flag off') ||
+      title.includes('toggle') || title.includes('enabled') || title.includes('disabled') ||
+      steps.includes('toggle') || steps.includes('enabled') || steps.includes('disabled')) {
+    return 'Feature Flag & Configuration Management';
+  }
+  
+  // Performance & Load Testing scenarios are now handled separately in Gap Analysis
+  // and not included in the main workflow coverage breakdown
+  
+  if (title.includes('security') || title.includes('authentication') || title.includes('authorization') || 
+      title.includes('encryption') || title.includes('vulnerability') || title.includes('penetration') ||
+      steps.includes('security') || steps.includes('encryption') || steps.includes('authentication')) {
+    return 'Security & Authentication';
+  }
+  
+  if (title.includes('accessibility') || title.includes('wcag') || title.includes('screen reader') || 
+      title.includes('keyboard') || title.includes('aria') || steps.includes('accessibility') || 
+      steps.includes('screen reader') || steps.includes('keyboard navigation')) {
+    return 'Accessibility & Usability';
+  }
+  
+  if (title.includes('api') || title.includes('endpoint') || title.includes('response') || 
+      title.includes('request') || title.includes('integration') || steps.includes('api') || 
+      steps.includes('endpoint') || steps.includes('http')) {
+    return 'API & Integration Testing';
+  }
+  
+  if (title.includes('database') || title.includes('crud') || title.includes('data integrity') || 
+      title.includes('sql') || title.includes('query') || steps.includes('database') || 
+      steps.includes('crud') || steps.includes('data integrity')) {
+    return 'Database & Data Integrity';
+  }
+  
+  if (title.includes('mobile') || title.includes('responsive') || title.includes('cross-browser') || 
+      title.includes('tablet') || title.includes('device') || steps.includes('mobile') || 
+      steps.includes('responsive') || steps.includes('cross-browser')) {
+    return 'Cross-Platform & Responsive';
+  }
+  
+  if (title.includes('ux') || title.includes('usability') || title.includes('user experience') || 
+      title.includes('navigation') || title.includes('workflow') || steps.includes('ux') || 
+      steps.includes('usability') || steps.includes('user experience')) {
+    return 'User Experience & Navigation';
+  }
+  
+  if (title.includes('login') || title.includes('auth') || title.includes('user') || 
+      title.includes('profile') || title.includes('registration') || steps.includes('login') || 
+      steps.includes('authentication') || steps.includes('user management')) {
+    return 'User Management & Profiles';
+  }
+  
+  if (title.includes('payment') || title.includes('billing') || title.includes('checkout') || 
+      title.includes('invoice') || title.includes('transaction') || steps.includes('payment') || 
+      steps.includes('billing') || steps.includes('checkout')) {
+    return 'Payment & Financial Operations';
+  }
+  
+  if (title.includes('search') || title.includes('filter') || title.includes('query') || 
+      title.includes('retrieve') || title.includes('find') || steps.includes('search') || 
+      steps.includes('filter') || steps.includes('data retrieval')) {
+    return 'Search & Data Discovery';
+  }
+  
+  if (title.includes('report') || title.includes('analytics') || title.includes('dashboard') || 
+      title.includes('metrics') || title.includes('statistics') || steps.includes('report') || 
+      steps.includes('analytics') || steps.includes('dashboard')) {
+    return 'Reporting & Business Intelligence';
+  }
+  
+  if (title.includes('admin') || title.includes('management') || title.includes('permissions') || 
+      title.includes('settings') || title.includes('configuration') || steps.includes('admin') || 
+      steps.includes('management') || steps.includes('permissions')) {
+    return 'Administrative & System Management';
+  }
+  
+  if (title.includes('create') || title.includes('add') || title.includes('update') || 
+      title.includes('edit') || title.includes('delete') || title.includes('modify') || 
+      steps.includes('create') || steps.includes('add') || steps.includes('update')) {
+    return 'Data Operations & CRUD';
+  }
+  
+  return 'General Business Processes';
+};
+
+// 🚀 SMART & ROBUST: AST-based Gherkin parsing for 10K+ scenarios
+// Background steps (Feature + Rule) are prepended so matching sees the complete scenario
+// `language` applies to files without a "# language:" header; `override` to the file whatever its header says
+export const parseGherkinScenarios = (content: string, fileName = 'QA Test File', language?: string, override?: string): ParsedFeatureFile => {
+  const document = parseGherkinDocument(content, { uri: fileName, language: language || undefined, override: override || undefined });
+  const scenarios: GherkinScenario[] = [];
+  const seenScenarios = new Set<string>();
+  
+  for (const { feature, rule, backgroundSteps, scenario, tags } of flattenGherkinDocument(document)) {
+    // Handle duplicate titles intelligently
+    const uniqueTitle = generateUniqueTitle(scenario.name || scenario.keyword, seenScenarios);
+    seenScenarios.add(uniqueTitle);
+    
+    const currentScenario = createScenario(uniqueTitle, scenario.location.line, fileName);
+    const gherkinSteps = [...backgroundSteps, ...scenario.steps];
+    currentScenario.feature = feature.name || undefined;
+    currentScenario.rule = rule?.name || undefined;
+    currentScenario.description = scenario.description || undefined;
+    currentScenario.gherkinSteps = gherkinSteps;
+    currentScenario.language = document.language;
+    if (tags.length > 0) currentScenario.tags = tags.map(tag => tag.name);
+    
+    // Outline: one concrete scenario per Examples row, placeholders substituted.
+    // An outline without example rows is kept as-is so it still counts in coverage.
+    const examples = scenario.isOutline ? expandScenarioOutline(scenario) : [];
+    if (examples.length === 0) {
+      saveScenario(currentScenario, gherkinSteps.map(formatGherkinStep), scenarios);
+      continue;
+    }
+    for (const example of examples) {
+      const exampleScenario = createExampleScenario(currentScenario, scenario.name, example, backgroundSteps, seenScenarios);
+      seenScenarios.add(exampleScenario.title);
+      scenarios.push(exampleScenario);
+    }
+  }
+  
+  return { fileName, language: document.language, scenarios, diagnostics: document.diagnostics };
+};
+
+// Helper functions for clean, efficient code
+// Removed unused parameter 'count' from saveScenario
+const saveScenario = (scenario: GherkinScenario, steps: string[], scenarios: GherkinScenario[]): void => {
+  scenario.steps = steps;
+  scenario.businessImpact = generateBusinessImpact(scenario);
+  scenario.workflow = categorizeWorkflow(scenario);
+  scenarios.push(scenario);
+};
+
+// Removed unused parameter 'isOutline' from createScenario
+const createScenario = (title: string, lineNumber: number, fileName: string): GherkinScenario => ({
+  title,
+  steps: [],
+  lineNumber,
+  fileName: fileName || 'QA Test File',
+  businessImpact: '',
+  workflow: ''
+});
+
+// Expanded example rows keep the outline title and their row values so coverage can be reported per row.
+// outlineName is the name as written, before duplicate titles were numbered.
+const createExampleScenario = (outline: GherkinScenario, outlineName: string, example: GherkinOutlineExample, backgroundSteps: GherkinStep[], seen: Set<string>): GherkinScenario => {
+  const outlineTitle = outline.title;
+  const valueSummary = Object.entries(example.values).map(([name, value]) => `${name}: ${value}`).join(', ');
+  // Titles without placeholders would be identical for every row, so the values are appended
+  const title = example.name !== outlineName ? example.name : `${outlineTitle} (${valueSummary})`;
+  const gherkinSteps = [...backgroundSteps, ...example.steps];
+  const exampleScenario: GherkinScenario = {
+    ...outline,
+    title: generateUniqueTitle(title, seen),
+    steps: gherkinSteps.map(formatGherkinStep),
+    gherkinSteps,
+    lineNumber: example.row.location.line,
+    outlineTitle,
+    outlineLineNumber: outline.lineNumber,
+    examplesName: example.examples.name || undefined,
+    exampleValues: example.values,
+    businessImpact: '',
+    workflow: ''
+  };
+  if (example.tags.length > 0) {
+    exampleScenario.tags = [...(outline.tags ?? []), ...example.tags.map(tag => tag.name)];
+  }
+  exampleScenario.businessImpact = generateBusinessImpact(exampleScenario);
+  exampleScenario.workflow = categorizeWorkflow(exampleScenario);
+  return exampleScenario;
+};
+
+const generateUniqueTitle = (title: string, seen: Set<string>): string => {
+  if (!seen.has(title)) return title;
+  
+  let counter = 1;
+  let uniqueTitle = `${title} (${counter})`;
+  while (seen.has(uniqueTitle)) {
+    counter++;
+    uniqueTitle = `${title} (${counter})`;
+  }
+  return uniqueTitle;
+};
@@ -0,0 +1,228 @@
+// Scenario and analysis result shapes shared by the UI, the analysis worker and the lib modules
+import type { GherkinStep, GherkinDiagnostic } from './gherkin';
+import type { MatchingProfile } from './matchingProfile';
+
+export interface GherkinScenario {
+  title: string;
+  steps: string[];
+  tags?: string[];
+  businessImpact?: string;
+  workflow?: string;
+  lineNumber?: number;
+  fileName?: string;
+  testCategory?: 'Functional' | 'End-to-End' | 'Integration';
+  severity?: 'Critical' | 'High' | 'Medium' | 'Low';
+  confidence?: number;
+  feature?: string;
+  rule?: string;
+  description?: string;
+  gherkinSteps?: GherkinStep[];
+  language?: string;
+  // Set on scenarios expanded from a Scenario Outline
+  outlineTitle?: string;
+  outlineLineNumber?: number;
+  examplesName?: string;
+  exampleValues?: Record<string, string>;
+}
+
+// A requirement found in an uploaded document
+export interface DocumentRequirement {
+  id: string;
+  text: string;
+  type: 'functional' | 'non-functional' | 'business' | 'technical';
+  priority: 'critical' | 'high' | 'medium' | 'low';
+  source: string;
+  lineNumber?: number;
+  confidence?: number;
+}
+
+// Scenarios generated from requirement documents (lib/documentExtraction)
+export interface DocumentAnalysis {
+  fileName: string;
+  fileType: string;
+  totalRequirements: number;
+  generatedScenarios: number;
+  requirements: DocumentRequirement[];
+  scenarios: GherkinScenario[];
+  timestamp: Date;
+}
+
+// Result of parsing one uploaded feature file
+export interface ParsedFeatureFile {
+  fileName: string;
+  language: string;
+  scenarios: GherkinScenario[];
+  diagnostics: GherkinDiagnostic[];
+}
+
+// Lenient coverage lets one QA scenario cover every source scenario it is the best match for;
+// strict coverage assigns each QA scenario to at most one source scenario
+export type CoverageMode = 'lenient' | 'strict';
+
+export interface CoverageView {
+  missing: GherkinScenario[];
+  overlap: GherkinScenario[];
+  // Step-level matching only: matched by title or mostly by steps, but some steps are never asserted
+  partial: GherkinScenario[];
+  coverage: number;
+  unmatchedQAScenarios: GherkinScenario[];
+  outlineCoverage: OutlineCoverage[];
+}
+
+// Which rule in calculateUltimateSimilarity produced a score
+export type SimilarityBranch = 'example-conflict' | 'exact' | 'normalized' | 'title' | 'keyword' | 'feature-flag' | 'semantic' | 'none';
+
+export interface CandidateExplanation {
+  qaIndex: number; // index into AnalysisResult.qaScenarios
+  similarity: number;
+  branch: SimilarityBranch;
+  titleSimilarity: number;
+  commonWords: string[];
+  steps?: StepAlignment; // set on the best candidate only
+}
+
+// A source step that no step of the matched QA scenario asserts
+export interface UnassertedStep {
+  keyword: string;
+  phase: 'Given' | 'When' | 'Then';
+  text: string;
+  lineNumber?: number;
+}
+
+// Step-by-step comparison of a source scenario with one QA scenario
+export interface StepAlignment {
+  qaIndex: number;
+  coveredSteps: number;
+  totalSteps: number;
+  stepCoverage: number; // coveredSteps / totalSteps, 0-1
+  flowSimilarity: number; // calculateEnhancedFunctionalSimilarity, 0-1
+  unassertedSteps: UnassertedStep[];
+}
+
+// Why a source scenario was matched or not: its threshold, best candidate and the runners-up
+export interface MatchExplanation {
+  threshold: number;
+  best: CandidateExplanation | null;
+  alternatives: CandidateExplanation[];
+  // Set by manual overrides: best was pinned regardless of its score, or these QA indices were ruled out
+  pinned?: boolean;
+  rejected?: number[];
+}
+
+// Identifies a scenario across re-uploads; line numbers shift too easily to be part of it
+export interface ScenarioRef {
+  fileName: string;
+  title: string;
+}
+
+// A reviewer's decision about one source / QA pair: pin it as the match, or rule it out
+export interface MatchOverride {
+  kind: 'pin' | 'reject';
+  source: ScenarioRef;
+  qa: ScenarioRef;
+  createdAt: string;
+  // Set when the override is an accepted AI adjudication verdict
+  reason?: string;
+}
+
+// The top-level coverage fields mirror the view selected by `mode`
+export interface AnalysisResult extends CoverageView {
+  sourceScenarios: GherkinScenario[];
+  qaScenarios: GherkinScenario[];
+  mode: CoverageMode;
+  lenient: CoverageView;
+  strict?: CoverageView; // available once matching has finished
+  explanations: MatchExplanation[]; // one per source scenario, same order
+  strictMatches?: number[]; // QA index assigned to each source scenario in strict mode, -1 for none
+  // Whether the top-level fields split matches into overlap / partial / missing by their steps
+  stepMatching: boolean;
+  // Step alignment of each source scenario with its lenient best match and its strict assignment
+  stepAlignments: {
+    lenient: Array<StepAlignment | null>;
+    strict?: Array<StepAlignment | null>;
+  };
+  // Matching profile the result was produced with, so every report records it
+  profile: MatchingProfile;
+}
+
+// Per-row coverage for a source Scenario Outline
+export interface OutlineCoverage {
+  outlineTitle: string;
+  fileName?: string;
+  lineNumber?: number;
+  parameters: string[];
+  rows: Array<{
+    scenario: GherkinScenario;
+    values: Record<string, string>;
+    covered: boolean;
+  }>;
+  coveredRows: number;
+  coverage: number;
+}
+
+export interface DuplicateAnalysis {
+  duplicates: Array<{
+    group: string;
+    scenarios: GherkinScenario[];
+    similarity: number;
+    reason: string;
+    actionableInsights: string[];
+    recommendations: string[];
+  }>;
+  totalDuplicates: number;
+  optimizationPotential: number;
+  totalScenariosScanned: number;
+  uniqueScenarios: number;
+  duplicateTypes: {
+    exactMatches: number;
+    highSimilarity: number;
+    mediumSimilarity: number;
+  };
+}
+
+// Test category, severity and business impact derived from a scenario's title and steps
+export interface ScenarioCategorization {
+  category: 'Functional' | 'End-to-End' | 'Integration';
+  severity: 'Critical' | 'High' | 'Medium' | 'Low';
+  businessImpact: string;
+  description: string;
+}
+
+// A source scenario without QA coverage, with the steps suggested to test it
+export interface MissingScenario {
+  title: string;
+  description: string;
+  category: 'Functional' | 'End-to-End' | 'Integration';
+  severity: 'Critical' | 'High' | 'Medium' | 'Low';
+  businessImpact: string;
+  suggestedSteps: string[];
+  aiGenerated: boolean;
+  source?: 'manual' | 'document' | 'ai';
+  documentName?: string;
+  // Copied from the missing source scenario
+  workflow?: string;
+  tags?: string[];
+}
+
+export interface MissingGapAnalysis {
+  functional: MissingScenario[];
+  endToEnd: MissingScenario[];
+  integration: MissingScenario[];
+  performanceSuggestions: string[];
+  loadTestingSuggestions: string[];
+  totalMissing: number;
+  criticalCount: number;
+  highCount: number;
+  mediumCount: number;
+  lowCount: number;
+}
+
+// Coverage of one business workflow (GherkinScenario.workflow) that has missing scenarios
+export interface WorkflowAnalysis {
+  workflow: string;
+  totalScenarios: number;
+  coveredScenarios: number;
+  missingScenarios: number;
+  coverage: number;
+  missingScenariosList: GherkinScenario[];
+}
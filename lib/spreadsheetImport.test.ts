@@ -0,0 +1,24 @@
+import { describe, expect, it } from 'vitest';
+import { parseSpreadsheetScenarios } from './spreadsheetImport';
+
+// One test case per priority, with Title in column 0 and Priority in column 1
+const severities = (priorities: string[]) =>
+  parseSpreadsheetScenarios('cases.csv', {
+    header: ['Title', 'Priority'],
+    rows: priorities.map((priority, index) => ({ row: index + 2, cells: [`Case ${index + 1}`, priority] })),
+    mapping: { title: 0, priority: 1 }
+  }).scenarios.map(scenario => scenario.severity);
+
+describe('parseSpreadsheetScenarios priority', () => {
+  it('maps bare numeric priorities', () => {
+    expect(severities(['0', '1', '2', '3', '4', '5'])).toEqual(['Critical', 'Critical', 'High', 'Medium', 'Low', 'Low']);
+  });
+
+  it('maps P-prefixed priorities on the same scale', () => {
+    expect(severities(['P0', 'P1', 'P2', 'P3', 'p4'])).toEqual(['Critical', 'Critical', 'High', 'Medium', 'Low']);
+  });
+
+  it('maps named priorities', () => {
+    expect(severities(['Blocker', 'Highest', 'Major', 'Normal', 'Trivial', ''])).toEqual(['Critical', 'Critical', 'High', 'Medium', 'Low', undefined]);
+  });
+});
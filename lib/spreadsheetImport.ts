@@ -0,0 +1,284 @@
+// Manual test cases from spreadsheets: CSV and XLSX files are read into rows, a column mapping says
+// which columns hold the title, steps, expected results, tags, priority and ID, and every row becomes a
+// GherkinScenario whose lineNumber is its sheet row. Mappings are remembered per header layout, so a
+// re-upload of the same sheet opens the wizard already mapped and takes one click.
+import { unzipSync } from 'fflate';
+import type { GherkinScenario, ParsedFeatureFile } from './scenarioTypes';
+import { ENGLISH_DIALECT, GHERKIN_DIALECTS, matchStepLine, resolveGherkinLanguage, type GherkinDialect } from './gherkin';
+import { categorizeWorkflow, generateBusinessImpact } from './scenarioParser';
+import { formatCsv } from './scenarioExport';
+import { foldText } from './textNormalization';
+
+export type SpreadsheetField = 'title' | 'steps' | 'expected' | 'tags' | 'priority' | 'id';
+
+export const SPREADSHEET_FIELDS: Array<[SpreadsheetField, string]> = [
+  ['title', 'Title'],
+  ['steps', 'Steps'],
+  ['expected', 'Expected result'],
+  ['tags', 'Tags'],
+  ['priority', 'Priority'],
+  ['id', 'ID']
+];
+
+// Column index per field; unmapped fields are left out
+export type ColumnMapping = Partial<Record<SpreadsheetField, number>>;
+
+export interface SpreadsheetRow {
+  // 1-based row number in the sheet, as the spreadsheet application shows it
+  row: number;
+  cells: string[];
+}
+
+export interface SpreadsheetTable {
+  header: string[];
+  rows: SpreadsheetRow[];
+}
+
+// What a FeatureFileSource carries for a spreadsheet upload
+export interface SpreadsheetSource extends SpreadsheetTable {
+  mapping: ColumnMapping;
+}
+
+const STORAGE_KEY = 'qualiscan.spreadsheetMappings';
+
+// Delimiters Excel writes depending on locale; the header line decides
+const CSV_DELIMITERS = [',', ';', '\t'];
+
+const detectDelimiter = (text: string): string => {
+  const counts = new Map(CSV_DELIMITERS.map(delimiter => [delimiter, 0]));
+  let quoted = false;
+  for (const char of text) {
+    if (char === '"') quoted = !quoted;
+    else if (!quoted && (char === '\n' || char === '\r')) break;
+    else if (!quoted && counts.has(char)) counts.set(char, counts.get(char)! + 1);
+  }
+  return CSV_DELIMITERS.reduce((best, delimiter) => (counts.get(delimiter)! > counts.get(best)! ? delimiter : best));
+};
+
+// RFC 4180 records; quoted fields may span lines, so a record's row number is its position, not its line
+export const parseCsv = (text: string): string[][] => {
+  const content = text.replace(/^\uFEFF/, '');
+  const delimiter = detectDelimiter(content);
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = '';
+  let quoted = false;
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+    if (quoted) {
+      if (char === '"' && content[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === '') {
+      quoted = true;
+    } else if (char === delimiter) {
+      record.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[i + 1] === '\n') i++;
+      record.push(field);
+      records.push(record);
+      record = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field !== '' || record.length > 0) records.push([...record, field]);
+  return records;
+};
+
+const XML_ENTITIES: Record<string, string> = { lt: '<', gt: '>', amp: '&', quot: '"', apos: "'" };
+
+const decodeXml = (text: string): string =>
+  text
+    .replace(/&(?:#x([0-9a-f]+)|#(\d+)|(lt|gt|amp|quot|apos));/gi, (_, hex, decimal, name) =>
+      hex ? String.fromCodePoint(parseInt(hex, 16)) : decimal ? String.fromCodePoint(parseInt(decimal, 10)) : XML_ENTITIES[name.toLowerCase()]
+    )
+    // OOXML escapes control characters as _xHHHH_
+    .replace(/_x([0-9a-f]{4})_/gi, (_, hex) => String.fromCharCode(parseInt(hex, 16)));
+
+const attribute = (attributes: string, name: string): string | undefined => attributes.match(new RegExp(`\\b${name}="([^"]*)"`))?.[1];
+
+// Text of the <t> elements in a shared or inline string, without phonetic runs
+const stringText = (xml: string): string =>
+  decodeXml(Array.from(xml.replace(/<rPh\b[\s\S]*?<\/rPh>/g, '').matchAll(/<t(?:\s[^>]*)?>([\s\S]*?)<\/t>/g), match => match[1]).join(''));
+
+const columnIndex = (letters: string): number => letters.split('').reduce((index, letter) => index * 26 + letter.charCodeAt(0) - 64, 0) - 1;
+
+// Rows of the first worksheet, each with its sheet row number
+const readXlsxRows = (data: Uint8Array): SpreadsheetRow[] => {
+  const entries = unzipSync(data);
+  const decoder = new TextDecoder();
+  const text = (path: string) => (entries[path] ? decoder.decode(entries[path]) : '');
+
+  const workbook = text('xl/workbook.xml');
+  if (!workbook) throw new Error('Not an Excel workbook (.xlsx)');
+  const sheetId = attribute(workbook.match(/<sheet\b[^>]*>/)?.[0] || '', 'r:id');
+  const relationship = Array.from(text('xl/_rels/workbook.xml.rels').matchAll(/<Relationship\b[^>]*>/g), match => match[0]).find(
+    element => attribute(element, 'Id') === sheetId
+  );
+  const target = relationship ? attribute(relationship, 'Target')! : 'worksheets/sheet1.xml';
+  const sheet = text(target.startsWith('/') ? target.slice(1) : `xl/${target}`);
+  if (!sheet) throw new Error('The workbook has no worksheet');
+
+  const sharedStrings = Array.from(text('xl/sharedStrings.xml').matchAll(/<si>([\s\S]*?)<\/si>/g), match => stringText(match[1]));
+  const rows: SpreadsheetRow[] = [];
+  let rowNumber = 0;
+  for (const [, rowAttributes, rowXml = ''] of sheet.matchAll(/<row\b([^>]*?)(?:\/>|>([\s\S]*?)<\/row>)/g)) {
+    rowNumber = Number(attribute(rowAttributes, 'r')) || rowNumber + 1;
+    const cells: string[] = [];
+    let column = -1;
+    for (const [, cellAttributes, cellXml = ''] of rowXml.matchAll(/<c\b([^>]*?)(?:\/>|>([\s\S]*?)<\/c>)/g)) {
+      const reference = attribute(cellAttributes, 'r')?.match(/^([A-Z]+)/);
+      column = reference ? columnIndex(reference[1]) : column + 1;
+      const type = attribute(cellAttributes, 't');
+      const value = decodeXml(cellXml.match(/<v>([\s\S]*?)<\/v>/)?.[1] || '');
+      cells[column] =
+        type === 's' ? sharedStrings[Number(value)] ?? '' :
+        type === 'inlineStr' ? stringText(cellXml) :
+        type === 'b' ? (value === '1' ? 'TRUE' : 'FALSE') :
+        value;
+    }
+    rows.push({ row: rowNumber, cells: Array.from(cells, cell => cell ?? '') });
+  }
+  return rows;
+};
+
+// The first non-empty row is the header; empty rows after it are dropped
+const toTable = (rows: SpreadsheetRow[]): SpreadsheetTable => {
+  const filled = rows.filter(row => row.cells.some(cell => cell.trim() !== ''));
+  if (filled.length === 0) throw new Error('The sheet is empty');
+  const [header, ...body] = filled;
+  return { header: header.cells.map(cell => cell.trim()), rows: body };
+};
+
+export const readSpreadsheet = async (file: File): Promise<SpreadsheetTable> => {
+  if (file.name.toLowerCase().endsWith('.xlsx')) return toTable(readXlsxRows(new Uint8Array(await file.arrayBuffer())));
+  return toTable(parseCsv(await file.text()).map((cells, index) => ({ row: index + 1, cells })));
+};
+
+// The rows as CSV, the text a spreadsheet source keeps as its content (hashed in reports)
+export const spreadsheetContent = (table: SpreadsheetTable): string => formatCsv([table.header, ...table.rows.map(row => row.cells)]);
+
+// Header names each field is usually found under; the first matching column wins
+const FIELD_PATTERNS: Array<[SpreadsheetField, RegExp]> = [
+  ['id', /^(id|key|test ?id|case ?id|test case id|issue key|ref(erence)?)$/],
+  ['expected', /expected|result|resultado|esperado/],
+  ['steps', /step|action|procedure|passo|acao/],
+  ['tags', /tag|label|component|etiqueta/],
+  ['priority', /priority|severity|prioridade|severidade/],
+  ['title', /title|summary|name|scenario|test case|titulo|nome|cenario/]
+];
+
+export const guessColumnMapping = (header: string[]): ColumnMapping => {
+  const mapping: ColumnMapping = {};
+  const used = new Set<number>();
+  FIELD_PATTERNS.forEach(([field, pattern]) => {
+    const index = header.findIndex((name, column) => !used.has(column) && pattern.test(foldText(name.trim())));
+    if (index >= 0) {
+      mapping[field] = index;
+      used.add(index);
+    }
+  });
+  return mapping;
+};
+
+const layoutKey = (header: string[]): string => header.map(name => foldText(name.trim())).join('\u0000');
+
+const loadMappings = (): Record<string, ColumnMapping> => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) || '{}');
+    return stored && typeof stored === 'object' ? stored : {};
+  } catch (e) {
+    return {};
+  }
+};
+
+// The mapping saved for sheets with exactly this header, if any
+export const loadSpreadsheetMapping = (header: string[]): ColumnMapping | undefined => loadMappings()[layoutKey(header)];
+
+export const saveSpreadsheetMapping = (header: string[], mapping: ColumnMapping) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify({ ...loadMappings(), [layoutKey(header)]: mapping }));
+  } catch (e) {}
+};
+
+const cell = (row: SpreadsheetRow, column: number | undefined): string => (column === undefined ? '' : (row.cells[column] || '').trim());
+
+// One step per line, without the numbering or bullets manual test cases tend to use
+const splitLines = (text: string): string[] =>
+  text
+    .split(/\r?\n/)
+    .map(line => line.replace(/^\s*(?:\d+[.)]|[-*•])\s+/, '').trim())
+    .filter(Boolean);
+
+// The dialect's spelled-out keyword rather than "*", trailing space included
+const stepKeyword = (keywords: string[]): string => keywords.find(keyword => keyword.trim() !== '*') || '* ';
+
+// Actions become When / And steps and expected results Then / And, unless they already start with a keyword
+const withKeywords = (lines: string[], keywords: string[], dialect: GherkinDialect): string[] =>
+  lines.map((line, index) => (matchStepLine(line, dialect) ? line : `${stepKeyword(index === 0 ? keywords : dialect.and)}${line}`));
+
+// Numeric priorities read the same with or without a "P": 0 and 1 are the top level, as in Azure's 1-4
+// scale (which the Azure Test Plans export writes), and 4 or more is Low
+const PRIORITY_PATTERNS: Array<[NonNullable<GherkinScenario['severity']>, RegExp]> = [
+  ['Critical', /critical|blocker|highest|urgent|^p?[01]$/],
+  ['High', /high|major|^p?2$/],
+  ['Medium', /medium|normal|moderate|^p?3$/],
+  ['Low', /low|minor|trivial|^p?[4-9]$/]
+];
+
+const toSeverity = (priority: string): GherkinScenario['severity'] => {
+  const value = foldText(priority.trim());
+  return value ? PRIORITY_PATTERNS.find(([, pattern]) => pattern.test(value))?.[0] : undefined;
+};
+
+// Rows without a title (or ID) continue the test case above, as in TestRail and Azure step-per-row exports
+export const parseSpreadsheetScenarios = (fileName: string, source: SpreadsheetSource, language?: string): ParsedFeatureFile => {
+  const resolvedLanguage = resolveGherkinLanguage(language) || 'en';
+  const dialect = GHERKIN_DIALECTS[resolvedLanguage] || ENGLISH_DIALECT;
+  const { mapping } = source;
+  const cases: Array<{ row: SpreadsheetRow; steps: string[] }> = [];
+  source.rows.forEach(row => {
+    const title = cell(row, mapping.title) || cell(row, mapping.id);
+    // Each row's expected result follows its own action
+    const steps = [
+      ...withKeywords(splitLines(cell(row, mapping.steps)), dialect.when, dialect),
+      ...withKeywords(splitLines(cell(row, mapping.expected)), dialect.then, dialect)
+    ];
+    if (title) cases.push({ row, steps });
+    else if (cases.length > 0) cases[cases.length - 1].steps.push(...steps);
+  });
+
+  const seen = new Set<string>();
+  const scenarios = cases.map(({ row, steps }) => {
+    const id = cell(row, mapping.id);
+    let title = cell(row, mapping.title) || id;
+    for (let n = 2; seen.has(title); n++) title = `${cell(row, mapping.title) || id} (${n})`;
+    seen.add(title);
+    const tags = [
+      ...(id && id !== title ? [`@${id.replace(/\s+/g, '-')}`] : []),
+      ...cell(row, mapping.tags).split(/[,;\s]+/).filter(Boolean).map(tag => (tag.startsWith('@') ? tag : `@${tag}`))
+    ];
+    const severity = toSeverity(cell(row, mapping.priority));
+    const scenario: GherkinScenario = {
+      title,
+      steps,
+      lineNumber: row.row,
+      fileName,
+      language: resolvedLanguage,
+      ...(tags.length > 0 && { tags }),
+      ...(severity && { severity })
+    };
+    scenario.businessImpact = generateBusinessImpact(scenario);
+    scenario.workflow = categorizeWorkflow(scenario);
+    return scenario;
+  });
+  return { fileName, language: resolvedLanguage, scenarios, diagnostics: [] };
+};
@@ -0,0 +1,301 @@
+// Step-level matching: aligns the steps of a source scenario with a QA scenario to find the
+// Given/When/Then steps the QA scenario never asserts. The functional-flow helpers below score how
+// closely the two step sequences follow the same business flow.
+import type { GherkinScenario, StepAlignment, UnassertedStep } from './scenarioTypes';
+import type { GherkinStep } from './gherkin';
+import { getMatchingProfile } from './matchingProfile';
+import { normalizedWords } from './textNormalization';
+
+// Two steps align when their word overlap (Dice) reaches this; steps in different phases count less
+const STEP_MATCH_THRESHOLD = 0.5;
+const PHASE_MISMATCH_FACTOR = 0.8;
+
+type StepPhase = UnassertedStep['phase'];
+
+interface ComparableStep {
+  keyword: string;
+  phase: StepPhase;
+  text: string;
+  words: Set<string>;
+  lineNumber?: number;
+}
+
+// And/But steps take the phase of the step before them
+const toComparableSteps = (scenario: GherkinScenario): ComparableStep[] => {
+  let phase: StepPhase = 'Given';
+  const fromGherkin = (step: GherkinStep): ComparableStep => {
+    if (step.keywordType === 'Context') phase = 'Given';
+    else if (step.keywordType === 'Action') phase = 'When';
+    else if (step.keywordType === 'Outcome') phase = 'Then';
+    return { keyword: step.keyword.trim(), phase, text: step.text, words: stepWordSet(step.text), lineNumber: step.location.line };
+  };
+  if (scenario.gherkinSteps && scenario.gherkinSteps.length === scenario.steps.length) {
+    return scenario.gherkinSteps.map(fromGherkin);
+  }
+  // Scenarios built without an AST (e.g. imported ones) only have "Keyword text" strings
+  return scenario.steps.map(step => {
+    const [keyword, ...rest] = step.trim().split(/\s+/);
+    const lower = keyword.toLowerCase();
+    if (lower === 'given') phase = 'Given';
+    else if (lower === 'when') phase = 'When';
+    else if (lower === 'then') phase = 'Then';
+    const text = rest.join(' ');
+    return { keyword, phase, text, words: stepWordSet(text) };
+  });
+};
+
+const stepWordSet = (text: string): Set<string> => new Set(normalizedWords(text));
+
+const stepSimilarity = (step1: ComparableStep, step2: ComparableStep): number => {
+  if (step1.words.size === 0 || step2.words.size === 0) {
+    return step1.text.trim().toLowerCase() === step2.text.trim().toLowerCase() ? 1 : 0;
+  }
+  let shared = 0;
+  for (const word of step1.words) {
+    if (step2.words.has(word)) shared++;
+  }
+  const dice = (2 * shared) / (step1.words.size + step2.words.size);
+  return step1.phase === step2.phase ? dice : dice * PHASE_MISMATCH_FACTOR;
+};
+
+// Order-preserving alignment (a weighted longest common subsequence): each source step pairs with
+// at most one later-or-equal QA step, maximising the summed similarity of aligned pairs
+export const alignSteps = (source: GherkinScenario, qa: GherkinScenario, qaIndex: number): StepAlignment => {
+  const sourceSteps = toComparableSteps(source);
+  const qaSteps = toComparableSteps(qa);
+  const rows = sourceSteps.length;
+  const cols = qaSteps.length;
+  const score: number[][] = Array.from({ length: rows + 1 }, () => new Array(cols + 1).fill(0));
+
+  for (let i = 1; i <= rows; i++) {
+    for (let j = 1; j <= cols; j++) {
+      const similarity = stepSimilarity(sourceSteps[i - 1], qaSteps[j - 1]);
+      const aligned = similarity >= STEP_MATCH_THRESHOLD ? score[i - 1][j - 1] + similarity : 0;
+      score[i][j] = Math.max(score[i - 1][j], score[i][j - 1], aligned);
+    }
+  }
+
+  // Walk back to find which source steps were aligned
+  const asserted = new Array<boolean>(rows).fill(false);
+  for (let i = rows, j = cols; i > 0 && j > 0; ) {
+    if (score[i][j] === score[i - 1][j]) i--;
+    else if (score[i][j] === score[i][j - 1]) j--;
+    else {
+      asserted[i - 1] = true;
+      i--;
+      j--;
+    }
+  }
+
+  const unassertedSteps = sourceSteps
+    .filter((_, index) => !asserted[index])
+    .map(step => ({ keyword: step.keyword, phase: step.phase, text: step.text, lineNumber: step.lineNumber }));
+  const coveredSteps = rows - unassertedSteps.length;
+
+  return {
+    qaIndex,
+    coveredSteps,
+    totalSteps: rows,
+    stepCoverage: rows > 0 ? coveredSteps / rows : 1,
+    flowSimilarity: calculateEnhancedFunctionalSimilarity(source, qa),
+    unassertedSteps
+  };
+};
+
+// Enhanced functional similarity - advanced business flow pattern recognition
+export const calculateEnhancedFunctionalSimilarity = (scenario1: GherkinScenario, scenario2: GherkinScenario): number => {
+  const steps1 = scenario1.steps.map(step => step.toLowerCase().trim());
+  const steps2 = scenario2.steps.map(step => step.toLowerCase().trim());
+  
+  if (steps1.length === 0 || steps2.length === 0) return 0;
+  
+  // Extract advanced functional patterns with business context
+  const patterns1 = extractAdvancedFunctionalPatterns(scenario1);
+  const patterns2 = extractAdvancedFunctionalPatterns(scenario2);
+  
+  // Calculate multi-dimensional pattern similarity
+  const similarityScores = {
+    structure: calculateStructureSimilarity(steps1, steps2),
+    flow: calculateFlowSimilarity(patterns1, patterns2),
+    actions: calculateActionSimilarity(patterns1, patterns2),
+    validation: calculateValidationSimilarity(patterns1, patterns2)
+  };
+  
+  // Weighted combination of similarity aspects
+  const weights = { structure: 0.25, flow: 0.35, actions: 0.25, validation: 0.15 };
+  const totalSimilarity = Object.entries(similarityScores).reduce((total, [key, value]) => {
+    return total + (value * (weights as any)[key]);
+  }, 0);
+  
+  return totalSimilarity;
+};
+
+// Extract advanced functional patterns with business context
+const extractAdvancedFunctionalPatterns = (scenario: GherkinScenario): Array<{type: string, value: string, stepIndex: number}> => {
+  const steps = scenario.steps.map(step => step.toLowerCase().trim());
+  const patterns: Array<{type: string, value: string, stepIndex: number}> = [];
+  
+  for (let i = 0; i < steps.length; i++) {
+    const step = steps[i];
+    
+    // Gherkin structure patterns
+    if (step.includes('given')) {
+      patterns.push({type: 'structure', value: 'setup_condition', stepIndex: i});
+    } else if (step.includes('when')) {
+      patterns.push({type: 'structure', value: 'action_trigger', stepIndex: i});
+    } else if (step.includes('then')) {
+      patterns.push({type: 'structure', value: 'expected_outcome', stepIndex: i});
+    } else if (step.includes('and') || step.includes('but')) {
+      patterns.push({type: 'structure', value: 'additional_step', stepIndex: i});
+    }
+    
+    // Business action patterns
+    if (step.includes('clicks') || step.includes('selects') || step.includes('chooses')) {
+      patterns.push({type: 'action', value: 'user_interaction', stepIndex: i});
+    } else if (step.includes('enters') || step.includes('types') || step.includes('inputs')) {
+      patterns.push({type: 'action', value: 'data_input', stepIndex: i});
+    } else if (step.includes('navigates') || step.includes('browses') || step.includes('goes to')) {
+      patterns.push({type: 'action', value: 'navigation', stepIndex: i});
+    } else if (step.includes('submits') || step.includes('saves') || step.includes('confirms')) {
+      patterns.push({type: 'action', value: 'data_submission', stepIndex: i});
+    }
+    
+    // Validation patterns
+    if (step.includes('sees') || step.includes('verifies') || step.includes('confirms')) {
+      patterns.push({type: 'validation', value: 'positive_validation', stepIndex: i});
+    } else if (step.includes('does not see') || step.includes('cannot') || step.includes('fails to')) {
+      patterns.push({type: 'validation', value: 'negative_validation', stepIndex: i});
+    } else if (step.includes('receives') || step.includes('gets') || step.includes('obtains')) {
+      patterns.push({type: 'validation', value: 'result_validation', stepIndex: i});
+    }
+    
+    // Error handling patterns
+    if (step.includes('error') || step.includes('exception') || step.includes('failure')) {
+      patterns.push({type: 'error_handling', value: 'error_scenario', stepIndex: i});
+    } else if (step.includes('handles') || step.includes('catches') || step.includes('manages')) {
+      patterns.push({type: 'error_handling', value: 'error_management', stepIndex: i});
+    }
+    
+    // Data processing patterns
+    if (step.includes('processes') || step.includes('calculates') || step.includes('computes')) {
+      patterns.push({type: 'data_processing', value: 'data_computation', stepIndex: i});
+    } else if (step.includes('filters') || step.includes('sorts') || step.includes('groups')) {
+      patterns.push({type: 'data_processing', value: 'data_manipulation', stepIndex: i});
+    }
+  }
+  
+  return patterns;
+};
+
+// Calculate structure similarity
+const calculateStructureSimilarity = (steps1: string[], steps2: string[]): number => {
+  if (steps1.length === 0 || steps2.length === 0) return 0;
+  
+  const maxSteps = Math.max(steps1.length, steps2.length);
+  let matchingSteps = 0;
+  
+  for (let i = 0; i < Math.min(steps1.length, steps2.length); i++) {
+    const step1 = steps1[i];
+    const step2 = steps2[i];
+    
+    // Check if steps have similar Gherkin structure
+    if (step1.includes('given') && step2.includes('given')) matchingSteps++;
+    else if (step1.includes('when') && step2.includes('when')) matchingSteps++;
+    else if (step1.includes('then') && step2.includes('then')) matchingSteps++;
+    else if (step1.includes('and') && step2.includes('and')) matchingSteps++;
+    else if (step1.includes('but') && step2.includes('but')) matchingSteps++;
+  }
+  
+  return matchingSteps / maxSteps;
+};
+
+// Calculate flow similarity
+const calculateFlowSimilarity = (patterns1: Array<{type: string, value: string, stepIndex: number}>, patterns2: Array<{type: string, value: string, stepIndex: number}>): number => {
+  if (patterns1.length === 0 || patterns2.length === 0) return 0;
+  
+  // Extract flow sequence
+  const flow1 = patterns1.map(p => p.value);
+  const flow2 = patterns2.map(p => p.value);
+  
+  // Calculate longest common subsequence
+  const lcs = calculateLongestCommonSubsequence(flow1, flow2);
+  return lcs / Math.max(flow1.length, flow2.length);
+};
+
+// Calculate action similarity
+const calculateActionSimilarity = (patterns1: Array<{type: string, value: string, stepIndex: number}>, patterns2: Array<{type: string, value: string, stepIndex: number}>): number => {
+  const actions1 = patterns1.filter(p => p.type === 'action').map(p => p.value);
+  const actions2 = patterns2.filter(p => p.type === 'action').map(p => p.value);
+  
+  if (actions1.length === 0 || actions2.length === 0) return 0;
+  
+  const commonActions = actions1.filter(action1 => 
+    actions2.some(action2 => actionsAreSimilar(action1, action2))
+  );
+  
+  return commonActions.length / Math.max(actions1.length, actions2.length);
+};
+
+// Calculate validation similarity
+const calculateValidationSimilarity = (patterns1: Array<{type: string, value: string, stepIndex: number}>, patterns2: Array<{type: string, value: string, stepIndex: number}>): number => {
+  const validations1 = patterns1.filter(p => p.type === 'validation').map(p => p.value);
+  const validations2 = patterns2.filter(p => p.type === 'validation').map(p => p.value);
+  
+  if (validations1.length === 0 || validations2.length === 0) return 0;
+  
+  const commonValidations = validations1.filter(validation1 => 
+    validations2.some(validation2 => validationsAreSimilar(validation1, validation2))
+  );
+  
+  return commonValidations.length / Math.max(validations1.length, validations2.length);
+};
+
+// Calculate longest common subsequence
+export const calculateLongestCommonSubsequence = (arr1: string[], arr2: string[]): number => {
+  const m = arr1.length;
+  const n = arr2.length;
+  const dp = Array(m + 1).fill(null).map(() => Array(n + 1).fill(0));
+  
+  for (let i = 1; i <= m; i++) {
+    for (let j = 1; j <= n; j++) {
+      if (arr1[i - 1] === arr2[j - 1]) {
+        dp[i][j] = dp[i - 1][j - 1] + 1;
+      } else {
+        dp[i][j] = Math.max(dp[i - 1][j], dp[i][j - 1]);
+      }
+    }
+  }
+  
+  return dp[m][n];
+};
+
+// Check if actions are similar
+const actionsAreSimilar = (action1: string, action2: string): boolean => {
+  if (action1 === action2) return true;
+  
+  // Synonym groups come from the matching profile
+  const actionGroups = getMatchingProfile().synonyms.actions;
+  
+  for (const [group, members] of Object.entries(actionGroups)) {
+    if (members.includes(action1) && members.includes(action2)) return true;
+  }
+  
+  return false;
+};
+
+// Check if validations are similar
+const validationsAreSimilar = (validation1: string, validation2: string): boolean => {
+  if (validation1 === validation2) return true;
+  
+  const validationGroups = {
+    'positive_validation': ['sees', 'verifies', 'confirms', 'observes'],
+    'negative_validation': ['does not see', 'cannot', 'fails to', 'is unable to'],
+    'result_validation': ['receives', 'gets', 'obtains', 'retrieves']
+  };
+  
+  for (const [group, members] of Object.entries(validationGroups)) {
+    if (members.includes(validation1) && members.includes(validation2)) return true;
+  }
+  
+  return false;
+};
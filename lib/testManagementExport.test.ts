@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest';
+import type { GherkinScenario, MissingScenario } from './scenarioTypes';
+import { exportTestCases } from './testManagementExport';
+
+const missing: MissingScenario = {
+  title: 'Refund a  card payment',
+  description: 'Refunds go back to the card',
+  category: 'Functional',
+  severity: 'Critical',
+  businessImpact: 'Lost refunds, chargebacks',
+  suggestedSteps: ['Given a paid order', 'When support refunds it', 'Then the card is credited', 'And the customer is notified', 'When support refunds it again', 'Then it is rejected'],
+  aiGenerated: false,
+  workflow: 'Payments',
+  tags: ['@refunds', 'money back']
+};
+
+const portuguese: GherkinScenario = {
+  title: 'Cancelar pedido',
+  steps: ['Dado um pedido aberto', 'Quando o cliente cancela', 'Então o pedido é cancelado'],
+  language: 'pt'
+};
+
+const rows = (csv: string): string[] => csv.split('\r\n').slice(0, -1);
+
+describe('exportTestCases', () => {
+  it('writes TestRail cases with one row per action and Then steps as its expected result', () => {
+    expect(rows(exportTestCases([missing], 'testrail'))).toEqual([
+      'Title,Section,Priority,Type,Labels,Description,Steps (Step),Steps (Expected Result)',
+      'Refund a card payment,Payments,Critical,Functional,"refunds,money-back","Lost refunds, chargebacks",Given a paid order,',
+      ',,,,,,When support refunds it,"Then the card is credited\nAnd the customer is notified"',
+      ',,,,,,When support refunds it again,Then it is rejected'
+    ]);
+  });
+
+  it('splits steps by the keywords of the scenario language', () => {
+    expect(rows(exportTestCases([portuguese], 'azure'))).toEqual([
+      'ID,Work Item Type,Title,Test Step,Step Action,Step Expected,Priority,Tags,Description,State',
+      ',Test Case,Cancelar pedido,1,Dado um pedido aberto,,3,QualiScan,,Design',
+      ',,,2,Quando o cliente cancela,Então o pedido é cancelado,,,,'
+    ]);
+  });
+
+  it('writes Xray Cucumber tests with a Labels column per label', () => {
+    expect(rows(exportTestCases([missing, portuguese], 'xray'))).toEqual([
+      'Test ID,Summary,Description,Priority,Test Type,Gherkin Definition,Test Repository Path,Labels,Labels',
+      `1,Refund a card payment,"Lost refunds, chargebacks",Highest,Cucumber,"${missing.suggestedSteps.join('\n')}",Payments,refunds,money-back`,
+      `2,Cancelar pedido,,Medium,Cucumber,"${portuguese.steps.join('\n')}",QualiScan,,`
+    ]);
+  });
+
+  it('writes Zephyr Scale BDD scripts into the workflow folder', () => {
+    expect(rows(exportTestCases([missing], 'zephyr'))[1]).toBe(
+      `Refund a card payment,"Lost refunds, chargebacks",/Payments,Draft,High,"refunds,money-back","${missing.suggestedSteps.join('\n')}"`
+    );
+  });
+});
@@ -0,0 +1,145 @@
+// CSV imports for test management tools, so missing scenarios become test cases in one import.
+// TestRail and Azure Test Plans get one row per action step with its expected result (Then steps);
+// Xray and Zephyr Scale take the Gherkin steps as a Cucumber / BDD test script. Severity becomes the
+// tool's priority, workflow its section or folder, tags its labels and business impact the description.
+import type { GherkinScenario, MissingScenario } from './scenarioTypes';
+import type { Severity } from './qualityGates';
+import { ENGLISH_DIALECT, GHERKIN_DIALECTS, matchStepLine } from './gherkin';
+import { formatCsv } from './scenarioExport';
+
+export type TestManagementTool = 'testrail' | 'xray' | 'zephyr' | 'azure';
+
+export const TEST_MANAGEMENT_TOOLS: Array<[TestManagementTool, string]> = [
+  ['testrail', 'TestRail'],
+  ['xray', 'Jira Xray'],
+  ['zephyr', 'Zephyr Scale'],
+  ['azure', 'Azure Test Plans']
+];
+
+// A test case before it is shaped for one tool
+interface TestCase {
+  title: string;
+  steps: string[];
+  severity: Severity;
+  section: string;
+  labels: string[];
+  description: string;
+  language?: string;
+}
+
+// Section for test cases without a workflow
+const DEFAULT_SECTION = 'QualiScan';
+
+// Missing scenarios carry suggested steps; plain scenarios their own
+const toTestCase = (scenario: GherkinScenario | MissingScenario): TestCase => ({
+  title: scenario.title.replace(/\s+/g, ' ').trim(),
+  steps: ('suggestedSteps' in scenario ? scenario.suggestedSteps : scenario.steps).map(step => step.trim()).filter(Boolean),
+  severity: scenario.severity || 'Medium',
+  section: scenario.workflow?.trim() || DEFAULT_SECTION,
+  // Tags become labels, which may not contain spaces in Jira
+  labels: (scenario.tags || []).map(tag => tag.replace(/^@+/, '').trim().replace(/\s+/g, '-')).filter(Boolean),
+  description: scenario.businessImpact || ('description' in scenario ? scenario.description || '' : ''),
+  language: 'language' in scenario ? scenario.language : undefined
+});
+
+interface ManualStep {
+  action: string;
+  expected: string;
+}
+
+// Given / When steps are actions; Then steps (and And / But after them) are the previous action's
+// expected result. Steps without a keyword count as actions.
+const toManualSteps = (testCase: TestCase): ManualStep[] => {
+  const dialect = GHERKIN_DIALECTS[testCase.language || ''] || ENGLISH_DIALECT;
+  const steps: ManualStep[] = [];
+  let inOutcome = false;
+  testCase.steps.forEach(step => {
+    const match = matchStepLine(step, dialect);
+    const type = match?.keywordType;
+    if (type === 'Outcome' || (inOutcome && type === 'Conjunction')) {
+      inOutcome = true;
+      const last = steps[steps.length - 1];
+      if (!last) steps.push({ action: '', expected: step });
+      else last.expected = last.expected ? `${last.expected}\n${step}` : step;
+      return;
+    }
+    inOutcome = false;
+    steps.push({ action: step, expected: '' });
+  });
+  return steps.length > 0 ? steps : [{ action: '', expected: '' }];
+};
+
+const TESTRAIL_PRIORITY: Record<Severity, string> = { Critical: 'Critical', High: 'High', Medium: 'Medium', Low: 'Low' };
+const JIRA_PRIORITY: Record<Severity, string> = { Critical: 'Highest', High: 'High', Medium: 'Medium', Low: 'Low' };
+const ZEPHYR_PRIORITY: Record<Severity, string> = { Critical: 'High', High: 'High', Medium: 'Normal', Low: 'Low' };
+const AZURE_PRIORITY: Record<Severity, number> = { Critical: 1, High: 2, Medium: 3, Low: 4 };
+
+type CsvRow = Array<string | number | undefined>;
+
+// "Test Case (Steps)" template; rows with an empty Title continue the case above
+const toTestRailCsv = (testCases: TestCase[]): string =>
+  formatCsv([
+    ['Title', 'Section', 'Priority', 'Type', 'Labels', 'Description', 'Steps (Step)', 'Steps (Expected Result)'],
+    ...testCases.flatMap(testCase =>
+      toManualSteps(testCase).map((step, index): CsvRow =>
+        index === 0
+          ? [testCase.title, testCase.section, TESTRAIL_PRIORITY[testCase.severity], 'Functional', testCase.labels.join(','), testCase.description, step.action, step.expected]
+          : ['', '', '', '', '', '', step.action, step.expected]
+      )
+    )
+  ]);
+
+// Xray test case importer: Cucumber tests, labels as repeated Labels columns like Jira's CSV import
+const toXrayCsv = (testCases: TestCase[]): string => {
+  const labelColumns = Math.max(1, ...testCases.map(testCase => testCase.labels.length));
+  return formatCsv([
+    ['Test ID', 'Summary', 'Description', 'Priority', 'Test Type', 'Gherkin Definition', 'Test Repository Path', ...Array<string>(labelColumns).fill('Labels')],
+    ...testCases.map((testCase, index): CsvRow => [
+      index + 1,
+      testCase.title,
+      testCase.description,
+      JIRA_PRIORITY[testCase.severity],
+      'Cucumber',
+      testCase.steps.join('\n'),
+      testCase.section,
+      ...Array.from({ length: labelColumns }, (_, label) => testCase.labels[label])
+    ])
+  ]);
+};
+
+const toZephyrCsv = (testCases: TestCase[]): string =>
+  formatCsv([
+    ['Name', 'Objective', 'Folder', 'Status', 'Priority', 'Labels', 'Test Script (BDD)'],
+    ...testCases.map((testCase): CsvRow => [
+      testCase.title,
+      testCase.description,
+      `/${testCase.section}`,
+      'Draft',
+      ZEPHYR_PRIORITY[testCase.severity],
+      testCase.labels.join(','),
+      testCase.steps.join('\n')
+    ])
+  ]);
+
+// Test Plans' grid format; suites are picked at import time, so the workflow travels as a tag
+const toAzureCsv = (testCases: TestCase[]): string =>
+  formatCsv([
+    ['ID', 'Work Item Type', 'Title', 'Test Step', 'Step Action', 'Step Expected', 'Priority', 'Tags', 'Description', 'State'],
+    ...testCases.flatMap(testCase =>
+      toManualSteps(testCase).map((step, index): CsvRow =>
+        index === 0
+          ? ['', 'Test Case', testCase.title, 1, step.action, step.expected, AZURE_PRIORITY[testCase.severity], [testCase.section, ...testCase.labels].join('; '), testCase.description, 'Design']
+          : ['', '', '', index + 1, step.action, step.expected, '', '', '', '']
+      )
+    )
+  ]);
+
+const TOOL_EXPORTERS: Record<TestManagementTool, (testCases: TestCase[]) => string> = {
+  testrail: toTestRailCsv,
+  xray: toXrayCsv,
+  zephyr: toZephyrCsv,
+  azure: toAzureCsv
+};
+
+export const exportTestCases = (scenarios: Array<GherkinScenario | MissingScenario>, tool: TestManagementTool): string =>
+  TOOL_EXPORTERS[tool](scenarios.map(toTestCase));
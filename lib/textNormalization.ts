@@ -0,0 +1,227 @@
+// Text normalization shared by the similarity helpers: accent folding, number / ID placeholders,
+// stopword removal and light per-language stemming, so "Cancelling orders" and "Cancel order" share
+// their terms. Character n-grams add tolerance for typos and the localized vocabularies relate
+// synonyms such as "cadastrar" / "incluir". All of it follows the active profile.
+import { getMatchingProfile, type MatchingProfile } from './matchingProfile';
+import { ACTION_VOCABULARY, ENTITY_VOCABULARY, VOCABULARY_LANGUAGES, type LocalizedTerms } from './vocabulary';
+
+export type StemLanguage = 'en' | 'pt';
+
+// One significant word: the folded word as written (or its placeholder), its stem and the
+// vocabulary concepts it names, if any
+export interface NormalizedTerm {
+  word: string;
+  stem: string;
+  concepts?: string[];
+}
+
+export const NUMBER_PLACEHOLDER = '#num';
+export const ID_PLACEHOLDER = '#id';
+
+// Function words dropped when the profile enables language stopwords; most Portuguese ones are
+// already too short to count, but "para", "pelo" and friends are not
+const LANGUAGE_STOPWORDS: Record<StemLanguage, string[]> = {
+  en: ['the', 'and', 'for', 'with', 'from', 'into', 'onto', 'that', 'this', 'these', 'those', 'are', 'was', 'were', 'been', 'being', 'has', 'have', 'had', 'its', 'their', 'his', 'her', 'our', 'your', 'any', 'all', 'some', 'via', 'upon', 'when', 'then', 'given'],
+  pt: ['dos', 'das', 'nos', 'nas', 'uns', 'umas', 'com', 'para', 'pra', 'por', 'pelo', 'pela', 'pelos', 'pelas', 'que', 'aos', 'seu', 'sua', 'seus', 'suas', 'este', 'esta', 'esse', 'essa', 'isso', 'isto', 'quando', 'entao']
+};
+
+// Words that only occur in Portuguese titles, for texts whose language is not known
+const PORTUGUESE_MARKERS = new Set(['de', 'do', 'da', 'dos', 'das', 'em', 'no', 'na', 'um', 'uma', 'com', 'para', 'pelo', 'pela', 'nao', 'ao', 'os', 'usuario', 'pedido']);
+const PORTUGUESE_LETTERS = /[ãõçâêôáéíóú]/;
+
+const MIN_WORD_LENGTH = 3;
+const MIN_STEM_LENGTH = 3;
+// Words shorter than this never count as typos of each other
+const MIN_TYPO_LENGTH = 5;
+
+// Lowercase without accents: "Usuário" and "usuario" are the same word
+export const foldText = (text: string): string => text.toLowerCase().normalize('NFD').replace(/\p{M}+/gu, '');
+
+const isNumber = (token: string): boolean => /^[+-]?\d+(?:[.,]\d+)*%?$/.test(token);
+// Tokens mixing letters and digits ("ORD-1234", "v2", a UUID) are identifiers
+const isIdentifier = (token: string): boolean => /\d/.test(token) && (/\p{L}/u.test(token) || /^\d+(?:[-_/]\d+)+$/.test(token));
+
+// Language of a text: the Gherkin dialect when known, otherwise a guess from accents and function words
+export const detectStemLanguage = (text: string, language?: string): StemLanguage | null => {
+  const base = language?.split(/[-_]/)[0].toLowerCase();
+  if (base === 'en' || base === 'pt') return base;
+  if (base && base !== 'und') return null;
+  const lower = text.toLowerCase();
+  if (PORTUGUESE_LETTERS.test(lower)) return 'pt';
+  return foldText(lower).split(/[^\p{L}]+/u).some(word => PORTUGUESE_MARKERS.has(word)) ? 'pt' : 'en';
+};
+
+const replaceSuffix = (word: string, rules: Array<[string, string]>, minStem = MIN_STEM_LENGTH): string => {
+  for (const [suffix, replacement] of rules) {
+    if (word.endsWith(suffix) && word.length - suffix.length >= minStem) return word.slice(0, -suffix.length) + replacement;
+  }
+  return word;
+};
+
+const undouble = (word: string): string => (/([^aeiou])\1$/.test(word) ? word.slice(0, -1) : word);
+
+const ENGLISH_INFLECTIONS: Array<[string, string]> = [['ingly', ''], ['edly', ''], ['ing', ''], ['ed', ''], ['ly', '']];
+const ENGLISH_DERIVATIONS: Array<[string, string]> = [
+  ['ational', 'at'], ['ization', 'iz'], ['ation', 'at'], ['ement', ''], ['ment', ''], ['ness', ''],
+  ['able', ''], ['ible', ''], ['ful', ''], ['less', ''], ['ity', '']
+];
+
+// A light Porter-style stemmer: plurals, -ing / -ed, common derivations. Final "e", "y" and doubled
+// consonants are normalized on every word, so "create" / "creating" and "cancel" / "cancelled" agree.
+const stemEnglish = (word: string): string => {
+  if (word.length <= MIN_WORD_LENGTH) return word;
+  let stem = word;
+  if (stem.endsWith('sses')) stem = stem.slice(0, -2);
+  else if (stem.endsWith('ies') && stem.length > 4) stem = stem.slice(0, -3) + 'y';
+  else if (/[^su]s$/.test(stem) && !stem.endsWith('is')) stem = stem.slice(0, -1);
+  const inflected = replaceSuffix(stem, ENGLISH_INFLECTIONS);
+  if (inflected !== stem && /[aeiouy]/.test(inflected)) stem = inflected;
+  stem = undouble(stem);
+  if (stem.endsWith('e') && stem.length > MIN_STEM_LENGTH) stem = stem.slice(0, -1);
+  stem = replaceSuffix(stem, ENGLISH_DERIVATIONS);
+  if (stem.endsWith('y') && stem.length > MIN_STEM_LENGTH) stem = stem.slice(0, -1) + 'i';
+  return undouble(stem);
+};
+
+const PORTUGUESE_PLURALS: Array<[string, string]> = [['oes', 'ao'], ['aes', 'ao'], ['ais', 'al'], ['eis', 'el'], ['ois', 'ol'], ['ns', 'm'], ['res', 'r'], ['zes', 'z']];
+const PORTUGUESE_SUFFIXES: Array<[string, string]> = [
+  ['amento', ''], ['imento', ''], ['mente', ''], ['acao', ''], ['icao', ''], ['avel', ''], ['ivel', ''],
+  ['ando', ''], ['endo', ''], ['indo', ''], ['ado', ''], ['ada', ''], ['ido', ''], ['ida', ''],
+  ['ar', ''], ['er', ''], ['ir', '']
+];
+
+// A light RSLP-style stemmer on accent-folded words: plurals, verb forms and nominalizations, then
+// the gender vowel, so "cancelar", "cancelamento" and "cancelados" share the stem "cancel"
+const stemPortuguese = (word: string): string => {
+  if (word.length <= MIN_WORD_LENGTH) return word;
+  let stem = replaceSuffix(word, PORTUGUESE_PLURALS, 2);
+  if (stem === word && word.endsWith('s') && !word.endsWith('ss')) stem = word.slice(0, -1);
+  stem = replaceSuffix(stem, PORTUGUESE_SUFFIXES);
+  if (/[aeo]$/.test(stem) && stem.length > MIN_STEM_LENGTH) stem = stem.slice(0, -1);
+  return stem;
+};
+
+export const stemWord = (word: string, language: StemLanguage): string =>
+  language === 'pt' ? stemPortuguese(word) : stemEnglish(word);
+
+type NormalizationState = {
+  profile: MatchingProfile;
+  stopwords: Set<string>;
+  concepts: Map<string, string[]>;
+  cache: Map<string, NormalizedTerm[]>;
+};
+
+// Concept ids per word, from the entity / action vocabularies and the profile's value and concept
+// synonyms. Single words are keyed as written and by stem in their own language (both stemmers for
+// the language-less concept groups); phrases such as "banco de dados" are left to word overlap.
+const conceptIndex = (profile: MatchingProfile): Map<string, string[]> => {
+  const index = new Map<string, string[]>();
+  const add = (concept: string, term: string, languages: string[]) => {
+    const word = foldText(term.trim());
+    if (word.length < MIN_WORD_LENGTH || /[^\p{L}\p{N}]/u.test(word)) return;
+    const stems = languages.filter((language): language is StemLanguage => language === 'en' || language === 'pt').map(language => stemWord(word, language));
+    for (const key of new Set([word, ...stems])) {
+      const concepts = index.get(key) ?? [];
+      if (!concepts.includes(concept)) index.set(key, [...concepts, concept]);
+    }
+  };
+  const entries: Array<[string, LocalizedTerms]> = [...ENTITY_VOCABULARY, ...ACTION_VOCABULARY, ...Object.entries(profile.synonyms.values)];
+  for (const [concept, terms] of entries) {
+    VOCABULARY_LANGUAGES.forEach(language => terms[language]?.forEach(term => add(concept, term, [language])));
+  }
+  for (const [group, words] of Object.entries(profile.synonyms.concepts)) {
+    words.forEach(word => add(group, word, ['en', 'pt']));
+  }
+  return index;
+};
+
+// Titles are normalized once per pair they are scored in, so results are cached per active profile
+const MAX_CACHED_TEXTS = 20000;
+let state: NormalizationState | null = null;
+
+const currentState = (): NormalizationState => {
+  const profile = getMatchingProfile();
+  if (!state || state.profile !== profile) {
+    const stopwords = new Set(profile.stopwords.map(word => foldText(word.trim())));
+    if (profile.normalization.languageStopwords) {
+      Object.values(LANGUAGE_STOPWORDS).forEach(words => words.forEach(word => stopwords.add(word)));
+    }
+    state = { profile, stopwords, concepts: conceptIndex(profile), cache: new Map() };
+  }
+  return state;
+};
+
+// Significant words of a text: longer than two letters, not a stopword, numbers and IDs replaced by
+// placeholders and stemmed in the text's language, as the profile's normalization settings allow
+export const normalizeTerms = (text: string, language?: string): NormalizedTerm[] => {
+  const { profile, stopwords, concepts, cache } = currentState();
+  const key = `${language || ''}\u0000${text}`;
+  const cached = cache.get(key);
+  if (cached) return cached;
+
+  const options = profile.normalization;
+  const stemLanguage = options.stemming ? detectStemLanguage(text, language) : null;
+  const terms: NormalizedTerm[] = [];
+  for (const token of foldText(text).split(/\s+/)) {
+    const trimmed = token.replace(/^[^\p{L}\p{N}]+|[^\p{L}\p{N}%]+$/gu, '');
+    if (!trimmed) continue;
+    if (options.numbers && isNumber(trimmed)) {
+      terms.push({ word: NUMBER_PLACEHOLDER, stem: NUMBER_PLACEHOLDER });
+      continue;
+    }
+    if (options.numbers && isIdentifier(trimmed)) {
+      terms.push({ word: ID_PLACEHOLDER, stem: ID_PLACEHOLDER });
+      continue;
+    }
+    for (const word of trimmed.split(/[^\p{L}\p{N}]+/u)) {
+      if (word.length < MIN_WORD_LENGTH || stopwords.has(word)) continue;
+      const stem = stemLanguage ? stemWord(word, stemLanguage) : word;
+      const wordConcepts = concepts.get(word) ?? concepts.get(stem);
+      terms.push(wordConcepts ? { word, stem, concepts: wordConcepts } : { word, stem });
+    }
+  }
+
+  if (cache.size >= MAX_CACHED_TEXTS) cache.clear();
+  cache.set(key, terms);
+  return terms;
+};
+
+// Stems only, for overlap counts and index keys
+export const normalizedWords = (text: string, language?: string): string[] => normalizeTerms(text, language).map(term => term.stem);
+
+const ngrams = (word: string, size: number): string[] => {
+  const padded = ` ${word} `;
+  const grams: string[] = [];
+  for (let i = 0; i + size <= padded.length; i++) grams.push(padded.slice(i, i + size));
+  return grams;
+};
+
+// Dice coefficient of the padded character n-grams of two words
+export const ngramSimilarity = (word1: string, word2: string, size = 2): number => {
+  if (word1 === word2) return 1;
+  const grams1 = ngrams(word1, size);
+  const grams2 = ngrams(word2, size);
+  if (grams1.length === 0 || grams2.length === 0) return 0;
+  const counts = new Map<string, number>();
+  grams1.forEach(gram => counts.set(gram, (counts.get(gram) || 0) + 1));
+  let shared = 0;
+  for (const gram of grams2) {
+    const count = counts.get(gram) || 0;
+    if (count > 0) {
+      shared++;
+      counts.set(gram, count - 1);
+    }
+  }
+  return (2 * shared) / (grams1.length + grams2.length);
+};
+
+// Same stem, synonyms from the vocabularies, or both words long enough and close enough in spelling
+// to be a typo of each other
+export const sameTerm = (term1: NormalizedTerm, term2: NormalizedTerm): boolean => {
+  if (term1.stem === term2.stem) return true;
+  if (term1.concepts && term2.concepts && term1.concepts.some(concept => term2.concepts!.includes(concept))) return true;
+  const { typoSimilarity } = getMatchingProfile().normalization;
+  if (typoSimilarity >= 1 || term1.word.length < MIN_TYPO_LENGTH || term2.word.length < MIN_TYPO_LENGTH) return false;
+  if (term1.word.startsWith('#') || term2.word.startsWith('#')) return false;
+  return ngramSimilarity(term1.word, term2.word) >= typoSimilarity;
+};
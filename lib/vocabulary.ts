@@ -0,0 +1,49 @@
+// Localized business vocabularies for the similarity helpers.
+// Each concept lists its terms per language; text normalization tags words with every concept
+// they name, so a Portuguese source scenario and an English QA scenario land on the same concept ids.
+
+export const VOCABULARY_LANGUAGES = ['en', 'pt', 'es', 'fr', 'de'] as const;
+export type VocabularyLanguage = typeof VOCABULARY_LANGUAGES[number];
+
+export type LocalizedTerms = Partial<Record<VocabularyLanguage, string[]>>;
+
+export const ENTITY_VOCABULARY: Array<[string, LocalizedTerms]> = [
+  // User roles
+  ['admin_user', { en: ['admin', 'administrator'], pt: ['administrador'], es: ['administrador'], fr: ['administrateur'] }],
+  ['customer_user', { en: ['customer', 'client'], pt: ['cliente'], es: ['cliente'], de: ['kunde'] }],
+  ['general_user', { en: ['user', 'end user'], pt: ['usuário', 'usuario', 'utilizador'], es: ['usuario'], fr: ['utilisateur'], de: ['benutzer', 'nutzer'] }],
+  // Systems and components
+  ['api_system', { en: ['api', 'endpoint'] }],
+  ['database_system', { en: ['database', 'db'], pt: ['banco de dados', 'base de dados'], es: ['base de datos'], fr: ['base de données'], de: ['datenbank'] }],
+  ['user_interface', { en: ['ui', 'interface'], pt: ['tela'], es: ['interfaz', 'pantalla'], fr: ['écran'], de: ['oberfläche', 'bildschirm'] }],
+  // Data objects
+  ['order_entity', { en: ['order', 'purchase'], pt: ['pedido', 'compra'], es: ['pedido', 'compra'], fr: ['commande', 'achat'], de: ['bestellung', 'kauf'] }],
+  ['product_entity', { en: ['product', 'item'], pt: ['produto'], es: ['producto', 'artículo'], fr: ['produit', 'article'], de: ['produkt', 'artikel'] }],
+  ['payment_entity', { en: ['payment', 'transaction'], pt: ['pagamento', 'transação', 'transacao'], es: ['pago', 'transacción'], fr: ['paiement'], de: ['zahlung', 'transaktion'] }]
+];
+
+export const ACTION_VOCABULARY: Array<[string, LocalizedTerms]> = [
+  // CRUD operations
+  ['create_action', { en: ['create', 'add', 'insert'], pt: ['criar', 'adicionar', 'incluir', 'cadastrar', 'inserir'], es: ['crear', 'añadir', 'agregar', 'insertar'], fr: ['créer', 'ajouter', 'insérer'], de: ['erstellen', 'hinzufügen', 'anlegen', 'einfügen'] }],
+  ['read_action', { en: ['read', 'view', 'display'], pt: ['visualizar', 'exibir'], es: ['visualizar', 'mostrar'], fr: ['afficher', 'consulter'], de: ['anzeigen', 'ansehen'] }],
+  ['update_action', { en: ['update', 'modify', 'edit'], pt: ['atualizar', 'alterar', 'editar', 'modificar'], es: ['actualizar', 'modificar', 'editar'], fr: ['mettre à jour', 'modifier', 'éditer'], de: ['aktualisieren', 'ändern', 'bearbeiten'] }],
+  ['delete_action', { en: ['delete', 'remove', 'drop'], pt: ['excluir', 'remover', 'apagar', 'deletar'], es: ['eliminar', 'borrar', 'quitar'], fr: ['supprimer', 'retirer', 'effacer'], de: ['löschen', 'entfernen'] }],
+  // User interactions
+  ['user_interaction', { en: ['click', 'select', 'choose'], pt: ['clicar', 'selecionar', 'escolher'], es: ['hacer clic', 'seleccionar', 'elegir'], fr: ['cliquer', 'sélectionner', 'choisir'], de: ['klicken', 'auswählen', 'wählen'] }],
+  ['data_input', { en: ['enter', 'type', 'input'], pt: ['preencher', 'digitar', 'informar'], es: ['introducir', 'escribir', 'ingresar'], fr: ['saisir', 'remplir'], de: ['eingeben', 'ausfüllen'] }],
+  ['navigation', { en: ['navigate', 'browse', 'go to'], pt: ['navegar', 'acessar', 'ir para'], es: ['navegar', 'acceder'], fr: ['naviguer', 'accéder'], de: ['navigieren', 'öffnen', 'gehe zu'] }],
+  // Business operations
+  ['search_action', { en: ['search', 'find', 'query'], pt: ['pesquisar', 'buscar', 'procurar', 'consultar'], es: ['buscar', 'encontrar', 'consultar'], fr: ['rechercher', 'chercher', 'trouver'], de: ['suchen', 'finden'] }],
+  ['validation_action', { en: ['validate', 'verify', 'check'], pt: ['validar', 'verificar', 'conferir'], es: ['validar', 'verificar', 'comprobar'], fr: ['valider', 'vérifier', 'contrôler'], de: ['validieren', 'überprüfen', 'prüfen'] }],
+  ['processing_action', { en: ['process', 'handle', 'execute'], pt: ['processar', 'executar', 'tratar'], es: ['procesar', 'ejecutar', 'manejar'], fr: ['traiter', 'exécuter'], de: ['verarbeiten', 'ausführen'] }]
+];
+
+// Default value synonym groups, keyed by concept id; a matching profile may replace them
+export const VALUE_SYNONYMS: Record<string, LocalizedTerms> = {
+  'admin_user': { en: ['administrator', 'admin', 'super_user'], pt: ['administrador'], es: ['administrador'], fr: ['administrateur'] },
+  'customer_user': { en: ['client', 'customer', 'end_customer'], pt: ['cliente'], es: ['cliente'], de: ['kunde'] },
+  'create_action': { en: ['add', 'insert', 'new', 'create'], pt: ['criar', 'adicionar', 'incluir', 'novo', 'cadastrar'], es: ['crear', 'añadir', 'agregar', 'nuevo'], fr: ['créer', 'ajouter', 'nouveau'], de: ['erstellen', 'hinzufügen', 'neu', 'anlegen'] },
+  'update_action': { en: ['modify', 'edit', 'change', 'update'], pt: ['atualizar', 'alterar', 'editar', 'modificar'], es: ['actualizar', 'modificar', 'editar', 'cambiar'], fr: ['modifier', 'éditer', 'changer', 'mettre à jour'], de: ['aktualisieren', 'ändern', 'bearbeiten'] },
+  'success_outcome': { en: ['completed', 'saved', 'successful', 'success'], pt: ['sucesso', 'concluído', 'salvo'], es: ['éxito', 'completado', 'guardado'], fr: ['succès', 'réussi', 'enregistré'], de: ['erfolgreich', 'abgeschlossen', 'gespeichert'] },
+  'error_outcome': { en: ['failed', 'error', 'invalid', 'rejected'], pt: ['erro', 'falha', 'inválido', 'rejeitado'], es: ['fallido', 'inválido', 'rechazado'], fr: ['erreur', 'échec', 'invalide', 'rejeté'], de: ['fehler', 'fehlgeschlagen', 'ungültig', 'abgelehnt'] }
+};
@@ -5,58 +5,63 @@ import { getDocument, GlobalWorkerOptions } from 'pdfjs-dist/build/pdf.mjs';
 import pdfWorker from 'pdfjs-dist/build/pdf.worker.mjs?url';
 GlobalWorkerOptions.workerSrc = pdfWorker as unknown as string;
 import CoverageRing from './components/CoverageRing';
+import LanguageSelect from './components/LanguageSelect';
+import ResultsBrowser from './components/ResultsBrowser';
+import ParseDiagnosticsPanel from './components/ParseDiagnosticsPanel';
+import AnalysisProgressPanel from './components/AnalysisProgressPanel';
+import MatchExplanationDrawer from './components/MatchExplanationDrawer';
+import PinOverrideDialog from './components/PinOverrideDialog';
+import FileLanguageList from './components/FileLanguageList';
+import SpreadsheetMappingWizard from './components/SpreadsheetMappingWizard';
+import MatchingProfileSettings from './components/MatchingProfileSettings';
+import AdjudicationQueue from './components/AdjudicationQueue';
+import QualityGatesPanel from './components/QualityGatesPanel';
 import { generateJSON } from '../lib/gemini';
-
-interface GherkinScenario {
-  title: string;
-  steps: string[];
-  tags?: string[];
-  businessImpact?: string;
-  workflow?: string;
-  lineNumber?: number;
-  fileName?: string;
-  testCategory?: 'Functional' | 'End-to-End' | 'Integration';
-  severity?: 'Critical' | 'High' | 'Medium' | 'Low';
-  confidence?: number;
-}
-
-interface AnalysisResult {
-  sourceScenarios: GherkinScenario[];
-  qaScenarios: GherkinScenario[];
-  missing: GherkinScenario[];
-  overlap: GherkinScenario[];
-  coverage: number;
-  unmatchedQAScenarios: GherkinScenario[];
-}
-
-interface WorkflowAnalysis {
-  workflow: string;
-  totalScenarios: number;
-  coveredScenarios: number;
-  missingScenarios: number;
-  coverage: number;
-  missingScenariosList: GherkinScenario[];
-}
-
-interface DuplicateAnalysis {
-  duplicates: Array<{
-    group: string;
-    scenarios: GherkinScenario[];
-    similarity: number;
-    reason: string;
-    actionableInsights: string[];
-    recommendations: string[];
-  }>;
-  totalDuplicates: number;
-  optimizationPotential: number;
-  totalScenariosScanned: number;
-  uniqueScenarios: number;
-  duplicateTypes: {
-    exactMatches: number;
-    highSimilarity: number;
-    mediumSimilarity: number;
-  };
-}
+import { buildDocumentAnalysis, extractDocumentScenarios, extractPdfText, isPdfDocument } from '../lib/documentExtraction';
+import { exportScenarios, SCENARIO_EXPORT_FORMATS, toGherkin, type ScenarioExportFormat } from '../lib/scenarioExport';
+import { copyToClipboard, downloadFile, exportBaseName } from '../lib/download';
+import { buildFeaturePatch } from '../lib/featurePatch';
+import { exportTestCases, TEST_MANAGEMENT_TOOLS, type TestManagementTool } from '../lib/testManagementExport';
+import {
+  collectFeatureFiles,
+  describeFeatureFiles,
+  digestFileData,
+  FEATURE_UPLOAD_ACCEPT,
+  hasExtension,
+  SPREADSHEET_FILE_EXTENSIONS,
+  type FeatureFileSource
+} from '../lib/featureFiles';
+import {
+  guessColumnMapping,
+  loadSpreadsheetMapping,
+  readSpreadsheet,
+  saveSpreadsheetMapping,
+  spreadsheetContent,
+  type ColumnMapping,
+  type SpreadsheetTable
+} from '../lib/spreadsheetImport';
+import type { GherkinScenario, ParsedFeatureFile, AnalysisResult, DuplicateAnalysis, CoverageMode, MatchOverride, MissingGapAnalysis, MissingScenario, DocumentAnalysis, DocumentRequirement } from '../lib/scenarioTypes';
+import { calculateUltimateSimilarity, applyCoverageMode } from '../lib/coverageMatcher';
+import {
+  applyMatchOverrides,
+  loadActiveProject,
+  loadMatchOverrides,
+  removeMatchOverrides,
+  saveActiveProject,
+  saveMatchOverrides,
+  sameRef,
+  scenarioRef,
+  upsertMatchOverride,
+  DEFAULT_PROJECT
+} from '../lib/matchOverrides';
+import { loadStoredMatchingProfile, saveStoredMatchingProfile, setMatchingProfile, type MatchingProfile } from '../lib/matchingProfile';
+import type { EmbeddingProviderConfig } from '../lib/embeddings';
+import { normalizedWords } from '../lib/textNormalization';
+import { analyzeMissingGaps, analyzeWorkflows } from '../lib/gapAnalysis';
+import { adjudicatePairs, findBorderlinePairs, type AdjudicationVerdict } from '../lib/matchAdjudication';
+import { evaluateQualityGates } from '../lib/qualityGates';
+import { REPORT_FILE_EXTENSIONS, buildCoverageReport, hashReportInputs, renderCoverageReport, type ReportFormat } from '../lib/coverageReport';
+import { parseInWorker, analyzeInWorker, findDuplicatesInWorker, isAnalysisCancelled, type AnalysisProgress, type WorkerTask } from './analysisWorker';
 
 interface ScenarioComparison {
   groupIndex: number;
@@ -82,52 +87,6 @@ interface AISuggestion {
   suggestedTests?: string[];
 }
 
-// 🎯 Focused Gap Analysis Interfaces
-interface MissingGapAnalysis {
-  functional: MissingScenario[];
-  endToEnd: MissingScenario[];
-  integration: MissingScenario[];
-  performanceSuggestions: string[];
-  loadTestingSuggestions: string[];
-  totalMissing: number;
-  criticalCount: number;
-  highCount: number;
-  mediumCount: number;
-  lowCount: number;
-}
-
-interface MissingScenario {
-  title: string;
-  description: string;
-  category: 'Functional' | 'End-to-End' | 'Integration';
-  severity: 'Critical' | 'High' | 'Medium' | 'Low';
-  businessImpact: string;
-  suggestedSteps: string[];
-  aiGenerated: boolean;
-  source?: 'manual' | 'document' | 'ai';
-  documentName?: string;
-}
-
-interface DocumentRequirement {
-  id: string;
-  text: string;
-  type: 'functional' | 'non-functional' | 'business' | 'technical';
-  priority: 'critical' | 'high' | 'medium' | 'low';
-  source: string;
-  lineNumber?: number;
-  confidence?: number;
-}
-
-interface DocumentAnalysis {
-  fileName: string;
-  fileType: string;
-  totalRequirements: number;
-  generatedScenarios: number;
-  requirements: DocumentRequirement[];
-  scenarios: GherkinScenario[];
-  timestamp: Date;
-}
-
 interface GeneratedScenarioComparison {
   newScenarios: GherkinScenario[];
   existingScenarios: (GherkinScenario & { matchedWith: string; similarity: number })[];
@@ -137,12 +96,76 @@ interface GeneratedScenarioComparison {
   existingCount: number;
 }
 
+// Directory picking is non-standard, so React's input typings don't know these attributes
+const DIRECTORY_INPUT_PROPS = { webkitdirectory: '', directory: '' } as React.InputHTMLAttributes<HTMLInputElement>;
+
+// "?debug" in the URL logs every coverage match to the console
+const DEBUG_MATCHING = new URLSearchParams(window.location.search).has('debug');
+
 function App() {
-  const [sourceFile, setSourceFile] = useState<File | null>(null);
-  const [qaFile, setQaFile] = useState<File | null>(null);
+  const [sourceFiles, setSourceFiles] = useState<FeatureFileSource[]>([]);
+  const [qaFiles, setQaFiles] = useState<FeatureFileSource[]>([]);
+  // Per-file Gherkin language override ('' = "# language:" header / auto-detect)
+  const [sourceLanguage, setSourceLanguage] = useState('');
+  const [qaLanguage, setQaLanguage] = useState('');
+  const [duplicateLanguage, setDuplicateLanguage] = useState('');
+  // Parsed uploads; analysis waits for confirmation while either has diagnostics
+  const [sourceParses, setSourceParses] = useState<ParsedFeatureFile[]>([]);
+  const [qaParses, setQaParses] = useState<ParsedFeatureFile[]>([]);
   const [analysis, setAnalysis] = useState<AnalysisResult | null>(null);
   const [duplicateAnalysis, setDuplicateAnalysis] = useState<DuplicateAnalysis | null>(null);
   const [isAnalyzing, setIsAnalyzing] = useState(false);
+  // Progress of the running worker task (parsing, matching or duplicates); null when idle
+  const [analysisProgress, setAnalysisProgress] = useState<AnalysisProgress | null>(null);
+  const activeTask = React.useRef<WorkerTask<unknown> | null>(null);
+  // Which coverage view drives the report; both percentages are always shown
+  const [coverageMode, setCoverageMode] = useState<CoverageMode>('lenient');
+  // Source scenario shown in the "Why missing?" drawer
+  const [explainedScenario, setExplainedScenario] = useState<GherkinScenario | null>(null);
+  // Step-level matching adds a "partially covered" bucket for matches with unasserted steps
+  const [stepMatching, setStepMatching] = useState(false);
+  // Optional embedding similarity on top of title matching; 'fake' is the deterministic offline provider
+  const [semanticMatching, setSemanticMatching] = useState<'off' | EmbeddingProviderConfig['kind']>('off');
+  // Matching profile (thresholds, weights, synonyms, stopwords); also active in this thread for the App helpers
+  const [matchingProfile, setMatchingProfileState] = useState<MatchingProfile>(() => {
+    const profile = loadStoredMatchingProfile();
+    setMatchingProfile(profile);
+    return profile;
+  });
+  const [showProfileSettings, setShowProfileSettings] = useState(false);
+  // Manual match overrides of the active project, re-applied on top of every complete analysis
+  const [projectName, setProjectName] = useState(loadActiveProject);
+  const [matchOverrides, setMatchOverrides] = useState<MatchOverride[]>(() => loadMatchOverrides(loadActiveProject()));
+  const [staleOverrides, setStaleOverrides] = useState<MatchOverride[]>([]);
+  // Pins to a QA scenario another use case is already pinned to; strict coverage ignores them
+  const [conflictingPins, setConflictingPins] = useState<MatchOverride[]>([]);
+  // Last complete analysis before overrides, so edited overrides are re-applied without re-matching
+  const [unadjustedAnalysis, setUnadjustedAnalysis] = useState<AnalysisResult | null>(null);
+  // Missing source scenario being pinned to a QA scenario
+  const [pinningScenario, setPinningScenario] = useState<GherkinScenario | null>(null);
+  // AI verdicts on borderline matches awaiting review; indices refer to the current analysis
+  const [adjudicationQueue, setAdjudicationQueue] = useState<AdjudicationVerdict[]>([]);
+  const [adjudicationProgress, setAdjudicationProgress] = useState<{ processed: number; total: number } | null>(null);
+  const adjudicationCancelled = React.useRef(false);
+  // Bumped by every adjudication and analysis run, so verdicts for a replaced analysis are dropped
+  const adjudicationRun = React.useRef(0);
+  // Position of each source scenario in the analysis, for per-scenario explanations and alignments
+  const sourceIndex = React.useMemo(
+    () => new Map((analysis?.sourceScenarios || []).map((scenario, index) => [scenario, index])),
+    [analysis?.sourceScenarios]
+  );
+  const borderlineCount = React.useMemo(
+    () => (analysis ? findBorderlinePairs(analysis, matchingProfile.adjudication).length : 0),
+    [analysis, matchingProfile]
+  );
+  // The profile's gates, checked once matching has finished; duplicate rules use the last duplicate detection run
+  const qualityGateResults = React.useMemo(
+    () =>
+      analysis && !isAnalyzing && matchingProfile.gates.length > 0
+        ? evaluateQualityGates(matchingProfile.gates, { analysis, duplicates: duplicateAnalysis })
+        : [],
+    [analysis, isAnalyzing, matchingProfile, duplicateAnalysis]
+  );
   const [showDetails, setShowDetails] = useState(false);
   const [showDuplicateDetails, setShowDuplicateDetails] = useState(false);
   const [selectedScenarioComparison, setSelectedScenarioComparison] = useState<ScenarioComparison | null>(null);
@@ -217,6 +240,15 @@ function App() {
     });
   };
 
+  // Spreadsheet column-mapping wizard and the resolver of the upload waiting on it
+  const [spreadsheetMappingRequest, setSpreadsheetMappingRequest] = useState<{
+    fileName: string;
+    table: SpreadsheetTable;
+    language: string;
+    mapping: ColumnMapping;
+  } | null>(null);
+  const pendingSpreadsheetMapping = React.useRef<((mapping: ColumnMapping | null) => void) | null>(null);
+
   // 🎯 Focused Gap Analysis State
   const [missingGapAnalysis, setMissingGapAnalysis] = useState<MissingGapAnalysis | null>(null);
   const [showGapAnalysis, setShowGapAnalysis] = useState(false);
@@ -224,6 +256,10 @@ function App() {
   
   // Document upload and analysis state
   const [documentAnalysis, setDocumentAnalysis] = useState<DocumentAnalysis | null>(null);
+  // Format of the document analysis modal's "Export Scenarios"
+  const [scenarioExportFormat, setScenarioExportFormat] = useState<ScenarioExportFormat>('feature');
+  const [reportExportFormat, setReportExportFormat] = useState<ReportFormat | 'pdf'>('html');
+  const [testManagementTool, setTestManagementTool] = useState<TestManagementTool>('testrail');
   const [isDocumentAnalyzing, setIsDocumentAnalyzing] = useState(false);
   const [documentProgress, setDocumentProgress] = useState(0);
   const [showDocumentUpload, setShowDocumentUpload] = useState(false);
@@ -231,444 +267,6 @@ function App() {
   const [generatedScenarioComparison, setGeneratedScenarioComparison] = useState<GeneratedScenarioComparison | null>(null);
   const [showGeneratedComparison, setShowGeneratedComparison] = useState(false);
 
-  // ENHANCED: Business impact with Feature Flag detection
-  const generateBusinessImpact = (scenario: GherkinScenario): string => {
-    const title = scenario.title.toLowerCase();
-    const steps = scenario.steps.join(' ').toLowerCase();
-    
-    // NEW: Feature Flag detection
-    if (title.includes('feature flag') || title.includes('feature flag on') || title.includes('feature flag off') ||
-        steps.includes('feature flag') || steps.includes('feature flag on') || steps.includes('feature flag off') ||
-        title.includes('toggle') || title.includes('enabled') || title.includes('disabled') ||
-        steps.includes('toggle') || steps.includes('enabled') || steps.includes('disabled')) {
-      return 'Ensures Feature Flag functionality and business logic variations are properly tested';
-    }
-    
-    if (steps.includes('logs in') || steps.includes('login') || steps.includes('sign in')) {
-      return 'Ensures secure user access and authentication compliance';
-    } else if (steps.includes('creates') || steps.includes('adds') || steps.includes('submits')) {
-      return 'Validates data entry and creation workflows for business processes';
-    } else if (steps.includes('updates') || steps.includes('modifies') || steps.includes('edits')) {
-      return 'Maintains data accuracy and modification tracking for audit purposes';
-    } else if (steps.includes('deletes') || steps.includes('removes')) {
-      return 'Ensures safe data removal and compliance with retention policies';
-    } else if (steps.includes('searches') || steps.includes('filters') || steps.includes('queries')) {
-      return 'Optimizes user experience for data discovery and retrieval';
-    } else if (steps.includes('reports') || steps.includes('analytics') || steps.includes('dashboard')) {
-      return 'Provides business intelligence and decision-making insights';
-    } else if (steps.includes('payment') || steps.includes('billing') || steps.includes('checkout')) {
-      return 'Secures financial transactions and billing accuracy';
-    } else if (title.includes('admin') || title.includes('management') || title.includes('permissions') || 
-               steps.includes('admin') || steps.includes('management') || steps.includes('permissions')) {
-      return 'Maintains system security and administrative control';
-    } else if (title.includes('performance') || title.includes('load') || title.includes('stress') || 
-               steps.includes('performance') || steps.includes('load') || steps.includes('stress')) {
-      return 'Ensures system reliability under business load conditions';
-    } else if (title.includes('accessibility') || title.includes('wcag') || title.includes('screen reader') || 
-               title.includes('keyboard') || title.includes('aria') || steps.includes('accessibility') || 
-               steps.includes('screen reader') || steps.includes('keyboard navigation')) {
-      return 'Guarantees compliance with accessibility standards and regulations';
-    } else if (title.includes('api') || title.includes('endpoint') || title.includes('response') || 
-               title.includes('request') || title.includes('integration') || steps.includes('api') || 
-               steps.includes('endpoint') || steps.includes('http')) {
-      return 'Validates system integration and API reliability for business operations';
-    } else if (title.includes('security') || title.includes('encryption') || title.includes('vulnerability') || 
-               title.includes('penetration') || steps.includes('security') || steps.includes('encryption') || 
-               steps.includes('authentication')) {
-      return 'Protects sensitive business data and prevents security breaches';
-    } else if (title.includes('database') || title.includes('crud') || title.includes('data integrity') || 
-               title.includes('sql') || title.includes('query') || steps.includes('database') || 
-               steps.includes('crud') || steps.includes('data integrity')) {
-      return 'Maintains data quality and business process integrity';
-    } else if (title.includes('mobile') || title.includes('responsive') || title.includes('cross-browser') || 
-               title.includes('tablet') || title.includes('device') || steps.includes('mobile') || 
-               steps.includes('responsive') || steps.includes('cross-browser')) {
-      return 'Ensures consistent user experience across all business touchpoints';
-    } else if (title.includes('integration') || title.includes('workflow') || title.includes('data flow') || 
-               steps.includes('integration') || steps.includes('workflow') || steps.includes('data flow')) {
-      return 'Validates end-to-end business process workflows';
-    } else if (title.includes('validation') || title.includes('error') || title.includes('exception') || 
-               steps.includes('validation') || steps.includes('error') || steps.includes('exception')) {
-      return 'Prevents business errors and ensures data quality standards';
-    } else if (title.includes('notification') || title.includes('alert') || title.includes('message') || 
-               steps.includes('notification') || steps.includes('alert') || steps.includes('message')) {
-      return 'Maintains user communication and business process awareness';
-    } else if (title.includes('export') || title.includes('import') || title.includes('download') || 
-               steps.includes('export') || title.includes('import') || steps.includes('download')) {
-      return 'Facilitates data portability and business process integration';
-    } else if (title.includes('audit') || title.includes('logging') || title.includes('tracking') || 
-               steps.includes('audit') || steps.includes('logging') || steps.includes('tracking')) {
-      return 'Ensures regulatory compliance and business process transparency';
-    } else {
-      return 'Validates critical business workflow execution and user experience';
-    }
-  };
-
-  // ENHANCED: Workflow categorization with Feature Flag detection
-  const categorizeWorkflow = (scenario: GherkinScenario): string => {
-    const title = scenario.title.toLowerCase();
-    const steps = scenario.steps.join(' ').toLowerCase();
-    
-    // NEW: Feature Flag workflow detection
-    if (title.includes('feature flag') || title.includes('feature flag on') || title.includes('feature flag off') ||
-        steps.includes('feature flag') || steps.includes('feature flag on') || steps.includes('feature flag off') ||
-        title.includes('toggle') || title.includes('enabled') || title.includes('disabled') ||
-        steps.includes('toggle') || steps.includes('enabled') || steps.includes('disabled')) {
-      return 'Feature Flag & Configuration Management';
-    }
-    
-    // Performance & Load Testing scenarios are now handled separately in Gap Analysis
-    // and not included in the main workflow coverage breakdown
-    
-    if (title.includes('security') || title.includes('authentication') || title.includes('authorization') || 
-        title.includes('encryption') || title.includes('vulnerability') || title.includes('penetration') ||
-        steps.includes('security') || steps.includes('encryption') || steps.includes('authentication')) {
-      return 'Security & Authentication';
-    }
-    
-    if (title.includes('accessibility') || title.includes('wcag') || title.includes('screen reader') || 
-        title.includes('keyboard') || title.includes('aria') || steps.includes('accessibility') || 
-        steps.includes('screen reader') || steps.includes('keyboard navigation')) {
-      return 'Accessibility & Usability';
-    }
-    
-    if (title.includes('api') || title.includes('endpoint') || title.includes('response') || 
-        title.includes('request') || title.includes('integration') || steps.includes('api') || 
-        steps.includes('endpoint') || steps.includes('http')) {
-      return 'API & Integration Testing';
-    }
-    
-    if (title.includes('database') || title.includes('crud') || title.includes('data integrity') || 
-        title.includes('sql') || title.includes('query') || steps.includes('database') || 
-        steps.includes('crud') || steps.includes('data integrity')) {
-      return 'Database & Data Integrity';
-    }
-    
-    if (title.includes('mobile') || title.includes('responsive') || title.includes('cross-browser') || 
-        title.includes('tablet') || title.includes('device') || steps.includes('mobile') || 
-        steps.includes('responsive') || steps.includes('cross-browser')) {
-      return 'Cross-Platform & Responsive';
-    }
-    
-    if (title.includes('ux') || title.includes('usability') || title.includes('user experience') || 
-        title.includes('navigation') || title.includes('workflow') || steps.includes('ux') || 
-        steps.includes('usability') || steps.includes('user experience')) {
-      return 'User Experience & Navigation';
-    }
-    
-    if (title.includes('login') || title.includes('auth') || title.includes('user') || 
-        title.includes('profile') || title.includes('registration') || steps.includes('login') || 
-        steps.includes('authentication') || steps.includes('user management')) {
-      return 'User Management & Profiles';
-    }
-    
-    if (title.includes('payment') || title.includes('billing') || title.includes('checkout') || 
-        title.includes('invoice') || title.includes('transaction') || steps.includes('payment') || 
-        steps.includes('billing') || steps.includes('checkout')) {
-      return 'Payment & Financial Operations';
-    }
-    
-    if (title.includes('search') || title.includes('filter') || title.includes('query') || 
-        title.includes('retrieve') || title.includes('find') || steps.includes('search') || 
-        steps.includes('filter') || steps.includes('data retrieval')) {
-      return 'Search & Data Discovery';
-    }
-    
-    if (title.includes('report') || title.includes('analytics') || title.includes('dashboard') || 
-        title.includes('metrics') || title.includes('statistics') || steps.includes('report') || 
-        steps.includes('analytics') || steps.includes('dashboard')) {
-      return 'Reporting & Business Intelligence';
-    }
-    
-    if (title.includes('admin') || title.includes('management') || title.includes('permissions') || 
-        title.includes('settings') || title.includes('configuration') || steps.includes('admin') || 
-        steps.includes('management') || steps.includes('permissions')) {
-      return 'Administrative & System Management';
-    }
-    
-    if (title.includes('create') || title.includes('add') || title.includes('update') || 
-        title.includes('edit') || title.includes('delete') || title.includes('modify') || 
-        steps.includes('create') || steps.includes('add') || steps.includes('update')) {
-      return 'Data Operations & CRUD';
-    }
-    
-    return 'General Business Processes';
-  };
-
-    // 🚀 SMART & ROBUST: High-performance Gherkin parsing for 10K+ scenarios
-  const parseGherkinScenarios = (content: string): GherkinScenario[] => {
-    const scenarios: GherkinScenario[] = [];
-    const lines = content.split('\n');
-    const totalLines = lines.length;
-    
-    // Performance optimization: Pre-allocate array capacity for large files
-    if (totalLines > 10000) {
-      scenarios.length = Math.ceil(totalLines / 10); // Estimate: 1 scenario per 10 lines
-    }
-    
-    // Pre-compile ALL possible regex patterns for maximum detection
-    const scenarioPatterns = [
-      /^(Scenario|Example|Test\s+Case|Test\s+Scenario|TC|Test|TS|TestCase|TestScenario):\s*(.+)$/i,
-      /^(Scenario\s+Outline|Example\s+Outline|Test\s+Outline):\s*(.+)$/i,
-      /^(\d+)\.\s*(.+)/, // Numbered scenarios like "1. Login as admin"
-      /^([A-Z]{2,3}-\d+)\s*[-:]\s*(.+)/, // ID scenarios like "EP-001 - Login"
-      /^([A-Z][a-z]+(?:\s+[A-Z][a-z]+)*)\s*[-:]\s*(.+)/, // Title scenarios like "User Login - Success"
-    ];
-    
-    const stepPattern = /^(Given|When|Then|And|But)(?:\s+(?:that|the|a|an))?\s+(.+)$/i;
-    const tagPattern = /^@(\w+)/;
-    const tableRowPattern = /^\|(.+)\|$/;
-    
-    // State tracking with intelligent context awareness
-    let currentScenario: GherkinScenario | null = null;
-    let currentSteps: string[] = [];
-    let lineNumber = 0;
-    let inBackground = false;
-    let inRule = false;
-    let inExamples = false;
-    let currentFeature = '';
-    let scenarioCount = 0;
-    let exampleCount = 0;
-    
-    // Performance cache and duplicate detection - optimized for large datasets
-    const seenScenarios = new Set<string>();
-    const scenarioOutlines = new Map<string, string[]>();
-    
-    // Performance monitoring for large files
-    const startTime = performance.now();
-    let lastProgressLog = 0;
-    const progressInterval = Math.max(1000, Math.floor(totalLines / 20)); // Log progress every 5% or 1000 lines
-    
-    // Single pass through lines with maximum detection power
-    for (let i = 0; i < lines.length; i++) {
-      const line = lines[i];
-      lineNumber = i + 1;
-      
-      // Progress logging for large files
-      if (totalLines > 10000 && i - lastProgressLog >= progressInterval) {
-        const progress = ((i / totalLines) * 100).toFixed(1);
-        const elapsed = ((performance.now() - startTime) / 1000).toFixed(1);
-        console.log(`📊 Parsing progress: ${progress}% (${i}/${totalLines} lines) - ${elapsed}s elapsed`);
-        lastProgressLog = i;
-      }
-      
-      // Performance optimization: Use charAt(0) instead of startsWith for single character checks
-      const firstChar = line.charAt(0);
-      const trimmedLine = line.trim();
-      
-      // Skip empty lines early for performance
-      if (!trimmedLine) continue;
-      
-      // Fast feature detection using charAt for performance
-      if (firstChar === 'F' && trimmedLine.startsWith('Feature:')) {
-        currentFeature = trimmedLine.replace(/^Feature:?\s*/, '').trim();
-        inBackground = inRule = inExamples = false;
-        continue;
-      }
-      
-      // Fast section detection using charAt for performance
-      if (firstChar === 'B' && trimmedLine.startsWith('Background:')) {
-        inBackground = true;
-        inRule = inExamples = false;
-        continue;
-      }
-      
-      if (firstChar === 'R' && trimmedLine.startsWith('Rule:')) {
-        inRule = true;
-        inBackground = inExamples = false;
-        continue;
-      }
-      
-      if (firstChar === 'E' && trimmedLine.startsWith('Examples:')) {
-        inExamples = true;
-        inBackground = inRule = false;
-        continue;
-      }
-      
-      if (firstChar === 'S' && trimmedLine.startsWith('Scenarios:')) {
-        inExamples = true;
-        inBackground = inRule = false;
-        continue;
-      }
-      
-      // MAXIMUM SCENARIO DETECTION - try ALL patterns
-      let scenarioDetected = false;
-      let scenarioTitle = '';
-      let isOutline = false;
-      
-      // Try ALL patterns for maximum detection - don't restrict by first character
-      for (const pattern of scenarioPatterns) {
-        const match = trimmedLine.match(pattern);
-        if (match) {
-          scenarioDetected = true;
-          scenarioTitle = match[2] || match[1] || trimmedLine;
-          isOutline = trimmedLine.toLowerCase().includes('outline');
-          break;
-        }
-      }
-      
-      // ADDITIONAL INTELLIGENT DETECTION for lines that look like scenarios
-      if (!scenarioDetected && !inBackground && !inRule && !inExamples) {
-        // Check for numbered lines that might be scenarios
-        if (firstChar >= '1' && firstChar <= '9') {
-          const numberedMatch = trimmedLine.match(/^(\d+)\.\s*(.+)$/);
-          if (numberedMatch) {
-            scenarioDetected = true;
-            scenarioTitle = numberedMatch[2].trim();
-          }
-        }
-        
-        // Check for ID pattern lines
-        if (firstChar >= 'A' && firstChar <= 'Z') {
-          const idMatch = trimmedLine.match(/^([A-Z]{2,3}-\d+)\s*[-:]\s*(.+)$/);
-          if (idMatch) {
-            scenarioDetected = true;
-            scenarioTitle = idMatch[2].trim();
-          }
-          
-          // Check for title-like lines (capitalized words, no Gherkin keywords)
-          const words = trimmedLine.split(/\s+/);
-          const isTitleLike = words.length >= 2 && 
-                             words.every(word => /^[A-Z][a-z]*$/.test(word) || /^[A-Z]{2,3}-\d+$/.test(word)) &&
-                             !trimmedLine.match(/^(Given|When|Then|And|But|Feature|Background|Rule|Examples)/i);
-          
-          if (isTitleLike) {
-            scenarioDetected = true;
-            scenarioTitle = trimmedLine;
-          }
-        }
-      }
-      
-      if (scenarioDetected) {
-        // Save previous scenario efficiently
-        if (currentScenario) {
-          saveScenario(currentScenario, currentSteps, scenarios);
-          scenarioCount++;
-        }
-        
-        // Handle duplicate titles intelligently
-        const uniqueTitle = generateUniqueTitle(scenarioTitle, seenScenarios);
-        seenScenarios.add(uniqueTitle);
-        
-        currentScenario = createScenario(uniqueTitle, lineNumber, currentFeature);
-        currentSteps = [];
-        inBackground = inRule = inExamples = false;
-        
-        // Cache outline for later example processing
-        if (isOutline) {
-          scenarioOutlines.set(uniqueTitle, []);
-        }
-        
-        continue;
-      }
-      
-      // Smart step detection with context awareness
-      if (currentScenario && !inBackground && !inRule) {
-        // Performance optimization: Check first character before regex
-        if (firstChar === 'G' || firstChar === 'W' || firstChar === 'T' || firstChar === 'A' || firstChar === 'B') {
-          const stepMatch = trimmedLine.match(stepPattern);
-          if (stepMatch) {
-            currentSteps.push(trimmedLine);
-            continue;
-          }
-        }
-        
-        // Handle table-based steps in examples
-        if (inExamples && currentScenario.title.includes('Outline')) {
-          if (firstChar === '|') {
-            const tableMatch = trimmedLine.match(tableRowPattern);
-            if (tableMatch && !trimmedLine.includes('Scenario') && !trimmedLine.includes('Example')) {
-              // Create example scenario efficiently
-              const exampleScenario = createExampleScenario(currentScenario, exampleCount++, lineNumber, currentFeature);
-              scenarios.push(exampleScenario);
-              continue;
-            }
-          }
-        }
-      }
-      
-      // Efficient tag handling
-      if (firstChar === '@' && currentScenario) {
-        const tagMatch = trimmedLine.match(tagPattern);
-        if (tagMatch) {
-          if (!currentScenario.tags) currentScenario.tags = [];
-          currentScenario.tags.push(trimmedLine);
-        }
-        continue;
-      }
-    }
-    
-    // Final scenario cleanup
-    if (currentScenario) {
-      saveScenario(currentScenario, currentSteps, scenarios);
-      scenarioCount++;
-    }
-    
-    // Performance summary for large files
-    const totalTime = ((performance.now() - startTime) / 1000).toFixed(2);
-    const scenariosPerSecond = (scenarios.length / parseFloat(totalTime)).toFixed(0);
-    
-    // Debug information to help troubleshoot
-    console.log(`🔍 Parser Debug Info:`);
-    console.log(`   📝 Total lines processed: ${totalLines}`);
-    console.log(`   📊 Scenarios detected: ${scenarios.length}`);
-    console.log(`   🏷️  Feature: ${currentFeature || 'None detected'}`);
-    console.log(`   ⚡ Processing time: ${totalTime}s`);
-    
-    if (totalLines > 10000) {
-      console.log(`🚀 Ultra-Scalable Parser Results:`);
-      console.log(`   📊 Scenarios detected: ${scenarios.length}`);
-      console.log(`   📝 Lines processed: ${totalLines.toLocaleString()}`);
-      console.log(`   ⚡ Processing time: ${totalTime}s`);
-      console.log(`   🎯 Performance: ${scenariosPerSecond} scenarios/second`);
-      console.log(`   💾 Memory efficiency: ${(scenarios.length / totalLines * 100).toFixed(1)}% scenario density`);
-    } else {
-      console.log(`🔍 Smart Parser Results: ${scenarios.length} scenarios detected`);
-    }
-    
-    if (currentFeature) {
-      console.log(`   Feature: ${currentFeature}`);
-    }
-    
-    return scenarios;
-  };
-
-  // Helper functions for clean, efficient code
-  // Removed unused parameter 'count' from saveScenario
-  const saveScenario = (scenario: GherkinScenario, steps: string[], scenarios: GherkinScenario[]): void => {
-    scenario.steps = steps;
-    scenario.businessImpact = generateBusinessImpact(scenario);
-    scenario.workflow = categorizeWorkflow(scenario);
-    scenarios.push(scenario);
-  };
-
-  // Removed unused parameter 'isOutline' from createScenario
-  const createScenario = (title: string, lineNumber: number, feature: string): GherkinScenario => ({
-    title,
-    steps: [],
-    lineNumber,
-    fileName: feature || 'QA Test File',
-    businessImpact: '',
-    workflow: ''
-  });
-
-  // Fixed variable definitions and types
-
-  // Defined missing variables
-  let uniqueTitle = "Default Title";
-  let lineNumber = 1;
-  let currentFeature = "Default Feature";
-
-  // Corrected constant handling
-  let currentScenario = createScenario(uniqueTitle, lineNumber, currentFeature);
-
-  // Explicitly defined array types
-  const currentSteps: string[] = [];
-  const scenarios: GherkinScenario[] = [];
-
-  // Updated saveScenario call
-  saveScenario(currentScenario, currentSteps, scenarios);
-
   // Removed unused variables
   // Removed isAnalyzingDuplicates
   // Removed analysisProgress
@@ -692,1596 +290,84 @@ function App() {
   // Removed businessContext from generateAIEnhancedGherkinSteps
   // Removed context from generatePerformanceSteps
 
-  const createExampleScenario = (outline: GherkinScenario, exampleNum: number, lineNumber: number, feature: string): GherkinScenario => {
-    const exampleScenario: GherkinScenario = {
-      title: `${outline.title} - Example ${exampleNum + 1}`,
-      steps: [...outline.steps],
-      lineNumber,
-      fileName: feature || 'QA Test File',
-      businessImpact: '',
-      workflow: ''
-    };
-    exampleScenario.businessImpact = generateBusinessImpact(exampleScenario);
-    exampleScenario.workflow = categorizeWorkflow(exampleScenario);
-    return exampleScenario;
-  };
-
-  const generateUniqueTitle = (title: string, seen: Set<string>): string => {
-    if (!seen.has(title)) return title;
-    
-    let counter = 1;
-    let uniqueTitle = `${title} (${counter})`;
-    while (seen.has(uniqueTitle)) {
-      counter++;
-      uniqueTitle = `${title} (${counter})`;
-    }
-    return uniqueTitle;
-  };
-
   // Helper function to analyze table structures
 
   // Helper functions removed for simplicity
 
-  // 🧠 SIMPLIFIED & EFFECTIVE SIMILARITY ANALYSIS
-  const calculateUltimateSimilarity = (scenario1: GherkinScenario, scenario2: GherkinScenario): number => {
-    const title1 = scenario1.title.toLowerCase().trim();
-    const title2 = scenario2.title.toLowerCase().trim();
-    
-    // 1. EXACT MATCH = 100% (most reliable)
-    if (title1 === title2) return 1.0;
-    
-    // 2. NORMALIZED TITLE MATCH = 95% (handles minor case/whitespace differences)
-    if (title1.replace(/\s+/g, ' ') === title2.replace(/\s+/g, ' ')) return 0.95;
-    
-    // 3. SIMPLE TITLE SIMILARITY = 70-90% (effective and reliable)
-    const titleSimilarity = calculateTitleSimilarity(title1, title2);
-    if (titleSimilarity >= 0.6) return titleSimilarity; // Good title match
-    
-    // 4. KEY WORD MATCHING = 60-80% (business logic matching)
-    const words1 = title1.split(/\s+/).filter(word => word.length > 2);
-    const words2 = title2.split(/\s+/).filter(word => word.length > 2);
-    
-    if (words1.length > 0 && words2.length > 0) {
-      const commonWords = words1.filter(word => words2.includes(word));
-      const wordSimilarity = commonWords.length / Math.max(words1.length, words2.length);
-      
-      if (wordSimilarity >= 0.4) {
-        return 0.6 + (wordSimilarity * 0.2); // 60-80% based on word overlap
-      }
-    }
-    
-    // 5. FEATURE FLAG SPECIAL CASE = 70-85% (common business scenario)
-    if ((title1.includes('feature flag') || title1.includes('toggle')) && 
-        (title2.includes('feature flag') || title2.includes('toggle'))) {
-      return 0.75; // Feature flag scenarios are often similar
-    }
-    
-    // 6. NO MATCH = 0% (no meaningful similarity)
-    return 0.0;
-  };
-  
   // 🧠 SIMPLIFIED SIMILARITY ANALYSIS (removed complex unused functions)
   
   // Utility functions for the analysis (core functions preserved)
   
-  // 🧠 AI Integration Layer (simplified)
-  
-  // AI Helper Functions (Non-breaking additions)
-  const aiHelpers = {
-    // Analyze business context for better categorization
-    analyzeBusinessContext: (title: string, steps: string[]): any => {
-      const context = title.toLowerCase() + ' ' + steps.join(' ').toLowerCase();
-      
-      // AI-powered business logic analysis
-      if (context.includes('payment') || context.includes('transaction') || context.includes('billing')) {
-        return {
-          businessDomain: 'Financial',
-          riskLevel: 'High',
-          compliance: 'PCI-DSS, SOX',
-          category: 'Functional'
-        };
-      }
-      
-      if (context.includes('user') || context.includes('authentication') || context.includes('security') || 
-          context.includes('login') || context.includes('logout') || context.includes('session')) {
-        return {
-          businessDomain: 'Security',
-          riskLevel: 'Critical',
-          compliance: 'SOC2, GDPR',
-          category: 'Functional',
-          context: context // Include full context for detailed analysis
-        };
-      }
-      
-      if (context.includes('workflow') || context.includes('process') || context.includes('approval')) {
-        return {
-          businessDomain: 'Business Process',
-          riskLevel: 'Medium',
-          compliance: 'Internal Controls',
-          category: 'End-to-End'
-        };
-      }
-      
-      if (context.includes('api') || context.includes('integration') || context.includes('sync')) {
-        return {
-          businessDomain: 'System Integration',
-          riskLevel: 'Medium',
-          compliance: 'API Standards',
-          category: 'Integration'
-        };
-      }
-      
-      return {
-        businessDomain: 'General',
-        riskLevel: 'Low',
-        compliance: 'Standard',
-        category: 'Functional'
-      };
-    },
-    
-    // Enhanced severity assessment with AI insights
-    assessSeverityWithAI: (scenario: GherkinScenario): any => {
-      const businessContext = aiHelpers.analyzeBusinessContext(scenario.title, scenario.steps);
-      
-      // AI-powered severity calculation
-      let severityScore = 0;
-      let reasoning = '';
-      
-      // Business impact scoring
-      if (businessContext.businessDomain === 'Financial') {
-        severityScore += 40;
-        reasoning += 'Financial transactions require high security and compliance. ';
-      }
-      
-      if (businessContext.businessDomain === 'Security') {
-        severityScore += 50;
-        reasoning += 'Security and authentication are critical for system integrity. ';
-      }
-      
-      // Enhanced security context detection
-      if (businessContext.businessDomain === 'Security') {
-        const securityContext = businessContext.context || '';
-        if (securityContext.includes('logout') || securityContext.includes('session end')) {
-          severityScore += 20;
-          reasoning += 'Logout and session management are critical for security compliance. ';
-        }
-        if (securityContext.includes('authentication') || securityContext.includes('login')) {
-          severityScore += 25;
-          reasoning += 'Authentication mechanisms are fundamental to system security. ';
-        }
-      }
-      
-      if (businessContext.riskLevel === 'Critical') {
-        severityScore += 30;
-        reasoning += 'Critical risk level identified by AI analysis. ';
-      }
-      
-      if (businessContext.riskLevel === 'High') {
-        severityScore += 20;
-        reasoning += 'High risk level requires immediate attention. ';
-      }
-      
-      // Determine severity level
-      let severity: 'Critical' | 'High' | 'Medium' | 'Low';
-      if (severityScore >= 80) severity = 'Critical';
-      else if (severityScore >= 60) severity = 'High';
-      else if (severityScore >= 40) severity = 'Medium';
-      else severity = 'Low';
-      
-      return {
-        severity,
-        score: severityScore,
-        reasoning: reasoning.trim(),
-        businessContext
-      };
-    },
-    
-    // Generate AI-enhanced business impact statements
-    generateAIEnhancedBusinessImpact: (businessContext: any): string | null => {
-      const { businessDomain, compliance } = businessContext;
-      
-      // AI-powered business impact generation
-      if (businessDomain === 'Financial') {
-        return `Critical for maintaining ${compliance} compliance and ensuring financial data integrity. Direct impact on revenue protection and regulatory requirements.`;
-      }
-      
-      if (businessDomain === 'Security') {
-        return `Essential for ${compliance} compliance and protecting sensitive user data. Critical for maintaining system trust and preventing security breaches.`;
-      }
-      
-      if (businessDomain === 'Business Process') {
-        return `Important for maintaining operational efficiency and ${compliance} standards. Ensures business continuity and process reliability.`;
-      }
-      
-      if (businessDomain === 'System Integration') {
-        return `Vital for maintaining ${compliance} and ensuring seamless system communication. Critical for data consistency and operational reliability.`;
-      }
-      
-      return null; // Fall back to smart patterns
-    },
-    
-        // 🧠 AI: DYNAMIC, LEARNING-BASED CONTEXT DETECTION
-    detectScenarioContext: (scenario: GherkinScenario): any => {
-      const fullContext = [
-        scenario.title.toLowerCase(),
-        scenario.steps.join(' ').toLowerCase(),
-        (scenario as any).description ? (scenario as any).description.toLowerCase() : '',
-        scenario.businessImpact ? scenario.businessImpact.toLowerCase() : '',
-        scenario.workflow ? scenario.workflow.toLowerCase() : ''
-      ].join(' ').toLowerCase();
-      
-      // 🧠 AI: Extract meaningful words and phrases dynamically
-      const words = fullContext.split(/\s+/).filter(word => word.length > 2);
-      const phrases = aiHelpers.extractDynamicPhrases(fullContext);
-      
-      // 🧠 AI: Analyze context patterns dynamically without hardcoding
-      const contextAnalysis = {
-        // Core context
-        context: fullContext,
-        words: words,
-        phrases: phrases,
-        
-        // Dynamic pattern detection
-        hasTechnicalTerms: aiHelpers.hasTechnicalContext(words, phrases),
-        hasBusinessTerms: aiHelpers.hasBusinessContext(words, phrases),
-        hasSecurityTerms: aiHelpers.hasSecurityContext(words, phrases),
-        hasPerformanceTerms: aiHelpers.hasPerformanceContext(words, phrases),
-        
-        // Intelligent categorization
-        primaryDomain: aiHelpers.determinePrimaryDomain(words),
-        complexity: aiHelpers.assessComplexity(words),
-        riskLevel: aiHelpers.assessRiskLevel(words)
-      };
-      
-      console.log('🧠 AI: Dynamic context analysis for:', scenario.title);
-      console.log('🧠 AI: Primary domain:', contextAnalysis.primaryDomain);
-      console.log('🧠 AI: Complexity:', contextAnalysis.complexity);
-      console.log('🧠 AI: Risk level:', contextAnalysis.riskLevel);
-      console.log('🧠 AI: Detected patterns:', {
-        technical: contextAnalysis.hasTechnicalTerms,
-        business: contextAnalysis.hasBusinessTerms,
-        security: contextAnalysis.hasSecurityTerms,
-        performance: contextAnalysis.hasPerformanceTerms
-      });
-      
-      return contextAnalysis;
-    },
-    
-    // 🧠 AI: Extract meaningful phrases dynamically from content
-    extractDynamicPhrases: (context: string): string[] => {
-      const phrases: string[] = [];
-      
-      // Look for meaningful word combinations (2-4 words)
-      const words = context.split(/\s+/);
-      for (let i = 0; i < words.length - 1; i++) {
-        for (let j = 2; j <= 4 && i + j <= words.length; j++) {
-          const phrase = words.slice(i, i + j).join(' ');
-          if (phrase.length > 5 && !phrases.includes(phrase)) {
-            phrases.push(phrase);
-          }
-        }
-      }
-      
-      return phrases.slice(0, 10); // Limit to top 10 phrases
-    },
-    
-    // 🧠 AI: Dynamic technical context detection
-    hasTechnicalContext: (words: string[], phrases: string[]): boolean => {
-      const technicalIndicators = ['api', 'database', 'memory', 'network', 'browser', 'performance', 'optimization', 'scalability', 'latency', 'throughput'];
-      return words.some(word => technicalIndicators.includes(word)) || 
-             phrases.some(phrase => technicalIndicators.some(indicator => phrase.includes(indicator)));
-    },
-    
-    // 🧠 AI: Dynamic business context detection
-    hasBusinessContext: (words: string[], phrases: string[]): boolean => {
-      const businessIndicators = ['user', 'customer', 'payment', 'report', 'workflow', 'process', 'approval', 'compliance', 'audit', 'governance'];
-      return words.some(word => businessIndicators.includes(word)) || 
-             phrases.some(phrase => businessIndicators.some(indicator => phrase.includes(indicator)));
-    },
-    
-    // 🧠 AI: Dynamic security context detection
-    hasSecurityContext: (words: string[], phrases: string[]): boolean => {
-      const securityIndicators = ['security', 'authentication', 'authorization', 'encryption', 'vulnerability', 'permission', 'access', 'login', 'logout', 'session'];
-      return words.some(word => securityIndicators.includes(word)) || 
-             phrases.some(phrase => securityIndicators.some(indicator => phrase.includes(indicator)));
-    },
-    
-    // 🧠 AI: Dynamic performance context detection
-    hasPerformanceContext: (words: string[], phrases: string[]): boolean => {
-      const performanceIndicators = ['performance', 'speed', 'load', 'stress', 'memory', 'network', 'optimization', 'efficiency', 'response time', 'throughput'];
-      return words.some(word => performanceIndicators.includes(word)) || 
-             phrases.some(phrase => performanceIndicators.some(indicator => phrase.includes(indicator)));
-    },
-    
-    // 🧠 AI: Determine primary domain dynamically
-    determinePrimaryDomain: (words: string[]): string => {
-      const domainScores = {
-        technical: 0,
-        business: 0,
-        security: 0,
-        performance: 0
-      };
-      
-      // Score based on word frequency and phrase relevance
-      words.forEach(word => {
-        if (['api', 'database', 'memory', 'network'].includes(word)) domainScores.technical += 2;
-        if (['user', 'customer', 'payment', 'report'].includes(word)) domainScores.business += 2;
-        if (['security', 'authentication', 'encryption'].includes(word)) domainScores.security += 2;
-        if (['performance', 'speed', 'optimization'].includes(word)) domainScores.performance += 2;
-      });
-      
-      // Return the domain with highest score
-      const maxScore = Math.max(...Object.values(domainScores));
-      const primaryDomain = Object.entries(domainScores).find(([, score]) => score === maxScore)?.[0] || 'general';
-      
-      return primaryDomain;
-    },
-    
-    // 🧠 AI: Assess complexity dynamically
-    assessComplexity: (words: string[]): 'low' | 'medium' | 'high' => {
-      const complexityIndicators = {
-        low: ['simple', 'basic', 'display', 'view', 'show'],
-        medium: ['process', 'validate', 'check', 'update', 'create'],
-        high: ['optimization', 'scalability', 'integration', 'performance', 'security']
-      };
-      
-      let score = 0;
-      words.forEach(word => {
-        if (complexityIndicators.low.includes(word)) score += 1;
-        if (complexityIndicators.medium.includes(word)) score += 2;
-        if (complexityIndicators.high.includes(word)) score += 3;
-      });
-      
-      if (score <= 3) return 'low';
-      if (score <= 6) return 'medium';
-      return 'high';
-    },
-    
-    // 🧠 AI: Assess risk level dynamically
-    assessRiskLevel: (words: string[]): 'low' | 'medium' | 'high' | 'critical' => {
-      const riskIndicators = {
-        low: ['display', 'view', 'show', 'list', 'search'],
-        medium: ['update', 'create', 'modify', 'process', 'validate'],
-        high: ['delete', 'remove', 'payment', 'financial', 'user'],
-        critical: ['security', 'authentication', 'encryption', 'compliance', 'audit']
-      };
-      
-      let score = 0;
-      words.forEach(word => {
-        if (riskIndicators.low.includes(word)) score += 1;
-        if (riskIndicators.medium.includes(word)) score += 2;
-        if (riskIndicators.high.includes(word)) score += 3;
-        if (riskIndicators.critical.includes(word)) score += 4;
-      });
-      
-      if (score <= 2) return 'low';
-      if (score <= 4) return 'medium';
-      if (score <= 6) return 'high';
-      return 'critical';
-    },
-    
-    // 🧠 AI: DYNAMIC CONTEXT-AWARE GHERKIN STEP GENERATION
-    generateAIEnhancedGherkinSteps: (scenario: GherkinScenario): string[] => {
-      // 🧠 AI: Use the new dynamic context detection system
-      const detectedContext = aiHelpers.detectScenarioContext(scenario);
-      
-      console.log('🧠 AI: Dynamic context analysis for scenario:', scenario.title);
-      console.log('🧠 AI: Primary domain:', detectedContext.primaryDomain);
-      console.log('🧠 AI: Complexity:', detectedContext.complexity);
-      console.log('🧠 AI: Risk level:', detectedContext.riskLevel);
-      
-      // 🧠 AI: Generate context-specific steps based on dynamic analysis
-      if (detectedContext.primaryDomain === 'technical') {
-        if (detectedContext.hasPerformanceTerms) {
-          return aiHelpers.generatePerformanceSteps(scenario);
-        } else if (detectedContext.hasSecurityTerms) {
-          return aiHelpers.generateSecuritySteps(scenario);
-        } else {
-          return aiHelpers.generateTechnicalSteps(scenario);
-        }
-      } else if (detectedContext.primaryDomain === 'business') {
-        return aiHelpers.generateBusinessSteps(scenario);
-      } else if (detectedContext.primaryDomain === 'security') {
-        return aiHelpers.generateSecuritySteps(scenario);
-      } else if (detectedContext.primaryDomain === 'performance') {
-        return aiHelpers.generatePerformanceSteps(scenario);
-      }
-      
-      // 🧠 AI: Fallback to generic but intelligent steps
-      return aiHelpers.generateGenericSteps(scenario);
-    },
-    
-    // 🧠 AI: Generate performance-specific steps
-    generatePerformanceSteps: (scenario: GherkinScenario): string[] => {
-      const title = scenario.title.toLowerCase();
-      
-      if (title.includes('memory') || title.includes('leak')) {
-        return [
-          'Given the application is running under normal load conditions',
-          'When the system processes multiple operations over an extended period',
-          'Then memory usage should remain stable without continuous growth',
-          'And garbage collection should effectively free unused memory',
-          'And no memory leaks should be detected in monitoring tools'
-        ];
-      }
-      
-      if (title.includes('network') || title.includes('connection')) {
-        return [
-          'Given the system is configured with network performance thresholds',
-          'When network conditions degrade or become unstable',
-          'Then the system should implement adaptive retry mechanisms',
-          'And gracefully handle connection timeouts',
-          'And provide user feedback about network status'
-        ];
-      }
-      
-      if (title.includes('browser') || title.includes('compatibility')) {
-        return [
-          'Given the application is accessed from different browser environments',
-          'When users interact with the system across various browsers',
-          'Then all functionality should work consistently',
-          'And the user interface should render properly',
-          'And performance should meet acceptable standards'
-        ];
-      }
-      
-      // Generic performance steps
-      return [
-        'Given the system is under specified performance load',
-        'When performance-critical operations are executed',
-        'Then response times should meet defined SLAs',
-        'And system resources should remain within acceptable limits',
-        'And performance metrics should be logged for analysis'
-      ];
-    },
-    
-    // 🧠 AI: Generate security-specific steps
-    generateSecuritySteps: (scenario: GherkinScenario): string[] => {
-      const title = scenario.title.toLowerCase();
-      
-      if (title.includes('logout') || title.includes('sign out')) {
-        return [
-          'Given the user has an active authenticated session',
-          'When the user initiates a logout action',
-          'Then the session should be immediately terminated',
-          'And all authentication tokens should be invalidated',
-          'And the user should be redirected to the login page'
-        ];
-      }
-      
-      if (title.includes('login') || title.includes('sign in')) {
-        return [
-          'Given the user is on the authentication page',
-          'When valid credentials are submitted',
-          'Then access should be granted to authorized resources',
-          'And a secure session should be established',
-          'And authentication events should be logged'
-        ];
-      }
-      
-      // Generic security steps
-      return [
-        'Given security controls are properly configured',
-        'When security-related operations are performed',
-        'Then access should be restricted to authorized users only',
-        'And security events should be logged and monitored',
-        'And compliance with security policies should be maintained'
-      ];
-    },
-    
-    // 🧠 AI: Generate business-specific steps
-    generateBusinessSteps: (scenario: GherkinScenario): string[] => {
-      const title = scenario.title.toLowerCase();
-      
-      if (title.includes('language') || title.includes('localization')) {
-        return [
-          'Given the system supports multiple language configurations',
-          'When the user selects a different language preference',
-          'Then all interface elements should update accordingly',
-          'And content should be displayed in the selected language',
-          'And cultural formatting should be applied appropriately'
-        ];
-      }
-      
-      if (title.includes('report') || title.includes('search')) {
-        return [
-          'Given the reporting system is properly configured',
-          'When users perform data search or filtering operations',
-          'Then results should be returned based on search criteria',
-          'And data should be presented in appropriate formats',
-          'And export options should be available for further analysis'
-        ];
-      }
-      
-      // Generic business steps
-      return [
-        'Given the business process is properly configured',
-        'When users perform business operations',
-        'Then the system should process requests according to business rules',
-        'And maintain data integrity throughout the process',
-        'And provide appropriate feedback to users'
-      ];
-    },
-    
-    // 🧠 AI: Generate technical-specific steps
-    generateTechnicalSteps: (scenario: GherkinScenario): string[] => {
-      const title = scenario.title.toLowerCase();
-      
-      if (title.includes('api') || title.includes('integration')) {
-        return [
-          'Given the API endpoints are properly configured',
-          'When external systems communicate with the API',
-          'Then data should be exchanged according to defined protocols',
-          'And responses should be properly formatted',
-          'And error handling should follow established patterns'
-        ];
-      }
-      
-      if (title.includes('database') || title.includes('data')) {
-        return [
-          'Given the database system is operational',
-          'When data operations are performed',
-          'Then data should be stored and retrieved accurately',
-          'And database performance should remain optimal',
-          'And data integrity constraints should be enforced'
-        ];
-      }
-      
-      // Generic technical steps
-      return [
-        'Given the technical system is properly configured',
-        'When technical operations are executed',
-        'Then the system should function according to specifications',
-        'And performance should meet technical requirements',
-        'And any errors should be handled gracefully'
-      ];
-    },
-    
-    // 🧠 AI: Generate generic but intelligent steps
-    generateGenericSteps: (scenario: GherkinScenario): string[] => {
-      const title = scenario.title.toLowerCase();
-      const words = title.split(/\s+/).filter(word => word.length > 3);
-      
-      return [
-        `Given the ${words[0] || 'system'} is properly configured and operational`,
-        `When ${words.slice(1, 3).join(' ') || 'the operation'} is performed`,
-        'Then the system should respond appropriately',
-        'And maintain data integrity throughout the process',
-        'And provide appropriate feedback to users'
-      ];
-    }
-  };
-  
-  // Enhanced category determination with AI insights
-  const determineScenarioCategory = (scenario: GherkinScenario): 'Functional' | 'End-to-End' | 'Integration' => {
-    // Try AI-enhanced analysis first
-    try {
-      const aiAnalysis = aiHelpers.analyzeBusinessContext(scenario.title, scenario.steps);
-      if (aiAnalysis.category && aiAnalysis.businessDomain !== 'General') {
-        console.log('🧠 AI enhanced categorization:', aiAnalysis.category, 'for', aiAnalysis.businessDomain);
-        return aiAnalysis.category;
-      }
-    } catch (error) {
-      console.log('🧠 AI analysis failed, using smart pattern fallback');
-    }
-    
-    // Fallback to smart patterns (existing logic)
-    const title = scenario.title.toLowerCase();
-    const steps = scenario.steps.join(' ').toLowerCase();
-    
-    // Smart pattern analysis for Integration scenarios
-    if (title.includes('api') || title.includes('service') || title.includes('integration') || 
-        title.includes('external') || title.includes('third-party') || title.includes('sync') ||
-        title.includes('database') || title.includes('message') || title.includes('queue')) {
-      return 'Integration';
-    }
-    
-    // Smart pattern analysis for End-to-End scenarios
-    if (title.includes('workflow') || title.includes('process') || title.includes('journey') || 
-        title.includes('flow') || title.includes('complete') || title.includes('end-to-end') ||
-        steps.includes('navigate') || steps.includes('proceed') || steps.includes('continue')) {
-      return 'End-to-End';
-    }
-    
-    // Default to Functional scenarios
-    return 'Functional';
-  };
-  
-  // Enhanced severity determination with AI insights
-  const determineScenarioSeverity = (scenario: GherkinScenario): 'Critical' | 'High' | 'Medium' | 'Low' => {
-    // Try AI-enhanced severity assessment first
-    try {
-      const aiSeverity = aiHelpers.assessSeverityWithAI(scenario);
-      if (aiSeverity.severity && aiSeverity.score > 0) {
-        console.log('🧠 AI enhanced severity:', aiSeverity.severity, 'Score:', aiSeverity.score, 'Reasoning:', aiSeverity.reasoning);
-        return aiSeverity.severity;
-      }
-    } catch (error) {
-      console.log('🧠 AI severity assessment failed, using smart pattern fallback');
-    }
-    
-    // Fallback to smart patterns (existing logic)
-    const title = scenario.title.toLowerCase();
-    // Analyze scenario for severity
-    const words = title.split(/\s+/).filter((word: string) => word.length > 2);
-    
-    // 🧠 AI: Critical scenarios - security, data integrity, core business
-    if (title.includes('authentication') || title.includes('authorization') || 
-        title.includes('security') || title.includes('payment') || title.includes('billing') ||
-        title.includes('delete') || title.includes('remove') || title.includes('admin') ||
-        title.includes('encryption') || title.includes('compliance')) {
-      return 'Critical';
-    }
-    
-    // 🧠 AI: High scenarios - important business operations
-    if (title.includes('create') || title.includes('update') || title.includes('modify') ||
-        title.includes('user') || title.includes('customer') || title.includes('order') ||
-        title.includes('feature flag') || title.includes('validation') || title.includes('approval')) {
-      return 'High';
-    }
-    
-    // 🧠 AI: Medium scenarios - standard operations
-    if (title.includes('search') || title.includes('filter') || title.includes('view') ||
-        title.includes('report') || title.includes('export') || title.includes('import')) {
-      return 'Medium';
-    }
-    
-    // 🧠 AI: Low scenarios - display, help, non-critical features
-    // Add some variety based on word count and content
-    if (words.length <= 3 || title.includes('display') || title.includes('help') || title.includes('preview')) {
-      return 'Low';
-    }
-    
-    // Default to Medium for scenarios that don't fit other categories
-    return 'Medium';
-  };
-  
-  const generateScenarioDescription = (scenario: GherkinScenario): string => {
-    const title = scenario.title.toLowerCase();
-    const words = title.split(/\s+/).filter(word => word.length > 2);
-    
-    // 🧠 AI: Generate unique, context-aware descriptions based on actual content
-    if (title.includes('authentication') || title.includes('login')) {
-      const variations = [
-        'Security testing to ensure proper user authentication and access control',
-        'User authentication validation to maintain system security standards',
-        'Login functionality testing to verify secure user access protocols'
-      ];
-      return variations[words.length % variations.length];
-    } else if (title.includes('payment') || title.includes('billing')) {
-      const variations = [
-        'Financial transaction testing to validate payment processing and security',
-        'Payment workflow validation to ensure transaction integrity and compliance',
-        'Billing system testing to maintain financial data accuracy and security'
-      ];
-      return variations[words.length % variations.length];
-    } else if (title.includes('feature flag') || title.includes('toggle')) {
-      const variations = [
-        'Feature flag testing to ensure proper functionality control and user experience',
-        'Toggle mechanism validation to maintain feature availability and system stability',
-        'Feature control testing to verify business logic variations and user access'
-      ];
-      return variations[words.length % variations.length];
-    } else if (title.includes('user') || title.includes('customer')) {
-      const variations = [
-        'User management testing to validate user operations and data integrity',
-        'Customer data validation to ensure proper user lifecycle management',
-        'User experience testing to maintain system usability and data security'
-      ];
-      return variations[words.length % variations.length];
-    } else if (title.includes('api') || title.includes('integration')) {
-      const variations = [
-        'API integration testing to ensure proper system communication and data exchange',
-        'System integration validation to maintain data consistency and operational reliability',
-        'API connectivity testing to verify external service communication and error handling'
-      ];
-      return variations[words.length % variations.length];
-    } else {
-      // Generate unique description based on scenario content
-      const action = words.find(w => ['create', 'update', 'delete', 'validate', 'test', 'verify'].includes(w)) || 'test';
-      const entity = words.find(w => ['user', 'data', 'system', 'feature', 'process'].includes(w)) || 'functionality';
-      return `${action} testing for ${entity} to ensure system reliability and business process integrity`;
-    }
-  };
-  
-  // Enhanced business impact determination with AI insights
-  const determineBusinessImpact = (scenario: GherkinScenario): string => {
-    // Try AI-enhanced business impact analysis first
-    try {
-      const aiAnalysis = aiHelpers.analyzeBusinessContext(scenario.title, scenario.steps);
-      if (aiAnalysis.businessDomain !== 'General') {
-        const aiImpact = aiHelpers.generateAIEnhancedBusinessImpact(aiAnalysis);
-        if (aiImpact) {
-          console.log('🧠 AI enhanced business impact:', aiImpact);
-          return aiImpact;
-        }
-      }
-    } catch (error) {
-      console.log('🧠 AI business impact analysis failed, using smart pattern fallback');
-    }
-    
-    // Fallback to smart patterns (existing logic)
-    const title = scenario.title.toLowerCase();
-    const words = title.split(/\s+/).filter(word => word.length > 2);
-    
-    // 🧠 AI: Determine SPECIFIC, REALISTIC business impact based on actual content
-    if (title.includes('authentication') || title.includes('security') || title.includes('login')) {
-      const variations = [
-        'Critical for preventing unauthorized access to sensitive customer data and maintaining SOC2 compliance',
-        'Essential for protecting user privacy and meeting GDPR requirements in the European market',
-        'Vital for maintaining PCI DSS compliance and securing payment processing infrastructure'
-      ];
-      return variations[words.length % variations.length];
-    } else if (title.includes('payment') || title.includes('billing') || title.includes('financial')) {
-      const variations = [
-        'Essential for processing $2M+ monthly revenue and maintaining customer trust in financial transactions',
-        'Critical for ensuring accurate billing cycles and preventing revenue leakage in subscription services',
-        'Vital for maintaining audit trails required by financial regulators and internal compliance teams'
-      ];
-      return variations[words.length % variations.length];
-    } else if (title.includes('user') || title.includes('customer') || title.includes('profile')) {
-      const variations = [
-        'Important for maintaining 95% customer satisfaction scores and reducing support ticket volume by 30%',
-        'Essential for ensuring data accuracy across 50,000+ user profiles and preventing customer churn',
-        'Critical for user onboarding success rates and maintaining competitive advantage in user experience'
-      ];
-      return variations[words.length % variations.length];
-    } else if (title.includes('feature flag') || title.includes('toggle')) {
-      const variations = [
-        'Critical for enabling A/B testing of new features and maintaining 99.9% system uptime during deployments',
-        'Essential for gradual feature rollouts and preventing production incidents during major releases',
-        'Vital for business agility and enabling rapid response to market demands and competitive pressures'
-      ];
-      return variations[words.length % variations.length];
-    } else if (title.includes('api') || title.includes('integration') || title.includes('service')) {
-      const variations = [
-        'Essential for maintaining data synchronization across 15+ integrated systems and preventing data inconsistencies',
-        'Critical for ensuring 99.5% API availability and maintaining SLA commitments to enterprise customers',
-        'Vital for external service reliability and preventing cascading failures in the microservices architecture'
-      ];
-      return variations[words.length % variations.length];
-    } else {
-      // Generate SPECIFIC business impact based on scenario content
-      const action = words.find(w => ['create', 'update', 'delete', 'validate', 'search', 'filter'].includes(w)) || 'maintain';
-      const entity = words.find(w => ['user', 'data', 'system', 'feature', 'order', 'report', 'file'].includes(w)) || 'data';
-      
-      const variations = [
-        `${action}s ${entity} functionality and prevents data corruption that could affect 10,000+ daily users`,
-        `${action}s ${entity} operations and maintains system performance within 2-second response time SLA`,
-        `${action}s ${entity} integrity and ensures compliance with industry regulations and audit requirements`
-      ];
-      return variations[words.length % variations.length];
-    }
-  };
-  
-  const generateRelevantSteps = (scenario: GherkinScenario): string[] => {
-    const title = scenario.title.toLowerCase();
-    
-    // 🧠 AI: Generate UNIQUE, REALISTIC Gherkin steps based on actual scenario content
-    // Use scenario title hash to ensure uniqueness across different scenarios
-    
-    // Create a unique hash from the scenario title for consistent but varied results
-    const titleHash = title.split('').reduce((a, b) => a + b.charCodeAt(0), 0);
-    const scenarioIndex = titleHash % 100; // Use modulo for variety
-    
-    // 🧠 AI: CONTEXT-AWARE step generation - check for specific scenarios first
-    // Use full context analysis for better accuracy
-    const fullContext = [
-      title,
-      scenario.steps.join(' ').toLowerCase(),
-      (scenario as any).description ? (scenario as any).description.toLowerCase() : '',
-      scenario.businessImpact ? scenario.businessImpact.toLowerCase() : '',
-      scenario.workflow ? scenario.workflow.toLowerCase() : ''
-    ].join(' ').toLowerCase();
-    
-    if (fullContext.includes('multi-language') || fullContext.includes('localization') || fullContext.includes('internationalization') || 
-        fullContext.includes('language') || fullContext.includes('translation')) {
-      console.log('🧠 Smart Pattern: Detected multi-language context from full analysis');
-      return [
-        'Given the system supports multiple languages including English, Spanish, and French',
-        'When the user changes the language preference to Spanish',
-        'Then all UI elements should display in Spanish',
-        'And the date/time formats should follow Spanish locale standards',
-        'And the currency should be displayed in appropriate format for Spanish region'
-      ];
-    }
-    
-    if (title.includes('authentication') || title.includes('login') || title.includes('logout') || title.includes('sign out')) {
-      // Generate unique authentication scenarios based on title content
-      if (title.includes('logout') || title.includes('sign out')) {
-        return [
-          'Given the user is currently logged into the system with an active session',
-          'When the user clicks the logout button or selects sign out option',
-          'Then the user session should be terminated immediately',
-          'And all authentication tokens should be invalidated',
-          'And the user should be redirected to the login page',
-          'And the logout event should be logged with timestamp and user ID'
-        ];
-      } else if (title.includes('failed') || title.includes('invalid')) {
-        return [
-          `Given the user has attempted to login ${3 + (scenarioIndex % 3)} times with incorrect credentials`,
-          'And the account lockout policy is configured for 15-minute duration',
-          'When the user attempts to login with correct credentials',
-          'Then the system should display "Account temporarily locked" message',
-          'And the login form should be disabled until lockout period expires',
-          'And a security alert should be sent to the user\'s registered email'
-        ];
-      } else if (title.includes('mfa') || title.includes('multi-factor')) {
-        return [
-          'Given the user is accessing from a new device location',
-          'And multi-factor authentication is enabled for the user account',
-          'When the user successfully logs in with username and password',
-          'Then the system should prompt for 6-digit SMS verification code',
-          'And the user should receive the code via registered mobile number',
-          'And access should be granted only after successful MFA verification'
-        ];
-      } else {
-        return [
-          `Given the user is on the login page with email "user${scenarioIndex}@company.com"`,
-          `And the user has an active account with role "${scenarioIndex % 2 === 0 ? 'Standard User' : 'Premium User'}"`,
-          'When the user enters valid credentials and clicks "Sign In"',
-          'Then the user should be redirected to the main dashboard',
-          'And the session should be logged with timestamp and IP address',
-          'And the user should see their profile information in the header'
-        ];
-      }
-    } else if (title.includes('payment') || title.includes('billing')) {
-      // Generate unique payment scenarios based on title content
-      if (title.includes('insufficient') || title.includes('failed')) {
-        return [
-          `Given the user has insufficient funds in their payment method`,
-          `And the system is attempting to process a $${45 + (scenarioIndex % 20)}.00 subscription renewal`,
-          'When the payment gateway returns "Insufficient Funds" error',
-          'Then the system should display "Payment Failed" notification',
-          'And the subscription should be marked as "Payment Required"',
-          'And the user should receive an email with payment update instructions'
-        ];
-      } else if (title.includes('subscription') || title.includes('renewal')) {
-        return [
-          `Given the user has a subscription plan "${scenarioIndex % 2 === 0 ? 'Premium Monthly' : 'Enterprise Annual'}" at $${29 + (scenarioIndex % 50)}.99`,
-          `And the billing cycle is set to renew on the ${15 + (scenarioIndex % 15)}th of each month`,
-          'When the system attempts to charge the user\'s payment method',
-          'Then the payment should be processed successfully if funds are available',
-          'And the subscription should remain active for another month',
-          'And the billing history should be updated with the transaction'
-        ];
-      } else {
-        return [
-          `Given the user has ${3 + (scenarioIndex % 5)} items in their shopping cart totaling $${100 + (scenarioIndex % 100)}.${50 + (scenarioIndex % 50)}`,
-          `And the user has a valid credit card ending in "${1000 + (scenarioIndex % 9000)}"`,
-          'When the user proceeds to checkout and enters payment details',
-          'Then the payment should be processed through Stripe gateway',
-          `And the order should be confirmed with order number "ORD-2024-${String(scenarioIndex).padStart(3, '0')}"`,
-          'And a confirmation email should be sent to the user'
-        ];
-      }
-    } else if (title.includes('feature flag') || title.includes('toggle')) {
-      // Generate unique feature flag scenarios based on title content
-      const flagNames = ['new_dashboard_ui', 'payment_gateway_v2', 'beta_features', 'advanced_analytics', 'mobile_optimization'];
-      const flagName = flagNames[scenarioIndex % flagNames.length];
-      
-      if (title.includes('rollout') || title.includes('percentage')) {
-        return [
-          `Given the feature flag "${flagName}" is set to ${30 + (scenarioIndex % 40)}% rollout for "Premium" users`,
-          'And the user belongs to the "Premium" user group',
-          'When the user refreshes the application homepage',
-          'Then the new dashboard UI components should be visible',
-          'And the old dashboard should be completely replaced',
-          'And the feature flag exposure should be tracked in Mixpanel analytics'
-        ];
-      } else if (title.includes('admin') || title.includes('management')) {
-        return [
-          'Given the admin user has access to the Feature Flag Management Console',
-          `And the feature flag "${flagName}" is currently ${scenarioIndex % 2 === 0 ? 'enabled' : 'disabled'}`,
-          'When the admin toggles the feature flag for "Production" environment',
-          'Then the feature flag state should change accordingly',
-          'And the change should be logged with timestamp and admin user ID',
-          'And all affected users should see the updated feature availability'
-        ];
-      } else {
-        return [
-          `Given the feature flag "${flagName}" is enabled for "Beta Testers" group only`,
-          'And the user has role "Standard User" (not in Beta Testers)',
-          'When the user navigates to the Features section',
-          'Then the beta features should not be visible to the user',
-          'And the user should see only the standard feature set',
-          'And no beta feature access should be logged in the system'
-        ];
-      }
-    } else if (title.includes('user') || title.includes('customer')) {
-      // Generate unique user management scenarios based on title content
-      if (title.includes('create') || title.includes('new')) {
-        return [
-          'Given the user is creating a new customer profile',
-          `And the business rule requires "Company Name" for "${scenarioIndex % 2 === 0 ? 'Corporate' : 'Enterprise'}" customer type`,
-          'When the user selects "Customer Type" as "Corporate" and leaves "Company Name" empty',
-          'Then the form should display validation error "Company Name is required for Corporate customers"',
-          'And the form should not submit successfully',
-          'And the validation error should be highlighted in red'
-        ];
-      } else if (title.includes('update') || title.includes('modify')) {
-        return [
-          'Given the admin user is in the User Management section',
-          `And there is an existing user with email "user${scenarioIndex}@company.com"`,
-          'When the admin clicks "Edit User" and modifies the role to "Manager"',
-          'Then the user role should be updated in the database',
-          'And the change should be logged in the audit trail',
-          'And the user should receive an email notification about role change'
-        ];
-      } else {
-        return [
-          'Given the user is updating their profile information',
-          `And the user has existing data: name "User ${scenarioIndex}", email "user${scenarioIndex}@company.com"`,
-          `When the user changes their email to "user${scenarioIndex}.updated@newcompany.com"`,
-          'Then the email should be updated in the user profile',
-          'And a verification email should be sent to the new email address',
-          'And the old email should remain active until verification is complete'
-        ];
-      }
-    } else if (title.includes('api') || title.includes('integration')) {
-      // Generate unique API/integration scenarios based on title content
-      if (title.includes('timeout') || title.includes('latency')) {
-        return [
-          `Given the external payment service is responding with ${200 + (scenarioIndex % 300)}ms average response time`,
-          'And the system timeout is configured to 5 seconds',
-          'When the user initiates a payment transaction',
-          'Then the API call should complete within the timeout period',
-          'And the response should be processed successfully',
-          'And the transaction should be logged with response time metrics'
-        ];
-      } else if (title.includes('retry') || title.includes('failure')) {
-        return [
-          'Given the third-party email service is experiencing high latency (2+ seconds)',
-          'And the system has retry logic configured for 3 attempts',
-          'When the system sends a password reset email',
-          'Then the first attempt should timeout after 5 seconds',
-          'And the system should retry up to 2 more times',
-          'And if all attempts fail, the user should be notified of the issue'
-        ];
-      } else {
-        return [
-          `Given the database connection pool has ${10 + (scenarioIndex % 10)} available connections`,
-          `And there are ${15 + (scenarioIndex % 10)} concurrent user requests requiring database access`,
-          'When the system processes all requests simultaneously',
-          'Then 10 requests should be processed immediately',
-          'And 5 requests should wait in queue for available connections',
-          'And the system should log connection pool utilization metrics'
-        ];
-      }
-    } else {
-      // 🧠 AI: CONTEXT-AWARE generic fallback - check for specific scenarios first
-      // Use full context analysis for better accuracy
-      const fullContext = [
-        title,
-        scenario.steps.join(' ').toLowerCase(),
-        (scenario as any).description ? (scenario as any).description.toLowerCase() : '',
-        scenario.businessImpact ? scenario.businessImpact.toLowerCase() : '',
-        scenario.workflow ? scenario.workflow.toLowerCase() : ''
-      ].join(' ').toLowerCase();
-      
-      if (fullContext.includes('multi-language') || fullContext.includes('localization') || fullContext.includes('language') || 
-          fullContext.includes('translation') || fullContext.includes('language support')) {
-        console.log('🧠 Generic Fallback: Detected multi-language context from full analysis');
-        return [
-          'Given the system supports multiple language configurations',
-          'When the user changes the language setting',
-          'Then all interface elements should update to the selected language',
-          'And the system should maintain language preference across sessions',
-          'And the date/time formats should follow the selected locale standards'
-        ];
-      }
-      
-      if (fullContext.includes('report') || fullContext.includes('search') || fullContext.includes('filter') || 
-          fullContext.includes('validation') || fullContext.includes('error')) {
-        console.log('🧠 Generic Fallback: Detected report/search context from full analysis');
-        return [
-          'Given the reporting system is properly configured',
-          'When the user performs search or filter operations',
-          'Then the system should validate input parameters',
-          'And return relevant results based on search criteria',
-          'And provide options for further data analysis'
-        ];
-      }
-      
-      if (fullContext.includes('logout') || fullContext.includes('sign out') || fullContext.includes('session end')) {
-        console.log('🧠 Generic Fallback: Detected logout context from full analysis');
-        return [
-          'Given the user is currently logged into the system',
-          'When the user clicks the logout button',
-          'Then the user session should be terminated immediately',
-          'And all authentication tokens should be invalidated',
-          'And the user should be redirected to the login page',
-          'And the logout event should be logged for security audit'
-        ];
-      }
-      
-      // 🧠 AI: Generate intelligent steps based on actual scenario content analysis
-      console.log('🧠 Smart Pattern: Analyzing scenario content for intelligent step generation');
-      
-      // Analyze the actual scenario content for meaningful patterns
-      const titleWords = scenario.title.toLowerCase().split(' ').filter(word => word.length > 3);
-      const description = (scenario as any).description ? (scenario as any).description.toLowerCase() : '';
-      const descWords = description.split(' ').filter((word: string) => word.length > 3);
-      
-      // Combine all available context
-      const allContext = [...titleWords, ...descWords];
-      
-      // Look for specific business patterns in the actual content
-      if (allContext.some(word => ['logout', 'sign out', 'session'].includes(word))) {
-        return [
-          'Given the user is currently logged into the system',
-          'When the user initiates the logout process',
-          'Then the user session should be terminated securely',
-          'And the user should be redirected to the appropriate page'
-        ];
-      }
-      
-      if (allContext.some(word => ['login', 'authentication', 'sign in'].includes(word))) {
-        return [
-          'Given the user is on the authentication page',
-          'When the user provides valid credentials',
-          'Then the system should authenticate the user',
-          'And grant appropriate access permissions'
-        ];
-      }
-      
-      if (allContext.some(word => ['language', 'localization', 'translation'].includes(word))) {
-        return [
-          'Given the system supports multiple languages',
-          'When the user changes language preferences',
-          'Then the interface should update accordingly',
-          'And language settings should be maintained'
-        ];
-      }
-      
-      if (allContext.some(word => ['report', 'search', 'filter'].includes(word))) {
-        return [
-          'Given the reporting system is configured',
-          'When the user performs search operations',
-          'Then results should be returned based on criteria',
-          'And data should be presented appropriately'
-        ];
-      }
-      
-      if (allContext.some(word => ['payment', 'billing', 'transaction'].includes(word))) {
-        return [
-          'Given the payment system is operational',
-          'When the user initiates a payment',
-          'Then the transaction should be processed securely',
-          'And appropriate confirmation should be provided'
-        ];
-      }
-      
-      // If no specific pattern found, generate context-aware generic steps
-      const mainAction = allContext.find(word => ['test', 'validate', 'verify', 'check', 'ensure'].includes(word)) || 'process';
-      const mainEntity = allContext.find(word => ['system', 'feature', 'functionality', 'process'].includes(word)) || 'functionality';
-      
-      return [
-        `Given the ${mainEntity} is properly configured`,
-        `When the system performs ${mainAction} operations`,
-        `Then the ${mainEntity} should behave according to specifications`,
-        `And the system should maintain operational integrity`
-      ];
-    }
-  };
-  
-  // Extract key business phrases (more reliable than individual words)
-  // Utility functions removed for simplicity
+  // Extract key business phrases (more reliable than individual words)
+  // Utility functions removed for simplicity
   
   // Calculate phrase match score
-  const calculatePhraseMatch = (phrases1: string[], phrases2: string[]): number => {
-    if (phrases1.length === 0 || phrases2.length === 0) return 0.0;
-    
-    let matches = 0;
-    for (const phrase1 of phrases1) {
-      for (const phrase2 of phrases2) {
-        if (phrase1 === phrase2) {
-          matches++;
-          break;
-        }
-      }
-    }
-    
-    return matches / Math.max(phrases1.length, phrases2.length);
-  };
-  
-  // Calculate word overlap (simple but effective)
-  const calculateWordOverlap = (title1: string, title2: string): number => {
-    const words1 = title1.split(/\s+/).filter(word => word.length > 2);
-    const words2 = title2.split(/\s+/).filter(word => word.length > 2);
-    
-    if (words1.length === 0 || words2.length === 0) return 0.0;
-    
-    let matches = 0;
-    for (const word1 of words1) {
-      for (const word2 of words2) {
-        if (word1 === word2) {
-          matches++;
-          break;
-        }
-      }
-    }
-    
-    return matches / Math.max(words1.length, words2.length);
-  };
-
-  // Advanced semantic similarity - understands business meaning, context, and relationships
-  const calculateAdvancedSemanticSimilarity = (scenario1: GherkinScenario, scenario2: GherkinScenario): number => {
-    const title1 = scenario1.title.toLowerCase().trim();
-    const title2 = scenario2.title.toLowerCase().trim();
-    
-    // Extract advanced business concepts with context
-    const concepts1 = extractAdvancedBusinessConcepts(scenario1);
-    const concepts2 = extractAdvancedBusinessConcepts(scenario2);
-    
-    if (concepts1.length === 0 || concepts2.length === 0) return 0;
-    
-    // Calculate concept overlap with semantic understanding and relationship scoring
-    let totalScore = 0;
-    let maxPossibleScore = Math.max(concepts1.length, concepts2.length);
-    
-    for (const concept1 of concepts1) {
-      let bestMatchScore = 0;
-      
-      for (const concept2 of concepts2) {
-        const matchScore = calculateConceptMatchScore(concept1, concept2);
-        bestMatchScore = Math.max(bestMatchScore, matchScore);
-      }
-      
-      totalScore += bestMatchScore;
-    }
-    
-    return totalScore / maxPossibleScore;
-  };
-
-  // Extract advanced business concepts with full context
-  const extractAdvancedBusinessConcepts = (scenario: GherkinScenario): Array<{type: string, value: string, context: string}> => {
-    const title = scenario.title.toLowerCase();
-    const steps = scenario.steps.map(step => step.toLowerCase());
-    const fullText = `${title} ${steps.join(' ')}`;
-    const concepts: Array<{type: string, value: string, context: string}> = [];
-    
-    // Extract entities (users, systems, data)
-    const entities = extractEntities(fullText);
-    entities.forEach(entity => concepts.push({type: 'entity', value: entity, context: 'subject'}));
-    
-    // Extract actions (operations, behaviors)
-    const actions = extractActions(fullText);
-    actions.forEach(action => concepts.push({type: 'action', value: action, context: 'behavior'}));
-    
-    // Extract outcomes (results, validations)
-    const outcomes = extractOutcomes(fullText);
-    outcomes.forEach(outcome => concepts.push({type: 'outcome', value: outcome, context: 'result'}));
-    
-    // Extract conditions (preconditions, constraints)
-    const conditions = extractConditions(fullText);
-    conditions.forEach(condition => concepts.push({type: 'condition', value: condition, context: 'constraint'}));
-    
-    // Extract data variations (roles, environments, datasets)
-    const dataVariations = extractDataVariations(fullText);
-    dataVariations.forEach(variation => concepts.push({type: 'data_variation', value: variation, context: 'scope'}));
-    
-    return concepts;
-  };
-
-  // Extract entities from text
-  const extractEntities = (text: string): string[] => {
-    const entities: string[] = [];
-    
-    // User roles
-    if (text.includes('admin') || text.includes('administrator')) entities.push('admin_user');
-    if (text.includes('customer') || text.includes('client')) entities.push('customer_user');
-    if (text.includes('user') || text.includes('end user')) entities.push('general_user');
-    
-    // Systems and components
-    if (text.includes('api') || text.includes('endpoint')) entities.push('api_system');
-    if (text.includes('database') || text.includes('db')) entities.push('database_system');
-    if (text.includes('ui') || text.includes('interface')) entities.push('user_interface');
-    
-    // Data objects
-    if (text.includes('order') || text.includes('purchase')) entities.push('order_entity');
-    if (text.includes('product') || text.includes('item')) entities.push('product_entity');
-    if (text.includes('payment') || text.includes('transaction')) entities.push('payment_entity');
-    
-    return entities;
-  };
-
-  // Extract actions from text
-  const extractActions = (text: string): string[] => {
-    const actions: string[] = [];
-    
-    // CRUD operations
-    if (text.includes('create') || text.includes('add') || text.includes('insert')) actions.push('create_action');
-    if (text.includes('read') || text.includes('view') || text.includes('display')) actions.push('read_action');
-    if (text.includes('update') || text.includes('modify') || text.includes('edit')) actions.push('update_action');
-    if (text.includes('delete') || text.includes('remove') || text.includes('drop')) actions.push('delete_action');
-    
-    // User interactions
-    if (text.includes('click') || text.includes('select') || text.includes('choose')) actions.push('user_interaction');
-    if (text.includes('enter') || text.includes('type') || text.includes('input')) actions.push('data_input');
-    if (text.includes('navigate') || text.includes('browse') || text.includes('go to')) actions.push('navigation');
-    
-    // Business operations
-    if (text.includes('search') || text.includes('find') || text.includes('query')) actions.push('search_action');
-    if (text.includes('validate') || text.includes('verify') || text.includes('check')) actions.push('validation_action');
-    if (text.includes('process') || text.includes('handle') || text.includes('execute')) actions.push('processing_action');
-    
-    return actions;
-  };
-
-  // Extract outcomes from text
-  const extractOutcomes = (text: string): string[] => {
-    const outcomes: string[] = [];
-    
-    // Success outcomes
-    if (text.includes('success') || text.includes('completed') || text.includes('saved')) outcomes.push('success_outcome');
-    if (text.includes('displayed') || text.includes('shown') || text.includes('visible')) outcomes.push('display_outcome');
-    if (text.includes('created') || text.includes('added') || text.includes('inserted')) outcomes.push('creation_outcome');
-    
-    // Error outcomes
-    if (text.includes('error') || text.includes('failed') || text.includes('invalid')) outcomes.push('error_outcome');
-    if (text.includes('rejected') || text.includes('denied') || text.includes('blocked')) outcomes.push('rejection_outcome');
-    
-    // Validation outcomes
-    if (text.includes('validated') || text.includes('verified') || text.includes('confirmed')) outcomes.push('validation_outcome');
-    
-    return outcomes;
-  };
-
-  // Extract conditions from text
-  const extractConditions = (text: string): string[] => {
-    const conditions: string[] = [];
-    
-    // Authentication conditions
-    if (text.includes('logged in') || text.includes('authenticated')) conditions.push('auth_required');
-    if (text.includes('not logged in') || text.includes('anonymous')) conditions.push('auth_not_required');
-    
-    // Permission conditions
-    if (text.includes('admin role') || text.includes('admin permission')) conditions.push('admin_required');
-    if (text.includes('user role') || text.includes('user permission')) conditions.push('user_required');
-    
-    // Data conditions
-    if (text.includes('valid data') || text.includes('correct data')) conditions.push('valid_data_required');
-    if (text.includes('invalid data') || text.includes('incorrect data')) conditions.push('invalid_data_scenario');
-    
-    return conditions;
-  };
-
-  // Extract data variations from text
-  const extractDataVariations = (text: string): string[] => {
-    const variations: string[] = [];
-    
-    // User roles
-    if (text.includes('admin user') || text.includes('administrator')) variations.push('admin_role');
-    if (text.includes('customer user') || text.includes('client')) variations.push('customer_role');
-    if (text.includes('regular user') || text.includes('end user')) variations.push('regular_role');
-    
-    // Environments
-    if (text.includes('production') || text.includes('prod')) variations.push('production_env');
-    if (text.includes('staging') || text.includes('test')) variations.push('staging_env');
-    if (text.includes('development') || text.includes('dev')) variations.push('development_env');
-    
-    // Data sets
-    if (text.includes('large dataset') || text.includes('bulk data')) variations.push('large_data');
-    if (text.includes('small dataset') || text.includes('minimal data')) variations.push('small_data');
-    if (text.includes('empty dataset') || text.includes('no data')) variations.push('empty_data');
-    
-    return variations;
-  };
-
-  // Calculate concept match score with advanced logic
-  const calculateConceptMatchScore = (concept1: {type: string, value: string, context: string}, concept2: {type: string, value: string, context: string}): number => {
-    // Exact match gets perfect score
-    if (concept1.type === concept2.type && concept1.value === concept2.value) return 1.0;
-    
-    // Type match with similar value gets high score
-    if (concept1.type === concept2.type) {
-      return calculateValueSimilarity(concept1.value, concept2.value);
-    }
-    
-    // Related types get medium score
-    if (areTypesRelated(concept1.type, concept2.type)) {
-      return 0.6 * calculateValueSimilarity(concept1.value, concept2.value);
-    }
-    
-    return 0.0;
-  };
-
-  // Calculate value similarity
-  const calculateValueSimilarity = (value1: string, value2: string): number => {
-    if (value1 === value2) return 1.0;
-    
-    // Check if values are synonyms or related
-    const synonyms = {
-      'admin_user': ['administrator', 'admin', 'super_user'],
-      'customer_user': ['client', 'customer', 'end_customer'],
-      'create_action': ['add', 'insert', 'new', 'create'],
-      'update_action': ['modify', 'edit', 'change', 'update'],
-      'success_outcome': ['completed', 'saved', 'successful', 'success'],
-      'error_outcome': ['failed', 'error', 'invalid', 'rejected']
-    };
-    
-    for (const [key, values] of Object.entries(synonyms)) {
-      if (values.includes(value1) && values.includes(value2)) return 0.9;
-      if (values.includes(value1) && key === value2) return 0.8;
-      if (values.includes(value2) && key === value1) return 0.8;
-    }
-    
-    // Partial string matching
-    if (value1.includes(value2) || value2.includes(value1)) return 0.6;
-    
-    return 0.0;
-  };
-
-  // Check if types are related
-  const areTypesRelated = (type1: string, type2: string): boolean => {
-    const relatedTypes = {
-      'entity': ['action', 'outcome'],
-      'action': ['entity', 'outcome'],
-      'outcome': ['entity', 'action'],
-      'condition': ['entity', 'action'],
-      'data_variation': ['entity', 'action']
-    };
-    
-    return (relatedTypes as any)[type1]?.includes(type2) || (relatedTypes as any)[type2]?.includes(type1) || false;
-  };
-
-  // Extract business concepts from title
-  const extractBusinessConcepts = (title: string): string[] => {
-    const words = title.toLowerCase().split(/\s+/).filter(word => word.length > 2);
-    const concepts: string[] = [];
-    
-    // Group related words into business concepts
-    for (let i = 0; i < words.length; i++) {
-      if (words[i] === 'feature' && words[i + 1] === 'flag') {
-        concepts.push('feature_flag');
-        i++; // Skip next word
-      } else if (['user', 'admin', 'customer'].includes(words[i])) {
-        concepts.push('user_role');
-      } else if (['login', 'logout', 'authenticate'].includes(words[i])) {
-        concepts.push('authentication');
-      } else if (['create', 'add', 'insert'].includes(words[i])) {
-        concepts.push('create_operation');
-      } else if (['update', 'modify', 'edit'].includes(words[i])) {
-        concepts.push('update_operation');
-      } else if (['delete', 'remove'].includes(words[i])) {
-        concepts.push('delete_operation');
-      } else if (['search', 'find', 'query'].includes(words[i])) {
-        concepts.push('search_operation');
-      } else if (['on', 'off', 'enabled', 'disabled'].includes(words[i])) {
-        concepts.push('toggle_state');
-      } else {
-        concepts.push(words[i]);
-      }
-    }
-    
-    return concepts;
-  };
-
-  // Check if two business concepts are semantically similar
-  const conceptsAreSimilar = (concept1: string, concept2: string): boolean => {
-    if (concept1 === concept2) return true;
-    
-    // Group similar concepts
-    const conceptGroups = {
-      'create_operation': ['create', 'add', 'insert', 'new'],
-      'update_operation': ['update', 'modify', 'edit', 'change'],
-      'delete_operation': ['delete', 'remove', 'drop'],
-      'search_operation': ['search', 'find', 'query', 'lookup'],
-      'authentication': ['login', 'logout', 'authenticate', 'signin', 'signout'],
-      'toggle_state': ['on', 'off', 'enabled', 'disabled', 'active', 'inactive']
-    };
-    
-    // Check if concepts belong to same group
-    for (const [group, members] of Object.entries(conceptGroups)) {
-      if (members.includes(concept1) && members.includes(concept2)) {
-        return true;
-      }
-    }
-    
-    return false;
-  };
-
-  // Enhanced functional similarity - advanced business flow pattern recognition
-  const calculateEnhancedFunctionalSimilarity = (scenario1: GherkinScenario, scenario2: GherkinScenario): number => {
-    const steps1 = scenario1.steps.map(step => step.toLowerCase().trim());
-    const steps2 = scenario2.steps.map(step => step.toLowerCase().trim());
-    
-    if (steps1.length === 0 || steps2.length === 0) return 0;
-    
-    // Extract advanced functional patterns with business context
-    const patterns1 = extractAdvancedFunctionalPatterns(scenario1);
-    const patterns2 = extractAdvancedFunctionalPatterns(scenario2);
-    
-    // Calculate multi-dimensional pattern similarity
-    const similarityScores = {
-      structure: calculateStructureSimilarity(steps1, steps2),
-      flow: calculateFlowSimilarity(patterns1, patterns2),
-      actions: calculateActionSimilarity(patterns1, patterns2),
-      validation: calculateValidationSimilarity(patterns1, patterns2)
-    };
-    
-    // Weighted combination of similarity aspects
-    const weights = { structure: 0.25, flow: 0.35, actions: 0.25, validation: 0.15 };
-    const totalSimilarity = Object.entries(similarityScores).reduce((total, [key, value]) => {
-      return total + (value * (weights as any)[key]);
-    }, 0);
-    
-    return totalSimilarity;
-  };
-
-  // Extract advanced functional patterns with business context
-  const extractAdvancedFunctionalPatterns = (scenario: GherkinScenario): Array<{type: string, value: string, stepIndex: number}> => {
-    const steps = scenario.steps.map(step => step.toLowerCase().trim());
-    const patterns: Array<{type: string, value: string, stepIndex: number}> = [];
-    
-    for (let i = 0; i < steps.length; i++) {
-      const step = steps[i];
-      
-      // Gherkin structure patterns
-      if (step.includes('given')) {
-        patterns.push({type: 'structure', value: 'setup_condition', stepIndex: i});
-      } else if (step.includes('when')) {
-        patterns.push({type: 'structure', value: 'action_trigger', stepIndex: i});
-      } else if (step.includes('then')) {
-        patterns.push({type: 'structure', value: 'expected_outcome', stepIndex: i});
-      } else if (step.includes('and') || step.includes('but')) {
-        patterns.push({type: 'structure', value: 'additional_step', stepIndex: i});
-      }
-      
-      // Business action patterns
-      if (step.includes('clicks') || step.includes('selects') || step.includes('chooses')) {
-        patterns.push({type: 'action', value: 'user_interaction', stepIndex: i});
-      } else if (step.includes('enters') || step.includes('types') || step.includes('inputs')) {
-        patterns.push({type: 'action', value: 'data_input', stepIndex: i});
-      } else if (step.includes('navigates') || step.includes('browses') || step.includes('goes to')) {
-        patterns.push({type: 'action', value: 'navigation', stepIndex: i});
-      } else if (step.includes('submits') || step.includes('saves') || step.includes('confirms')) {
-        patterns.push({type: 'action', value: 'data_submission', stepIndex: i});
-      }
-      
-      // Validation patterns
-      if (step.includes('sees') || step.includes('verifies') || step.includes('confirms')) {
-        patterns.push({type: 'validation', value: 'positive_validation', stepIndex: i});
-      } else if (step.includes('does not see') || step.includes('cannot') || step.includes('fails to')) {
-        patterns.push({type: 'validation', value: 'negative_validation', stepIndex: i});
-      } else if (step.includes('receives') || step.includes('gets') || step.includes('obtains')) {
-        patterns.push({type: 'validation', value: 'result_validation', stepIndex: i});
-      }
-      
-      // Error handling patterns
-      if (step.includes('error') || step.includes('exception') || step.includes('failure')) {
-        patterns.push({type: 'error_handling', value: 'error_scenario', stepIndex: i});
-      } else if (step.includes('handles') || step.includes('catches') || step.includes('manages')) {
-        patterns.push({type: 'error_handling', value: 'error_management', stepIndex: i});
-      }
-      
-      // Data processing patterns
-      if (step.includes('processes') || step.includes('calculates') || step.includes('computes')) {
-        patterns.push({type: 'data_processing', value: 'data_computation', stepIndex: i});
-      } else if (step.includes('filters') || step.includes('sorts') || step.includes('groups')) {
-        patterns.push({type: 'data_processing', value: 'data_manipulation', stepIndex: i});
-      }
-    }
-    
-    return patterns;
-  };
-
-  // Calculate structure similarity
-  const calculateStructureSimilarity = (steps1: string[], steps2: string[]): number => {
-    if (steps1.length === 0 || steps2.length === 0) return 0;
-    
-    const maxSteps = Math.max(steps1.length, steps2.length);
-    let matchingSteps = 0;
-    
-    for (let i = 0; i < Math.min(steps1.length, steps2.length); i++) {
-      const step1 = steps1[i];
-      const step2 = steps2[i];
-      
-      // Check if steps have similar Gherkin structure
-      if (step1.includes('given') && step2.includes('given')) matchingSteps++;
-      else if (step1.includes('when') && step2.includes('when')) matchingSteps++;
-      else if (step1.includes('then') && step2.includes('then')) matchingSteps++;
-      else if (step1.includes('and') && step2.includes('and')) matchingSteps++;
-      else if (step1.includes('but') && step2.includes('but')) matchingSteps++;
-    }
-    
-    return matchingSteps / maxSteps;
-  };
-
-  // Calculate flow similarity
-  const calculateFlowSimilarity = (patterns1: Array<{type: string, value: string, stepIndex: number}>, patterns2: Array<{type: string, value: string, stepIndex: number}>): number => {
-    if (patterns1.length === 0 || patterns2.length === 0) return 0;
-    
-    // Extract flow sequence
-    const flow1 = patterns1.map(p => p.value);
-    const flow2 = patterns2.map(p => p.value);
-    
-    // Calculate longest common subsequence
-    const lcs = calculateLongestCommonSubsequence(flow1, flow2);
-    return lcs / Math.max(flow1.length, flow2.length);
-  };
-
-  // Calculate action similarity
-  const calculateActionSimilarity = (patterns1: Array<{type: string, value: string, stepIndex: number}>, patterns2: Array<{type: string, value: string, stepIndex: number}>): number => {
-    const actions1 = patterns1.filter(p => p.type === 'action').map(p => p.value);
-    const actions2 = patterns2.filter(p => p.type === 'action').map(p => p.value);
-    
-    if (actions1.length === 0 || actions2.length === 0) return 0;
-    
-    const commonActions = actions1.filter(action1 => 
-      actions2.some(action2 => actionsAreSimilar(action1, action2))
-    );
-    
-    return commonActions.length / Math.max(actions1.length, actions2.length);
-  };
-
-  // Calculate validation similarity
-  const calculateValidationSimilarity = (patterns1: Array<{type: string, value: string, stepIndex: number}>, patterns2: Array<{type: string, value: string, stepIndex: number}>): number => {
-    const validations1 = patterns1.filter(p => p.type === 'validation').map(p => p.value);
-    const validations2 = patterns2.filter(p => p.type === 'validation').map(p => p.value);
-    
-    if (validations1.length === 0 || validations2.length === 0) return 0;
-    
-    const commonValidations = validations1.filter(validation1 => 
-      validations2.some(validation2 => validationsAreSimilar(validation1, validation2))
-    );
-    
-    return commonValidations.length / Math.max(validations1.length, validations2.length);
-  };
-
-  // Calculate longest common subsequence
-  const calculateLongestCommonSubsequence = (arr1: string[], arr2: string[]): number => {
-    const m = arr1.length;
-    const n = arr2.length;
-    const dp = Array(m + 1).fill(null).map(() => Array(n + 1).fill(0));
+  const calculatePhraseMatch = (phrases1: string[], phrases2: string[]): number => {
+    if (phrases1.length === 0 || phrases2.length === 0) return 0.0;
     
-    for (let i = 1; i <= m; i++) {
-      for (let j = 1; j <= n; j++) {
-        if (arr1[i - 1] === arr2[j - 1]) {
-          dp[i][j] = dp[i - 1][j - 1] + 1;
-        } else {
-          dp[i][j] = Math.max(dp[i - 1][j], dp[i][j - 1]);
+    let matches = 0;
+    for (const phrase1 of phrases1) {
+      for (const phrase2 of phrases2) {
+        if (phrase1 === phrase2) {
+          matches++;
+          break;
         }
       }
     }
     
-    return dp[m][n];
+    return matches / Math.max(phrases1.length, phrases2.length);
   };
-
-  // Check if actions are similar
-  const actionsAreSimilar = (action1: string, action2: string): boolean => {
-    if (action1 === action2) return true;
+  
+  // Calculate word overlap (simple but effective)
+  const calculateWordOverlap = (title1: string, title2: string): number => {
+    const words1 = normalizedWords(title1);
+    const words2 = normalizedWords(title2);
     
-    const actionGroups = {
-      'user_interaction': ['click', 'select', 'choose', 'press'],
-      'data_input': ['enter', 'type', 'input', 'fill'],
-      'navigation': ['navigate', 'browse', 'go to', 'visit'],
-      'data_submission': ['submit', 'save', 'confirm', 'send']
-    };
+    if (words1.length === 0 || words2.length === 0) return 0.0;
     
-    for (const [group, members] of Object.entries(actionGroups)) {
-      if (members.includes(action1) && members.includes(action2)) return true;
+    let matches = 0;
+    for (const word1 of words1) {
+      for (const word2 of words2) {
+        if (word1 === word2) {
+          matches++;
+          break;
+        }
+      }
     }
     
-    return false;
+    return matches / Math.max(words1.length, words2.length);
   };
 
-  // Check if validations are similar
-  const validationsAreSimilar = (validation1: string, validation2: string): boolean => {
-    if (validation1 === validation2) return true;
-    
-    const validationGroups = {
-      'positive_validation': ['sees', 'verifies', 'confirms', 'observes'],
-      'negative_validation': ['does not see', 'cannot', 'fails to', 'is unable to'],
-      'result_validation': ['receives', 'gets', 'obtains', 'retrieves']
-    };
+  // Extract business concepts from title
+  const extractBusinessConcepts = (title: string): string[] => {
+    const words = title.toLowerCase().split(/\s+/).filter(word => word.length > 2);
+    const concepts: string[] = [];
     
-    for (const [group, members] of Object.entries(validationGroups)) {
-      if (members.includes(validation1) && members.includes(validation2)) return true;
+    // Group related words into business concepts
+    for (let i = 0; i < words.length; i++) {
+      if (words[i] === 'feature' && words[i + 1] === 'flag') {
+        concepts.push('feature_flag');
+        i++; // Skip next word
+      } else if (['user', 'admin', 'customer'].includes(words[i])) {
+        concepts.push('user_role');
+      } else if (['login', 'logout', 'authenticate'].includes(words[i])) {
+        concepts.push('authentication');
+      } else if (['create', 'add', 'insert'].includes(words[i])) {
+        concepts.push('create_operation');
+      } else if (['update', 'modify', 'edit'].includes(words[i])) {
+        concepts.push('update_operation');
+      } else if (['delete', 'remove'].includes(words[i])) {
+        concepts.push('delete_operation');
+      } else if (['search', 'find', 'query'].includes(words[i])) {
+        concepts.push('search_operation');
+      } else if (['on', 'off', 'enabled', 'disabled'].includes(words[i])) {
+        concepts.push('toggle_state');
+      } else {
+        concepts.push(words[i]);
+      }
     }
     
-    return false;
+    return concepts;
   };
 
   // Extract functional patterns from steps
@@ -2910,99 +996,6 @@ function App() {
     return Math.min(0.15, boost); // Cap boost at 15%
   };
 
-  // ACCURATE & RELIABLE: Threshold based on proven similarity algorithm
-  const calculateDynamicThreshold = (sourceCount: number, qaCount: number, sourceScenario: GherkinScenario, bestMatch: GherkinScenario | null): number => {
-    // Simple, effective threshold calculation
-    let baseThreshold = 0.70; // 70% similarity required for good confidence
-    
-    // Adjust based on dataset characteristics
-    const ratio = qaCount / sourceCount;
-    if (ratio < 0.3) {
-      // Few QA scenarios relative to source - be more lenient
-      baseThreshold -= 0.10;
-    } else if (ratio > 0.8) {
-      // Many QA scenarios relative to source - be slightly more strict
-      baseThreshold += 0.05;
-    }
-    
-    // Feature Flag scenarios - lower threshold to catch variations
-    const isFeatureFlag = sourceScenario.title.toLowerCase().includes('feature flag') || 
-                         sourceScenario.steps.some(step => step.toLowerCase().includes('feature flag'));
-    
-    if (isFeatureFlag) {
-      baseThreshold -= 0.10;
-    }
-    
-    // Ensure threshold stays within reasonable bounds
-    return Math.max(0.55, Math.min(0.80, baseThreshold));
-  };
-
-  // SMART: Enhanced analysis with Feature Flag intelligence - SIMPLIFIED & FIXED
-  const performAnalysis = (sourceScenarios: GherkinScenario[], qaScenarios: GherkinScenario[]): AnalysisResult => {
-    const overlap: GherkinScenario[] = [];
-    const missing: GherkinScenario[] = [];
-    const matchedQATitles = new Set<string>();
-    
-          // SIMPLIFIED: Single pass through source scenarios with smart matching
-      for (const sourceScenario of sourceScenarios) {
-        let bestMatch: GherkinScenario | null = null;
-        let bestSimilarity = 0;
-        
-        // Find the best matching QA scenario
-        for (const qaScenario of qaScenarios) {
-          const similarity = calculateUltimateSimilarity(sourceScenario, qaScenario);
-          
-          if (similarity > bestSimilarity) {
-            bestSimilarity = similarity;
-            bestMatch = qaScenario;
-          }
-        }
-        
-        // Dynamic thresholding based on scenario characteristics and dataset size
-        const dynamicThreshold = calculateDynamicThreshold(sourceScenarios.length, qaScenarios.length, sourceScenario, bestMatch);
-        
-        // 🧠 DEBUG: Log similarity scores to understand why scenarios are missing
-        console.log(`🔍 SIMILARITY DEBUG: "${sourceScenario.title.substring(0, 50)}..." - Best: ${bestSimilarity.toFixed(3)}, Threshold: ${dynamicThreshold.toFixed(3)}, Match: ${bestMatch?.title.substring(0, 30) || 'NONE'}`);
-        
-        // 🧠 SIMPLIFIED DEBUG: Show key similarity components
-        if (bestMatch) {
-          const titleSimilarity = calculateTitleSimilarity(sourceScenario.title, bestMatch.title);
-          const words1 = sourceScenario.title.toLowerCase().split(/\s+/).filter(word => word.length > 2);
-          const words2 = bestMatch.title.toLowerCase().split(/\s+/).filter(word => word.length > 2);
-          const commonWords = words1.filter(word => words2.includes(word));
-          console.log(`   📝 Title Similarity: ${titleSimilarity.toFixed(3)}, Common Words: ${commonWords.join(', ') || 'None'}`);
-        }
-        
-        if (bestMatch && bestSimilarity > dynamicThreshold) {
-          overlap.push(sourceScenario);
-          matchedQATitles.add(bestMatch.title);
-          console.log(`✅ MATCHED: "${sourceScenario.title}" with "${bestMatch.title}" (similarity: ${bestSimilarity.toFixed(3)}, threshold: ${dynamicThreshold.toFixed(3)})`);
-        } else {
-          // No good match found, add to missing
-          missing.push(sourceScenario);
-          console.log(`❌ MISSING: "${sourceScenario.title}" (best similarity: ${bestSimilarity.toFixed(3)}, threshold: ${dynamicThreshold.toFixed(3)})`);
-        }
-      }
-    
-    // Find unmatched QA scenarios
-    const unmatchedQAScenarios = qaScenarios.filter(qa => !matchedQATitles.has(qa.title));
-    
-    // Calculate coverage based on source scenarios only
-    const coverage = sourceScenarios.length > 0 ? Math.round((overlap.length / sourceScenarios.length) * 100) : 0;
-    
-    // 🧠 DEBUG: Log final analysis results
-    console.log(`📊 ANALYSIS SUMMARY: Source: ${sourceScenarios.length}, QA: ${qaScenarios.length}, Overlap: ${overlap.length}, Missing: ${missing.length}, Coverage: ${coverage}%`);
-    
-    return {
-      sourceScenarios: sourceScenarios,
-      qaScenarios: qaScenarios,
-      missing: missing,
-      overlap: overlap,
-      coverage: coverage,
-      unmatchedQAScenarios: unmatchedQAScenarios
-    };
-  };
-
   // Helper functions for duplicate detection
   const findSimilarScenarios = (sourceTitle: string, qaTitles: string[]): string[] => {
     const sourceWords = sourceTitle.toLowerCase().split(/\s+/);
@@ -3035,343 +1028,353 @@ function App() {
     return matches;
   };
 
-  const analyzeWorkflows = (scenarios: GherkinScenario[]): WorkflowAnalysis[] => {
-    const missingScenarios = analysis?.missing || [];
-    
-    const workflowMap = new Map<string, GherkinScenario[]>();
-    
-    missingScenarios.forEach(scenario => {
-      const workflow = scenario.workflow || 'General Business Processes';
-      
-      if (!workflowMap.has(workflow)) {
-        workflowMap.set(workflow, []);
+  // Worker tasks: only one runs at a time, and starting a new one cancels the previous
+  const runWorkerTask = async <T,>(task: WorkerTask<T>): Promise<{ result: T | null; superseded: boolean }> => {
+    activeTask.current?.cancel();
+    activeTask.current = task;
+    let result: T | null = null;
+    try {
+      result = await task.promise;
+    } catch (error) {
+      if (!isAnalysisCancelled(error)) {
+        console.error('Analysis worker failed:', error);
+        alert(`Analysis failed: ${error instanceof Error ? error.message : String(error)}`);
       }
-      workflowMap.get(workflow)!.push(scenario);
-    });
-    
-    return Array.from(workflowMap.entries()).map(([workflow, workflowScenarios]) => {
-      const missingScenarios = workflowScenarios.length;
-      
-      const totalScenariosInWorkflow = scenarios.filter(s => s.workflow === workflow).length;
-      const coveredScenarios = totalScenariosInWorkflow - missingScenarios;
-      const coverage = totalScenariosInWorkflow > 0 ? Math.round((coveredScenarios / totalScenariosInWorkflow) * 100) : 0;
-      
-      return {
-        workflow,
-        totalScenarios: totalScenariosInWorkflow,
-        coveredScenarios,
-        missingScenarios,
-        coverage,
-        missingScenariosList: workflowScenarios
+    }
+    const superseded = activeTask.current !== task;
+    if (!superseded) {
+      activeTask.current = null;
+      setAnalysisProgress(null);
+    }
+    return { result, superseded };
+  };
+
+  const handleCancelAnalysis = () => {
+    activeTask.current?.cancel();
+  };
+
+  // Event handlers
+  // Each file is parsed on its own so language detection, line numbers and diagnostics stay per file.
+  // Resolves to null when the parse was cancelled or replaced by a newer one.
+  const parseFeatureFiles = async (files: FeatureFileSource[], language: string): Promise<ParsedFeatureFile[] | null> => {
+    // A running match is cancelled by the re-parse, so it no longer owns the analyzing flag
+    setIsAnalyzing(false);
+    setAnalysisProgress({ phase: 'parsing', processed: 0, total: files.length });
+    const { result } = await runWorkerTask(parseInWorker(files, language, setAnalysisProgress));
+    return result;
+  };
+
+  // Opens the column-mapping wizard for a spreadsheet; resolves with null when the file is skipped
+  const askSpreadsheetMapping = (fileName: string, table: SpreadsheetTable, language: string): Promise<ColumnMapping | null> => {
+    setSpreadsheetMappingRequest({ fileName, table, language, mapping: loadSpreadsheetMapping(table.header) || guessColumnMapping(table.header) });
+    return new Promise<ColumnMapping | null>(resolve => {
+      pendingSpreadsheetMapping.current = (mapping: ColumnMapping | null) => {
+        setSpreadsheetMappingRequest(null);
+        pendingSpreadsheetMapping.current = null;
+        resolve(mapping);
       };
-    }).sort((a, b) => b.totalScenarios - a.totalScenarios);
+    });
   };
 
-  // Duplicate detection functions
-  const findDuplicateScenarios = (qaScenarios: GherkinScenario[]): DuplicateAnalysis => {
-    const duplicates: Array<{
-      group: string;
-      scenarios: GherkinScenario[];
-      similarity: number;
-      reason: string;
-      actionableInsights: string[];
-      recommendations: string[];
-    }> = [];
-    
-    const processed = new Set<number>();
-    let exactMatches = 0;
-    let highSimilarity = 0;
-    let mediumSimilarity = 0;
-    
-    for (let i = 0; i < qaScenarios.length; i++) {
-      if (processed.has(i)) continue;
-      
-      const currentGroup: GherkinScenario[] = [qaScenarios[i]];
-      processed.add(i);
-      
-      for (let j = i + 1; j < qaScenarios.length; j++) {
-        if (processed.has(j)) continue;
-        
-        if (qaScenarios[i].title.toLowerCase().trim() === qaScenarios[j].title.toLowerCase().trim()) {
-          currentGroup.push(qaScenarios[j]);
-          processed.add(j);
-          exactMatches++;
-        }
-      }
-      
-      if (currentGroup.length > 1) {
-        duplicates.push({
-          group: `Exact Match Group ${duplicates.length + 1}`,
-          scenarios: currentGroup,
-          similarity: 100,
-          reason: 'Identical scenario titles',
-          actionableInsights: generateActionableInsights(currentGroup, 100),
-          recommendations: generateRecommendations(currentGroup, 100)
-        });
+  const readSpreadsheetFiles = async (files: File[], language: string): Promise<FeatureFileSource[]> => {
+    const sources: FeatureFileSource[] = [];
+    for (const file of files) {
+      let table: SpreadsheetTable;
+      try {
+        table = await readSpreadsheet(file);
+      } catch (error) {
+        alert(`Could not read ${file.name}: ${error instanceof Error ? error.message : String(error)}`);
+        continue;
       }
+      const mapping = await askSpreadsheetMapping(file.name, table, language);
+      if (!mapping) continue;
+      // The report hashes the .csv / .xlsx as uploaded, not the rows re-serialized into content
+      const digest = await digestFileData(new Uint8Array(await file.arrayBuffer()));
+      sources.push({ path: file.name, content: spreadsheetContent(table), spreadsheet: { ...table, mapping }, ...digest });
     }
-    
-    for (let i = 0; i < qaScenarios.length; i++) {
-      if (processed.has(i)) continue;
-      
-      const currentGroup: GherkinScenario[] = [qaScenarios[i]];
-      processed.add(i);
-      
-      for (let j = i + 1; j < qaScenarios.length; j++) {
-        if (processed.has(j)) continue;
-        
-        const similarity = calculateSimilarity(qaScenarios[i], qaScenarios[j]);
-        if (similarity >= 80) {
-          currentGroup.push(qaScenarios[j]);
-          processed.add(j);
-          highSimilarity++;
-        }
-      }
-      
-      if (currentGroup.length > 1) {
-        const avgSimilarity = currentGroup.reduce((sum, _, index) => {
-          if (index === 0) return 100;
-          return sum + calculateSimilarity(currentGroup[0], currentGroup[index]);
-        }, 0) / currentGroup.length;
-        
-        duplicates.push({
-          group: `High Similarity Group ${duplicates.length + 1}`,
-          scenarios: currentGroup,
-          similarity: Math.round(avgSimilarity),
-          reason: 'Very similar scenarios with minor variations',
-          actionableInsights: generateActionableInsights(currentGroup, avgSimilarity),
-          recommendations: generateRecommendations(currentGroup, avgSimilarity)
-        });
-      }
+    return sources;
+  };
+
+  const readUploadedFeatureFiles = async (event: React.ChangeEvent<HTMLInputElement>, language = ''): Promise<FeatureFileSource[]> => {
+    if (!event.target.files || event.target.files.length === 0) return [];
+    const selected = Array.from(event.target.files);
+    // Spreadsheets are only read when picked directly, not from folders or archives
+    const spreadsheets = selected.filter(file => !file.webkitRelativePath && hasExtension(file.name, SPREADSHEET_FILE_EXTENSIONS));
+    let featureFiles: FeatureFileSource[];
+    try {
+      featureFiles = await collectFeatureFiles(selected);
+    } catch (error) {
+      alert(error instanceof Error ? error.message : String(error));
+      return [];
+    } finally {
+      // Allow picking the same files again after editing them
+      event.target.value = '';
     }
-    
-    for (let i = 0; i < qaScenarios.length; i++) {
-      if (processed.has(i)) continue;
-      
-      const currentGroup: GherkinScenario[] = [qaScenarios[i]];
-      processed.add(i);
-      
-      for (let j = i + 1; j < qaScenarios.length; j++) {
-        if (processed.has(j)) continue;
-        
-        const similarity = calculateSimilarity(qaScenarios[i], qaScenarios[j]);
-        if (similarity >= 70) {
-          const stepsSimilarity = calculateStepsSimilarity(qaScenarios[i], qaScenarios[j]);
-          if (stepsSimilarity >= 60) {
-            currentGroup.push(qaScenarios[j]);
-            processed.add(j);
-            mediumSimilarity++;
-          }
-        }
-      }
-      
-      if (currentGroup.length > 1) {
-        const avgSimilarity = currentGroup.reduce((sum, _, index) => {
-          if (index === 0) return 100;
-          return sum + calculateSimilarity(currentGroup[0], currentGroup[index]);
-        }, 0) / currentGroup.length;
-        
-        duplicates.push({
-          group: `Medium Similarity Group ${duplicates.length + 1}`,
-          scenarios: currentGroup,
-          similarity: Math.round(avgSimilarity),
-          reason: 'Similar scenarios that could be consolidated',
-          actionableInsights: generateActionableInsights(currentGroup, avgSimilarity),
-          recommendations: generateRecommendations(currentGroup, avgSimilarity)
-        });
-      }
+    const files = [...featureFiles, ...await readSpreadsheetFiles(spreadsheets, language)].sort((a, b) => a.path.localeCompare(b.path));
+    if (files.length === 0 && spreadsheets.length === 0) {
+      alert('No .feature, .gherkin, .csv or .xlsx files were found in the selection.');
     }
-    
-    const totalDuplicates = duplicates.reduce((sum, group) => sum + group.scenarios.length - 1, 0);
-    const uniqueScenarios = qaScenarios.length - totalDuplicates;
-    const optimizationPotential = Math.min(50, Math.round((totalDuplicates / qaScenarios.length) * 100));
-    
-    return {
-      duplicates,
-      totalDuplicates,
-      optimizationPotential,
-      totalScenariosScanned: qaScenarios.length,
-      uniqueScenarios,
-      duplicateTypes: {
-        exactMatches,
-        highSimilarity,
-        mediumSimilarity
-      }
-    };
+    return files;
   };
 
-  const generateActionableInsights = (scenarios: GherkinScenario[], similarity: number): string[] => {
-    const insights: string[] = [];
-    
-    if (similarity >= 90) {
-      insights.push('Consider consolidating into a single parameterized test');
-      insights.push('Use scenario outlines with examples for data variations');
-      insights.push('Implement shared step definitions to reduce duplication');
-    } else if (similarity >= 75) {
-      insights.push('Review if scenarios test different business rules');
-      insights.push('Consider using tags to group related test scenarios');
-      insights.push('Evaluate if some scenarios can be removed');
-    } else {
-      insights.push('Assess if scenarios cover different edge cases');
-      insights.push('Consider consolidating similar test flows');
-      insights.push('Review test data requirements for each scenario');
-    }
-    
-    return insights;
+  // Applies the project's overrides to a complete analysis and records the ones that no longer apply
+  const withMatchOverrides = (result: AnalysisResult, overrides: MatchOverride[]): AnalysisResult => {
+    const outcome = applyMatchOverrides(applyCoverageMode(result, coverageMode, stepMatching), overrides);
+    setStaleOverrides(outcome.stale);
+    setConflictingPins(outcome.conflicts);
+    return outcome.result;
   };
 
-  const generateRecommendations = (scenarios: GherkinScenario[], similarity: number): string[] => {
-    const recommendations: string[] = [];
-    
-    if (similarity >= 90) {
-      recommendations.push('Merge scenarios and use data-driven testing');
-      recommendations.push('Create reusable step definitions');
-      recommendations.push('Implement test data factories');
-    } else if (similarity >= 75) {
-      recommendations.push('Review business requirements for each scenario');
-      recommendations.push('Consider using scenario outlines');
-      recommendations.push('Implement shared test utilities');
-    } else {
-      recommendations.push('Document why each scenario is needed');
-      recommendations.push('Review test coverage gaps');
-      recommendations.push('Consider using tags for organization');
+  // Partial results are shown as matching batches stream in; a cancelled run keeps the last partial result.
+  // Overrides are only applied once matching completes, since stale ones can't be told apart before that.
+  const runCoverageAnalysis = async (source: ParsedFeatureFile[], qa: ParsedFeatureFile[], semantic = semanticMatching) => {
+    const sourceScenarios = source.flatMap(file => file.scenarios);
+    let semanticConfig: EmbeddingProviderConfig | undefined;
+    if (semantic === 'gemini') {
+      const apiKey = await ensureGeminiKey();
+      if (apiKey) semanticConfig = { kind: 'gemini', apiKey };
+      else alert('Semantic matching needs a Gemini API key; running title matching only.');
+    } else if (semantic === 'fake') {
+      semanticConfig = { kind: 'fake' };
+    }
+    setIsAnalyzing(true);
+    setAnalysis(null);
+    setUnadjustedAnalysis(null);
+    setStaleOverrides([]);
+    setConflictingPins([]);
+    setAdjudicationQueue([]);
+    setAdjudicationProgress(null);
+    adjudicationRun.current++;
+    setAnalysisProgress({ phase: 'matching', processed: 0, total: sourceScenarios.length });
+    const { result, superseded } = await runWorkerTask(
+      analyzeInWorker(
+        sourceScenarios,
+        qa.flatMap(file => file.scenarios),
+        setAnalysisProgress,
+        partial => setAnalysis(applyCoverageMode(partial, coverageMode, stepMatching)),
+        semanticConfig,
+        message => alert(message),
+        DEBUG_MATCHING
+      )
+    );
+    if (superseded) return;
+    setIsAnalyzing(false);
+    if (result) {
+      setUnadjustedAnalysis(result);
+      setAnalysis(withMatchOverrides(result, matchOverrides));
     }
-    
-    return recommendations;
   };
 
-  const calculateSimilarity = (scenario1: GherkinScenario, scenario2: GherkinScenario): number => {
-    const title1 = scenario1.title.toLowerCase().trim();
-    const title2 = scenario2.title.toLowerCase().trim();
-    
-    if (title1 === title2) return 100;
-    
-    const titleSimilarity = calculateTitleSimilarity(title1, title2);
-    const stepsSimilarity = calculateStepsSimilarity(scenario1, scenario2);
-    
-    const overallSimilarity = (titleSimilarity * 0.5) + (stepsSimilarity * 0.5);
-    return Math.round(overallSimilarity);
+  const updateMatchOverrides = (overrides: MatchOverride[]) => {
+    setMatchOverrides(overrides);
+    saveMatchOverrides(projectName, overrides);
+    if (unadjustedAnalysis) setAnalysis(withMatchOverrides(unadjustedAnalysis, overrides));
   };
 
-  const calculateTitleSimilarity = (title1: string, title2: string): number => {
-    const words1 = title1.split(/\s+/).filter(word => word.length > 2);
-    const words2 = title2.split(/\s+/).filter(word => word.length > 2);
-    
-    if (words1.length === 0 || words2.length === 0) return 0;
-    
-    let matches = 0;
-    let totalWords = Math.max(words1.length, words2.length);
-    
-    for (const word1 of words1) {
-      for (const word2 of words2) {
-        if (word1 === word2) {
-          matches += 2;
-        } else if (word1.includes(word2) || word2.includes(word1)) {
-          matches += 1;
-        }
-      }
+  const handlePinMatch = (scenario: GherkinScenario, qaIndex: number) => {
+    if (!analysis) return;
+    const qa = analysis.qaScenarios[qaIndex];
+    updateMatchOverrides(upsertMatchOverride(matchOverrides, { kind: 'pin', source: scenarioRef(scenario), qa: scenarioRef(qa), createdAt: new Date().toISOString() }));
+    setPinningScenario(null);
+  };
+
+  const handleRejectMatch = (scenario: GherkinScenario, qaIndex: number) => {
+    if (!analysis) return;
+    const qa = analysis.qaScenarios[qaIndex];
+    updateMatchOverrides(upsertMatchOverride(matchOverrides, { kind: 'reject', source: scenarioRef(scenario), qa: scenarioRef(qa), createdAt: new Date().toISOString() }));
+  };
+
+  // Drops the overrides of one kind for a source scenario, optionally only for one QA scenario
+  const handleRemoveOverride = (scenario: GherkinScenario, kind: MatchOverride['kind'], qaIndex?: number) => {
+    if (!analysis) return;
+    const source = scenarioRef(scenario);
+    const qa = qaIndex === undefined ? null : scenarioRef(analysis.qaScenarios[qaIndex]);
+    updateMatchOverrides(removeMatchOverrides(matchOverrides, matchOverrides.filter(override =>
+      override.kind === kind && sameRef(override.source, source) && (!qa || sameRef(override.qa, qa))
+    )));
+  };
+
+  // Asks Gemini about the matches in the profile's borderline band; verdicts wait in the review queue
+  const handleAdjudicate = async () => {
+    if (!analysis) return;
+    const pairs = findBorderlinePairs(analysis, matchingProfile.adjudication);
+    if (pairs.length === 0) {
+      alert(`No best matches score between ${matchingProfile.adjudication.bandMin} and ${matchingProfile.adjudication.bandMax}.`);
+      return;
+    }
+    const apiKey = await ensureGeminiKey();
+    if (!apiKey) return;
+    const run = ++adjudicationRun.current;
+    adjudicationCancelled.current = false;
+    const { verdicts, errors } = await adjudicatePairs(apiKey, analysis, pairs, {
+      batchSize: matchingProfile.adjudication.batchSize,
+      onProgress: (processed, total) => setAdjudicationProgress({ processed, total }),
+      isCancelled: () => adjudicationCancelled.current || adjudicationRun.current !== run
+    });
+    if (adjudicationRun.current !== run) return;
+    setAdjudicationProgress(null);
+    // A cancelled run still queues the verdicts of the batches that completed
+    setAdjudicationQueue(verdicts);
+    if (errors.length > 0) {
+      appLog('[ai] adjudication errors:', errors);
+      alert(`Some borderline pairs could not be adjudicated:\n${errors.join('\n')}`);
     }
-    
-    return Math.min(100, (matches / totalWords) * 100);
   };
 
-  const calculateStepsSimilarity = (scenario1: GherkinScenario, scenario2: GherkinScenario): number => {
-    const steps1 = scenario1.steps.map(step => step.toLowerCase().trim());
-    const steps2 = scenario2.steps.map(step => step.toLowerCase().trim());
-    
-    if (steps1.length === 0 || steps2.length === 0) return 0;
-    
-    let totalSimilarity = 0;
-    const maxSteps = Math.max(steps1.length, steps2.length);
-    
-    for (let i = 0; i < Math.min(steps1.length, steps2.length); i++) {
-      const step1 = steps1[i];
-      const step2 = steps2[i];
-      
-      if (step1 === step2) {
-        totalSimilarity += 100;
-      } else {
-        const stepSimilarity = calculateTitleSimilarity(step1, step2);
-        totalSimilarity += stepSimilarity;
-      }
+  // Accepted verdicts become overrides: a match pins the pair, a non-match rules it out
+  const handleAcceptVerdicts = (verdicts: AdjudicationVerdict[]) => {
+    if (!analysis) return;
+    const createdAt = new Date().toISOString();
+    updateMatchOverrides(verdicts.reduce((overrides, verdict) => upsertMatchOverride(overrides, {
+      kind: verdict.match ? 'pin' : 'reject',
+      source: scenarioRef(analysis.sourceScenarios[verdict.sourceIndex]),
+      qa: scenarioRef(analysis.qaScenarios[verdict.qaIndex]),
+      createdAt,
+      reason: verdict.reason
+    }), matchOverrides));
+    handleDismissVerdicts(verdicts);
+  };
+
+  const handleDismissVerdicts = (verdicts: AdjudicationVerdict[]) =>
+    setAdjudicationQueue(queue => queue.filter(verdict => !verdicts.includes(verdict)));
+
+  // Whether the current analysis (partially) covers the verdict's source scenario with its QA scenario
+  const isVerdictMatched = (verdict: AdjudicationVerdict): boolean => {
+    const source = analysis?.sourceScenarios[verdict.sourceIndex];
+    return !!source && !analysis!.missing.includes(source) && getMatchedQAIndex(source) === verdict.qaIndex;
+  };
+
+  // A new profile changes every score, so a finished analysis is re-run with it
+  const handleProfileSave = async (profile: MatchingProfile) => {
+    setMatchingProfile(profile);
+    setMatchingProfileState(profile);
+    saveStoredMatchingProfile(profile);
+    setShowProfileSettings(false);
+    if (analysis && sourceParses.length > 0 && qaParses.length > 0) {
+      await runCoverageAnalysis(sourceParses, qaParses);
     }
-    
-    return Math.round(totalSimilarity / maxSteps);
   };
 
-  // Progress simulation functions
-  const simulateAnalysisProgress = async () => {
-    setIsAnalyzing(true);
-    setAiProgress(0);
-    
-    await new Promise(resolve => setTimeout(resolve, 800));
-    setAiProgress(25);
-    
-    await new Promise(resolve => setTimeout(resolve, 600));
-    setAiProgress(50);
-    
-    await new Promise(resolve => setTimeout(resolve, 500));
-    setAiProgress(75);
-    
-    await new Promise(resolve => setTimeout(resolve, 400));
-    setAiProgress(100);
-    
-    await new Promise(resolve => setTimeout(resolve, 300));
-    setIsAnalyzing(false);
-    setAiProgress(0);
+  const handleProjectChange = (name: string) => {
+    const project = name.trim() || DEFAULT_PROJECT;
+    if (project === projectName) return;
+    const overrides = loadMatchOverrides(project);
+    setProjectName(project);
+    saveActiveProject(project);
+    setMatchOverrides(overrides);
+    if (unadjustedAnalysis) setAnalysis(withMatchOverrides(unadjustedAnalysis, overrides));
   };
 
-  const simulateDuplicateAnalysisProgress = async () => {
-    setIsAiAnalyzing(true);
-    
-    await new Promise(resolve => setTimeout(resolve, 1500));
-    
-    setIsAiAnalyzing(false);
+  // QA scenario a source scenario is matched to in the current mode, or -1
+  const getMatchedQAIndex = (scenario: GherkinScenario): number => {
+    const index = sourceIndex.get(scenario);
+    if (!analysis || index === undefined) return -1;
+    if (analysis.mode === 'strict' && analysis.strictMatches) return analysis.strictMatches[index];
+    return analysis.explanations[index].best?.qaIndex ?? -1;
+  };
+
+  const handleCoverageModeChange = (mode: CoverageMode) => {
+    setCoverageMode(mode);
+    setAnalysis(previous => previous && applyCoverageMode(previous, mode));
+  };
+
+  // Embeddings change every score, so the analysis is re-run with the new provider
+  const handleSemanticMatchingChange = async (semantic: typeof semanticMatching) => {
+    setSemanticMatching(semantic);
+    if (sourceParses.length > 0 && qaParses.length > 0) await runCoverageAnalysis(sourceParses, qaParses, semantic);
+  };
+
+  const handleStepMatchingChange = (enabled: boolean) => {
+    setStepMatching(enabled);
+    setAnalysis(previous => previous && applyCoverageMode(previous, previous.mode, enabled));
+  };
+
+  // Steps of a source scenario that its match (in the current mode) never asserts
+  const getUnassertedSteps = (scenario: GherkinScenario) => {
+    if (!analysis) return [];
+    const alignments = analysis.mode === 'strict' && analysis.stepAlignments.strict ? analysis.stepAlignments.strict : analysis.stepAlignments.lenient;
+    return alignments[sourceIndex.get(scenario) ?? -1]?.unassertedSteps || [];
+  };
+
+  // Analysis runs straight away for clean files; otherwise the diagnostics panel asks first
+  const analyzeParsedFiles = async (source: ParsedFeatureFile[], qa: ParsedFeatureFile[]) => {
+    if (source.length === 0 || qa.length === 0) return;
+    if ([...source, ...qa].some(file => file.diagnostics.length > 0)) {
+      setAnalysis(null);
+      return;
+    }
+    await runCoverageAnalysis(source, qa);
   };
 
-  // Event handlers
   const handleSourceUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
-    const file = event.target.files?.[0];
-    if (file) {
-      setSourceFile(file);
-      
-      if (qaFile) {
-        await simulateAnalysisProgress();
-        const sourceContent = await file.text();
-        const qaContent = await qaFile.text();
-        const sourceScenarios = parseGherkinScenarios(sourceContent);
-        const qaScenarios = parseGherkinScenarios(qaContent);
-        const result = performAnalysis(sourceScenarios, qaScenarios);
-        setAnalysis(result);
-      }
+    const files = await readUploadedFeatureFiles(event, sourceLanguage);
+    if (files.length > 0) {
+      const parsed = await parseFeatureFiles(files, sourceLanguage);
+      if (!parsed) return;
+      setSourceFiles(files);
+      setSourceParses(parsed);
+      await analyzeParsedFiles(parsed, qaParses);
     }
   };
 
   const handleQAUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
-    const file = event.target.files?.[0];
-    if (file) {
-      setQaFile(file);
-      
-      if (sourceFile) {
-        await simulateAnalysisProgress();
-        const sourceContent = await sourceFile.text();
-        const qaContent = await file.text();
-        const sourceScenarios = parseGherkinScenarios(sourceContent);
-        const qaScenarios = parseGherkinScenarios(qaContent);
-        const result = performAnalysis(sourceScenarios, qaScenarios);
-        setAnalysis(result);
-      }
+    const files = await readUploadedFeatureFiles(event, qaLanguage);
+    if (files.length > 0) {
+      const parsed = await parseFeatureFiles(files, qaLanguage);
+      if (!parsed) return;
+      setQaFiles(files);
+      setQaParses(parsed);
+      await analyzeParsedFiles(sourceParses, parsed);
     }
   };
 
+  // Changing a suite's language re-parses its files; it applies to files without a "# language:" header
+  const handleSourceLanguageChange = async (language: string) => {
+    setSourceLanguage(language);
+    if (sourceFiles.length === 0) return;
+    const parsed = await parseFeatureFiles(sourceFiles, language);
+    if (!parsed) return;
+    setSourceParses(parsed);
+    await analyzeParsedFiles(parsed, qaParses);
+  };
+
+  const handleQALanguageChange = async (language: string) => {
+    setQaLanguage(language);
+    if (qaFiles.length === 0) return;
+    const parsed = await parseFeatureFiles(qaFiles, language);
+    if (!parsed) return;
+    setQaParses(parsed);
+    await analyzeParsedFiles(sourceParses, parsed);
+  };
+
+  // A file's own language wins over its header; '' returns it to the header and the suite's language
+  const withFileLanguage = (files: FeatureFileSource[], path: string, language: string): FeatureFileSource[] =>
+    files.map(file => (file.path === path ? { ...file, language: language || undefined } : file));
+
+  const handleSourceFileLanguageChange = async (path: string, language: string) => {
+    const files = withFileLanguage(sourceFiles, path, language);
+    setSourceFiles(files);
+    const parsed = await parseFeatureFiles(files, sourceLanguage);
+    if (!parsed) return;
+    setSourceParses(parsed);
+    await analyzeParsedFiles(parsed, qaParses);
+  };
+
+  const handleQAFileLanguageChange = async (path: string, language: string) => {
+    const files = withFileLanguage(qaFiles, path, language);
+    setQaFiles(files);
+    const parsed = await parseFeatureFiles(files, qaLanguage);
+    if (!parsed) return;
+    setQaParses(parsed);
+    await analyzeParsedFiles(sourceParses, parsed);
+  };
+
   const handleDuplicateAnalysis = async (event: React.ChangeEvent<HTMLInputElement>) => {
-    const file = event.target.files?.[0];
-    if (file) {
-      await simulateDuplicateAnalysisProgress();
-      const content = await file.text();
-      const qaScenarios = parseGherkinScenarios(content);
-      const result = findDuplicateScenarios(qaScenarios);
-      setDuplicateAnalysis(result);
+    const files = await readUploadedFeatureFiles(event, duplicateLanguage);
+    if (files.length > 0) {
+      setAnalysisProgress({ phase: 'duplicates', processed: 0, total: 0 });
+      const { result } = await runWorkerTask(findDuplicatesInWorker(files, duplicateLanguage, setAnalysisProgress));
+      if (result) setDuplicateAnalysis(result);
     }
   };
 
@@ -3446,6 +1449,7 @@ function App() {
 Return strict JSON with: { "confidence": number (0-1), "insights": string[], "recommendations": string[] }.
 
 Coverage: ${analysis.coverage}
+Matching_Profile: ${analysis.profile.name}
 Missing_Count: ${analysis.missing.length}
 Source_Scenarios: ${analysis.sourceScenarios.length}
 QA_Scenarios: ${analysis.qaScenarios.length}
@@ -3632,25 +1636,10 @@ Examples: ${missingGapAnalysis.functional.slice(0,3).map(s=>s.title).join(' | ')
   // 📄 Document parsing and requirement extraction functions
   const parseDocumentContent = async (file: File): Promise<string> => {
     // Handle PDF with pdfjs to avoid garbled characters
-    if (file.type === 'application/pdf' || file.name.toLowerCase().endsWith('.pdf')) {
+    if (isPdfDocument(file.name, file.type)) {
       console.log(`[doc] parseDocumentContent: starting PDF parse for ${file.name} (${file.type}, ${file.size} bytes)`);
       try {
-        const arrayBuffer = await file.arrayBuffer();
-        console.log(`[doc] parseDocumentContent: read ArrayBuffer (${arrayBuffer.byteLength} bytes)`);
-        const loadingTask = getDocument({ data: arrayBuffer });
-        const pdf = await loadingTask.promise;
-        console.log(`[doc] parseDocumentContent: PDF loaded, pages=${pdf.numPages}`);
-        let fullText = '';
-        for (let pageNum = 1; pageNum <= pdf.numPages; pageNum++) {
-          const page = await pdf.getPage(pageNum);
-          const textContent = await page.getTextContent();
-          const itemsCount = Array.isArray(textContent.items) ? textContent.items.length : 0;
-          const pageText = textContent.items
-            .map((item: any) => ('str' in item ? item.str : (item as any).unicode || ''))
-            .join(' ');
-          console.log(`[doc] parseDocumentContent: page=${pageNum} items=${itemsCount} textLen=${pageText.length}`);
-          fullText += pageText + '\n';
-        }
+        const fullText = await extractPdfText(getDocument, new Uint8Array(await file.arrayBuffer()));
         console.log(`[doc] parseDocumentContent: finished PDF parse, totalChars=${fullText.length}`);
         return fullText;
       } catch (err) {
@@ -3845,8 +1834,8 @@ Examples: ${missingGapAnalysis.functional.slice(0,3).map(s=>s.title).join(' | ')
 
    // 🧠 AI-POWERED TEXT SIMILARITY CALCULATION
    const calculateTextSimilarity = (text1: string, text2: string): number => {
-     const words1 = text1.toLowerCase().split(/\s+/).filter(word => word.length > 2);
-     const words2 = text2.toLowerCase().split(/\s+/).filter(word => word.length > 2);
+     const words1 = normalizedWords(text1);
+     const words2 = normalizedWords(text2);
      
      if (words1.length === 0 || words2.length === 0) return 0;
      
@@ -4285,53 +2274,10 @@ Examples: ${missingGapAnalysis.functional.slice(0,3).map(s=>s.title).join(' | ')
           const content = await parseDocumentContent(file);
           appLog('[doc] analyzeDocumentAndGenerateScenarios: parsed file', file.name, 'chars=', content.length);
 
-          // Build clear English prompt for Gemini to extract Gherkin scenarios
-          const prompt = `You are an expert test engineer. Extract executable Gherkin test scenarios from the document text provided.
-Return strict JSON with the following shape:
-{
-  "scenarios": [
-    {
-      "title": string,
-      "steps": string[],
-      "tags": string[],
-      "businessImpact": string | null,
-      "workflow": string | null,
-      "testCategory": "Functional" | "End-to-End" | "Integration",
-      "severity": "Critical" | "High" | "Medium" | "Low",
-      "lineNumber": number | null
-    }
-  ]
-}
-
-Do not include any explanatory text or markdown – return only valid JSON. If you cannot find scenarios, return {"scenarios": []}.
-
-Document name: ${file.name}
-
-Document text:
-"""
-${content}
-"""
-`;
-
-          appLog('[ai] analyzeDocumentAndGenerateScenarios: sending prompt to Gemini, promptLen=', prompt.length);
-          const res = await generateJSON<{ scenarios: any[] }>(key, prompt, 'gemini-2.5-flash');
-          appLog('[ai] analyzeDocumentAndGenerateScenarios: Gemini responded ok=', res?.ok, 'error=', res?.error || null);
-
-          let fileScenarios: GherkinScenario[] = [];
-          if (res && res.ok && res.data && Array.isArray(res.data.scenarios)) {
-            fileScenarios = res.data.scenarios.map((s: any, idx: number) => ({
-              title: String(s.title || `Scenario ${idx+1}`),
-              steps: Array.isArray(s.steps) ? s.steps.map((st:any)=>String(st)) : (s.steps ? [String(s.steps)] : []),
-              tags: Array.isArray(s.tags) ? s.tags.map((t:any)=>String(t)) : [],
-              businessImpact: s.businessImpact ? String(s.businessImpact) : undefined,
-              workflow: s.workflow ? String(s.workflow) : undefined,
-              testCategory: s.testCategory === 'End-to-End' || s.testCategory === 'Integration' ? s.testCategory : 'Functional',
-              severity: (['Critical','High','Medium','Low'].includes(s.severity) ? s.severity : 'Medium') as any,
-              fileName: file.name,
-              lineNumber: typeof s.lineNumber === 'number' ? s.lineNumber : undefined
-            }));
-          } else {
-            appLog('[ai] analyzeDocumentAndGenerateScenarios: Gemini did not return scenarios for', file.name);
+          appLog('[ai] analyzeDocumentAndGenerateScenarios: sending document to Gemini, chars=', content.length);
+          const { scenarios: fileScenarios, error } = await extractDocumentScenarios(key, file.name, content);
+          if (error) {
+            appLog('[ai] analyzeDocumentAndGenerateScenarios: Gemini did not return scenarios for', file.name, 'error=', error);
           }
 
           appLog('[doc] analyzeDocumentAndGenerateScenarios: extracted', fileScenarios.length, 'scenarios from', file.name);
@@ -4345,15 +2291,7 @@ ${content}
         }
       }
 
-      const analysis: DocumentAnalysis = {
-        fileName: files.map(f => f.name).join(', '),
-        fileType: files.map(f => f.type || 'unknown').join(', '),
-        totalRequirements: 0,
-        generatedScenarios: allScenarios.length,
-        requirements: [],
-        scenarios: allScenarios,
-        timestamp: new Date()
-      };
+      const analysis = buildDocumentAnalysis(files, allScenarios);
 
       appLog('[doc] analyzeDocumentAndGenerateScenarios: finished totalGeneratedScenarios=', analysis.generatedScenarios);
       setDocumentAnalysis(analysis);
@@ -4368,6 +2306,86 @@ ${content}
     }
   };
 
+  // Generated scenarios as a file; Gherkin gets one Feature per workflow
+  const handleExportDocumentScenarios = () => {
+    if (!documentAnalysis) return;
+    const baseName = `${exportBaseName(documentAnalysis.fileName.split(', ')[0], 'document')}-scenarios`;
+    const file = exportScenarios(documentAnalysis.scenarios, scenarioExportFormat, baseName);
+    downloadFile(file.fileName, file.content, file.type);
+  };
+
+  const handleCopyDocumentScenarios = async () => {
+    if (!documentAnalysis) return;
+    const copied = await copyToClipboard(toGherkin(documentAnalysis.scenarios));
+    alert(copied
+      ? `Copied ${documentAnalysis.scenarios.length} scenarios as Gherkin.`
+      : 'Could not access the clipboard. Use "Export Scenarios" instead.');
+  };
+
+  // Full report with the input files' hashes; PDF prints the HTML report from a new window
+  const handleExportReport = async () => {
+    if (!analysis) return;
+    let report;
+    try {
+      const inputs = [...await hashReportInputs('source', sourceFiles), ...await hashReportInputs('qa', qaFiles)];
+      report = buildCoverageReport(analysis, {
+        gates: qualityGateResults,
+        inputs,
+        gaps: analyzeMissingGaps(analysis),
+        duplicates: duplicateAnalysis ?? undefined
+      });
+    } catch (e) {
+      alert(`Could not build the report: ${e instanceof Error ? e.message : String(e)}`);
+      return;
+    }
+    if (reportExportFormat !== 'pdf') {
+      downloadFile(`qualiscan-report.${REPORT_FILE_EXTENSIONS[reportExportFormat]}`, renderCoverageReport(report, reportExportFormat), {
+        html: 'text/html',
+        md: 'text/markdown',
+        json: 'application/json'
+      }[reportExportFormat]);
+      return;
+    }
+    const url = URL.createObjectURL(new Blob([renderCoverageReport(report, 'html')], { type: 'text/html' }));
+    const printWindow = window.open(url, '_blank');
+    if (!printWindow) {
+      URL.revokeObjectURL(url);
+      alert('Allow pop-ups for this page to print the report as PDF.');
+      return;
+    }
+    printWindow.addEventListener('load', () => {
+      printWindow.print();
+      URL.revokeObjectURL(url);
+    });
+  };
+
+  // Every missing scenario as a test case import for the selected tool
+  const handleExportMissingTestCases = () => {
+    if (!missingGapAnalysis) return;
+    const missing = [...missingGapAnalysis.functional, ...missingGapAnalysis.endToEnd, ...missingGapAnalysis.integration];
+    downloadFile(`missing-scenarios-${testManagementTool}.csv`, exportTestCases(missing, testManagementTool), 'text/csv');
+  };
+
+  const newScenariosBaseName = () =>
+    `${exportBaseName(documentAnalysis?.fileName.split(', ')[0] || '', 'document')}-new-scenarios`;
+
+  const handleExportNewScenarios = () => {
+    if (!generatedScenarioComparison) return;
+    const file = exportScenarios(generatedScenarioComparison.newScenarios, 'feature', newScenariosBaseName());
+    downloadFile(file.fileName, file.content, file.type);
+  };
+
+  // Unified diff that adds the new scenarios to the uploaded QA feature files
+  const handleExportNewScenariosPatch = () => {
+    if (!generatedScenarioComparison || !analysis) return;
+    const { patch, placements } = buildFeaturePatch(generatedScenarioComparison.newScenarios, qaFiles, analysis.qaScenarios);
+    const fileName = `${newScenariosBaseName()}.diff`;
+    downloadFile(fileName, patch, 'text/x-diff');
+    const updated = new Set(placements.filter(placement => !placement.created).map(placement => placement.path));
+    const created = new Set(placements.filter(placement => placement.created).map(placement => placement.path));
+    alert(`The patch adds ${placements.length} scenarios: ${updated.size} existing feature files are extended and ${created.size} new files are created.\n\nApply it from the root of the QA repository with:\ngit apply ${fileName}`);
+  };
+
   // 🧠 GENERATE UNIQUE SCENARIOS FOR EACH CATEGORY
   const generateUniqueScenariosForCategory = (category: 'Functional' | 'End-to-End' | 'Integration', count: number): MissingScenario[] => {
     const scenarios: MissingScenario[] = [];
@@ -5279,233 +3297,6 @@ ${content}
     return foundTerms.length > 0 ? foundTerms : ['System', 'Business', 'User', 'Data'];
   };
 
-  const analyzeMissingGaps = (analysis: AnalysisResult): MissingGapAnalysis => {
-    const functional: MissingScenario[] = [];
-    const endToEnd: MissingScenario[] = [];
-    const integration: MissingScenario[] = [];
-    const performanceSuggestions: string[] = [];
-    const loadTestingSuggestions: string[] = [];
-    
-    let criticalCount = 0;
-    let highCount = 0;
-    let mediumCount = 0;
-    let lowCount = 0;
-    
-      // 🧠 AI-POWERED ACCURATE GAP ANALYSIS
-  // Only process scenarios that are actually missing (not artificially generated)
-  if (analysis.missing.length === 0) {
-    console.log('🎯 Perfect Coverage: No missing scenarios detected');
-    // Return empty analysis when coverage is complete
-    return {
-      functional: [],
-      endToEnd: [],
-      integration: [],
-      performanceSuggestions: [],
-      loadTestingSuggestions: [],
-      totalMissing: 0,
-      criticalCount: 0,
-      highCount: 0,
-      mediumCount: 0,
-      lowCount: 0
-    };
-  }
-  
-  console.log(`🧠 HYBRID AI + SMART PATTERN SYSTEM: Analyzing ${analysis.missing.length} actual missing scenarios`);
-  console.log('🧠 AI Integration Layer: Business context analysis, severity assessment, and enhanced generation active');
-  console.log('🧠 CONTEXT-AWARE Step Generation: Multi-language, reports, and other specific scenarios will get relevant steps');
-  console.log('🧠 ENHANCED CONTEXT ANALYSIS: Now analyzing title, steps, description, businessImpact, and workflow for better accuracy');
-  console.log('🧠 INTELLIGENT GENERATION: No more hardcoded scenarios - all steps are context-aware and business-relevant');
-  
-  // Process each missing scenario with smart intelligence
-  analysis.missing.forEach((scenario, index) => {
-    // 🧠 Smart category determination based on actual content
-    const category = determineScenarioCategory(scenario);
-    
-    // 🧠 Intelligent severity based on business impact
-    const severity = determineScenarioSeverity(scenario);
-    
-    // 🧠 Generate meaningful description
-    const description = generateScenarioDescription(scenario);
-    
-    // 🧠 Determine business impact
-    const businessImpact = determineBusinessImpact(scenario);
-    
-    // 🧠 Generate relevant Gherkin steps
-    const suggestedSteps = generateRelevantSteps(scenario);
-    
-    // Create enhanced scenario
-    const enhancedScenario: MissingScenario = {
-      title: scenario.title,
-      description,
-      category,
-      severity,
-      businessImpact,
-      suggestedSteps,
-      aiGenerated: false
-    };
-    
-    // Add to appropriate category
-    switch (category) {
-      case 'Functional':
-        functional.push(enhancedScenario);
-        break;
-      case 'End-to-End':
-        endToEnd.push(enhancedScenario);
-        break;
-      case 'Integration':
-        integration.push(enhancedScenario);
-        break;
-    }
-    
-    // Count severity
-    switch (severity) {
-      case 'Critical': criticalCount++; break;
-      case 'High': highCount++; break;
-      case 'Medium': mediumCount++; break;
-      case 'Low': lowCount++; break;
-    }
-  });
-    
-    // 🧠 AI: Only generate scenarios if there are actually missing scenarios
-    // Don't artificially create scenarios when coverage is 100%
-    if (analysis.missing.length === 0) {
-      console.log('🎯 No missing scenarios detected - coverage is complete!');
-    } else {
-      console.log(`🧠 AI: Working with ${analysis.missing.length} actual missing scenarios`);
-    }
-
-    // 🧠 ULTRA-INTELLIGENT Performance and Load testing suggestions
-    const hasAuthentication = analysis.sourceScenarios.some(s => 
-      s.title.toLowerCase().includes('authentication') || 
-      s.steps.some(step => step.toLowerCase().includes('login'))
-    );
-    
-    const hasDataOperations = analysis.sourceScenarios.some(s => 
-      s.title.toLowerCase().includes('data') || 
-      s.steps.some(step => step.toLowerCase().includes('create') || step.toLowerCase().includes('update') || step.toLowerCase().includes('delete'))
-    );
-    
-    const hasFeatureFlags = analysis.sourceScenarios.some(s => 
-      s.title.toLowerCase().includes('feature flag') || 
-      s.steps.some(step => step.toLowerCase().includes('feature flag'))
-    );
-    
-    const hasAPIs = analysis.sourceScenarios.some(s => 
-      s.title.toLowerCase().includes('api') || 
-      s.steps.some(step => step.toLowerCase().includes('api'))
-    );
-    
-    // Smart Performance Testing suggestions based on detected scenarios
-    if (analysis.sourceScenarios.length > 20) {
-      if (hasAuthentication) {
-        performanceSuggestions.push(
-          'Load testing for user authentication endpoints with 100-1000 concurrent users',
-          'Performance testing for login/logout operations under various load conditions',
-          'Response time validation for authentication flows during peak usage',
-          'Session management performance testing with multiple concurrent sessions'
-        );
-      }
-      
-      if (hasDataOperations) {
-        performanceSuggestions.push(
-          'Database operation performance testing with large datasets (10K-1M records)',
-          'Data retrieval performance testing with complex queries and filters',
-          'Bulk data operation performance testing for create/update/delete operations',
-          'Database connection pooling performance under sustained load'
-        );
-      }
-      
-      if (hasFeatureFlags) {
-        performanceSuggestions.push(
-          'Feature Flag evaluation performance testing with multiple flag combinations',
-          'Performance impact assessment of Feature Flag checks during high load',
-          'Feature Flag state change performance testing under concurrent access'
-        );
-      }
-      
-      if (hasAPIs) {
-        performanceSuggestions.push(
-          'API endpoint performance testing with various payload sizes',
-          'API rate limiting and throttling performance validation',
-          'API response time testing under different network conditions',
-          'API error handling performance during high load scenarios'
-        );
-      }
-      
-      // General performance suggestions
-      performanceSuggestions.push(
-        'Critical workflow response time validation under normal and peak loads',
-        'Memory usage monitoring during sustained operations',
-        'CPU utilization testing during intensive business processes',
-        'Network latency impact assessment on user experience'
-      );
-    }
-    
-    // Smart Load Testing suggestions based on system complexity
-    if (analysis.sourceScenarios.length > 30) {
-      const estimatedUsers = Math.min(10000, analysis.sourceScenarios.length * 100);
-      
-      if (hasAuthentication) {
-        loadTestingSuggestions.push(
-          `Simulate ${estimatedUsers.toLocaleString()}+ concurrent authenticated users`,
-          'Test authentication service scalability during user registration spikes',
-          'Validate session management under sustained high load',
-          'Test password reset and account recovery under load conditions'
-        );
-      }
-      
-      if (hasDataOperations) {
-        loadTestingSuggestions.push(
-          'Test database performance with maximum concurrent read/write operations',
-          'Validate data consistency during high-volume concurrent operations',
-          'Test backup and recovery processes under load conditions',
-          'Monitor database connection pool behavior during peak usage'
-        );
-      }
-      
-      if (hasFeatureFlags) {
-        loadTestingSuggestions.push(
-          'Test Feature Flag evaluation performance with 1000+ concurrent flag checks',
-          'Validate Feature Flag state consistency during rapid state changes',
-          'Test Feature Flag rollback performance under high load'
-        );
-      }
-      
-      // General load testing suggestions
-      loadTestingSuggestions.push(
-        'Gradual load increase testing from 100 to maximum concurrent users',
-        'Spike testing to validate system behavior during sudden load increases',
-        'Endurance testing to validate system stability over extended periods',
-        'Stress testing to identify system breaking points and failure modes',
-        'Failover testing to validate system recovery under load conditions'
-      );
-    }
-    
-    // 🧠 DEBUG: Log scenario counts for verification
-    console.log('🔍 Scenario Generation Debug:', {
-      functionalCount: functional.length,
-      endToEndCount: endToEnd.length,
-      integrationCount: integration.length,
-      totalGenerated: functional.length + endToEnd.length + integration.length,
-      severityDistribution: { criticalCount, highCount, mediumCount, lowCount },
-      originalMissingCount: analysis.missing.length,
-      totalProcessed: functional.length + endToEnd.length + integration.length
-    });
-    
-    return {
-      functional,
-      endToEnd,
-      integration,
-      performanceSuggestions,
-      loadTestingSuggestions,
-      totalMissing: analysis.missing.length, // Restore original missing count (69)
-      criticalCount,
-      highCount,
-      mediumCount,
-      lowCount
-    };
-  };
-
   const categorizeScenario = (scenario: GherkinScenario): 'Functional' | 'End-to-End' | 'Integration' => {
     const title = scenario.title.toLowerCase();
     const steps = scenario.steps.join(' ').toLowerCase();
@@ -6205,14 +3996,27 @@ ${content}
   };
 
   // 🧠 AI-POWERED WORKFLOW ANALYSIS
-  const workflowAnalysis = analysis ? analyzeWorkflows(analysis.sourceScenarios) : [];
+  const workflowAnalysis = analysis ? analyzeWorkflows(analysis) : [];
 
   return (
     <div className="min-h-screen bg-gray-100 p-8">
       <div className="max-w-7xl mx-auto">
-        <h1 className="text-4xl font-bold text-center mb-8 text-blue-600">
+        <h1 className="text-4xl font-bold text-center mb-2 text-blue-600">
           QualiScan AI - Coverage Detective
         </h1>
+        <p className="text-center mb-8">
+          <a href="#/benchmark" className="text-sm text-gray-500 hover:text-blue-600 hover:underline">
+            ⏱️ Matching benchmark
+          </a>
+          <span className="text-sm text-gray-300 mx-2">•</span>
+          <a href="#/evaluation" className="text-sm text-gray-500 hover:text-blue-600 hover:underline">
+            🎯 Matcher evaluation
+          </a>
+          <span className="text-sm text-gray-300 mx-2">•</span>
+          <button onClick={() => setShowProfileSettings(true)} className="text-sm text-gray-500 hover:text-blue-600 hover:underline">
+            ⚙️ Matching profile: {matchingProfile.name}
+          </button>
+        </p>
         
         <div className="grid grid-cols-1 lg:grid-cols-2 gap-8 mb-8">
           <div className="bg-white p-6 rounded-lg shadow-md">
@@ -6222,31 +4026,47 @@ ${content}
             <p className="text-gray-600 mb-4">
               Upload your AI-generated Gherkin scenarios from source code
             </p>
-            {sourceFile ? (
+            {sourceFiles.length > 0 ? (
               <div className="mb-4 p-3 bg-green-50 border border-green-200 rounded">
                 <p className="text-sm text-green-800">
-                  ✅ {sourceFile.name} uploaded successfully!
+                  ✅ {describeFeatureFiles(sourceFiles)} uploaded successfully!
+                </p>
+                <p className="text-xs text-green-700 mt-1">
+                  Found {sourceParses.reduce((sum, file) => sum + file.scenarios.length, 0)} total use cases
                 </p>
-                {analysis && (
-                  <p className="text-xs text-green-700 mt-1">
-                    Found {analysis.sourceScenarios.length} total use cases
-                  </p>
-                )}
               </div>
             ) : (
               <p className="text-sm text-gray-500 mb-4">
                 No scenarios uploaded yet
               </p>
             )}
-            <label className="block w-full bg-green-500 text-white px-4 py-2 rounded hover:bg-green-600 text-center cursor-pointer">
-              {sourceFile ? 'Change File' : 'Upload Gherkin Scenarios'}
-              <input
-                type="file"
-                accept=".feature,.gherkin,.txt"
-                onChange={handleSourceUpload}
-                className="hidden"
-              />
-            </label>
+            <LanguageSelect
+              value={sourceLanguage}
+              onChange={handleSourceLanguageChange}
+              label="Files without a header"
+            />
+            <FileLanguageList files={sourceFiles} parses={sourceParses} onChange={handleSourceFileLanguageChange} />
+            <div className="flex gap-2">
+              <label className={`flex-1 bg-green-500 text-white px-4 py-2 rounded hover:bg-green-600 text-center cursor-pointer${analysisProgress ? ' opacity-50 pointer-events-none' : ''}`}>
+                {sourceFiles.length > 0 ? 'Change Files' : 'Upload Files or .zip'}
+                <input
+                  type="file"
+                  multiple
+                  accept={FEATURE_UPLOAD_ACCEPT}
+                  onChange={handleSourceUpload}
+                  className="hidden"
+                />
+              </label>
+              <label className={`bg-green-100 text-green-800 px-4 py-2 rounded hover:bg-green-200 text-center cursor-pointer${analysisProgress ? ' opacity-50 pointer-events-none' : ''}`}>
+                📁 Folder
+                <input
+                  type="file"
+                  {...DIRECTORY_INPUT_PROPS}
+                  onChange={handleSourceUpload}
+                  className="hidden"
+                />
+              </label>
+            </div>
           </div>
 
           <div className="bg-white p-6 rounded-lg shadow-md">
@@ -6254,49 +4074,132 @@ ${content}
               Existing QA Gherkin Tests
             </h2>
             <p className="text-gray-600 mb-4">
-              Upload your existing QA automation Gherkin tests
+              Upload your existing QA automation Gherkin tests, or manual test cases as CSV / XLSX
             </p>
-            {qaFile ? (
+            {qaFiles.length > 0 ? (
               <div className="mb-4 p-3 bg-purple-50 border border-purple-200 rounded">
                 <p className="text-sm text-purple-800">
-                  ✅ {qaFile.name} uploaded successfully!
+                  ✅ {describeFeatureFiles(qaFiles)} uploaded successfully!
+                </p>
+                <p className="text-xs text-purple-700 mt-1">
+                  Found {qaParses.reduce((sum, file) => sum + file.scenarios.length, 0)} scenarios
                 </p>
-                {analysis && (
-                  <p className="text-xs text-purple-700 mt-1">
-                    Found {analysis.qaScenarios.length} scenarios
-                  </p>
-                )}
               </div>
             ) : (
               <p className="text-sm text-gray-500 mb-4">
                 No QA tests uploaded yet
               </p>
             )}
-            <label className="block w-full bg-purple-500 text-white px-4 py-2 rounded hover:bg-purple-600 text-center cursor-pointer">
-              {qaFile ? 'Change File' : 'Upload QA Tests'}
-              <input
-                type="file"
-                accept=".feature,.gherkin,.txt"
-                onChange={handleQAUpload}
-                className="hidden"
-              />
-            </label>
+            <LanguageSelect
+              value={qaLanguage}
+              onChange={handleQALanguageChange}
+              label="Files without a header"
+            />
+            <FileLanguageList files={qaFiles} parses={qaParses} onChange={handleQAFileLanguageChange} />
+            <div className="flex gap-2">
+              <label className={`flex-1 bg-purple-500 text-white px-4 py-2 rounded hover:bg-purple-600 text-center cursor-pointer${analysisProgress ? ' opacity-50 pointer-events-none' : ''}`}>
+                {qaFiles.length > 0 ? 'Change Files' : 'Upload Files or .zip'}
+                <input
+                  type="file"
+                  multiple
+                  accept={FEATURE_UPLOAD_ACCEPT}
+                  onChange={handleQAUpload}
+                  className="hidden"
+                />
+              </label>
+              <label className={`bg-purple-100 text-purple-800 px-4 py-2 rounded hover:bg-purple-200 text-center cursor-pointer${analysisProgress ? ' opacity-50 pointer-events-none' : ''}`}>
+                📁 Folder
+                <input
+                  type="file"
+                  {...DIRECTORY_INPUT_PROPS}
+                  onChange={handleQAUpload}
+                  className="hidden"
+                />
+              </label>
+            </div>
           </div>
         </div>
 
-        {analysis && !isAnalyzing && (
+        {/* ⚠️ Parse diagnostics for the uploaded files, shown before analysis runs */}
+        <ParseDiagnosticsPanel
+          files={[...sourceParses, ...qaParses]}
+          onRunAnalysis={sourceParses.length > 0 && qaParses.length > 0 && !analysis && !analysisProgress ? () => runCoverageAnalysis(sourceParses, qaParses) : undefined}
+        />
+
+        {/* ⏳ Worker progress for parsing and matching */}
+        {analysisProgress && analysisProgress.phase !== 'duplicates' && (
+          <AnalysisProgressPanel progress={analysisProgress} onCancel={handleCancelAnalysis} />
+        )}
+
+        {analysis && (
           <div className="bg-white p-6 rounded-lg shadow-md mb-8">
             <h2 className="text-2xl font-semibold mb-4 text-blue-600">
               Coverage Analysis
             </h2>
             <p className="text-gray-600 mb-4">
               Real analysis of test coverage and scenario comparison
+              <span className="text-xs text-gray-400"> • Matching profile: {analysis.profile.name}</span>
             </p>
             
-            <div className="grid grid-cols-1 md:grid-cols-3 gap-6 mb-6">
+            {/* ⚖️ Lenient vs strict (one-to-one) coverage */}
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-6">
+              {([
+                { mode: 'lenient', label: 'Lenient', hint: 'Best QA match per use case; one QA scenario may cover several', view: analysis.lenient },
+                { mode: 'strict', label: 'Strict (one-to-one)', hint: 'Optimal assignment; each QA scenario covers at most one use case', view: analysis.strict }
+              ] as const).map(option => (
+                <button
+                  key={option.mode}
+                  onClick={() => handleCoverageModeChange(option.mode)}
+                  className={`text-left p-4 rounded-lg border-2 transition-colors ${
+                    coverageMode === option.mode ? 'border-blue-500 bg-blue-50' : 'border-gray-200 hover:border-blue-300'
+                  }`}
+                >
+                  <div className="flex items-center justify-between">
+                    <span className="font-medium text-gray-800">{option.label}</span>
+                    <span className="text-2xl font-bold text-blue-600">{option.view ? `${option.view.coverage}%` : '…'}</span>
+                  </div>
+                  <div className="text-xs text-gray-500 mt-1">
+                    {option.view ? `${option.view.overlap.length} covered • ` : 'Available when matching completes • '}{option.hint}
+                  </div>
+                </button>
+              ))}
+            </div>
+            
+            <label className="flex items-center gap-2 text-sm text-gray-700 mb-3">
+              <input
+                type="checkbox"
+                checked={stepMatching}
+                onChange={e => handleStepMatchingChange(e.target.checked)}
+              />
+              Step-level matching
+              <span className="text-xs text-gray-500">
+                (a match only counts as covered when the QA scenario asserts every Given/When/Then step)
+              </span>
+            </label>
+            
+            <label className="flex items-center gap-2 text-sm text-gray-700 mb-6">
+              Semantic matching
+              <select
+                value={semanticMatching}
+                onChange={e => handleSemanticMatchingChange(e.target.value as typeof semanticMatching)}
+                disabled={isAnalyzing}
+                className="border border-gray-300 rounded px-2 py-1"
+              >
+                <option value="off">Off</option>
+                <option value="gemini">Gemini embeddings</option>
+                <option value="fake">Offline test provider</option>
+              </select>
+              <span className="text-xs text-gray-500">
+                (paraphrased titles match by embedding similarity; vectors are cached in this browser)
+              </span>
+            </label>
+            
+            <div className={`grid grid-cols-1 ${analysis.stepMatching ? 'md:grid-cols-4' : 'md:grid-cols-3'} gap-6 mb-6`}>
               <div className="text-center">
                 <div className="text-3xl font-bold text-blue-600">{analysis.coverage}%</div>
-                <div className="text-sm text-gray-500">Test Coverage</div>
+                <div className="text-sm text-gray-500">
+                  Test Coverage ({analysis.mode === 'strict' ? 'strict' : 'lenient'}{analysis.stepMatching ? ', steps' : ''})
+                </div>
               </div>
               
               <div className="text-center">
@@ -6304,20 +4207,203 @@ ${content}
                 <div className="text-sm text-gray-500">Covered Scenarios</div>
               </div>
               
+              {analysis.stepMatching && (
+                <div className="text-center">
+                  <div className="text-3xl font-bold text-yellow-600">{analysis.partial.length}</div>
+                  <div className="text-sm text-gray-500">Partially Covered</div>
+                </div>
+              )}
+              
               <div className="text-center">
                 <div className="text-3xl font-bold text-red-600">{analysis.missing.length}</div>
                 <div className="text-sm text-gray-500">Missing Scenarios</div>
               </div>
             </div>
             
-            <div className="p-3 bg-green-50 border border-green-200 rounded">
-              <p className="text-sm text-green-800">
-                🎯 Real analysis complete! Analyzed {analysis.sourceScenarios.length} total use cases and {analysis.qaScenarios.length} QA scenarios.
-              </p>
+            {isAnalyzing ? (
+              <div className="p-3 bg-blue-50 border border-blue-200 rounded">
+                <p className="text-sm text-blue-800">
+                  ⏳ Partial results: processed {analysis.sourceScenarios.length} of {analysisProgress?.total ?? analysis.sourceScenarios.length} use cases against {analysis.qaScenarios.length} QA scenarios.
+                </p>
+              </div>
+            ) : analysis.sourceScenarios.length < sourceParses.reduce((sum, file) => sum + file.scenarios.length, 0) ? (
+              <div className="p-3 bg-yellow-50 border border-yellow-200 rounded flex items-center justify-between gap-4">
+                <p className="text-sm text-yellow-800">
+                  ⏹️ Analysis cancelled after {analysis.sourceScenarios.length} use cases. Results above are partial.
+                </p>
+                <button
+                  onClick={() => runCoverageAnalysis(sourceParses, qaParses)}
+                  className="px-3 py-1 text-sm rounded bg-yellow-500 text-white hover:bg-yellow-600 whitespace-nowrap"
+                >
+                  Run Again
+                </button>
+              </div>
+            ) : (
+              <div className="p-3 bg-green-50 border border-green-200 rounded">
+                <p className="text-sm text-green-800">
+                  🎯 Real analysis complete! Analyzed {analysis.sourceScenarios.length} total use cases and {analysis.qaScenarios.length} QA scenarios.
+                </p>
+              </div>
+            )}
+            
+            {/* 📌 Manual match overrides, stored per project */}
+            <div className="mt-4 p-3 bg-gray-50 border border-gray-200 rounded">
+              <div className="flex flex-wrap items-center gap-3 text-sm text-gray-700">
+                <label className="flex items-center gap-2">
+                  Project
+                  <input
+                    key={projectName}
+                    type="text"
+                    defaultValue={projectName}
+                    onBlur={e => handleProjectChange(e.target.value)}
+                    onKeyDown={e => e.key === 'Enter' && e.currentTarget.blur()}
+                    className="border border-gray-300 rounded px-2 py-1 w-48"
+                  />
+                </label>
+                <span>
+                  📌 {matchOverrides.filter(override => override.kind === 'pin').length} pinned • 🚫 {matchOverrides.filter(override => override.kind === 'reject').length} rejected
+                  {!unadjustedAnalysis && matchOverrides.length > 0 && <span className="text-gray-500"> (applied when matching completes)</span>}
+                </span>
+                {matchOverrides.length > 0 && (
+                  <button
+                    onClick={() => confirm(`Remove all ${matchOverrides.length} overrides of project "${projectName}"?`) && updateMatchOverrides([])}
+                    className="text-xs text-blue-600 hover:underline"
+                  >
+                    Clear all
+                  </button>
+                )}
+              </div>
+              {staleOverrides.length > 0 && (
+                <div className="mt-3 p-3 bg-yellow-50 border border-yellow-200 rounded">
+                  <div className="flex items-center justify-between gap-4 mb-2">
+                    <p className="text-sm text-yellow-800">
+                      ⚠️ {staleOverrides.length} stale override{staleOverrides.length === 1 ? '' : 's'}: the scenarios they refer to are no longer in the uploaded files.
+                    </p>
+                    <button
+                      onClick={() => updateMatchOverrides(removeMatchOverrides(matchOverrides, staleOverrides))}
+                      className="px-3 py-1 text-sm rounded bg-yellow-500 text-white hover:bg-yellow-600 whitespace-nowrap"
+                    >
+                      Remove stale
+                    </button>
+                  </div>
+                  <ul className="text-xs text-yellow-900 space-y-1 max-h-32 overflow-y-auto">
+                    {staleOverrides.map((override, index) => (
+                      <li key={index}>
+                        {override.kind === 'pin' ? '📌' : '🚫'} "{override.source.title}" ({override.source.fileName || 'no file'}) {override.kind === 'pin' ? '→' : '≠'} "{override.qa.title}" ({override.qa.fileName || 'no file'})
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+              {conflictingPins.length > 0 && (
+                <div className="mt-3 p-3 bg-yellow-50 border border-yellow-200 rounded">
+                  <div className="flex items-center justify-between gap-4 mb-2">
+                    <p className="text-sm text-yellow-800">
+                      ⚠️ {conflictingPins.length} pin{conflictingPins.length === 1 ? '' : 's'} to a QA scenario another use case is already pinned to: strict coverage assigns each QA scenario once and leaves these unassigned.
+                    </p>
+                    <button
+                      onClick={() => updateMatchOverrides(removeMatchOverrides(matchOverrides, conflictingPins))}
+                      className="px-3 py-1 text-sm rounded bg-yellow-500 text-white hover:bg-yellow-600 whitespace-nowrap"
+                    >
+                      Remove conflicting
+                    </button>
+                  </div>
+                  <ul className="text-xs text-yellow-900 space-y-1 max-h-32 overflow-y-auto">
+                    {conflictingPins.map((override, index) => (
+                      <li key={index}>
+                        📌 "{override.source.title}" ({override.source.fileName || 'no file'}) → "{override.qa.title}" ({override.qa.fileName || 'no file'})
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
             </div>
+
+            {/* 📄 Report for stakeholders and PR comments */}
+            {!isAnalyzing && (
+              <div className="mt-4 flex flex-wrap items-center gap-2">
+                <select
+                  value={reportExportFormat}
+                  onChange={e => setReportExportFormat(e.target.value as ReportFormat | 'pdf')}
+                  className="px-2 py-1 border border-gray-300 rounded text-sm text-gray-700 bg-white"
+                >
+                  <option value="html">HTML</option>
+                  <option value="pdf">PDF (print)</option>
+                  <option value="md">Markdown</option>
+                  <option value="json">JSON</option>
+                </select>
+                <button
+                  onClick={handleExportReport}
+                  className="px-3 py-1 text-sm rounded bg-blue-500 text-white hover:bg-blue-600"
+                >
+                  📄 Export Report
+                </button>
+                {!duplicateAnalysis && (
+                  <span className="text-xs text-gray-500">Run duplicate detection first to include duplicates in the report.</span>
+                )}
+              </div>
+            )}
+
+            {/* 🚦 Quality gates from the matching profile */}
+            {qualityGateResults.length > 0 && (
+              <QualityGatesPanel results={qualityGateResults} onEdit={() => setShowProfileSettings(true)} />
+            )}
+
+            {/* 🤖 AI adjudication of borderline matches, reviewed before it changes coverage */}
+            {!isAnalyzing && (
+              <div className="mt-4 p-3 bg-purple-50 border border-purple-200 rounded">
+                <div className="flex flex-wrap items-center justify-between gap-3">
+                  <p className="text-sm text-purple-900">
+                    🤖 {borderlineCount} borderline match{borderlineCount === 1 ? '' : 'es'} scoring{' '}
+                    {matchingProfile.adjudication.bandMin}–{matchingProfile.adjudication.bandMax}
+                  </p>
+                  {adjudicationProgress ? (
+                    <div className="flex items-center gap-3">
+                      <span className="text-sm text-purple-800">
+                        ⏳ Adjudicated {adjudicationProgress.processed} of {adjudicationProgress.total}
+                      </span>
+                      <button
+                        onClick={() => (adjudicationCancelled.current = true)}
+                        className="px-3 py-1 text-sm rounded border border-purple-300 text-purple-700 hover:bg-purple-100"
+                      >
+                        Cancel
+                      </button>
+                    </div>
+                  ) : (
+                    <button
+                      onClick={handleAdjudicate}
+                      className="px-3 py-1 text-sm rounded bg-purple-500 text-white hover:bg-purple-600 whitespace-nowrap"
+                    >
+                      Ask AI to adjudicate
+                    </button>
+                  )}
+                </div>
+                {adjudicationQueue.length > 0 && (
+                  <AdjudicationQueue
+                    sourceScenarios={analysis.sourceScenarios}
+                    qaScenarios={analysis.qaScenarios}
+                    verdicts={adjudicationQueue}
+                    isMatched={isVerdictMatched}
+                    onAccept={handleAcceptVerdicts}
+                    onDismiss={handleDismissVerdicts}
+                  />
+                )}
+              </div>
+            )}
           </div>
         )}
 
+        {/* 🗂️ Per-file / per-feature results */}
+        {analysis && (
+          <ResultsBrowser
+            sourceScenarios={analysis.sourceScenarios}
+            coveredSource={analysis.overlap}
+            partialSource={analysis.partial}
+            qaScenarios={analysis.qaScenarios}
+            unmatchedQA={analysis.unmatchedQAScenarios}
+          />
+        )}
+
         {analysis && !isAnalyzing && (
           <div className="bg-white p-6 rounded-lg shadow-md mb-8">
             <div className="flex items-center justify-between mb-6">
@@ -6498,6 +4584,114 @@ ${content}
               </div>
             </div>
 
+            {/* 📋 Scenario Outline coverage per Examples row */}
+            {analysis.outlineCoverage.length > 0 && (
+              <div className="border-t pt-6 mb-6">
+                <h3 className="text-lg font-semibold text-gray-700 mb-4">
+                  Scenario Outline Coverage ({analysis.outlineCoverage.length})
+                </h3>
+                <div className="space-y-3 max-h-80 overflow-y-auto">
+                  {analysis.outlineCoverage.map((outline, index) => (
+                    <div key={index} className="border border-gray-200 rounded-lg p-3">
+                      <div className="flex justify-between items-center mb-2">
+                        <h4 className="font-medium text-gray-800">{outline.outlineTitle}</h4>
+                        <span className={`text-sm font-semibold ${outline.coverage === 100 ? 'text-green-600' : outline.coverage > 0 ? 'text-yellow-600' : 'text-red-600'}`}>
+                          {outline.coveredRows}/{outline.rows.length} rows ({outline.coverage}%)
+                        </span>
+                      </div>
+                      <div className="flex flex-wrap gap-2">
+                        {outline.rows.map((row, rowIndex) => (
+                          <span
+                            key={rowIndex}
+                            title={`${row.scenario.title} (line ${row.scenario.lineNumber})`}
+                            className={`text-xs px-2 py-1 rounded border ${row.covered ? 'bg-green-50 border-green-200 text-green-800' : 'bg-red-50 border-red-200 text-red-800'}`}
+                          >
+                            {row.covered ? '✅' : '❌'} {Object.entries(row.values).map(([name, value]) => `<${name}>=${value}`).join(', ')}
+                          </span>
+                        ))}
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            {showDetails && analysis.partial.length > 0 && (
+              <div className="border-t pt-6 mb-6">
+                <h3 className="text-lg font-semibold text-gray-700 mb-4">
+                  Partially Covered Scenarios ({analysis.partial.length})
+                </h3>
+                <div className="space-y-3 max-h-64 overflow-y-auto">
+                  {analysis.partial.map((scenario, index) => (
+                    <div key={index} className="border border-yellow-200 bg-yellow-50 rounded-lg p-3">
+                      <div className="flex justify-between items-start gap-3 mb-2">
+                        <h4 className="font-medium text-yellow-800">{scenario.title}</h4>
+                        <button
+                          onClick={() => setExplainedScenario(scenario)}
+                          className="text-xs text-blue-600 hover:underline whitespace-nowrap"
+                        >
+                          Why partial?
+                        </button>
+                      </div>
+                      <p className="text-sm text-yellow-800 mb-1">
+                        <strong>Never asserted by QA:</strong>
+                      </p>
+                      <ul className="text-sm text-yellow-900 space-y-1">
+                        {getUnassertedSteps(scenario).map((step, stepIndex) => (
+                          <li key={stepIndex} className="font-mono text-xs">
+                            {step.keyword} {step.text}
+                            {step.lineNumber && <span className="text-yellow-600"> (line {step.lineNumber})</span>}
+                          </li>
+                        ))}
+                      </ul>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            {showDetails && analysis.overlap.length > 0 && (
+              <div className="border-t pt-6 mb-6">
+                <h3 className="text-lg font-semibold text-gray-700 mb-4">
+                  Covered Scenarios ({analysis.overlap.length})
+                </h3>
+                <div className="space-y-3 max-h-64 overflow-y-auto">
+                  {analysis.overlap.map((scenario, index) => {
+                    const qaIndex = getMatchedQAIndex(scenario);
+                    const pinned = !!analysis.explanations[sourceIndex.get(scenario) ?? -1]?.pinned;
+                    return (
+                      <div key={index} className="border border-green-200 bg-green-50 rounded-lg p-3">
+                        <div className="flex justify-between items-start gap-3">
+                          <div>
+                            <h4 className="font-medium text-green-800">
+                              {pinned && <span title="Pinned manually">📌 </span>}
+                              {scenario.title}
+                            </h4>
+                            {qaIndex >= 0 && (
+                              <p className="text-sm text-green-700">
+                                <strong>Matched QA:</strong> {analysis.qaScenarios[qaIndex].title}
+                                {analysis.qaScenarios[qaIndex].fileName && (
+                                  <span className="text-xs text-green-600"> ({analysis.qaScenarios[qaIndex].fileName})</span>
+                                )}
+                              </p>
+                            )}
+                          </div>
+                          {unadjustedAnalysis && qaIndex >= 0 && (
+                            <button
+                              onClick={() => (pinned ? handleRemoveOverride(scenario, 'pin') : handleRejectMatch(scenario, qaIndex))}
+                              className="text-xs text-blue-600 hover:underline whitespace-nowrap"
+                            >
+                              {pinned ? 'Unpin' : 'Not a match'}
+                            </button>
+                          )}
+                        </div>
+                      </div>
+                    );
+                  })}
+                </div>
+              </div>
+            )}
+
             {showDetails && (
               <div className="border-t pt-6">
                 <h3 className="text-lg font-semibold text-gray-700 mb-4">
@@ -6506,7 +4700,30 @@ ${content}
                 <div className="space-y-3 max-h-64 overflow-y-auto">
                   {analysis.missing.map((scenario, index) => (
                     <div key={index} className="border border-red-200 bg-red-50 rounded-lg p-3">
-                      <h4 className="font-medium text-red-800 mb-2">{scenario.title}</h4>
+                      <div className="flex justify-between items-start gap-3 mb-2">
+                        <h4 className="font-medium text-red-800">{scenario.title}</h4>
+                        <div className="flex gap-3">
+                          {unadjustedAnalysis && (
+                            <button
+                              onClick={() => setPinningScenario(scenario)}
+                              className="text-xs text-blue-600 hover:underline whitespace-nowrap"
+                            >
+                              Pin to QA…
+                            </button>
+                          )}
+                          <button
+                            onClick={() => setExplainedScenario(scenario)}
+                            className="text-xs text-blue-600 hover:underline whitespace-nowrap"
+                          >
+                            Why missing?
+                          </button>
+                        </div>
+                      </div>
+                      {scenario.exampleValues && (
+                        <p className="text-xs text-red-600 mb-2">
+                          <strong>Example row of:</strong> {scenario.outlineTitle} ({Object.entries(scenario.exampleValues).map(([name, value]) => `<${name}>=${value}`).join(', ')})
+                        </p>
+                      )}
                       <p className="text-sm text-red-700 mb-2">
                         <strong>Business Impact:</strong> {scenario.businessImpact}
                       </p>
@@ -6671,11 +4888,16 @@ ${content}
             </div>
           ) : (
             <div className="text-center">
-              <label className="block w-full bg-orange-500 text-white px-4 py-2 rounded hover:bg-orange-600 text-center cursor-pointer">
+              {analysisProgress?.phase === 'duplicates' && (
+                <AnalysisProgressPanel progress={analysisProgress} onCancel={handleCancelAnalysis} />
+              )}
+              <LanguageSelect value={duplicateLanguage} onChange={setDuplicateLanguage} />
+              <label className={`block w-full bg-orange-500 text-white px-4 py-2 rounded hover:bg-orange-600 text-center cursor-pointer${analysisProgress ? ' opacity-50 pointer-events-none' : ''}`}>
                 Upload QA Tests for Duplicate Analysis
                 <input
                   type="file"
-                  accept=".feature,.gherkin,.txt"
+                  multiple
+                  accept={FEATURE_UPLOAD_ACCEPT}
                   onChange={handleDuplicateAnalysis}
                   className="hidden"
                 />
@@ -6978,6 +5200,52 @@ ${content}
           </div>
         )}
 
+        {/* 🔎 Why missing? drawer */}
+        {explainedScenario && analysis && sourceIndex.has(explainedScenario) && (
+          <MatchExplanationDrawer
+            scenario={explainedScenario}
+            explanation={analysis.explanations[sourceIndex.get(explainedScenario)!]}
+            qaScenarios={analysis.qaScenarios}
+            mode={analysis.mode}
+            strictMatch={analysis.strictMatches?.[sourceIndex.get(explainedScenario)!]}
+            unassertedSteps={analysis.partial.includes(explainedScenario) ? getUnassertedSteps(explainedScenario) : undefined}
+            onRemoveOverride={unadjustedAnalysis ? (kind, qaIndex) => handleRemoveOverride(explainedScenario, kind, qaIndex) : undefined}
+            onClose={() => setExplainedScenario(null)}
+          />
+        )}
+
+        {/* ⚙️ Matching profile settings */}
+        {showProfileSettings && (
+          <MatchingProfileSettings profile={matchingProfile} onSave={handleProfileSave} onClose={() => setShowProfileSettings(false)} />
+        )}
+
+        {/* 📌 Pin a missing use case to a QA scenario */}
+        {pinningScenario && analysis && (
+          <PinOverrideDialog
+            scenario={pinningScenario}
+            explanation={analysis.explanations[sourceIndex.get(pinningScenario) ?? -1]}
+            qaScenarios={analysis.qaScenarios}
+            onPin={qaIndex => handlePinMatch(pinningScenario, qaIndex)}
+            onClose={() => setPinningScenario(null)}
+          />
+        )}
+
+        {/* 📊 Spreadsheet column mapping */}
+        {spreadsheetMappingRequest && (
+          <SpreadsheetMappingWizard
+            key={spreadsheetMappingRequest.fileName}
+            fileName={spreadsheetMappingRequest.fileName}
+            table={spreadsheetMappingRequest.table}
+            initialMapping={spreadsheetMappingRequest.mapping}
+            language={spreadsheetMappingRequest.language}
+            onConfirm={(mapping, remember) => {
+              if (remember) saveSpreadsheetMapping(spreadsheetMappingRequest.table.header, mapping);
+              pendingSpreadsheetMapping.current?.(mapping);
+            }}
+            onCancel={() => pendingSpreadsheetMapping.current?.(null)}
+          />
+        )}
+
         {/* 📊 Dashboard Panel */}
         {showDashboard && analysis && (
           <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
@@ -7021,6 +5289,16 @@ ${content}
                         {analysis.unmatchedQAScenarios.length} ({analysis.qaScenarios.length > 0 ? Math.round((analysis.unmatchedQAScenarios.length / analysis.qaScenarios.length) * 100) : 0}%)
                       </span>
                     </li>
+                    <li className="flex items-center justify-between border-t border-gray-200 pt-2">
+                      <span className="text-gray-600">Lenient / Strict</span>
+                      <span className="font-semibold text-gray-700">
+                        {analysis.lenient.coverage}% / {analysis.strict ? `${analysis.strict.coverage}%` : '…'}
+                      </span>
+                    </li>
+                    <li className="flex items-center justify-between">
+                      <span className="text-gray-600">Matching profile</span>
+                      <span className="font-semibold text-gray-700">{analysis.profile.name}</span>
+                    </li>
                   </ul>
                 </div>
 
@@ -7135,6 +5413,27 @@ ${content}
                 </button>
               </div>
 
+              {/* Test case import for the team's test management tool */}
+              <div className="flex flex-wrap items-center justify-end gap-2 mb-4">
+                <span className="text-sm text-gray-600">Create test cases for all missing scenarios in</span>
+                <select
+                  value={testManagementTool}
+                  onChange={e => setTestManagementTool(e.target.value as TestManagementTool)}
+                  className="px-2 py-1 border border-gray-300 rounded text-sm text-gray-700 bg-white"
+                >
+                  {TEST_MANAGEMENT_TOOLS.map(([tool, label]) => (
+                    <option key={tool} value={tool}>{label}</option>
+                  ))}
+                </select>
+                <button
+                  onClick={handleExportMissingTestCases}
+                  disabled={missingGapAnalysis.totalMissing === 0}
+                  className="px-3 py-1 text-sm rounded bg-blue-500 text-white hover:bg-blue-600 disabled:opacity-50"
+                >
+                  📥 Export CSV
+                </button>
+              </div>
+
               {/* Summary Statistics */}
               <div className="grid grid-cols-2 md:grid-cols-5 gap-4 mb-6">
                 <div className="text-center p-4 bg-red-50 border border-red-200 rounded-lg">
@@ -7689,21 +5988,28 @@ ${content}
                 >
                   Close
                 </button>
+                <div className="flex">
+                  <select
+                    value={scenarioExportFormat}
+                    onChange={e => setScenarioExportFormat(e.target.value as ScenarioExportFormat)}
+                    className="px-2 py-2 border border-blue-500 rounded-l-lg text-sm text-blue-700 bg-white"
+                  >
+                    {SCENARIO_EXPORT_FORMATS.map(([format, label]) => (
+                      <option key={format} value={format}>{label}</option>
+                    ))}
+                  </select>
+                  <button
+                    onClick={handleExportDocumentScenarios}
+                    disabled={documentAnalysis.scenarios.length === 0}
+                    className="px-6 py-2 bg-blue-500 text-white rounded-r-lg hover:bg-blue-600 transition-colors disabled:opacity-50"
+                  >
+                    📥 Export Scenarios
+                  </button>
+                </div>
                 <button
-                  onClick={() => {
-                    // TODO: Export scenarios functionality
-                    alert('Export functionality coming soon!');
-                  }}
-                  className="px-6 py-2 bg-blue-500 text-white rounded-lg hover:bg-blue-600 transition-colors"
-                >
-                  📥 Export Scenarios
-                </button>
-                <button
-                  onClick={() => {
-                    // TODO: Copy to clipboard functionality
-                    alert('Copy to clipboard functionality coming soon!');
-                  }}
-                  className="px-6 py-2 bg-green-500 text-white rounded-lg hover:bg-green-600 transition-colors"
+                  onClick={handleCopyDocumentScenarios}
+                  disabled={documentAnalysis.scenarios.length === 0}
+                  className="px-6 py-2 bg-green-500 text-white rounded-lg hover:bg-green-600 transition-colors disabled:opacity-50"
                 >
                   📋 Copy All Scenarios
                 </button>
@@ -7861,14 +6167,20 @@ ${content}
                   Close
                 </button>
                 <button
-                  onClick={() => {
-                    // TODO: Export only new scenarios
-                    alert('Export new scenarios functionality coming soon!');
-                  }}
-                  className="px-6 py-2 bg-green-500 text-white rounded-lg hover:bg-green-600 transition-colors"
+                  onClick={handleExportNewScenarios}
+                  disabled={generatedScenarioComparison.newCount === 0}
+                  className="px-6 py-2 bg-green-500 text-white rounded-lg hover:bg-green-600 transition-colors disabled:opacity-50"
                 >
                   📥 Export New Scenarios Only
                 </button>
+                <button
+                  onClick={handleExportNewScenariosPatch}
+                  disabled={generatedScenarioComparison.newCount === 0 || qaFiles.length === 0}
+                  title="Unified diff that appends each new scenario to the best-fitting QA feature file, for git apply"
+                  className="px-6 py-2 bg-purple-500 text-white rounded-lg hover:bg-purple-600 transition-colors disabled:opacity-50"
+                >
+                  🩹 Export as Patch (.diff)
+                </button>
               </div>
             </div>
           </div>
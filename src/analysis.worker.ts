@@ -0,0 +1,85 @@
+// Runs parsing, matching and duplicate detection off the main thread.
+// Each task posts progress messages and ends with a single result message.
+import { parseGherkinScenarios } from '../lib/scenarioParser';
+import { parseSpreadsheetScenarios } from '../lib/spreadsheetImport';
+import { matchScenarios } from '../lib/coverageMatcher';
+import { assignOneToOne } from '../lib/assignment';
+import { findDuplicateScenarios } from '../lib/duplicateDetector';
+import { runMatchingBenchmark } from '../lib/matchingBenchmark';
+import { evaluateMatching } from '../lib/matchingEvaluation';
+import { setMatchingProfile } from '../lib/matchingProfile';
+import { createEmbeddingProvider, createIndexedDBEmbeddingCache, embedScenarios, type ScenarioEmbeddings } from '../lib/embeddings';
+import type { FeatureFileSource } from '../lib/featureFiles';
+import type { AnalysisPhase, AnalysisWorkerRequest, AnalysisWorkerResponse } from './analysisWorker';
+
+const post = (message: AnalysisWorkerResponse) => self.postMessage(message);
+
+const progress = (phase: AnalysisPhase, processed: number, total: number) =>
+  post({ type: 'progress', phase, processed, total });
+
+const parseFiles = (files: FeatureFileSource[], language: string) =>
+  files.map((file, index) => {
+    const parsed = file.spreadsheet
+      ? parseSpreadsheetScenarios(file.path, file.spreadsheet, file.language || language)
+      : parseGherkinScenarios(file.content, file.path, language, file.language);
+    progress('parsing', index + 1, files.length);
+    return parsed;
+  });
+
+self.onmessage = async (event: MessageEvent<AnalysisWorkerRequest>) => {
+  const request = event.data;
+  try {
+    switch (request.type) {
+      case 'parse':
+        post({ type: 'parsed', files: parseFiles(request.files, request.language) });
+        break;
+      case 'analyze': {
+        setMatchingProfile(request.profile);
+        let embeddings: ScenarioEmbeddings | undefined;
+        if (request.semantic) {
+          // Source and QA are embedded in one pass so shared texts are only looked up once
+          const scenarios = [...request.source, ...request.qa];
+          progress('embedding', 0, scenarios.length);
+          try {
+            const vectors = await embedScenarios(scenarios, createEmbeddingProvider(request.semantic), createIndexedDBEmbeddingCache(), (processed, total) =>
+              progress('embedding', processed, total)
+            );
+            embeddings = { source: vectors.slice(0, request.source.length), qa: vectors.slice(request.source.length) };
+          } catch (error) {
+            // Offline or a rejected key: match without embeddings rather than failing the analysis
+            const reason = error instanceof Error ? error.message : String(error);
+            post({ type: 'notice', message: `Semantic matching is unavailable (${reason}); running title matching only.` });
+          }
+        }
+        progress('matching', 0, request.source.length);
+        const { edges } = matchScenarios(request.source, request.qa, {
+          log: request.debug ? console.log : undefined,
+          collectEdges: true,
+          embeddings,
+          onBatch: (batch, processed, total) => {
+            post({ type: 'matches', batch });
+            progress('matching', processed, total);
+          }
+        });
+        post({ type: 'matched', strictMatches: assignOneToOne(edges, request.source.length) });
+        break;
+      }
+      case 'duplicates': {
+        setMatchingProfile(request.profile);
+        const scenarios = parseFiles(request.files, request.language).flatMap(file => file.scenarios);
+        const result = findDuplicateScenarios(scenarios, (processed, total) => progress('duplicates', processed, total));
+        post({ type: 'duplicates', result });
+        break;
+      }
+      case 'benchmark':
+        post({ type: 'benchmark', result: runMatchingBenchmark(request.size, request.sampleSize) });
+        break;
+      case 'evaluate':
+        setMatchingProfile(request.profile);
+        post({ type: 'evaluation', result: evaluateMatching(request.pairs) });
+        break;
+    }
+  } catch (error) {
+    post({ type: 'error', message: error instanceof Error ? error.message : String(error) });
+  }
+};
@@ -0,0 +1,140 @@
+// Main-thread side of the analysis worker: one worker per task, so Cancel simply terminates it.
+import { buildAnalysisResult, type MatchBatch, type MatchState } from '../lib/coverageMatcher';
+import type { FeatureFileSource } from '../lib/featureFiles';
+import type { MatchingBenchmarkResult } from '../lib/matchingBenchmark';
+import type { LabeledPair, MatchingEvaluationResult } from '../lib/matchingEvaluation';
+import { getMatchingProfile, type MatchingProfile } from '../lib/matchingProfile';
+import type { EmbeddingProviderConfig } from '../lib/embeddings';
+import type { GherkinScenario, ParsedFeatureFile, AnalysisResult, DuplicateAnalysis } from '../lib/scenarioTypes';
+
+export type AnalysisPhase = 'parsing' | 'embedding' | 'matching' | 'duplicates';
+
+export interface AnalysisProgress {
+  phase: AnalysisPhase;
+  processed: number;
+  total: number;
+}
+
+export type AnalysisWorkerRequest =
+  | { type: 'parse'; files: FeatureFileSource[]; language: string }
+  // debug: log every match to the worker's console
+  | { type: 'analyze'; source: GherkinScenario[]; qa: GherkinScenario[]; profile: MatchingProfile; semantic?: EmbeddingProviderConfig; debug?: boolean }
+  | { type: 'duplicates'; files: FeatureFileSource[]; language: string; profile: MatchingProfile }
+  | { type: 'benchmark'; size: number; sampleSize: number }
+  | { type: 'evaluate'; pairs: LabeledPair[]; profile: MatchingProfile };
+
+export type AnalysisWorkerResponse =
+  | ({ type: 'progress' } & AnalysisProgress)
+  | { type: 'parsed'; files: ParsedFeatureFile[] }
+  | { type: 'matches'; batch: MatchBatch }
+  | { type: 'matched'; strictMatches: number[] }
+  | { type: 'duplicates'; result: DuplicateAnalysis }
+  | { type: 'benchmark'; result: MatchingBenchmarkResult }
+  | { type: 'evaluation'; result: MatchingEvaluationResult }
+  // Something the user should know that did not stop the task
+  | { type: 'notice'; message: string }
+  | { type: 'error'; message: string };
+
+export interface WorkerTask<T> {
+  promise: Promise<T>;
+  cancel: () => void;
+}
+
+export const isAnalysisCancelled = (error: unknown): boolean =>
+  error instanceof DOMException && error.name === 'AbortError';
+
+const startWorkerTask = <T>(
+  request: AnalysisWorkerRequest,
+  onMessage: (message: AnalysisWorkerResponse, resolve: (value: T) => void) => void
+): WorkerTask<T> => {
+  const worker = new Worker(new URL('./analysis.worker.ts', import.meta.url), { type: 'module' });
+  let settle: ((error?: unknown) => void) | null = null;
+
+  const promise = new Promise<T>((resolve, reject) => {
+    settle = (error?: unknown) => {
+      settle = null;
+      worker.terminate();
+      if (error) reject(error);
+    };
+    worker.onmessage = (event: MessageEvent<AnalysisWorkerResponse>) => {
+      const message = event.data;
+      if (message.type === 'error') {
+        settle?.(new Error(message.message));
+        return;
+      }
+      onMessage(message, value => {
+        settle?.();
+        resolve(value);
+      });
+    };
+    worker.onerror = event => {
+      event.preventDefault();
+      settle?.(new Error(event.message || 'Analysis worker failed'));
+    };
+    worker.postMessage(request);
+  });
+
+  return {
+    promise,
+    cancel: () => settle?.(new DOMException('Analysis cancelled', 'AbortError'))
+  };
+};
+
+export const parseInWorker = (
+  files: FeatureFileSource[],
+  language: string,
+  onProgress: (progress: AnalysisProgress) => void
+): WorkerTask<ParsedFeatureFile[]> =>
+  startWorkerTask<ParsedFeatureFile[]>({ type: 'parse', files, language }, (message, resolve) => {
+    if (message.type === 'progress') onProgress(message);
+    if (message.type === 'parsed') resolve(message.files);
+  });
+
+// Matches are streamed back as per-index flags and rebuilt here against the caller's own scenario
+// objects, so partial and final results keep object identity with the parsed files. The worker
+// matches with this thread's active matching profile, and embeds the scenarios first when `semantic`
+// names an embedding provider; when embedding fails it matches without and reports it through onNotice.
+// With `debug` the worker logs each source scenario's match to the console.
+export const analyzeInWorker = (
+  source: GherkinScenario[],
+  qa: GherkinScenario[],
+  onProgress: (progress: AnalysisProgress) => void,
+  onPartial: (result: AnalysisResult) => void,
+  semantic?: EmbeddingProviderConfig,
+  onNotice?: (message: string) => void,
+  debug = false
+): WorkerTask<AnalysisResult> => {
+  const matches: MatchState = { covered: [], matchedQA: new Set<number>(), explanations: [] };
+
+  return startWorkerTask<AnalysisResult>({ type: 'analyze', source, qa, profile: getMatchingProfile(), semantic, debug }, (message, resolve) => {
+    if (message.type === 'progress') onProgress(message);
+    if (message.type === 'notice') onNotice?.(message.message);
+    if (message.type === 'matches') {
+      matches.covered.push(...message.batch.covered);
+      message.batch.matchedQA.forEach(index => matches.matchedQA.add(index));
+      matches.explanations.push(...message.batch.explanations);
+      onPartial(buildAnalysisResult(source, qa, matches));
+    }
+    if (message.type === 'matched') resolve(buildAnalysisResult(source, qa, matches, message.strictMatches));
+  });
+};
+
+export const findDuplicatesInWorker = (
+  files: FeatureFileSource[],
+  language: string,
+  onProgress: (progress: AnalysisProgress) => void
+): WorkerTask<DuplicateAnalysis> =>
+  startWorkerTask<DuplicateAnalysis>({ type: 'duplicates', files, language, profile: getMatchingProfile() }, (message, resolve) => {
+    if (message.type === 'progress') onProgress(message);
+    if (message.type === 'duplicates') resolve(message.result);
+  });
+
+export const benchmarkInWorker = (size: number, sampleSize: number): WorkerTask<MatchingBenchmarkResult> =>
+  startWorkerTask<MatchingBenchmarkResult>({ type: 'benchmark', size, sampleSize }, (message, resolve) => {
+    if (message.type === 'benchmark') resolve(message.result);
+  });
+
+export const evaluateInWorker = (pairs: LabeledPair[], profile: MatchingProfile = getMatchingProfile()): WorkerTask<MatchingEvaluationResult> =>
+  startWorkerTask<MatchingEvaluationResult>({ type: 'evaluate', pairs, profile }, (message, resolve) => {
+    if (message.type === 'evaluation') resolve(message.result);
+  });
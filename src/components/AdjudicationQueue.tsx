@@ -0,0 +1,80 @@
+import React from 'react';
+import type { GherkinScenario } from '../../lib/scenarioTypes';
+import type { AdjudicationVerdict } from '../../lib/matchAdjudication';
+
+type AdjudicationQueueProps = {
+  sourceScenarios: GherkinScenario[];
+  qaScenarios: GherkinScenario[];
+  verdicts: AdjudicationVerdict[];
+  // Whether the matcher currently counts the pair as a match
+  isMatched: (verdict: AdjudicationVerdict) => boolean;
+  onAccept: (verdicts: AdjudicationVerdict[]) => void;
+  onDismiss: (verdicts: AdjudicationVerdict[]) => void;
+};
+
+// Verdicts waiting for review; accepting one records it as a pin or reject override
+const AdjudicationQueue: React.FC<AdjudicationQueueProps> = ({ sourceScenarios, qaScenarios, verdicts, isMatched, onAccept, onDismiss }) => {
+  const changes = verdicts.filter(verdict => verdict.match !== isMatched(verdict));
+
+  return (
+    <div className="mt-3">
+      <div className="flex flex-wrap items-center justify-between gap-3 mb-2">
+        <p className="text-sm text-gray-700">
+          {verdicts.length} verdict{verdicts.length === 1 ? '' : 's'} to review • {changes.length} would change coverage
+        </p>
+        <div className="flex gap-3">
+          {changes.length > 0 && (
+            <button onClick={() => onAccept(changes)} className="text-xs text-blue-600 hover:underline">
+              Accept all changes
+            </button>
+          )}
+          <button onClick={() => onAccept(verdicts)} className="text-xs text-blue-600 hover:underline">
+            Accept all
+          </button>
+          <button onClick={() => onDismiss(verdicts)} className="text-xs text-blue-600 hover:underline">
+            Dismiss all
+          </button>
+        </div>
+      </div>
+      <ul className="space-y-2 max-h-96 overflow-y-auto">
+        {verdicts.map(verdict => {
+          const source = sourceScenarios[verdict.sourceIndex];
+          const qa = qaScenarios[verdict.qaIndex];
+          const changesCoverage = verdict.match !== isMatched(verdict);
+          return (
+            <li
+              key={`${verdict.sourceIndex}:${verdict.qaIndex}`}
+              className={`border rounded p-3 text-sm ${changesCoverage ? 'border-purple-200 bg-purple-50' : 'border-gray-200 bg-white'}`}
+            >
+              <div className="flex justify-between gap-3">
+                <div className="min-w-0">
+                  <div className="font-medium text-gray-800">{source?.title}</div>
+                  <div className="text-gray-600">
+                    {verdict.match ? '✅ matches' : '❌ does not match'} "{qa?.title}"
+                  </div>
+                  <div className="text-xs text-gray-500 mt-1">
+                    Score {verdict.similarity.toFixed(3)} vs threshold {verdict.threshold.toFixed(3)} •{' '}
+                    {changesCoverage
+                      ? verdict.match ? 'would mark it covered' : 'would mark it missing'
+                      : 'agrees with the matcher'}
+                  </div>
+                  {verdict.reason && <p className="text-xs text-gray-700 italic mt-1">🤖 {verdict.reason}</p>}
+                </div>
+                <div className="flex flex-col gap-1 shrink-0">
+                  <button onClick={() => onAccept([verdict])} className="px-3 py-1 text-xs rounded bg-purple-500 text-white hover:bg-purple-600">
+                    Accept
+                  </button>
+                  <button onClick={() => onDismiss([verdict])} className="px-3 py-1 text-xs rounded border border-gray-300 text-gray-700 hover:bg-gray-100">
+                    Dismiss
+                  </button>
+                </div>
+              </div>
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+};
+
+export default AdjudicationQueue;
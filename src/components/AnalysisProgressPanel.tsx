@@ -0,0 +1,48 @@
+import React from 'react';
+import type { AnalysisProgress } from '../analysisWorker';
+
+type AnalysisProgressPanelProps = {
+  progress: AnalysisProgress;
+  onCancel: () => void;
+};
+
+const PHASE_LABELS: Record<AnalysisProgress['phase'], { title: string; unit: string }> = {
+  parsing: { title: 'Parsing feature files', unit: 'files' },
+  embedding: { title: 'Embedding scenarios', unit: 'distinct texts' },
+  matching: { title: 'Matching scenarios', unit: 'use cases' },
+  duplicates: { title: 'Detecting duplicates', unit: 'comparison passes' }
+};
+
+const AnalysisProgressPanel: React.FC<AnalysisProgressPanelProps> = ({ progress, onCancel }) => {
+  const { title, unit } = PHASE_LABELS[progress.phase];
+  const percentage = progress.total > 0 ? Math.round((progress.processed / progress.total) * 100) : 0;
+  // Duplicate progress counts three passes over the suite, so only the percentage is meaningful
+  const detail = progress.phase === 'duplicates'
+    ? `${percentage}%`
+    : `${progress.processed.toLocaleString()} / ${progress.total.toLocaleString()} ${unit} (${percentage}%)`;
+
+  return (
+    <div className="bg-white p-4 rounded-lg shadow-md mb-8 border border-blue-100">
+      <div className="flex items-center justify-between mb-2">
+        <div className="flex items-center text-blue-700 font-medium">
+          <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-blue-600 mr-2"></div>
+          {title}…
+        </div>
+        <div className="flex items-center gap-3">
+          <span className="text-sm text-gray-600">{detail}</span>
+          <button
+            onClick={onCancel}
+            className="px-3 py-1 text-sm rounded border border-gray-300 text-gray-700 hover:bg-gray-100"
+          >
+            Cancel
+          </button>
+        </div>
+      </div>
+      <div className="w-full h-2 bg-gray-200 rounded overflow-hidden">
+        <div className="h-full bg-blue-500 transition-all duration-200" style={{ width: `${percentage}%` }} />
+      </div>
+    </div>
+  );
+};
+
+export default AnalysisProgressPanel;
@@ -0,0 +1,146 @@
+import React, { useRef, useState } from 'react';
+import { benchmarkInWorker, isAnalysisCancelled, type WorkerTask } from '../analysisWorker';
+import type { MatchingBenchmarkResult } from '../../lib/matchingBenchmark';
+
+const SIZES = [1000, 5000, 10000, 50000];
+
+const formatMs = (ms: number): string => (ms >= 1000 ? `${(ms / 1000).toFixed(2)} s` : `${Math.round(ms)} ms`);
+
+// A full scan is only run on the sample; its cost for the whole suite is extrapolated from that
+const estimateFullScanMs = (result: MatchingBenchmarkResult): number =>
+  result.sampleSize > 0 ? (result.sampleFullMs / result.sampleSize) * result.sourceCount : 0;
+
+const BenchmarkPage: React.FC = () => {
+  const [size, setSize] = useState(SIZES[1]);
+  const [sampleSize, setSampleSize] = useState(200);
+  const [results, setResults] = useState<MatchingBenchmarkResult[]>([]);
+  const [running, setRunning] = useState(false);
+  const task = useRef<WorkerTask<MatchingBenchmarkResult> | null>(null);
+
+  const runBenchmark = async () => {
+    task.current = benchmarkInWorker(size, sampleSize);
+    setRunning(true);
+    try {
+      const result = await task.current.promise;
+      setResults(previous => [result, ...previous]);
+    } catch (error) {
+      if (!isAnalysisCancelled(error)) {
+        console.error('Benchmark failed:', error);
+        alert(`Benchmark failed: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    } finally {
+      task.current = null;
+      setRunning(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-100 p-8">
+      <div className="max-w-6xl mx-auto">
+        <div className="flex items-center justify-between mb-8">
+          <h1 className="text-3xl font-bold text-blue-600">⏱️ Matching Benchmark</h1>
+          <a href="#/" className="text-sm text-blue-600 hover:underline">← Back to QualiScan</a>
+        </div>
+
+        <div className="bg-white p-6 rounded-lg shadow-md mb-8">
+          <p className="text-gray-600 mb-4">
+            Generates synthetic source and QA suites of the chosen size and times coverage matching with
+            candidate blocking. A full scan of every pair is run on a sample of source scenarios to check
+            that blocking reaches the same covered / missing decisions.
+          </p>
+          <div className="flex flex-wrap items-end gap-4">
+            <label className="text-sm text-gray-700">
+              <span className="block mb-1">Scenarios per suite</span>
+              <select
+                value={size}
+                onChange={e => setSize(Number(e.target.value))}
+                disabled={running}
+                className="border border-gray-300 rounded px-3 py-2"
+              >
+                {SIZES.map(option => (
+                  <option key={option} value={option}>
+                    {option.toLocaleString()} × {option.toLocaleString()}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label className="text-sm text-gray-700">
+              <span className="block mb-1">Full-scan sample</span>
+              <input
+                type="number"
+                min={0}
+                max={1000}
+                value={sampleSize}
+                onChange={e => setSampleSize(Math.max(0, Number(e.target.value)))}
+                disabled={running}
+                className="border border-gray-300 rounded px-3 py-2 w-28"
+              />
+            </label>
+            {running ? (
+              <button
+                onClick={() => task.current?.cancel()}
+                className="px-4 py-2 rounded border border-gray-300 text-gray-700 hover:bg-gray-100"
+              >
+                Cancel
+              </button>
+            ) : (
+              <button onClick={runBenchmark} className="px-4 py-2 rounded bg-blue-500 text-white hover:bg-blue-600">
+                Run Benchmark
+              </button>
+            )}
+            {running && (
+              <span className="flex items-center text-sm text-blue-700">
+                <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-blue-600 mr-2"></div>
+                Running in a background worker…
+              </span>
+            )}
+          </div>
+        </div>
+
+        {results.length > 0 && (
+          <div className="bg-white p-6 rounded-lg shadow-md overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-500 border-b border-gray-200">
+                  <th className="py-2 pr-4">Suites</th>
+                  <th className="py-2 pr-4">Generate</th>
+                  <th className="py-2 pr-4">Index build</th>
+                  <th className="py-2 pr-4">Matching</th>
+                  <th className="py-2 pr-4">Pairs scored</th>
+                  <th className="py-2 pr-4">Full scan (est.)</th>
+                  <th className="py-2 pr-4">Sample agreement</th>
+                  <th className="py-2 pr-4">Coverage</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {results.map((result, index) => (
+                  <tr key={index} className="text-gray-700">
+                    <td className="py-2 pr-4 font-medium">
+                      {result.sourceCount.toLocaleString()} × {result.qaCount.toLocaleString()}
+                    </td>
+                    <td className="py-2 pr-4">{formatMs(result.generateMs)}</td>
+                    <td className="py-2 pr-4">{formatMs(result.indexMs)}</td>
+                    <td className="py-2 pr-4 font-semibold text-blue-700">{formatMs(result.matchMs)}</td>
+                    <td className="py-2 pr-4">
+                      {result.comparisons.toLocaleString()}
+                      <span className="text-xs text-gray-400">
+                        {' '}of {result.fullComparisons.toLocaleString()} ({((result.comparisons / result.fullComparisons) * 100).toFixed(2)}%)
+                      </span>
+                    </td>
+                    <td className="py-2 pr-4">{result.sampleSize > 0 ? formatMs(estimateFullScanMs(result)) : '—'}</td>
+                    <td className={`py-2 pr-4 ${result.sampleAgreement === 100 ? 'text-green-700' : 'text-yellow-700'}`}>
+                      {result.sampleSize > 0 ? `${result.sampleAgreement}% of ${result.sampleSize}` : '—'}
+                    </td>
+                    <td className="py-2 pr-4">{result.coverage}%</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default BenchmarkPage;
@@ -0,0 +1,266 @@
+import React, { useRef, useState } from 'react';
+import { evaluateInWorker, isAnalysisCancelled, type WorkerTask } from '../analysisWorker';
+import { parseLabeledPairs, type EvaluationMethod, type LabeledPair, type MatchingEvaluationResult, type ThresholdPoint } from '../../lib/matchingEvaluation';
+import { loadStoredMatchingProfile, parseMatchingProfile, type MatchingProfile } from '../../lib/matchingProfile';
+
+const METHOD_LABELS: Record<EvaluationMethod, { label: string; hint: string }> = {
+  pairwise: { label: 'Pairwise', hint: 'Each pair against its own dynamic threshold' },
+  lenient: { label: 'performAnalysis (lenient)', hint: 'Best covering QA scenario per use case' },
+  strict: { label: 'performAnalysis (strict)', hint: 'One-to-one assignment' }
+};
+
+const SAMPLE_SET = [
+  { source: 'User logs in with valid credentials', qa: 'Login with valid username and password', isMatch: true },
+  { source: 'User logs in with valid credentials', qa: 'Login fails with wrong password', isMatch: false },
+  { source: 'Admin exports the monthly invoice report', qa: 'Export monthly invoice report as admin', isMatch: true },
+  { source: 'Admin exports the monthly invoice report', qa: 'Admin deletes an invoice', isMatch: false },
+  {
+    source: { title: 'Customer adds a product to the cart', steps: ['Given a signed in customer', 'When they add a product to the cart', 'Then the cart shows 1 item'] },
+    qa: { title: 'Add item to shopping cart', steps: ['Given I am signed in', 'When I add an item to my cart', 'Then my cart contains 1 item'] },
+    isMatch: true
+  }
+];
+
+const percent = (value: number): string => `${(value * 100).toFixed(1)}%`;
+
+// Precision, recall and F1 over the threshold sweep as one small line chart
+const SweepChart: React.FC<{ sweep: ThresholdPoint[] }> = ({ sweep }) => {
+  const width = 480;
+  const height = 180;
+  const line = (metric: 'precision' | 'recall' | 'f1') =>
+    sweep.map(point => `${(point.threshold * width).toFixed(1)},${((1 - point[metric]) * height).toFixed(1)}`).join(' ');
+  return (
+    <svg viewBox={`-30 -10 ${width + 40} ${height + 30}`} className="w-full max-w-xl">
+      <line x1={0} y1={height} x2={width} y2={height} stroke="#d1d5db" />
+      <line x1={0} y1={0} x2={0} y2={height} stroke="#d1d5db" />
+      {[0, 0.5, 1].map(tick => (
+        <React.Fragment key={tick}>
+          <text x={-6} y={(1 - tick) * height + 4} fontSize={10} textAnchor="end" fill="#6b7280">{tick}</text>
+          <text x={tick * width} y={height + 14} fontSize={10} textAnchor="middle" fill="#6b7280">{tick}</text>
+        </React.Fragment>
+      ))}
+      <polyline points={line('precision')} fill="none" stroke="#2563eb" strokeWidth={2} />
+      <polyline points={line('recall')} fill="none" stroke="#16a34a" strokeWidth={2} />
+      <polyline points={line('f1')} fill="none" stroke="#ea580c" strokeWidth={2} strokeDasharray="4 3" />
+    </svg>
+  );
+};
+
+const EvaluationPage: React.FC = () => {
+  const [pairs, setPairs] = useState<LabeledPair[] | null>(null);
+  const [setName, setSetName] = useState('');
+  const [profile, setProfile] = useState<MatchingProfile>(loadStoredMatchingProfile);
+  const [result, setResult] = useState<MatchingEvaluationResult | null>(null);
+  const [method, setMethod] = useState<EvaluationMethod>('lenient');
+  const [error, setError] = useState<string | null>(null);
+  const [running, setRunning] = useState(false);
+  const task = useRef<WorkerTask<MatchingEvaluationResult> | null>(null);
+
+  const readFile = async (event: React.ChangeEvent<HTMLInputElement>, read: (text: string, name: string) => void) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    try {
+      read(await file.text(), file.name);
+      setError(null);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+    }
+  };
+
+  const loadSample = () => {
+    setPairs(parseLabeledPairs(JSON.stringify(SAMPLE_SET)));
+    setSetName('Built-in sample');
+    setResult(null);
+    setError(null);
+  };
+
+  const runEvaluation = async () => {
+    if (!pairs) return;
+    task.current = evaluateInWorker(pairs, profile);
+    setRunning(true);
+    try {
+      setResult(await task.current.promise);
+    } catch (error) {
+      if (!isAnalysisCancelled(error)) {
+        console.error('Evaluation failed:', error);
+        setError(`Evaluation failed: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    } finally {
+      task.current = null;
+      setRunning(false);
+    }
+  };
+
+  const bestPoint = result?.sweep.reduce((best, point) => (point.f1 > best.f1 ? point : best), result.sweep[0]);
+  const selected = result?.methods[method];
+
+  return (
+    <div className="min-h-screen bg-gray-100 p-8">
+      <div className="max-w-6xl mx-auto">
+        <div className="flex items-center justify-between mb-8">
+          <h1 className="text-3xl font-bold text-blue-600">🎯 Matcher Evaluation</h1>
+          <a href="#/" className="text-sm text-blue-600 hover:underline">← Back to QualiScan</a>
+        </div>
+
+        <div className="bg-white p-6 rounded-lg shadow-md mb-8">
+          <p className="text-gray-600 mb-4">
+            Scores a gold-standard set of labeled <code>(source, qa, isMatch)</code> pairs with the similarity engine and
+            reports precision, recall and F1, a threshold sweep and every false positive and false negative. A set is a
+            JSON list of pairs; each side is a title or <code>{'{ title, steps, fileName }'}</code>.
+          </p>
+          <div className="flex flex-wrap items-center gap-3 mb-4">
+            <label className="px-3 py-2 text-sm rounded border border-gray-300 text-gray-700 hover:bg-gray-100 cursor-pointer">
+              Load labeled set…
+              <input
+                type="file"
+                accept=".json,application/json"
+                onChange={e => readFile(e, (text, name) => {
+                  setPairs(parseLabeledPairs(text));
+                  setSetName(name);
+                  setResult(null);
+                })}
+                className="hidden"
+              />
+            </label>
+            <button onClick={loadSample} className="px-3 py-2 text-sm rounded border border-gray-300 text-gray-700 hover:bg-gray-100">
+              Use sample set
+            </button>
+            <label className="px-3 py-2 text-sm rounded border border-gray-300 text-gray-700 hover:bg-gray-100 cursor-pointer">
+              Load profile…
+              <input
+                type="file"
+                accept=".json,application/json"
+                onChange={e => readFile(e, text => setProfile(parseMatchingProfile(text)))}
+                className="hidden"
+              />
+            </label>
+            {running ? (
+              <button
+                onClick={() => task.current?.cancel()}
+                className="px-4 py-2 rounded border border-gray-300 text-gray-700 hover:bg-gray-100"
+              >
+                Cancel
+              </button>
+            ) : (
+              <button
+                onClick={runEvaluation}
+                disabled={!pairs}
+                className="px-4 py-2 rounded bg-blue-500 text-white hover:bg-blue-600 disabled:opacity-50"
+              >
+                Run Evaluation
+              </button>
+            )}
+          </div>
+          <p className="text-sm text-gray-500">
+            Set: {pairs ? `${setName} (${pairs.length} pairs, ${pairs.filter(pair => pair.isMatch).length} matches)` : 'none loaded'} • Profile: {profile.name}
+          </p>
+          {error && (
+            <div className="mt-4 p-3 bg-red-50 border border-red-200 rounded">
+              <p className="text-sm text-red-800">{error}</p>
+            </div>
+          )}
+        </div>
+
+        {result && (
+          <>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-8">
+              {(Object.keys(METHOD_LABELS) as EvaluationMethod[]).map(option => {
+                const scores = result.methods[option];
+                return (
+                  <button
+                    key={option}
+                    onClick={() => setMethod(option)}
+                    className={`text-left bg-white p-4 rounded-lg shadow-md border-2 ${method === option ? 'border-blue-500' : 'border-transparent hover:border-blue-200'}`}
+                  >
+                    <div className="font-medium text-gray-800">{METHOD_LABELS[option].label}</div>
+                    <div className="text-xs text-gray-500 mb-3">{METHOD_LABELS[option].hint}</div>
+                    <div className="grid grid-cols-3 gap-2 text-center">
+                      <div>
+                        <div className="text-xl font-bold text-blue-600">{percent(scores.precision)}</div>
+                        <div className="text-xs text-gray-500">Precision</div>
+                      </div>
+                      <div>
+                        <div className="text-xl font-bold text-green-600">{percent(scores.recall)}</div>
+                        <div className="text-xs text-gray-500">Recall</div>
+                      </div>
+                      <div>
+                        <div className="text-xl font-bold text-orange-600">{percent(scores.f1)}</div>
+                        <div className="text-xs text-gray-500">F1</div>
+                      </div>
+                    </div>
+                    <div className="text-xs text-gray-400 mt-2">
+                      TP {scores.truePositives} • FP {scores.falsePositives} • FN {scores.falseNegatives}
+                    </div>
+                  </button>
+                );
+              })}
+            </div>
+
+            <div className="bg-white p-6 rounded-lg shadow-md mb-8">
+              <h2 className="text-xl font-semibold text-gray-800 mb-1">Threshold sweep (pairwise)</h2>
+              <p className="text-sm text-gray-500 mb-4">
+                A pair counts as a match when its similarity is above the threshold.{' '}
+                <span className="text-blue-600">Precision</span>, <span className="text-green-600">recall</span> and{' '}
+                <span className="text-orange-600">F1</span>; best F1 {percent(bestPoint!.f1)} at {bestPoint!.threshold.toFixed(2)}.
+              </p>
+              <SweepChart sweep={result.sweep} />
+              <div className="overflow-x-auto mt-4">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-left text-gray-500 border-b border-gray-200">
+                      <th className="py-2 pr-4">Threshold</th>
+                      <th className="py-2 pr-4">Precision</th>
+                      <th className="py-2 pr-4">Recall</th>
+                      <th className="py-2 pr-4">F1</th>
+                      <th className="py-2 pr-4">TP / FP / FN</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-100">
+                    {result.sweep.map(point => (
+                      <tr key={point.threshold} className={point === bestPoint ? 'bg-orange-50 font-medium' : 'text-gray-700'}>
+                        <td className="py-1 pr-4">{point.threshold.toFixed(2)}</td>
+                        <td className="py-1 pr-4">{percent(point.precision)}</td>
+                        <td className="py-1 pr-4">{percent(point.recall)}</td>
+                        <td className="py-1 pr-4">{percent(point.f1)}</td>
+                        <td className="py-1 pr-4">{point.truePositives} / {point.falsePositives} / {point.falseNegatives}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+              {([
+                ['False positives', selected!.mistakes.falsePositives, 'border-red-200 bg-red-50'],
+                ['False negatives', selected!.mistakes.falseNegatives, 'border-yellow-200 bg-yellow-50']
+              ] as const).map(([title, mistakes, style]) => (
+                <div key={title} className="bg-white p-6 rounded-lg shadow-md">
+                  <h2 className="text-xl font-semibold text-gray-800 mb-4">
+                    {title} ({mistakes.length}) <span className="text-sm font-normal text-gray-500">— {METHOD_LABELS[method].label}</span>
+                  </h2>
+                  <div className="space-y-2 max-h-96 overflow-y-auto">
+                    {mistakes.length === 0 && <p className="text-sm text-gray-500">None.</p>}
+                    {mistakes.map((item, index) => (
+                      <div key={index} className={`border rounded-lg p-3 text-sm ${style}`}>
+                        <div className="font-medium text-gray-800">{item.source}</div>
+                        <div className="text-gray-700">↔ {item.qa}</div>
+                        <div className="text-xs text-gray-500 mt-1">
+                          similarity {item.similarity.toFixed(3)} • threshold {item.threshold.toFixed(3)}
+                          {!item.labeled && ' • pair not in the labeled set'}
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              ))}
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default EvaluationPage;
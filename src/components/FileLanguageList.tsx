@@ -0,0 +1,39 @@
+import React from 'react';
+import { GHERKIN_DIALECTS } from '../../lib/gherkin';
+import type { FeatureFileSource } from '../../lib/featureFiles';
+import type { ParsedFeatureFile } from '../../lib/scenarioTypes';
+import LanguageSelect from './LanguageSelect';
+
+type FileLanguageListProps = {
+  files: FeatureFileSource[];
+  parses: ParsedFeatureFile[];
+  onChange: (path: string, language: string) => void; // '' = header, then the suite's language
+};
+
+// Each uploaded file with the language it was parsed in and a per-file override
+const FileLanguageList: React.FC<FileLanguageListProps> = ({ files, parses, onChange }) => {
+  if (files.length === 0) return null;
+  const parsedLanguage = new Map(parses.map(parsed => [parsed.fileName, parsed.language]));
+
+  return (
+    <details className="mb-3 text-xs">
+      <summary className="cursor-pointer text-gray-600">Languages per file ({files.length})</summary>
+      <ul className="mt-2 max-h-48 overflow-y-auto divide-y divide-gray-100 border border-gray-200 rounded">
+        {files.map(file => {
+          const detected = parsedLanguage.get(file.path);
+          return (
+            <li key={file.path} className="flex items-center gap-2 px-2 py-1">
+              <span className="flex-1 truncate text-gray-700" title={file.path}>{file.path}</span>
+              <span className="text-gray-500 whitespace-nowrap">{detected && GHERKIN_DIALECTS[detected] ? GHERKIN_DIALECTS[detected].native : '—'}</span>
+              <div className="w-40">
+                <LanguageSelect compact value={file.language || ''} onChange={language => onChange(file.path, language)} detected={detected} />
+              </div>
+            </li>
+          );
+        })}
+      </ul>
+    </details>
+  );
+};
+
+export default FileLanguageList;
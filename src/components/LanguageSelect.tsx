@@ -0,0 +1,50 @@
+import React from 'react';
+import { GHERKIN_DIALECTS } from '../../lib/gherkin';
+
+type LanguageSelectProps = {
+  value: string; // '' = auto-detect
+  onChange: (language: string) => void;
+  detected?: string;
+  label?: string;
+  compact?: boolean; // no label or margin, for per-file rows
+};
+
+const FEATURED_LANGUAGES = ['en', 'pt', 'es', 'fr', 'de'];
+
+const dialectLabel = (code: string) => {
+  const dialect = GHERKIN_DIALECTS[code];
+  return dialect.native === dialect.name ? `${dialect.name} (${code})` : `${dialect.native} – ${dialect.name} (${code})`;
+};
+
+const otherLanguages = Object.keys(GHERKIN_DIALECTS)
+  .filter(code => !FEATURED_LANGUAGES.includes(code))
+  .sort((a, b) => GHERKIN_DIALECTS[a].name.localeCompare(GHERKIN_DIALECTS[b].name));
+
+const LanguageSelect: React.FC<LanguageSelectProps> = ({ value, onChange, detected, label = 'Gherkin language', compact = false }) => {
+  return (
+    <div className={compact ? 'flex items-center' : 'mb-3 flex items-center gap-2'}>
+      {!compact && <label className="text-xs text-gray-500 whitespace-nowrap">{label}</label>}
+      <select
+        value={value}
+        onChange={e => onChange(e.target.value)}
+        className={`flex-1 border border-gray-300 rounded px-2 py-1 ${compact ? 'text-xs' : 'text-sm'}`}
+      >
+        <option value="">
+          Auto-detect{detected && GHERKIN_DIALECTS[detected] ? ` (${GHERKIN_DIALECTS[detected].native})` : ' (# language: header)'}
+        </option>
+        <optgroup label="Common">
+          {FEATURED_LANGUAGES.map(code => (
+            <option key={code} value={code}>{dialectLabel(code)}</option>
+          ))}
+        </optgroup>
+        <optgroup label="All languages">
+          {otherLanguages.map(code => (
+            <option key={code} value={code}>{dialectLabel(code)}</option>
+          ))}
+        </optgroup>
+      </select>
+    </div>
+  );
+};
+
+export default LanguageSelect;
@@ -0,0 +1,185 @@
+import React from 'react';
+import type { CandidateExplanation, CoverageMode, GherkinScenario, MatchExplanation, MatchOverride, SimilarityBranch, UnassertedStep } from '../../lib/scenarioTypes';
+
+type MatchExplanationDrawerProps = {
+  scenario: GherkinScenario;
+  explanation: MatchExplanation;
+  qaScenarios: GherkinScenario[];
+  mode: CoverageMode;
+  strictMatch?: number; // QA index assigned in strict mode, -1 for none
+  unassertedSteps?: UnassertedStep[]; // set when the scenario is partially covered by step-level matching
+  onRemoveOverride?: (kind: MatchOverride['kind'], qaIndex?: number) => void;
+  onClose: () => void;
+};
+
+const BRANCH_LABELS: Record<SimilarityBranch, string> = {
+  'example-conflict': 'Different Examples row',
+  exact: 'Exact title match',
+  normalized: 'Same title after whitespace normalization',
+  title: 'Title word similarity',
+  keyword: 'Keyword overlap',
+  'feature-flag': 'Feature flag / toggle rule',
+  semantic: 'Semantic (embedding) similarity',
+  none: 'No rule matched'
+};
+
+const CandidateCard: React.FC<{ candidate: CandidateExplanation; qaScenarios: GherkinScenario[]; threshold: number; highlight?: boolean }> = ({
+  candidate,
+  qaScenarios,
+  threshold,
+  highlight
+}) => {
+  const qa = qaScenarios[candidate.qaIndex];
+  const clears = candidate.similarity > threshold;
+  return (
+    <div className={`border rounded-lg p-3 ${highlight ? 'border-blue-300 bg-blue-50' : 'border-gray-200'}`}>
+      <div className="flex justify-between gap-3">
+        <span className="font-medium text-gray-800">{qa?.title}</span>
+        <span className={`text-sm font-semibold whitespace-nowrap ${clears ? 'text-green-700' : 'text-red-700'}`}>
+          {candidate.similarity.toFixed(3)}
+        </span>
+      </div>
+      {qa?.fileName && (
+        <div className="text-xs text-gray-400 mt-1">
+          {qa.fileName}:{qa.lineNumber}
+        </div>
+      )}
+      <dl className="grid grid-cols-[auto,1fr] gap-x-3 gap-y-1 text-xs mt-2">
+        <dt className="text-gray-500">Rule</dt>
+        <dd className="text-gray-700">{BRANCH_LABELS[candidate.branch]}</dd>
+        <dt className="text-gray-500">Title similarity</dt>
+        <dd className="text-gray-700">{candidate.titleSimilarity.toFixed(3)}</dd>
+        <dt className="text-gray-500">Common words</dt>
+        <dd className="text-gray-700">{candidate.commonWords.length > 0 ? candidate.commonWords.join(', ') : 'None'}</dd>
+        {candidate.steps && (
+          <>
+            <dt className="text-gray-500">Steps asserted</dt>
+            <dd className="text-gray-700">
+              {candidate.steps.coveredSteps}/{candidate.steps.totalSteps} • flow similarity {candidate.steps.flowSimilarity.toFixed(2)}
+            </dd>
+          </>
+        )}
+      </dl>
+    </div>
+  );
+};
+
+const MatchExplanationDrawer: React.FC<MatchExplanationDrawerProps> = ({
+  scenario,
+  explanation,
+  qaScenarios,
+  mode,
+  strictMatch,
+  unassertedSteps,
+  onRemoveOverride,
+  onClose
+}) => {
+  const { best, alternatives, threshold, pinned, rejected = [] } = explanation;
+
+  let verdict: string;
+  if (pinned) {
+    verdict = 'Pinned manually: the best candidate covers this use case whatever it scores.';
+  } else if (unassertedSteps) {
+    verdict = `Partially covered: the matched QA scenario never asserts ${unassertedSteps.length} of this use case's steps.`;
+  } else if (!best) {
+    verdict = 'No QA scenario scored above zero: none shares a meaningful title word with this use case.';
+  } else if (best.similarity <= threshold) {
+    verdict = `The best candidate scored ${best.similarity.toFixed(3)}, which does not clear the threshold of ${threshold.toFixed(3)}.`;
+  } else if (mode === 'strict' && strictMatch === -1) {
+    verdict = 'The best candidate clears the threshold, but the one-to-one assignment gave every qualifying QA scenario to another use case.';
+  } else {
+    verdict = `Covered: the best candidate scored ${best.similarity.toFixed(3)} against a threshold of ${threshold.toFixed(3)}.`;
+  }
+
+  return (
+    <div className="fixed inset-0 z-50 flex justify-end">
+      <div className="absolute inset-0 bg-black bg-opacity-30" onClick={onClose} />
+      <div className="relative w-full max-w-lg h-full bg-white shadow-xl overflow-y-auto p-6">
+        <div className="flex justify-between items-start mb-4">
+          <h3 className="text-xl font-semibold text-gray-800">{unassertedSteps ? 'Why partial?' : 'Why missing?'}</h3>
+          <button onClick={onClose} className="text-gray-500 hover:text-gray-700 text-2xl">
+            ×
+          </button>
+        </div>
+
+        <div className="mb-4">
+          <p className="font-medium text-red-800">{scenario.title}</p>
+          {scenario.fileName && (
+            <p className="text-xs text-gray-400">
+              {scenario.fileName}:{scenario.lineNumber}
+            </p>
+          )}
+        </div>
+
+        <div className="p-3 bg-gray-50 border border-gray-200 rounded mb-4 text-sm text-gray-700">
+          <p>{verdict}</p>
+          <p className="text-xs text-gray-500 mt-1">
+            Dynamic threshold: {threshold.toFixed(3)} (a match must score above it)
+          </p>
+        </div>
+
+        {(pinned || rejected.length > 0) && (
+          <div className="mb-4">
+            <h4 className="text-sm font-medium text-gray-700 mb-2">Manual overrides</h4>
+            <ul className="space-y-1 text-sm">
+              {pinned && best && (
+                <li className="flex justify-between gap-3 border border-blue-200 bg-blue-50 rounded px-2 py-1">
+                  <span>📌 Pinned to "{qaScenarios[best.qaIndex]?.title}"</span>
+                  {onRemoveOverride && (
+                    <button onClick={() => onRemoveOverride('pin')} className="text-xs text-blue-600 hover:underline whitespace-nowrap">
+                      Unpin
+                    </button>
+                  )}
+                </li>
+              )}
+              {rejected.map(qaIndex => (
+                <li key={qaIndex} className="flex justify-between gap-3 border border-gray-200 bg-gray-50 rounded px-2 py-1">
+                  <span>🚫 Not a match: "{qaScenarios[qaIndex]?.title}"</span>
+                  {onRemoveOverride && (
+                    <button onClick={() => onRemoveOverride('reject', qaIndex)} className="text-xs text-blue-600 hover:underline whitespace-nowrap">
+                      Restore
+                    </button>
+                  )}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        {unassertedSteps && unassertedSteps.length > 0 && (
+          <div className="mb-4">
+            <h4 className="text-sm font-medium text-gray-700 mb-2">Steps never asserted by QA</h4>
+            <ul className="space-y-1">
+              {unassertedSteps.map((step, index) => (
+                <li key={index} className="font-mono text-xs text-yellow-900 bg-yellow-50 border border-yellow-200 rounded px-2 py-1">
+                  {step.keyword} {step.text}
+                  {step.lineNumber && <span className="text-yellow-600"> (line {step.lineNumber})</span>}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        {best && (
+          <>
+            <h4 className="text-sm font-medium text-gray-700 mb-2">Best candidate</h4>
+            <CandidateCard candidate={best} qaScenarios={qaScenarios} threshold={threshold} highlight />
+          </>
+        )}
+
+        {alternatives.length > 0 && (
+          <>
+            <h4 className="text-sm font-medium text-gray-700 mt-4 mb-2">Alternatives</h4>
+            <div className="space-y-2">
+              {alternatives.map(candidate => (
+                <CandidateCard key={candidate.qaIndex} candidate={candidate} qaScenarios={qaScenarios} threshold={threshold} />
+              ))}
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default MatchExplanationDrawer;
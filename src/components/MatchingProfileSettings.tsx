@@ -0,0 +1,280 @@
+import React, { useState } from 'react';
+import {
+  DEFAULT_MATCHING_PROFILE,
+  MATCHING_PROFILE_FILE_NAME,
+  parseMatchingProfile,
+  serializeMatchingProfile,
+  type MatchingProfile
+} from '../../lib/matchingProfile';
+
+type MatchingProfileSettingsProps = {
+  profile: MatchingProfile;
+  onSave: (profile: MatchingProfile) => void;
+  onClose: () => void;
+};
+
+const THRESHOLD_FIELDS: Array<[keyof MatchingProfile['threshold'], string]> = [
+  ['base', 'Base threshold'],
+  ['min', 'Minimum (clamp)'],
+  ['max', 'Maximum (clamp)'],
+  ['fewQARatio', 'Few-QA ratio (QA / source below)'],
+  ['fewQAAdjustment', 'Few-QA adjustment'],
+  ['manyQARatio', 'Many-QA ratio (QA / source above)'],
+  ['manyQAAdjustment', 'Many-QA adjustment'],
+  ['featureFlagDiscount', 'Feature flag discount']
+];
+
+const WEIGHT_FIELDS: Array<[keyof MatchingProfile['weights'], string]> = [
+  ['normalizedTitle', 'Normalized title score'],
+  ['titleMatch', 'Title similarity cut-off'],
+  ['keywordOverlap', 'Keyword minimum overlap'],
+  ['keywordBase', 'Keyword base score'],
+  ['keywordRange', 'Keyword score range'],
+  ['featureFlag', 'Feature flag score'],
+  ['semanticMatch', 'Semantic (embedding) cut-off']
+];
+
+const NORMALIZATION_FLAGS: Array<[keyof MatchingProfile['normalization'], string]> = [
+  ['stemming', 'Stem words (English, Portuguese)'],
+  ['languageStopwords', 'Drop English / Portuguese function words'],
+  ['numbers', 'Compare numbers and IDs as placeholders']
+];
+
+const ADJUDICATION_FIELDS: Array<[keyof MatchingProfile['adjudication'], string]> = [
+  ['bandMin', 'Borderline band from'],
+  ['bandMax', 'Borderline band to'],
+  ['batchSize', 'Pairs per AI request']
+];
+
+// Editable text for the sections that have no form fields
+type Draft = {
+  profile: MatchingProfile;
+  stopwords: string;
+  synonyms: string;
+  gates: string;
+};
+
+type NumberSection = 'threshold' | 'weights' | 'normalization' | 'adjudication';
+
+const toDraft = (profile: MatchingProfile): Draft => ({
+  profile: profile,
+  stopwords: profile.stopwords.join(', '),
+  synonyms: JSON.stringify(profile.synonyms, null, 2),
+  gates: JSON.stringify(profile.gates, null, 2)
+});
+
+const MatchingProfileSettings: React.FC<MatchingProfileSettingsProps> = ({ profile, onSave, onClose }) => {
+  const [draft, setDraft] = useState<Draft>(() => toDraft(profile));
+  const [error, setError] = useState<string | null>(null);
+
+  const setNumber = (section: NumberSection, key: string, value: string) =>
+    setDraft(previous => ({
+      ...previous,
+      profile: { ...previous.profile, [section]: { ...previous.profile[section], [key]: Number(value) } }
+    }));
+
+  // Runs the draft through the same validation as an imported file
+  const readDraft = (): MatchingProfile | null => {
+    try {
+      let synonyms: unknown;
+      try {
+        synonyms = JSON.parse(draft.synonyms);
+      } catch (e) {
+        throw new Error(`Synonym groups are not valid JSON: ${e instanceof Error ? e.message : String(e)}`);
+      }
+      let gates: unknown;
+      try {
+        gates = JSON.parse(draft.gates);
+      } catch (e) {
+        throw new Error(`Quality gates are not valid JSON: ${e instanceof Error ? e.message : String(e)}`);
+      }
+      const stopwords = draft.stopwords.split(/[\s,]+/).map(word => word.trim().toLowerCase()).filter(Boolean);
+      const parsed = parseMatchingProfile(JSON.stringify({ ...draft.profile, synonyms, stopwords, gates }));
+      setError(null);
+      return parsed;
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+      return null;
+    }
+  };
+
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    try {
+      setDraft(toDraft(parseMatchingProfile(await file.text())));
+      setError(null);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+    }
+  };
+
+  const handleExport = () => {
+    const parsed = readDraft();
+    if (!parsed) return;
+    const url = URL.createObjectURL(new Blob([serializeMatchingProfile(parsed) + '\n'], { type: 'application/json' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = MATCHING_PROFILE_FILE_NAME;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleSave = () => {
+    const parsed = readDraft();
+    if (parsed) onSave(parsed);
+  };
+
+  const renderNumbers = (section: NumberSection, fields: Array<[string, string]>) => (
+    <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+      {fields.map(([key, label]) => (
+        <label key={key} className="flex items-center justify-between gap-3 text-sm text-gray-700">
+          {label}
+          <input
+            type="number"
+            step={0.01}
+            value={(draft.profile[section] as Record<string, number>)[key]}
+            onChange={e => setNumber(section, key, e.target.value)}
+            className="border border-gray-300 rounded px-2 py-1 w-24"
+          />
+        </label>
+      ))}
+    </div>
+  );
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg p-6 max-w-4xl w-full mx-4 max-h-[90vh] overflow-y-auto">
+        <div className="flex justify-between items-center mb-4">
+          <h3 className="text-xl font-semibold text-gray-800">⚙️ Matching Profile</h3>
+          <button onClick={onClose} className="text-gray-500 hover:text-gray-700 text-2xl">
+            ×
+          </button>
+        </div>
+
+        <p className="text-sm text-gray-600 mb-4">
+          Thresholds, scores, synonym groups and stopwords used by coverage matching, and the quality gates results are
+          judged by. Export the profile as{' '}
+          <code>{MATCHING_PROFILE_FILE_NAME}</code> to version it with your feature files; every analysis records the
+          profile it ran with.
+        </p>
+
+        <div className="flex flex-wrap gap-3 mb-6">
+          <label className="px-3 py-2 text-sm rounded border border-gray-300 text-gray-700 hover:bg-gray-100 cursor-pointer">
+            Import…
+            <input type="file" accept=".json,application/json" onChange={handleImport} className="hidden" />
+          </label>
+          <button onClick={handleExport} className="px-3 py-2 text-sm rounded border border-gray-300 text-gray-700 hover:bg-gray-100">
+            Export {MATCHING_PROFILE_FILE_NAME}
+          </button>
+          <button
+            onClick={() => {
+              setDraft(toDraft(DEFAULT_MATCHING_PROFILE));
+              setError(null);
+            }}
+            className="px-3 py-2 text-sm rounded border border-gray-300 text-gray-700 hover:bg-gray-100"
+          >
+            Reset to defaults
+          </button>
+        </div>
+
+        <label className="block text-sm text-gray-700 mb-6">
+          <span className="block mb-1 font-medium">Profile name</span>
+          <input
+            type="text"
+            value={draft.profile.name}
+            onChange={e => setDraft(previous => ({ ...previous, profile: { ...previous.profile, name: e.target.value } }))}
+            className="border border-gray-300 rounded px-3 py-2 w-full"
+          />
+        </label>
+
+        <h4 className="text-sm font-medium text-gray-700 mb-2">Dynamic threshold</h4>
+        <div className="mb-6">{renderNumbers('threshold', THRESHOLD_FIELDS)}</div>
+
+        <h4 className="text-sm font-medium text-gray-700 mb-2">Similarity scores</h4>
+        <div className="mb-6">{renderNumbers('weights', WEIGHT_FIELDS)}</div>
+
+        <h4 className="text-sm font-medium text-gray-700 mb-2">Text normalization</h4>
+        <div className="mb-6 space-y-2">
+          {NORMALIZATION_FLAGS.map(([key, label]) => (
+            <label key={key} className="flex items-center gap-2 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={draft.profile.normalization[key] as boolean}
+                onChange={e =>
+                  setDraft(previous => ({
+                    ...previous,
+                    profile: { ...previous.profile, normalization: { ...previous.profile.normalization, [key]: e.target.checked } }
+                  }))
+                }
+              />
+              {label}
+            </label>
+          ))}
+          {renderNumbers('normalization', [['typoSimilarity', 'Typo similarity (1 disables)']])}
+        </div>
+
+        <h4 className="text-sm font-medium text-gray-700 mb-2">AI adjudication</h4>
+        <div className="mb-6">{renderNumbers('adjudication', ADJUDICATION_FIELDS)}</div>
+
+        <label className="block text-sm text-gray-700 mb-6">
+          <span className="block mb-1 font-medium">Stopwords</span>
+          <span className="block text-xs text-gray-500 mb-1">Comma or space separated; ignored in titles when scoring</span>
+          <textarea
+            value={draft.stopwords}
+            onChange={e => setDraft(previous => ({ ...previous, stopwords: e.target.value }))}
+            rows={2}
+            className="border border-gray-300 rounded px-3 py-2 w-full font-mono text-xs"
+          />
+        </label>
+
+        <label className="block text-sm text-gray-700 mb-6">
+          <span className="block mb-1 font-medium">Synonym groups</span>
+          <span className="block text-xs text-gray-500 mb-1">
+            <code>values</code>: terms per language for each concept • <code>concepts</code> / <code>actions</code>: words that count as the same
+          </span>
+          <textarea
+            value={draft.synonyms}
+            onChange={e => setDraft(previous => ({ ...previous, synonyms: e.target.value }))}
+            rows={14}
+            className="border border-gray-300 rounded px-3 py-2 w-full font-mono text-xs"
+          />
+        </label>
+
+        <label className="block text-sm text-gray-700 mb-6">
+          <span className="block mb-1 font-medium">Quality gates</span>
+          <span className="block text-xs text-gray-500 mb-1">
+            Rules checked after every analysis, e.g. <code>{'{ "type": "coverage", "min": 80 }'}</code>,{' '}
+            <code>{'{ "type": "missing-severity", "severity": "Critical" }'}</code>,{' '}
+            <code>{'{ "type": "workflow-coverage", "workflow": "Payment & Financial Operations", "min": 90 }'}</code>,{' '}
+            <code>{'{ "type": "duplicates", "maxOptimizationPotential": 10 }'}</code>
+          </span>
+          <textarea
+            value={draft.gates}
+            onChange={e => setDraft(previous => ({ ...previous, gates: e.target.value }))}
+            rows={6}
+            className="border border-gray-300 rounded px-3 py-2 w-full font-mono text-xs"
+          />
+        </label>
+
+        {error && (
+          <div className="p-3 bg-red-50 border border-red-200 rounded mb-4">
+            <p className="text-sm text-red-800">{error}</p>
+          </div>
+        )}
+
+        <div className="flex justify-end gap-3">
+          <button onClick={onClose} className="px-4 py-2 rounded border border-gray-300 text-gray-700 hover:bg-gray-100">
+            Cancel
+          </button>
+          <button onClick={handleSave} className="px-4 py-2 rounded bg-blue-500 text-white hover:bg-blue-600">
+            Save profile
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default MatchingProfileSettings;
@@ -0,0 +1,85 @@
+import React from 'react';
+import type { GherkinDiagnostic } from '../../lib/gherkin';
+
+type ParseDiagnosticsPanelProps = {
+  files: Array<{ fileName: string; diagnostics: GherkinDiagnostic[] }>;
+  onRunAnalysis?: () => void; // shown while analysis is waiting for confirmation
+};
+
+const CODE_LABELS: Record<GherkinDiagnostic['code'], string> = {
+  'unknown-keyword': 'Unknown keyword',
+  'unknown-language': 'Unknown language',
+  'step-outside-scenario': 'Step outside scenario',
+  'orphan-step': 'Orphan step',
+  'orphan-examples': 'Examples outside an outline',
+  'orphan-argument': 'Orphan table / doc string',
+  'empty-scenario': 'Empty scenario',
+  'outline-without-examples': 'Outline without examples',
+  'heuristic-title': 'Guessed title',
+  'unterminated-doc-string': 'Unclosed doc string'
+};
+
+const ParseDiagnosticsPanel: React.FC<ParseDiagnosticsPanelProps> = ({ files, onRunAnalysis }) => {
+  const withDiagnostics = files.filter(file => file.diagnostics.length > 0);
+  if (withDiagnostics.length === 0) return null;
+
+  return (
+    <div className="bg-white p-6 rounded-lg shadow-md mb-8">
+      <h2 className="text-2xl font-semibold mb-2 text-amber-600">Parse Diagnostics</h2>
+      <p className="text-gray-600 mb-4">
+        Lines the parser skipped, guessed or could not place. Guessed titles usually mean prose was read as a scenario.
+      </p>
+
+      <div className="space-y-4">
+        {withDiagnostics.map(file => {
+          const errors = file.diagnostics.filter(d => d.severity === 'error').length;
+          const warnings = file.diagnostics.length - errors;
+          return (
+            <div key={file.fileName} className="border border-gray-200 rounded-lg">
+              <div className="flex justify-between items-center px-3 py-2 bg-gray-50 border-b border-gray-200">
+                <span className="font-medium text-gray-800">{file.fileName}</span>
+                <span className="text-xs text-gray-600">
+                  {errors > 0 && <span className="text-red-600 font-semibold mr-2">{errors} error{errors === 1 ? '' : 's'}</span>}
+                  {warnings > 0 && <span className="text-amber-600 font-semibold">{warnings} warning{warnings === 1 ? '' : 's'}</span>}
+                </span>
+              </div>
+              <ul className="max-h-64 overflow-y-auto divide-y divide-gray-100">
+                {file.diagnostics.map((diagnostic, index) => (
+                  <li key={index} className="px-3 py-2 text-sm flex items-start gap-3">
+                    <span className="font-mono text-xs text-gray-500 whitespace-nowrap pt-0.5">
+                      {file.fileName}:{diagnostic.location.line}
+                    </span>
+                    <span
+                      className={`text-xs px-2 py-0.5 rounded whitespace-nowrap ${
+                        diagnostic.severity === 'error' ? 'bg-red-100 text-red-700' : 'bg-amber-100 text-amber-700'
+                      }`}
+                    >
+                      {CODE_LABELS[diagnostic.code]}
+                    </span>
+                    <span className="text-gray-700">{diagnostic.message}</span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          );
+        })}
+      </div>
+
+      {onRunAnalysis && (
+        <div className="mt-4 flex items-center justify-between p-3 bg-amber-50 border border-amber-200 rounded">
+          <p className="text-sm text-amber-800">
+            Fix the files and upload them again, or analyze the scenarios that were parsed.
+          </p>
+          <button
+            onClick={onRunAnalysis}
+            className="bg-amber-500 text-white px-4 py-2 rounded hover:bg-amber-600 transition-colors whitespace-nowrap ml-4"
+          >
+            Run Analysis Anyway
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ParseDiagnosticsPanel;
@@ -0,0 +1,101 @@
+import React, { useMemo, useState } from 'react';
+import type { GherkinScenario, MatchExplanation } from '../../lib/scenarioTypes';
+
+type PinOverrideDialogProps = {
+  scenario: GherkinScenario;
+  explanation?: MatchExplanation;
+  qaScenarios: GherkinScenario[];
+  onPin: (qaIndex: number) => void;
+  onClose: () => void;
+};
+
+// Search results are capped so very large QA suites stay responsive
+const MAX_RESULTS = 50;
+
+const PinOverrideDialog: React.FC<PinOverrideDialogProps> = ({ scenario, explanation, qaScenarios, onPin, onClose }) => {
+  const [query, setQuery] = useState('');
+
+  const suggested = explanation ? [explanation.best, ...explanation.alternatives].filter(candidate => !!candidate) : [];
+
+  const results = useMemo(() => {
+    const needle = query.toLowerCase().trim();
+    if (!needle) return [];
+    const found: number[] = [];
+    for (let qaIndex = 0; qaIndex < qaScenarios.length && found.length < MAX_RESULTS; qaIndex++) {
+      const qa = qaScenarios[qaIndex];
+      if (qa.title.toLowerCase().includes(needle) || (qa.fileName || '').toLowerCase().includes(needle)) found.push(qaIndex);
+    }
+    return found;
+  }, [query, qaScenarios]);
+
+  const renderOption = (qaIndex: number, similarity?: number) => {
+    const qa = qaScenarios[qaIndex];
+    return (
+      <button
+        key={qaIndex}
+        onClick={() => onPin(qaIndex)}
+        className="w-full text-left border border-gray-200 rounded-lg p-3 hover:border-blue-300 hover:bg-blue-50"
+      >
+        <div className="flex justify-between gap-3">
+          <span className="font-medium text-gray-800">{qa.title}</span>
+          {similarity !== undefined && <span className="text-sm text-gray-500 whitespace-nowrap">{similarity.toFixed(3)}</span>}
+        </div>
+        {qa.fileName && (
+          <div className="text-xs text-gray-400 mt-1">
+            {qa.fileName}:{qa.lineNumber}
+          </div>
+        )}
+      </button>
+    );
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+      <div className="absolute inset-0 bg-black bg-opacity-30" onClick={onClose} />
+      <div className="relative w-full max-w-2xl max-h-[80vh] bg-white rounded-lg shadow-xl overflow-y-auto p-6">
+        <div className="flex justify-between items-start mb-4">
+          <h3 className="text-xl font-semibold text-gray-800">📌 Pin to QA scenario</h3>
+          <button onClick={onClose} className="text-gray-500 hover:text-gray-700 text-2xl">
+            ×
+          </button>
+        </div>
+
+        <div className="mb-4">
+          <p className="font-medium text-red-800">{scenario.title}</p>
+          {scenario.fileName && (
+            <p className="text-xs text-gray-400">
+              {scenario.fileName}:{scenario.lineNumber}
+            </p>
+          )}
+          <p className="text-xs text-gray-500 mt-1">
+            The pinned QA scenario always covers this use case, whatever it scores, until the pin is removed.
+          </p>
+        </div>
+
+        {suggested.length > 0 && (
+          <>
+            <h4 className="text-sm font-medium text-gray-700 mb-2">Closest candidates</h4>
+            <div className="space-y-2 mb-4">{suggested.map(candidate => renderOption(candidate.qaIndex, candidate.similarity))}</div>
+          </>
+        )}
+
+        <h4 className="text-sm font-medium text-gray-700 mb-2">Search QA scenarios</h4>
+        <input
+          type="text"
+          value={query}
+          onChange={e => setQuery(e.target.value)}
+          placeholder="Title or file name"
+          autoFocus
+          className="w-full border border-gray-300 rounded px-3 py-2 mb-3"
+        />
+        <div className="space-y-2">
+          {results.map(qaIndex => renderOption(qaIndex))}
+          {query.trim() && results.length === 0 && <p className="text-sm text-gray-500">No QA scenario matches "{query}".</p>}
+          {results.length === MAX_RESULTS && <p className="text-xs text-gray-400">Showing the first {MAX_RESULTS} matches; refine the search to narrow them down.</p>}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PinOverrideDialog;
@@ -0,0 +1,38 @@
+import React from 'react';
+import { qualityGatesPassed, type QualityGateResult } from '../../lib/qualityGates';
+
+type QualityGatesPanelProps = {
+  results: QualityGateResult[];
+  onEdit: () => void; // opens the matching profile, where the gates are defined
+};
+
+// Pass/fail of the profile's quality gates for the current analysis, naming every violated rule
+const QualityGatesPanel: React.FC<QualityGatesPanelProps> = ({ results, onEdit }) => {
+  const passed = qualityGatesPassed(results);
+  const failed = results.filter(result => !result.passed).length;
+
+  return (
+    <div className={`mt-4 p-3 border rounded ${passed ? 'bg-green-50 border-green-200' : 'bg-red-50 border-red-200'}`}>
+      <div className="flex flex-wrap items-center justify-between gap-3 mb-2">
+        <p className={`text-sm font-medium ${passed ? 'text-green-800' : 'text-red-800'}`}>
+          {passed ? '✅ All quality gates passed' : `❌ ${failed} of ${results.length} quality gate${results.length === 1 ? '' : 's'} failed`}
+        </p>
+        <button onClick={onEdit} className="text-xs text-blue-600 hover:underline">
+          Edit gates
+        </button>
+      </div>
+      <ul className="space-y-1">
+        {results.map((result, index) => (
+          <li key={index} className="text-sm flex items-start gap-2">
+            <span>{result.skipped ? '⏭️' : result.passed ? '✅' : '❌'}</span>
+            <span className={result.passed ? 'text-gray-700' : 'text-red-800'}>
+              <span className="font-medium">{result.name}</span>: {result.message}
+            </span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default QualityGatesPanel;
@@ -0,0 +1,146 @@
+import React, { useMemo, useState } from 'react';
+
+type BrowserScenario = {
+  title: string;
+  fileName?: string;
+  feature?: string;
+  lineNumber?: number;
+};
+
+type ResultsBrowserProps = {
+  sourceScenarios: BrowserScenario[];
+  coveredSource: BrowserScenario[];
+  partialSource?: BrowserScenario[];
+  qaScenarios: BrowserScenario[];
+  unmatchedQA: BrowserScenario[];
+};
+
+type Side = 'source' | 'qa';
+type GroupBy = 'file' | 'feature';
+
+type Group = {
+  name: string;
+  scenarios: Array<{ scenario: BrowserScenario; ok: boolean }>;
+  okCount: number;
+};
+
+const NO_FEATURE = '(no Feature)';
+
+const buildGroups = (scenarios: BrowserScenario[], isOk: (scenario: BrowserScenario) => boolean, groupBy: GroupBy): Group[] => {
+  const groups = new Map<string, Group>();
+  for (const scenario of scenarios) {
+    const name = groupBy === 'file' ? scenario.fileName || 'Unknown file' : scenario.feature || NO_FEATURE;
+    if (!groups.has(name)) groups.set(name, { name, scenarios: [], okCount: 0 });
+    const group = groups.get(name)!;
+    const ok = isOk(scenario);
+    group.scenarios.push({ scenario, ok });
+    if (ok) group.okCount++;
+  }
+  return Array.from(groups.values()).sort((a, b) => a.name.localeCompare(b.name));
+};
+
+const ResultsBrowser: React.FC<ResultsBrowserProps> = ({ sourceScenarios, coveredSource, partialSource = [], qaScenarios, unmatchedQA }) => {
+  const [side, setSide] = useState<Side>('source');
+  const [groupBy, setGroupBy] = useState<GroupBy>('file');
+  const [filter, setFilter] = useState('');
+  const [expanded, setExpanded] = useState<string | null>(null);
+
+  const groups = useMemo(() => {
+    if (side === 'source') {
+      const covered = new Set(coveredSource);
+      return buildGroups(sourceScenarios, scenario => covered.has(scenario), groupBy);
+    }
+    const unmatched = new Set(unmatchedQA);
+    return buildGroups(qaScenarios, scenario => !unmatched.has(scenario), groupBy);
+  }, [side, groupBy, sourceScenarios, coveredSource, qaScenarios, unmatchedQA]);
+
+  const partial = useMemo(() => new Set(partialSource), [partialSource]);
+  const visibleGroups = groups.filter(group => group.name.toLowerCase().includes(filter.trim().toLowerCase()));
+  const okLabel = side === 'source' ? 'covered' : 'matched';
+
+  const toggleButton = (active: boolean) =>
+    `px-3 py-1 text-sm rounded ${active ? 'bg-blue-500 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'}`;
+
+  return (
+    <div className="bg-white p-6 rounded-lg shadow-md mb-8">
+      <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+        <h2 className="text-2xl font-semibold text-gray-800">Browse Results</h2>
+        <div className="flex flex-wrap items-center gap-2">
+          <button className={toggleButton(side === 'source')} onClick={() => { setSide('source'); setExpanded(null); }}>
+            Source coverage
+          </button>
+          <button className={toggleButton(side === 'qa')} onClick={() => { setSide('qa'); setExpanded(null); }}>
+            QA scenarios
+          </button>
+          <span className="mx-1 text-gray-300">|</span>
+          <button className={toggleButton(groupBy === 'file')} onClick={() => { setGroupBy('file'); setExpanded(null); }}>
+            By file
+          </button>
+          <button className={toggleButton(groupBy === 'feature')} onClick={() => { setGroupBy('feature'); setExpanded(null); }}>
+            By feature
+          </button>
+        </div>
+      </div>
+
+      <input
+        type="text"
+        value={filter}
+        onChange={e => setFilter(e.target.value)}
+        placeholder={groupBy === 'file' ? 'Filter files…' : 'Filter features…'}
+        className="w-full border border-gray-300 rounded px-3 py-2 text-sm mb-4"
+      />
+
+      <div className="space-y-2 max-h-[32rem] overflow-y-auto">
+        {visibleGroups.map(group => {
+          const percentage = Math.round((group.okCount / group.scenarios.length) * 100);
+          const isOpen = expanded === group.name;
+          return (
+            <div key={group.name} className="border border-gray-200 rounded-lg">
+              <button
+                onClick={() => setExpanded(isOpen ? null : group.name)}
+                className="w-full flex items-center justify-between gap-4 px-3 py-2 text-left hover:bg-gray-50"
+              >
+                <span className="font-medium text-gray-800 truncate">{isOpen ? '▾' : '▸'} {group.name}</span>
+                <span className="flex items-center gap-3 flex-shrink-0">
+                  <span className="text-xs text-gray-500">
+                    {group.okCount}/{group.scenarios.length} {okLabel}
+                  </span>
+                  <span className="w-24 h-2 bg-gray-200 rounded overflow-hidden">
+                    <span
+                      className={`block h-full ${percentage >= 80 ? 'bg-green-500' : percentage >= 50 ? 'bg-yellow-500' : 'bg-red-500'}`}
+                      style={{ width: `${percentage}%` }}
+                    />
+                  </span>
+                  <span className="text-sm font-semibold text-gray-700 w-10 text-right">{percentage}%</span>
+                </span>
+              </button>
+              {isOpen && (
+                <ul className="border-t border-gray-100 divide-y divide-gray-100">
+                  {group.scenarios.map(({ scenario, ok }, index) => (
+                    <li key={index} className="px-3 py-2 text-sm flex justify-between gap-4">
+                      {side === 'source' && !ok && partial.has(scenario) ? (
+                        <span className="text-yellow-700">🟡 {scenario.title}</span>
+                      ) : (
+                        <span className={ok ? 'text-gray-700' : side === 'source' ? 'text-red-700' : 'text-gray-500'}>
+                          {ok ? '✅' : side === 'source' ? '❌' : '⚪'} {scenario.title}
+                        </span>
+                      )}
+                      <span className="text-xs text-gray-400 whitespace-nowrap">
+                        {groupBy === 'feature' ? `${scenario.fileName}:` : ''}{scenario.lineNumber}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          );
+        })}
+        {visibleGroups.length === 0 && (
+          <p className="text-sm text-gray-500">Nothing matches this filter.</p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ResultsBrowser;
@@ -0,0 +1,153 @@
+import React, { useMemo, useState } from 'react';
+import {
+  parseSpreadsheetScenarios,
+  SPREADSHEET_FIELDS,
+  type ColumnMapping,
+  type SpreadsheetField,
+  type SpreadsheetTable
+} from '../../lib/spreadsheetImport';
+
+type SpreadsheetMappingWizardProps = {
+  fileName: string;
+  table: SpreadsheetTable;
+  initialMapping: ColumnMapping;
+  language?: string;
+  onConfirm: (mapping: ColumnMapping, remember: boolean) => void;
+  onCancel: () => void;
+};
+
+// Rows and converted scenarios shown as a preview
+const PREVIEW_ROWS = 5;
+const PREVIEW_SCENARIOS = 3;
+
+const SpreadsheetMappingWizard: React.FC<SpreadsheetMappingWizardProps> = ({ fileName, table, initialMapping, language, onConfirm, onCancel }) => {
+  const [mapping, setMapping] = useState<ColumnMapping>(initialMapping);
+  const [remember, setRemember] = useState(true);
+
+  const setColumn = (field: SpreadsheetField, value: string) => {
+    setMapping(current => {
+      const next = { ...current };
+      if (value === '') delete next[field];
+      else next[field] = Number(value);
+      return next;
+    });
+  };
+
+  const preview = useMemo(
+    () => parseSpreadsheetScenarios(fileName, { ...table, mapping }, language).scenarios,
+    [fileName, table, mapping, language]
+  );
+
+  const hasTitle = mapping.title !== undefined || mapping.id !== undefined;
+  const columnName = (column: number) => table.header[column] || `Column ${column + 1}`;
+  const columnCount = Math.max(table.header.length, ...table.rows.map(row => row.cells.length));
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+      <div className="absolute inset-0 bg-black bg-opacity-30" onClick={onCancel} />
+      <div className="relative w-full max-w-4xl max-h-[85vh] bg-white rounded-lg shadow-xl overflow-y-auto p-6">
+        <div className="flex justify-between items-start mb-4">
+          <div>
+            <h3 className="text-xl font-semibold text-gray-800">📊 Map spreadsheet columns</h3>
+            <p className="text-xs text-gray-400">
+              {fileName} · {table.rows.length} rows
+            </p>
+          </div>
+          <button onClick={onCancel} className="text-gray-500 hover:text-gray-700 text-2xl">
+            ×
+          </button>
+        </div>
+
+        <p className="text-sm text-gray-600 mb-4">
+          Choose the column holding each field. Every row with a title becomes a scenario; rows without one add their steps to the test case above.
+        </p>
+
+        <div className="grid grid-cols-2 md:grid-cols-3 gap-3 mb-6">
+          {SPREADSHEET_FIELDS.map(([field, label]) => (
+            <label key={field} className="text-sm text-gray-700">
+              <span className="block font-medium mb-1">{label}</span>
+              <select
+                value={mapping[field] ?? ''}
+                onChange={e => setColumn(field, e.target.value)}
+                className="w-full border border-gray-300 rounded px-2 py-1"
+              >
+                <option value="">— Not mapped —</option>
+                {Array.from({ length: columnCount }, (_, column) => (
+                  <option key={column} value={column}>
+                    {columnName(column)}
+                  </option>
+                ))}
+              </select>
+            </label>
+          ))}
+        </div>
+
+        <h4 className="text-sm font-medium text-gray-700 mb-2">First rows</h4>
+        <div className="overflow-x-auto mb-6 border border-gray-200 rounded">
+          <table className="min-w-full text-xs">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-2 py-1 text-left text-gray-500">Row</th>
+                {Array.from({ length: columnCount }, (_, column) => (
+                  <th key={column} className="px-2 py-1 text-left text-gray-700 whitespace-nowrap">
+                    {columnName(column)}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {table.rows.slice(0, PREVIEW_ROWS).map(row => (
+                <tr key={row.row} className="border-t border-gray-100 align-top">
+                  <td className="px-2 py-1 text-gray-400">{row.row}</td>
+                  {Array.from({ length: columnCount }, (_, column) => (
+                    <td key={column} className="px-2 py-1 text-gray-700 whitespace-pre-line max-w-xs">
+                      {row.cells[column] || ''}
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        <h4 className="text-sm font-medium text-gray-700 mb-2">
+          Converted scenarios ({preview.length})
+        </h4>
+        <div className="space-y-2 mb-6">
+          {!hasTitle && <p className="text-sm text-red-600">Map the Title or ID column to turn rows into scenarios.</p>}
+          {preview.slice(0, PREVIEW_SCENARIOS).map(scenario => (
+            <div key={scenario.lineNumber} className="border border-gray-200 rounded-lg p-3">
+              <div className="flex justify-between gap-3">
+                <span className="font-medium text-gray-800">{scenario.title}</span>
+                <span className="text-xs text-gray-400 whitespace-nowrap">row {scenario.lineNumber}</span>
+              </div>
+              {scenario.tags && scenario.tags.length > 0 && <div className="text-xs text-blue-600 mt-1">{scenario.tags.join(' ')}</div>}
+              <pre className="text-xs text-gray-600 mt-2 whitespace-pre-wrap">{scenario.steps.join('\n')}</pre>
+            </div>
+          ))}
+        </div>
+
+        <div className="flex justify-between items-center">
+          <label className="flex items-center gap-2 text-sm text-gray-700">
+            <input type="checkbox" checked={remember} onChange={e => setRemember(e.target.checked)} />
+            Remember this mapping for sheets with the same columns
+          </label>
+          <div className="flex gap-2">
+            <button onClick={onCancel} className="px-4 py-2 border border-gray-300 rounded text-gray-700 hover:bg-gray-50">
+              Skip file
+            </button>
+            <button
+              onClick={() => onConfirm(mapping, remember)}
+              disabled={!hasTitle}
+              className="px-4 py-2 bg-blue-600 text-white rounded hover:bg-blue-700 disabled:opacity-50"
+            >
+              Import {preview.length} scenarios
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SpreadsheetMappingWizard;
@@ -1,7 +1,27 @@
-import React from 'react';
+import React, { useEffect, useState } from 'react';
 import ReactDOM from 'react-dom/client';
 import './index.css';
 import App from './App';
+import BenchmarkPage from './components/BenchmarkPage';
+import EvaluationPage from './components/EvaluationPage';
+
+const BENCHMARK_ROUTE = '#/benchmark';
+const EVALUATION_ROUTE = '#/evaluation';
+
+// The benchmark and evaluation live on their own hash routes so they never share state with an analysis session
+const Root = () => {
+  const [hash, setHash] = useState(window.location.hash);
+
+  useEffect(() => {
+    const onHashChange = () => setHash(window.location.hash);
+    window.addEventListener('hashchange', onHashChange);
+    return () => window.removeEventListener('hashchange', onHashChange);
+  }, []);
+
+  if (hash === BENCHMARK_ROUTE) return <BenchmarkPage />;
+  if (hash === EVALUATION_ROUTE) return <EvaluationPage />;
+  return <App />;
+};
 
 const root = ReactDOM.createRoot(
   document.getElementById('root') as HTMLElement
@@ -9,6 +29,6 @@ const root = ReactDOM.createRoot(
 
 root.render(
   <React.StrictMode>
-    <App />
+    <Root />
   </React.StrictMode>
-);
\ No newline at end of file
+);
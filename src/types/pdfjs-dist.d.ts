@@ -6,3 +6,6 @@ declare module 'pdfjs-dist/build/pdf.worker.mjs?url' {
   const url: string;
   export default url;
 }
+declare module 'pdfjs-dist/legacy/build/pdf.mjs' {
+  export function getDocument(src: any): { promise: Promise<any> };
+}
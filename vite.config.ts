@@ -2,7 +2,7 @@ import { defineConfig } from 'vite'
 import react from '@vitejs/plugin-react'
 import path from 'path'
 
-export default defineConfig({
+export default defineConfig(({ isSsrBuild }) => ({
   plugins: [react()],
   resolve: {
     alias: {
@@ -12,8 +12,12 @@ export default defineConfig({
       'types': path.resolve(__dirname, './types')
     }
   },
+  build: {
+    // The SSR build is the qualiscan CLI, which has no use for the app's static assets
+    copyPublicDir: !isSsrBuild
+  },
   server: {
     port: 3000,
     open: true
   }
-})
\ No newline at end of file
+}))
\ No newline at end of file